@@ -20,7 +20,7 @@ app.use(express.json());
 const pricingService = new PricingService(prisma);
 const authService = new AuthService(prisma);
 const partnerService = new PartnerService(prisma, pricingService);
-const orderService = new OrderService(prisma, pricingService);
+const orderService = new OrderService(prisma);
 const adminService = new AdminService(prisma);
 const layoutService = new LayoutService();
 
@@ -4,6 +4,7 @@ import multipart from '@fastify/multipart';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { prisma } from 'db';
+import { AuthenticatedRequest } from './lib/auth';
 
 // Static Route Imports (Fixes the "Stuck" issue with dynamic imports)
 import authRoutes from './routes/auth';
@@ -34,7 +35,16 @@ server.register(cors, {
     origin: ['http://localhost:3000', 'http://127.0.0.1:3000'],
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Api-Key', 'X-Timestamp', 'X-Nonce', 'X-Signature'],
+    exposedHeaders: ['Idempotent-Replayed', 'Content-Disposition'],
+});
+
+// Keep the raw JSON body so signed partner requests can be verified against exactly what was sent
+const defaultJsonParser = server.getDefaultJsonParser('error', 'error');
+server.removeContentTypeParser('application/json');
+server.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    (request as AuthenticatedRequest).rawBody = body as string;
+    defaultJsonParser(request, body as string, done);
 });
 
 // Register Multipart for file uploads
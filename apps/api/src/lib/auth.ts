@@ -1,5 +1,8 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import jwt from 'jsonwebtoken';
+import { ApiKeyError, ApiKeyScope, AdminPermission, ACCESS_TOKEN_TTL, hasPermission } from '@hotbray/domain-auth';
+import { DealerUserRole } from 'db';
+import { apiKeyService, dealerUserService, sessionService } from './services';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
 
@@ -7,12 +10,20 @@ export interface JWTPayload {
     userId: string;
     email: string;
     role: string;
+    adminRole?: string; // SUPER_ADMIN, ADMIN or OPS for admin users
     dealerAccountId?: string;
     dealerUserId?: string;
+    apiKeyId?: string; // Set when the request was signed with a dealer API key
+    sessionId?: string; // AuthSession the access token belongs to; revoking it ends the token early
+    mustChangePassword?: boolean; // Signed in with an admin-generated password that has not been replaced yet
 }
 
+// Matched by the web client, which sends the user to choose a password
+export const PASSWORD_CHANGE_REQUIRED = 'Password change required';
+
 export interface AuthenticatedRequest extends FastifyRequest {
     user?: JWTPayload;
+    rawBody?: string; // JSON body as received, for signature checks
 }
 
 /**
@@ -28,17 +39,17 @@ export function verifyToken(token: string): JWTPayload {
 }
 
 /**
- * Generate JWT token
+ * Generate a short-lived access token (ACCESS_TOKEN_TTL, 15 minutes by default) for a session
  */
 export function generateToken(payload: JWTPayload): string {
     return jwt.sign(payload, JWT_SECRET, {
-        expiresIn: '24h'
+        expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn']
     });
 }
 
 /**
  * Fastify hook to require authentication
- * Checks Authorization header for Bearer token
+ * Checks Authorization header for Bearer token, and that the token's session is still active
  */
 export async function requireAuth(request: AuthenticatedRequest, reply: FastifyReply) {
     try {
@@ -54,6 +65,22 @@ export async function requireAuth(request: AuthenticatedRequest, reply: FastifyR
         const token = authHeader.substring(7); // Remove 'Bearer ' prefix
         const decoded = verifyToken(token);
 
+        // Signed out, deactivated or forced out since the token was issued
+        if (!decoded.sessionId || !(await sessionService.isActive(decoded.sessionId))) {
+            return reply.status(401).send({
+                error: 'Unauthorized',
+                message: 'Session has ended, please sign in again'
+            });
+        }
+
+        // Until an admin-generated password is replaced, only /auth/change-password accepts the token
+        if (decoded.mustChangePassword) {
+            return reply.status(403).send({
+                error: 'Forbidden',
+                message: PASSWORD_CHANGE_REQUIRED
+            });
+        }
+
         // Attach user to request
         request.user = decoded;
     } catch (error) {
@@ -87,3 +114,90 @@ export function requireRole(...allowedRoles: string[]) {
         }
     };
 }
+
+/**
+ * Fastify hook to require an admin whose admin role grants `permission`
+ */
+export function requirePermission(permission: AdminPermission) {
+    return async (request: AuthenticatedRequest, reply: FastifyReply) => {
+        await requireRole('ADMIN')(request, reply);
+        if (reply.sent) return;
+
+        if (!hasPermission(request.user!.adminRole, permission)) {
+            return reply.status(403).send({
+                error: 'Forbidden',
+                message: `Access denied. Required permission: ${permission}`
+            });
+        }
+    };
+}
+
+/**
+ * Fastify hook, after requireAuth or requireDealerAccess, limiting a dealer route to users with one of `roles`.
+ * The primary user passes any role check, and is the only one to pass with no roles.
+ * Role and active state are read from the database so changes apply at once.
+ */
+export function requireDealerRole(...roles: DealerUserRole[]) {
+    return async (request: AuthenticatedRequest, reply: FastifyReply) => {
+        const access = request.user?.dealerUserId ? await dealerUserService.access(request.user.dealerUserId) : null;
+
+        if (!access?.isActive) {
+            return reply.status(401).send({
+                error: 'Unauthorized',
+                message: 'Account is inactive'
+            });
+        }
+
+        if (!access.isPrimary && !roles.includes(access.role)) {
+            return reply.status(403).send({
+                error: 'Forbidden',
+                message: `Access denied. Required dealer roles: ${roles.join(', ')}`
+            });
+        }
+    };
+}
+
+/**
+ * Fastify hook for routes partners can call: an HMAC-signed request with a dealer API key that has
+ * `scope`, or a Bearer token as for requireAuth. The key acts as its account's primary dealer user,
+ * so entitlement and pricing are exactly those of the dealer logged in.
+ */
+export function requireDealerAccess(scope: ApiKeyScope) {
+    return async (request: AuthenticatedRequest, reply: FastifyReply) => {
+        if (!request.headers['x-api-key']) {
+            return requireAuth(request, reply);
+        }
+
+        const header = (name: string) => {
+            const value = request.headers[name];
+            return Array.isArray(value) ? value[0] : value;
+        };
+
+        try {
+            const principal = await apiKeyService.verify({
+                apiKey: header('x-api-key'),
+                timestamp: header('x-timestamp'),
+                nonce: header('x-nonce'),
+                signature: header('x-signature'),
+                method: request.method,
+                path: request.url,
+                body: request.rawBody ?? ''
+            }, scope);
+
+            request.user = {
+                userId: principal.userId,
+                email: principal.email,
+                role: 'DEALER',
+                dealerAccountId: principal.dealerAccountId,
+                dealerUserId: principal.dealerUserId,
+                apiKeyId: principal.apiKeyId
+            };
+        } catch (error) {
+            if (!(error instanceof ApiKeyError)) throw error;
+            return reply.status(error.statusCode).send({
+                error: error.statusCode === 401 ? 'Unauthorized' : 'Forbidden',
+                message: error.message
+            });
+        }
+    };
+}
@@ -0,0 +1,46 @@
+import { FastifyReply } from 'fastify';
+import { IDEMPOTENCY_KEY_HEADER, IdempotencyConflictError, IdempotencyService, IdempotentResponse } from '@hotbray/domain-orders';
+import { AuthenticatedRequest } from './auth';
+import { idempotencyService } from './services';
+
+/**
+ * Send the handler's response, running it at most once per Idempotency-Key for the dealer account.
+ * Without the header the handler just runs; errors it throws are left to the route to map.
+ */
+export async function sendIdempotent<T>(
+    request: AuthenticatedRequest,
+    reply: FastifyReply,
+    handler: () => Promise<IdempotentResponse<T>>
+): Promise<FastifyReply> {
+    const header = request.headers[IDEMPOTENCY_KEY_HEADER];
+    const key = Array.isArray(header) ? header[0] : header;
+
+    if (key === undefined) {
+        const response = await handler();
+        return reply.status(response.status).send(response.body);
+    }
+
+    const invalid = IdempotencyService.validateKey(key);
+    if (invalid) {
+        return reply.status(400).send({ error: 'Bad Request', message: invalid });
+    }
+
+    try {
+        const response = await idempotencyService.run({
+            ownerId: request.user!.dealerAccountId!,
+            key,
+            route: `${request.method} ${request.routeOptions.url}`,
+            body: request.rawBody ?? ''
+        }, handler);
+
+        if (response.replayed) {
+            reply.header('Idempotent-Replayed', 'true');
+        }
+        return reply.status(response.status).send(response.body);
+    } catch (error) {
+        if (error instanceof IdempotencyConflictError) {
+            return reply.status(409).send({ error: 'Conflict', message: error.message });
+        }
+        throw error;
+    }
+}
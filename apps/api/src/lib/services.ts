@@ -1,10 +1,43 @@
-import { prisma } from 'db';
+import { prisma, OrderNumberService, BackorderRetentionService, PasswordPolicyService } from 'db';
+import { OrderPipeline, IdempotencyService, ErpExportService } from '@hotbray/domain-orders';
+import { ApiKeyService, SessionService, PasswordService } from '@hotbray/domain-auth';
+import { EmailService, EmailOutbox, OrderPdfService } from 'shared';
 import { ruleEngine } from './ruleEngine';
 import { DealerService } from '../services/DealerService';
 import { CartService } from '../services/CartService';
 import { OrderService } from '../services/OrderService';
+import { SupersessionService } from '../services/SupersessionService';
+import { ImportJobService } from '../services/ImportJobService';
+import { ImportDiffService } from '../services/ImportDiffService';
+import { TemplateService } from '../services/TemplateService';
+import { DealerPriceService } from '../services/DealerPriceService';
+import { BackorderDiffService } from '../services/BackorderDiffService';
+import { EmailTemplateService } from '../services/EmailTemplateService';
+import { DealerUserService } from '../services/DealerUserService';
+import { OrderApprovalService } from '../services/OrderApprovalService';
 
 // Initialize services with dependencies
-export const dealerService = new DealerService(prisma, ruleEngine.pricing);
-export const cartService = new CartService(prisma, ruleEngine.pricing);
-export const orderService = new OrderService(prisma, ruleEngine.pricing, ruleEngine.orders);
+export const emailOutbox = new EmailOutbox(prisma);
+export const emailService = new EmailService(prisma, emailOutbox);
+export const orderNumberService = new OrderNumberService(prisma);
+export const supersessionService = new SupersessionService(prisma, ruleEngine.pricing, ruleEngine.supersessions);
+export const dealerService = new DealerService(prisma, ruleEngine.pricing, supersessionService);
+export const sessionService = new SessionService(prisma);
+export const passwordPolicyService = new PasswordPolicyService(prisma);
+export const passwordService = new PasswordService(prisma, sessionService, passwordPolicyService);
+export const dealerUserService = new DealerUserService(prisma, sessionService);
+export const cartService = new CartService(prisma, ruleEngine.pricing, supersessionService);
+export const orderPipeline = new OrderPipeline(prisma, ruleEngine.pricing, ruleEngine.orders, ruleEngine.inventory, orderNumberService);
+export const orderService = new OrderService(prisma, ruleEngine.orders, ruleEngine.inventory, orderPipeline, emailService);
+export const orderApprovalService = new OrderApprovalService(prisma, ruleEngine.pricing, ruleEngine.orders, orderPipeline, emailService);
+export const importJobService = new ImportJobService(prisma);
+export const importDiffService = new ImportDiffService(prisma);
+export const templateService = new TemplateService(prisma);
+export const dealerPriceService = new DealerPriceService(prisma);
+export const backorderDiffService = new BackorderDiffService(prisma);
+export const backorderRetentionService = new BackorderRetentionService(prisma);
+export const idempotencyService = new IdempotencyService(prisma);
+export const apiKeyService = new ApiKeyService(prisma);
+export const erpExportService = new ErpExportService(prisma, ErpExportService.connectorFromEnv());
+export const emailTemplateService = new EmailTemplateService(prisma, emailService);
+export const orderPdfService = new OrderPdfService(prisma);
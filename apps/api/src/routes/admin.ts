@@ -1,13 +1,15 @@
 import { FastifyInstance } from 'fastify';
-import { prisma, UserRole, DealerStatus, Entitlement, PartType, ActorType, ImportType, ImportStatus } from 'db';
+import { prisma, Prisma, UserRole, AdminRole, DealerStatus, DealerUserRole, Entitlement, PartType, ActorType, ImportType, ImportStatus, PriceRuleType, ErpExportStatus, EmailStatus, OrderNumberService, ORDER_NUMBER_FORMATS_KEY, BACKORDER_RETENTION_KEY, MIN_BACKORDER_SNAPSHOTS, MAX_BACKORDER_SNAPSHOTS, PASSWORD_POLICY_KEY, PASSWORD_POLICY_LIMITS } from 'db';
 import { z } from 'zod';
 import * as bcrypt from 'bcrypt';
-import { requireRole, AuthenticatedRequest } from '../lib/auth';
-import { EmailService, DealerCreateSchema } from 'shared';
+import { requirePermission, AuthenticatedRequest } from '../lib/auth';
+import { DealerCreateSchema, EMAIL_TEMPLATE_KEYS, ORDER_DOCUMENT_TYPES, normalizeEmail } from 'shared';
 import * as fs from 'fs';
 import * as path from 'path';
 import { pipeline } from 'stream/promises';
 import { createHash } from 'crypto';
+import { API_KEY_SCOPES, hasPermission } from '@hotbray/domain-auth';
+import { dealerUserService, importJobService, importDiffService, templateService, dealerPriceService, orderService, orderNumberService, apiKeyService, erpExportService, backorderDiffService, backorderRetentionService, emailService, emailOutbox, emailTemplateService, orderPdfService, sessionService, passwordService, passwordPolicyService } from '../lib/services';
 
 const SALT_ROUNDS = 10;
 
@@ -24,6 +26,14 @@ function generateSecurePassword(): string {
     return retVal;
 }
 
+/**
+ * Admin accounts (and making a user an admin) need admins.manage on top of users.manage
+ */
+function canManageUser(request: AuthenticatedRequest, target: { role: UserRole }, changes: { role?: UserRole; adminRole?: AdminRole } = {}): boolean {
+    const touchesAdmin = target.role === UserRole.ADMIN || changes.role === UserRole.ADMIN || changes.adminRole !== undefined;
+    return !touchesAdmin || hasPermission(request.user!.adminRole, 'admins.manage');
+}
+
 // Zod Schemas for validation
 const CreateDealerSchema = DealerCreateSchema.extend({
     erpAccountNo: z.string().optional(),
@@ -50,14 +60,14 @@ const ListDealersSchema = z.object({
 const CreateAdminUserSchema = z.object({
     email: z.string().email(),
     password: z.string().min(8),
-    adminRole: z.enum(['SUPER_ADMIN', 'ADMIN', 'OPS'])
+    adminRole: z.nativeEnum(AdminRole)
 });
 
 const UpdateUserSchema = z.object({
     email: z.string().email().optional(),
     role: z.nativeEnum(UserRole).optional(),
     isActive: z.boolean().optional(),
-    adminRole: z.enum(['SUPER_ADMIN', 'ADMIN', 'OPS']).optional()
+    adminRole: z.nativeEnum(AdminRole).optional()
 });
 
 const ListUsersSchema = z.object({
@@ -67,13 +77,198 @@ const ListUsersSchema = z.object({
     limit: z.coerce.number().optional().default(10)
 });
 
-export default async function adminRoutes(server: FastifyInstance) {
-    const emailService = new EmailService(prisma);
+// mappingJson/validationJson shapes are checked by ColumnMappingRules
+const TemplateMappingSchema = z.object({
+    mappingJson: z.unknown().optional(),
+    validationJson: z.unknown().optional(),
+    fileType: z.enum(['CSV', 'XLSX']).optional(),
+    delimiter: z.string().max(1).nullable().optional(),
+    hasHeader: z.boolean().optional()
+});
+
+const CreateApiKeySchema = z.object({
+    name: z.string().min(1).max(100),
+    scopes: z.array(z.enum(API_KEY_SCOPES)).min(1)
+});
+
+const RotateApiKeySchema = z.object({
+    // How long the old key keeps working; 0 cuts it off immediately
+    graceHours: z.number().int().min(0).max(24 * 14).optional().default(24)
+});
+
+const DealerPriceSchema = z.object({
+    productCode: z.string().min(1),
+    netPrice: z.number().min(0),
+    validFrom: z.coerce.date().nullable().optional(),
+    validTo: z.coerce.date().nullable().optional(),
+    waiveMinimumPrice: z.boolean().optional(),
+    note: z.string().nullable().optional()
+});
+
+const UpdateDealerPriceSchema = DealerPriceSchema.partial();
+
+const PriceRuleBaseSchema = z.object({
+    ruleType: z.nativeEnum(PriceRuleType),
+    name: z.string().min(1),
+    productId: z.string().nullable().optional(),
+    discountCode: z.string().nullable().optional(),
+    supplier: z.string().nullable().optional(),
+    partType: z.nativeEnum(PartType).nullable().optional(),
+    dealerAccountId: z.string().nullable().optional(),
+    minQty: z.number().int().min(1).optional(),
+    fixedPrice: z.number().min(0).nullable().optional(),
+    discountPercent: z.number().gt(0).max(100).nullable().optional(),
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+    priority: z.number().int().optional(),
+    isActive: z.boolean().optional()
+});
+
+type PriceRuleInput = Partial<z.infer<typeof PriceRuleBaseSchema>>;
+
+// Shape checks shared by create and update (update checks the merged rule)
+function priceRuleProblems(rule: PriceRuleInput): string[] {
+    const problems: string[] = [];
+    const hasFixed = rule.fixedPrice != null;
+    const hasPercent = rule.discountPercent != null;
+    if (hasFixed === hasPercent) {
+        problems.push('Set exactly one of fixedPrice or discountPercent');
+    }
+    if (rule.ruleType === PriceRuleType.CONTRACT && !rule.dealerAccountId) {
+        problems.push('Contract prices need a dealerAccountId');
+    }
+    if (rule.ruleType === PriceRuleType.QUANTITY_BREAK && !rule.productId && !rule.discountCode) {
+        problems.push('Quantity breaks need a productId or discountCode');
+    }
+    if (rule.startsAt && rule.endsAt && rule.startsAt >= rule.endsAt) {
+        problems.push('endsAt must be after startsAt');
+    }
+    return problems;
+}
+
+const CreatePriceRuleSchema = PriceRuleBaseSchema.superRefine((rule, ctx) => {
+    priceRuleProblems(rule).forEach(message => ctx.addIssue({ code: z.ZodIssueCode.custom, message }));
+});
+
+const UpdatePriceRuleSchema = PriceRuleBaseSchema.partial();
+
+const ListPriceRulesSchema = z.object({
+    ruleType: z.nativeEnum(PriceRuleType).optional(),
+    productId: z.string().optional(),
+    dealerAccountId: z.string().optional(),
+    includeInactive: z.coerce.boolean().optional().default(false)
+});
+
+const ListErpExportsSchema = z.object({
+    status: z.nativeEnum(ErpExportStatus).optional(),
+    page: z.coerce.number().int().min(1).optional().default(1),
+    limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+const BackorderDiffSchema = z.object({
+    from: z.string().uuid().optional(),
+    to: z.string().uuid().optional(),
+    accountNo: z.string().min(1).optional()
+});
+
+const BackorderRetentionSchema = z.object({
+    snapshots: z.number().int().min(MIN_BACKORDER_SNAPSHOTS).max(MAX_BACKORDER_SNAPSHOTS)
+});
 
+const PasswordPolicySchema = z.object({
+    minLength: z.number().int().min(PASSWORD_POLICY_LIMITS.minLength.min).max(PASSWORD_POLICY_LIMITS.minLength.max),
+    requireUppercase: z.boolean(),
+    requireLowercase: z.boolean(),
+    requireNumber: z.boolean(),
+    requireSymbol: z.boolean(),
+    historyCount: z.number().int().min(PASSWORD_POLICY_LIMITS.historyCount.min).max(PASSWORD_POLICY_LIMITS.historyCount.max),
+    resetTokenTtlMinutes: z.number().int().min(PASSWORD_POLICY_LIMITS.resetTokenTtlMinutes.min).max(PASSWORD_POLICY_LIMITS.resetTokenTtlMinutes.max)
+});
+
+const EmailTemplateKeySchema = z.object({
+    key: z.enum(EMAIL_TEMPLATE_KEYS)
+});
+
+const EmailTemplateContentSchema = z.object({
+    subject: z.string().min(1).max(300),
+    bodyHtml: z.string().min(1),
+    bodyText: z.string().min(1)
+});
+
+const CreateEmailTemplateVersionSchema = EmailTemplateContentSchema.extend({
+    notes: z.string().max(500).optional(),
+    activate: z.boolean().optional().default(false)
+});
+
+const ActivateEmailTemplateSchema = z.object({
+    version: z.number().int().positive().nullable() // null = back to the built-in version
+});
+
+const EmailTemplatePreviewSchema = z.object({
+    sourceId: z.string().uuid(),
+    version: z.number().int().positive().optional(),
+    content: EmailTemplateContentSchema.optional()
+});
+
+const EmailTemplateTestSchema = EmailTemplatePreviewSchema.extend({
+    to: z.string().email()
+});
+
+const ListEmailLogsSchema = z.object({
+    search: z.string().trim().min(1).optional(),
+    status: z.nativeEnum(EmailStatus).optional(),
+    templateKey: z.string().optional(),
+    page: z.coerce.number().int().min(1).optional().default(1),
+    limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+const OrderPdfQuerySchema = z.object({
+    document: z.enum(ORDER_DOCUMENT_TYPES).optional().default('CONFIRMATION')
+});
+
+const OrderNumberFormatSchema = z.object({
+    prefix: z.string().max(20),
+    format: z.string().min(1).max(60)
+});
+
+const OrderNumberFormatsSchema = z.object({
+    WEB: OrderNumberFormatSchema.optional(),
+    ADMIN: OrderNumberFormatSchema.optional(),
+    EDI: OrderNumberFormatSchema.optional()
+});
+
+// Dealer users with the primary user first, so users[0] is the account's main login
+const PRIMARY_FIRST = [{ isPrimary: 'desc' as const }, { createdAt: 'asc' as const }];
+
+const InviteDealerUserSchema = z.object({
+    email: z.string().email(),
+    firstName: z.string().max(100).optional(),
+    lastName: z.string().max(100).optional(),
+    role: z.nativeEnum(DealerUserRole).optional().default(DealerUserRole.BUYER)
+});
+
+const UpdateDealerUserSchema = z.object({
+    firstName: z.string().max(100).nullable().optional(),
+    lastName: z.string().max(100).nullable().optional(),
+    role: z.nativeEnum(DealerUserRole).optional(),
+    isActive: z.boolean().optional(),
+    orderLimit: z.number().nonnegative().max(9999999999).nullable().optional(), // Null removes the limit
+    isPrimary: z.literal(true).optional()
+});
+
+// UploadTemplate.importType that can be used for each ImportBatch type
+const TEMPLATE_IMPORT_TYPES: Partial<Record<ImportType, string>> = {
+    [ImportType.PRODUCTS_GENUINE]: 'PRODUCTS',
+    [ImportType.PRODUCTS_AFTERMARKET]: 'PRODUCTS',
+    [ImportType.BACKORDERS]: 'BACKORDERS',
+    [ImportType.DEALER_PRICES]: 'DEALER_PRICES'
+};
+
+export default async function adminRoutes(server: FastifyInstance) {
     /**
      * POST /admin/dealers - Create a new dealer
      */
-    server.post('/dealers', { preHandler: requireRole('ADMIN') }, async (request: AuthenticatedRequest, reply) => {
+    server.post('/dealers', { preHandler: requirePermission('dealers.write') }, async (request: AuthenticatedRequest, reply) => {
         const data = CreateDealerSchema.parse(request.body);
 
         // 1. Check uniqueness
@@ -118,6 +313,7 @@ export default async function adminRoutes(server: FastifyInstance) {
                 data: {
                     email: data.email,
                     passwordHash,
+                    mustChangePassword: true,
                     role: UserRole.DEALER,
                     isActive: data.status === DealerStatus.ACTIVE
                 }
@@ -198,7 +394,7 @@ export default async function adminRoutes(server: FastifyInstance) {
     /**
      * GET /admin/dealers - List all dealers (paginated)
      */
-    server.get('/dealers', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.get('/dealers', { preHandler: requirePermission('dealers.read') }, async (request, reply) => {
         const query = ListDealersSchema.parse(request.query);
         const skip = (query.page - 1) * query.limit;
 
@@ -217,6 +413,7 @@ export default async function adminRoutes(server: FastifyInstance) {
                 where,
                 include: {
                     users: {
+                        orderBy: PRIMARY_FIRST,
                         include: { user: { select: { email: true, lastLoginAt: true, isActive: true } } }
                     }
                 },
@@ -241,13 +438,14 @@ export default async function adminRoutes(server: FastifyInstance) {
     /**
      * GET /admin/dealers/:id - Get single dealer
      */
-    server.get('/dealers/:id', { preHandler: requireRole('ADMIN') }, async (request: any, reply) => {
+    server.get('/dealers/:id', { preHandler: requirePermission('dealers.read') }, async (request: any, reply) => {
         const { id } = request.params;
 
         const dealer = await prisma.dealerAccount.findUnique({
             where: { id },
             include: {
                 users: {
+                    orderBy: PRIMARY_FIRST,
                     include: { user: { select: { email: true, lastLoginAt: true, isActive: true, createdAt: true } } }
                 },
                 bandAssignments: true,
@@ -268,14 +466,14 @@ export default async function adminRoutes(server: FastifyInstance) {
     /**
      * PATCH /admin/dealers/:id - Update dealer
      */
-    server.patch('/dealers/:id', { preHandler: requireRole('ADMIN') }, async (request: AuthenticatedRequest, reply) => {
-        const { id } = request.params as any;
+    server.patch('/dealers/:id', { preHandler: requirePermission('dealers.write') }, async (request: AuthenticatedRequest, reply) => {
+        const { id } = request.params as { id: string };
         const data = UpdateDealerSchema.parse(request.body);
 
         const currentDealer = await prisma.dealerAccount.findUnique({
             where: { id },
             include: {
-                users: { include: { user: true } },
+                users: { orderBy: PRIMARY_FIRST, include: { user: true } },
                 bandAssignments: true
             }
         });
@@ -304,10 +502,10 @@ export default async function adminRoutes(server: FastifyInstance) {
                 }
             });
 
-            // Update associated User's isActive if status changed
-            if (data.status && currentDealer.users[0]?.user) {
-                await tx.appUser.update({
-                    where: { id: currentDealer.users[0].userId },
+            // Every login on the account follows the dealer status
+            if (data.status) {
+                await tx.appUser.updateMany({
+                    where: { dealerUser: { dealerAccountId: id } },
                     data: { isActive: data.status === DealerStatus.ACTIVE }
                 });
             }
@@ -375,18 +573,23 @@ export default async function adminRoutes(server: FastifyInstance) {
             });
         });
 
+        // Suspending or deactivating the account signs out every login on it
+        if (data.status && data.status !== DealerStatus.ACTIVE && data.status !== currentDealer.status) {
+            await sessionService.revokeDealer(id, data.status === DealerStatus.SUSPENDED ? 'DEALER_SUSPENDED' : 'DEACTIVATED');
+        }
+
         return { message: 'Dealer updated successfully' };
     });
 
     /**
      * POST /admin/dealers/:id/reset-password - Reset password
      */
-    server.post('/dealers/:id/reset-password', { preHandler: requireRole('ADMIN') }, async (request: AuthenticatedRequest, reply) => {
-        const { id } = request.params as any;
+    server.post('/dealers/:id/reset-password', { preHandler: requirePermission('dealers.write') }, async (request: AuthenticatedRequest, reply) => {
+        const { id } = request.params as { id: string };
 
         const dealer = await prisma.dealerAccount.findUnique({
             where: { id },
-            include: { users: { include: { user: true } } }
+            include: { users: { orderBy: PRIMARY_FIRST, include: { user: true } } }
         });
 
         if (!dealer || dealer.users.length === 0) {
@@ -395,26 +598,23 @@ export default async function adminRoutes(server: FastifyInstance) {
 
         const primaryUser = dealer.users[0];
         const newPassword = generateSecurePassword();
-        const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
 
-        await prisma.$transaction(async (tx) => {
-            await tx.appUser.update({
-                where: { id: primaryUser.userId },
-                data: { passwordHash }
-            });
+        // The dealer has to choose their own password when they sign in with this one
+        await passwordService.setTemporary(primaryUser.userId, newPassword);
 
-            await tx.auditLog.create({
-                data: {
-                    actorType: ActorType.ADMIN,
-                    actorUserId: request.user!.userId,
-                    action: 'RESET_PASSWORD',
-                    entityType: 'USER',
-                    entityId: primaryUser.userId,
-                    afterJson: { dealerAccountId: id }
-                }
-            });
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: request.user!.userId,
+                action: 'RESET_PASSWORD',
+                entityType: 'USER',
+                entityId: primaryUser.userId,
+                afterJson: { dealerAccountId: id }
+            }
         });
 
+        await sessionService.revokeAll(primaryUser.userId, 'PASSWORD_RESET');
+
         await emailService.sendPasswordResetEmail(primaryUser.user.email, primaryUser.firstName || 'Dealer', newPassword);
 
         return { message: 'Password reset successfully' };
@@ -423,13 +623,10 @@ export default async function adminRoutes(server: FastifyInstance) {
     /**
      * DELETE /admin/dealers/:id - Soft delete
      */
-    server.delete('/dealers/:id', { preHandler: requireRole('ADMIN') }, async (request: AuthenticatedRequest, reply) => {
-        const { id } = request.params as any;
+    server.delete('/dealers/:id', { preHandler: requirePermission('dealers.write') }, async (request: AuthenticatedRequest, reply) => {
+        const { id } = request.params as { id: string };
 
-        const dealer = await prisma.dealerAccount.findUnique({
-            where: { id },
-            include: { users: true }
-        });
+        const dealer = await prisma.dealerAccount.findUnique({ where: { id } });
         if (!dealer) {
             return reply.status(404).send({ error: 'Not Found', message: 'Dealer not found' });
         }
@@ -440,12 +637,10 @@ export default async function adminRoutes(server: FastifyInstance) {
                 data: { status: DealerStatus.INACTIVE }
             });
 
-            if (dealer.users[0]) {
-                await tx.appUser.update({
-                    where: { id: dealer.users[0].userId },
-                    data: { isActive: false }
-                });
-            }
+            await tx.appUser.updateMany({
+                where: { dealerUser: { dealerAccountId: id } },
+                data: { isActive: false }
+            });
 
             await tx.auditLog.create({
                 data: {
@@ -459,15 +654,286 @@ export default async function adminRoutes(server: FastifyInstance) {
             });
         });
 
+        await sessionService.revokeDealer(id, 'DEACTIVATED');
+
         return { message: 'Dealer deactivated successfully' };
     });
 
+    /**
+     * DEALER USERS
+     */
+
+    // GET /admin/dealers/:id/users - Logins on a dealer account, primary first
+    server.get('/dealers/:id/users', { preHandler: requirePermission('dealers.read') }, async (request) => {
+        const { id } = request.params as { id: string };
+        return { users: await dealerUserService.list(id) };
+    });
+
+    // POST /admin/dealers/:id/users - Add a login to a dealer account; they are emailed a password
+    server.post('/dealers/:id/users', { preHandler: requirePermission('dealers.write') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = InviteDealerUserSchema.parse(request.body);
+
+        try {
+            const { user, password } = await dealerUserService.invite(id, data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'INVITE_DEALER_USER',
+                    entityType: 'DEALER_USER',
+                    entityId: user.id,
+                    afterJson: { dealerAccountId: id, email: user.email, role: user.role }
+                }
+            });
+
+            try {
+                await emailService.sendWelcomeEmail(user.email, user.firstName || 'Dealer', password);
+            } catch (err) {
+                server.log.error(err, `Email failed for new dealer user ${user.email}:`);
+            }
+
+            return reply.status(201).send(user);
+        } catch (error: any) {
+            if (error.message === 'Dealer not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // PATCH /admin/dealers/:id/users/:userId - Change a dealer user's name, role or active state, or make them the primary user
+    server.patch('/dealers/:id/users/:userId', { preHandler: requirePermission('dealers.write') }, async (request, reply) => {
+        const { id, userId } = request.params as { id: string; userId: string };
+        const { isPrimary, ...changes } = UpdateDealerUserSchema.parse(request.body);
+        if (isPrimary && changes.isActive === false) {
+            return reply.status(400).send({ error: 'Bad Request', message: 'The primary user cannot be deactivated' });
+        }
+
+        try {
+            let { before, after } = await dealerUserService.update(id, userId, changes);
+            if (isPrimary && !after.isPrimary) {
+                after = await dealerUserService.makePrimary(id, userId);
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_DEALER_USER',
+                    entityType: 'DEALER_USER',
+                    entityId: userId,
+                    beforeJson: { role: before.role, isActive: before.isActive, isPrimary: before.isPrimary, orderLimit: before.orderLimit, firstName: before.firstName, lastName: before.lastName },
+                    afterJson: { role: after.role, isActive: after.isActive, isPrimary: after.isPrimary, orderLimit: after.orderLimit, firstName: after.firstName, lastName: after.lastName }
+                }
+            });
+
+            return after;
+        } catch (error: any) {
+            if (error.message === 'Dealer user not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * DEALER PRICE OVERRIDES
+     */
+
+    // GET /admin/dealers/:id/prices - List a dealer's net price overrides
+    server.get('/dealers/:id/prices', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            return { prices: await dealerPriceService.list(id) };
+        } catch (error: any) {
+            return reply.status(404).send({ error: 'Not Found', message: error.message });
+        }
+    });
+
+    // POST /admin/dealers/:id/prices - Add a net price override
+    server.post('/dealers/:id/prices', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = DealerPriceSchema.parse(request.body);
+
+        try {
+            const override = await dealerPriceService.create(id, data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'CREATE_DEALER_PRICE',
+                    entityType: 'DEALER_PRICE_OVERRIDE',
+                    entityId: override.id,
+                    afterJson: { dealerAccountId: id, ...data } as Prisma.InputJsonValue
+                }
+            });
+
+            return reply.status(201).send(override);
+        } catch (error: any) {
+            if (error.message.endsWith('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // PATCH /admin/dealers/:id/prices/:priceId - Update a net price override
+    server.patch('/dealers/:id/prices/:priceId', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const { id, priceId } = request.params as { id: string; priceId: string };
+        const data = UpdateDealerPriceSchema.parse(request.body);
+
+        try {
+            const override = await dealerPriceService.update(id, priceId, data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_DEALER_PRICE',
+                    entityType: 'DEALER_PRICE_OVERRIDE',
+                    entityId: priceId,
+                    afterJson: { dealerAccountId: id, ...data } as Prisma.InputJsonValue
+                }
+            });
+
+            return override;
+        } catch (error: any) {
+            if (error.message.endsWith('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // DELETE /admin/dealers/:id/prices/:priceId - Remove a net price override
+    server.delete('/dealers/:id/prices/:priceId', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const { id, priceId } = request.params as { id: string; priceId: string };
+
+        try {
+            const override = await dealerPriceService.delete(id, priceId);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'DELETE_DEALER_PRICE',
+                    entityType: 'DEALER_PRICE_OVERRIDE',
+                    entityId: priceId,
+                    beforeJson: JSON.parse(JSON.stringify(override))
+                }
+            });
+
+            return { message: 'Price override deleted successfully' };
+        } catch (error: any) {
+            return reply.status(404).send({ error: 'Not Found', message: error.message });
+        }
+    });
+
+    /**
+     * DEALER API KEYS
+     */
+
+    // GET /admin/dealers/:id/api-keys - List a dealer's API keys (secrets are never returned again)
+    server.get('/dealers/:id/api-keys', { preHandler: requirePermission('dealers.read') }, async (request) => {
+        const { id } = request.params as { id: string };
+        return { keys: await apiKeyService.list(id), scopes: API_KEY_SCOPES };
+    });
+
+    // POST /admin/dealers/:id/api-keys - Issue an API key; the key and signing secret are only shown in this response
+    server.post('/dealers/:id/api-keys', { preHandler: requirePermission('dealers.write') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = CreateApiKeySchema.parse(request.body);
+        const actorUserId = (request as AuthenticatedRequest).user!.userId;
+
+        try {
+            const credentials = await apiKeyService.create(id, data.name, data.scopes, actorUserId);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId,
+                    action: 'CREATE_API_KEY',
+                    entityType: 'DEALER_API_KEY',
+                    entityId: credentials.key.id,
+                    afterJson: { dealerAccountId: id, keyId: credentials.key.keyId, ...data }
+                }
+            });
+
+            return reply.status(201).send(credentials);
+        } catch (error: any) {
+            if (error.message.endsWith('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/dealers/:id/api-keys/:keyId/rotate - Replace a key, keeping the old one valid for a grace period
+    server.post('/dealers/:id/api-keys/:keyId/rotate', { preHandler: requirePermission('dealers.write') }, async (request, reply) => {
+        const { id, keyId } = request.params as { id: string; keyId: string };
+        const data = RotateApiKeySchema.parse(request.body ?? {});
+        const actorUserId = (request as AuthenticatedRequest).user!.userId;
+
+        try {
+            const credentials = await apiKeyService.rotate(id, keyId, data.graceHours, actorUserId);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId,
+                    action: 'ROTATE_API_KEY',
+                    entityType: 'DEALER_API_KEY',
+                    entityId: keyId,
+                    afterJson: { dealerAccountId: id, replacedById: credentials.key.id, keyId: credentials.key.keyId, ...data }
+                }
+            });
+
+            return reply.status(201).send(credentials);
+        } catch (error: any) {
+            if (error.message.endsWith('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/dealers/:id/api-keys/:keyId/revoke - Stop a key working immediately
+    server.post('/dealers/:id/api-keys/:keyId/revoke', { preHandler: requirePermission('dealers.write') }, async (request, reply) => {
+        const { id, keyId } = request.params as { id: string; keyId: string };
+
+        try {
+            const key = await apiKeyService.revoke(id, keyId);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'REVOKE_API_KEY',
+                    entityType: 'DEALER_API_KEY',
+                    entityId: keyId,
+                    afterJson: { dealerAccountId: id, keyId: key.keyId, revokedAt: key.revokedAt }
+                }
+            });
+
+            return key;
+        } catch (error: any) {
+            if (error.message.endsWith('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
     /**
      * TEMPLATE MANAGEMENT
      */
 
     // GET /admin/templates - List all active templates
-    server.get('/templates', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.get('/templates', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
         const templates = await prisma.uploadTemplate.findMany({
             where: { isActive: true },
             orderBy: { createdAt: 'desc' }
@@ -480,8 +946,8 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // GET /admin/templates/:id/download - Download template file
-    server.get('/templates/:id/download', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.get('/templates/:id/download', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
         const template = await prisma.uploadTemplate.findUnique({ where: { id } });
 
         if (!template || !template.isActive) {
@@ -500,7 +966,7 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // POST /admin/templates - Create/upload new template
-    server.post('/templates', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.post('/templates', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
         const data = await (request as any).file();
         if (!data) {
             return reply.status(400).send({ error: 'Bad Request', message: 'No file uploaded' });
@@ -549,8 +1015,8 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // DELETE /admin/templates/:id - Deactivate template
-    server.delete('/templates/:id', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.delete('/templates/:id', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
 
         const template = await prisma.uploadTemplate.findUnique({ where: { id } });
         if (!template) {
@@ -576,58 +1042,245 @@ export default async function adminRoutes(server: FastifyInstance) {
         return { message: 'Template deactivated successfully' };
     });
 
-    /**
-     * IMPORT HISTORY & MANAGEMENT
-     */
+    // GET /admin/templates/:id/mapping - Column mapping and the fields it can map
+    server.get('/templates/:id/mapping', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
 
-    // GET /admin/imports - List all import batches
-    server.get('/imports', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const querySchema = z.object({
-            type: z.nativeEnum(ImportType).optional(),
-            status: z.nativeEnum(ImportStatus).optional(),
-            page: z.coerce.number().optional().default(1),
-            limit: z.coerce.number().optional().default(10)
-        });
+        try {
+            return await templateService.getMapping(id);
+        } catch (error: any) {
+            return reply.status(404).send({ error: 'Not Found', message: error.message });
+        }
+    });
 
-        const { type, status, page, limit } = querySchema.parse(request.query);
-        const skip = (page - 1) * limit;
+    // PUT /admin/templates/:id/mapping - Save column mapping and validation rules
+    server.put('/templates/:id/mapping', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = TemplateMappingSchema.parse(request.body);
 
-        const where: any = {};
-        if (type) where.importType = type;
-        if (status) where.status = status;
+        try {
+            const template = await templateService.updateMapping(id, data);
 
-        const [batches, total] = await Promise.all([
-            prisma.importBatch.findMany({
-                where,
-                include: { uploadedBy: { select: { email: true } } },
-                orderBy: { startedAt: 'desc' },
-                skip,
-                take: limit
-            }),
-            prisma.importBatch.count({ where })
-        ]);
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_TEMPLATE_MAPPING',
+                    entityType: 'UPLOAD_TEMPLATE',
+                    entityId: id,
+                    afterJson: data as Prisma.InputJsonValue
+                }
+            });
 
-        return {
-            batches,
-            pagination: {
-                total,
-                page,
-                limit,
-                pages: Math.ceil(total / limit)
+            return template;
+        } catch (error: any) {
+            if (error.message === 'Template not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
             }
-        };
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
     });
 
-    // GET /admin/imports/:id - Get import details with error summary
-    server.get('/imports/:id', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    // POST /admin/templates/:id/test - Map a sample file without importing it
+    server.post('/templates/:id/test', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = await (request as any).file();
+        if (!data) {
+            return reply.status(400).send({ error: 'Bad Request', message: 'No file uploaded' });
+        }
 
-        const batch = await prisma.importBatch.findUnique({
-            where: { id },
-            include: {
-                uploadedBy: { select: { email: true } },
-                _count: { select: { errors: true } }
-            }
+        // Unsaved edits arrive as form fields ahead of the file
+        let overrides;
+        try {
+            const field = (name: string) => data.fields[name]?.value as string | undefined;
+            overrides = TemplateMappingSchema.parse({
+                mappingJson: field('mappingJson') !== undefined ? JSON.parse(field('mappingJson')!) : undefined,
+                validationJson: field('validationJson') !== undefined ? JSON.parse(field('validationJson')!) : undefined,
+                fileType: field('fileType') || undefined,
+                delimiter: field('delimiter') !== undefined ? field('delimiter') || null : undefined,
+                hasHeader: field('hasHeader') !== undefined ? field('hasHeader') === 'true' : undefined
+            });
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: `Invalid mapping settings: ${error.message}` });
+        }
+
+        try {
+            const buffer = await data.toBuffer();
+            return await templateService.testMapping(id, { buffer, fileName: data.filename }, overrides);
+        } catch (error: any) {
+            if (error.message === 'Template not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * PRICE RULES (quantity breaks, promotions, contract prices)
+     */
+
+    // GET /admin/price-rules - List price rules
+    server.get('/price-rules', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { ruleType, productId, dealerAccountId, includeInactive } = ListPriceRulesSchema.parse(request.query);
+
+        const rules = await prisma.priceRule.findMany({
+            where: {
+                ruleType,
+                productId,
+                dealerAccountId,
+                ...(includeInactive ? {} : { isActive: true })
+            },
+            include: {
+                product: { select: { productCode: true, description: true } },
+                dealerAccount: { select: { accountNo: true, companyName: true } }
+            },
+            orderBy: [{ ruleType: 'asc' }, { priority: 'desc' }, { createdAt: 'desc' }]
+        });
+
+        return { rules };
+    });
+
+    // POST /admin/price-rules - Create a price rule
+    server.post('/price-rules', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const data = CreatePriceRuleSchema.parse(request.body);
+
+        const rule = await prisma.priceRule.create({ data });
+
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: (request as AuthenticatedRequest).user!.userId,
+                action: 'CREATE_PRICE_RULE',
+                entityType: 'PRICE_RULE',
+                entityId: rule.id,
+                afterJson: data as Prisma.InputJsonValue
+            }
+        });
+
+        return reply.status(201).send(rule);
+    });
+
+    // PATCH /admin/price-rules/:id - Update a price rule
+    server.patch('/price-rules/:id', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const data = UpdatePriceRuleSchema.parse(request.body);
+
+        const existing = await prisma.priceRule.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.status(404).send({ error: 'Not Found', message: 'Price rule not found' });
+        }
+
+        const problems = priceRuleProblems({
+            ...existing,
+            fixedPrice: existing.fixedPrice === null ? null : Number(existing.fixedPrice),
+            discountPercent: existing.discountPercent === null ? null : Number(existing.discountPercent),
+            ...data
+        });
+        if (problems.length > 0) {
+            return reply.status(400).send({ error: 'Bad Request', message: problems.join('; ') });
+        }
+
+        const rule = await prisma.priceRule.update({ where: { id }, data });
+
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: (request as AuthenticatedRequest).user!.userId,
+                action: 'UPDATE_PRICE_RULE',
+                entityType: 'PRICE_RULE',
+                entityId: id,
+                beforeJson: JSON.parse(JSON.stringify(existing)),
+                afterJson: data as Prisma.InputJsonValue
+            }
+        });
+
+        return rule;
+    });
+
+    // DELETE /admin/price-rules/:id - Deactivate a price rule
+    server.delete('/price-rules/:id', { preHandler: requirePermission('pricing.write') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        const rule = await prisma.priceRule.findUnique({ where: { id } });
+        if (!rule) {
+            return reply.status(404).send({ error: 'Not Found', message: 'Price rule not found' });
+        }
+
+        await prisma.priceRule.update({
+            where: { id },
+            data: { isActive: false }
+        });
+
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: (request as AuthenticatedRequest).user!.userId,
+                action: 'DEACTIVATE_PRICE_RULE',
+                entityType: 'PRICE_RULE',
+                entityId: id,
+                afterJson: { name: rule.name, ruleType: rule.ruleType }
+            }
+        });
+
+        return { message: 'Price rule deactivated successfully' };
+    });
+
+    /**
+     * IMPORT HISTORY & MANAGEMENT
+     */
+
+    // GET /admin/imports - List all import batches
+    server.get('/imports', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const querySchema = z.object({
+            type: z.nativeEnum(ImportType).optional(),
+            status: z.nativeEnum(ImportStatus).optional(),
+            page: z.coerce.number().optional().default(1),
+            limit: z.coerce.number().optional().default(10)
+        });
+
+        const { type, status, page, limit } = querySchema.parse(request.query);
+        const skip = (page - 1) * limit;
+
+        const where: any = {};
+        if (type) where.importType = type;
+        if (status) where.status = status;
+
+        const [batches, total] = await Promise.all([
+            prisma.importBatch.findMany({
+                where,
+                include: {
+                    uploadedBy: { select: { email: true } },
+                    jobs: { orderBy: { createdAt: 'desc' }, take: 1 }
+                },
+                orderBy: { startedAt: 'desc' },
+                skip,
+                take: limit
+            }),
+            prisma.importBatch.count({ where })
+        ]);
+
+        return {
+            batches,
+            pagination: {
+                total,
+                page,
+                limit,
+                pages: Math.ceil(total / limit)
+            }
+        };
+    });
+
+    // GET /admin/imports/:id - Get import details with error summary
+    server.get('/imports/:id', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        const batch = await prisma.importBatch.findUnique({
+            where: { id },
+            include: {
+                uploadedBy: { select: { email: true } },
+                jobs: { orderBy: { createdAt: 'desc' } },
+                _count: { select: { errors: true } }
+            }
         });
 
         if (!batch) {
@@ -659,8 +1312,8 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // GET /admin/imports/:id/errors - Paginated errors for a batch
-    server.get('/imports/:id/errors', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.get('/imports/:id/errors', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
         const querySchema = z.object({
             page: z.coerce.number().optional().default(1),
             limit: z.coerce.number().optional().default(50)
@@ -691,7 +1344,7 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // POST /admin/imports/upload - Manual file upload trigger
-    server.post('/imports/upload', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.post('/imports/upload', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
         const data = await (request as any).file();
         if (!data) {
             return reply.status(400).send({ error: 'Bad Request', message: 'No file uploaded' });
@@ -702,14 +1355,32 @@ export default async function adminRoutes(server: FastifyInstance) {
             return reply.status(400).send({ error: 'Bad Request', message: 'Valid importType is required' });
         }
 
+        // Dry runs stage the file and wait for approval; only price files produce a diff
+        const dryRun = data.fields.dryRun?.value === 'true';
+        if (dryRun && importType !== ImportType.PRODUCTS_GENUINE && importType !== ImportType.PRODUCTS_AFTERMARKET) {
+            return reply.status(400).send({ error: 'Bad Request', message: 'Dry run is only supported for product price imports' });
+        }
+
+        // Optional column mapping; without one the importers use their built-in headers
+        const templateId = data.fields.templateId?.value || null;
+        if (templateId) {
+            const template = await prisma.uploadTemplate.findUnique({ where: { id: templateId } });
+            if (!template || !template.isActive) {
+                return reply.status(400).send({ error: 'Bad Request', message: 'Template not found' });
+            }
+            if (template.importType !== TEMPLATE_IMPORT_TYPES[importType]) {
+                return reply.status(400).send({ error: 'Bad Request', message: `Template ${template.templateName} cannot be used for ${importType} imports` });
+            }
+        }
+
         const uploadDir = path.join(process.cwd(), 'infra/uploads/imports');
         if (!fs.existsSync(uploadDir)) {
             fs.mkdirSync(uploadDir, { recursive: true });
         }
 
         const fileName = data.filename;
-        const filePath = path.join('infra/uploads/imports', `${Date.now()}-${fileName}`);
-        const absolutePath = path.resolve(process.cwd(), filePath);
+        // Absolute path so the worker can open the file regardless of its own cwd
+        const filePath = path.join(uploadDir, `${Date.now()}-${fileName}`);
 
         // Buffer file to calculate hash
         const buffer = await data.toBuffer();
@@ -718,7 +1389,7 @@ export default async function adminRoutes(server: FastifyInstance) {
         // Check for duplicate hash in last 24h? (Optional)
         // const existing = await prisma.importBatch.findFirst({ where: { fileHash, startedAt: { gte: new Date(Date.now() - 86400000) } } });
 
-        await fs.promises.writeFile(absolutePath, buffer);
+        await fs.promises.writeFile(filePath, buffer);
 
         const batch = await prisma.importBatch.create({
             data: {
@@ -726,7 +1397,9 @@ export default async function adminRoutes(server: FastifyInstance) {
                 fileName,
                 fileHash,
                 filePath,
-                status: ImportStatus.PROCESSING,
+                status: ImportStatus.QUEUED,
+                dryRun,
+                templateId,
                 uploadedById: (request as AuthenticatedRequest).user!.userId
             }
         });
@@ -738,13 +1411,136 @@ export default async function adminRoutes(server: FastifyInstance) {
                 action: 'UPLOAD_IMPORT_FILE',
                 entityType: 'IMPORT_BATCH',
                 entityId: batch.id,
-                afterJson: { importType, fileName }
+                afterJson: { importType, fileName, dryRun, templateId }
             }
         });
 
-        // Trigger worker asynchronously in Phase 2
-        // For now, we return the processing batch
-        return reply.status(201).send(batch);
+        // Picked up by the worker job runner (apps/worker)
+        const job = await importJobService.enqueue(batch.id);
+
+        return reply.status(201).send({ ...batch, jobs: [job] });
+    });
+
+    // POST /admin/imports/:id/retry - Re-queue a failed or cancelled import
+    server.post('/imports/:id/retry', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const job = await importJobService.retry(id);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'RETRY_IMPORT',
+                    entityType: 'IMPORT_BATCH',
+                    entityId: id,
+                    afterJson: { jobId: job.id }
+                }
+            });
+
+            return reply.status(202).send(job);
+        } catch (error: any) {
+            if (error.message === 'Import batch not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/imports/:id/diff - Dry-run diff against the live catalogue
+    server.get('/imports/:id/diff', { preHandler: requirePermission('pricing.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            return await importDiffService.getProductDiff(id);
+        } catch (error: any) {
+            if (error.message === 'Import batch not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/imports/:id/approve - Approve a reviewed dry run and apply it
+    server.post('/imports/:id/approve', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const userId = (request as AuthenticatedRequest).user!.userId;
+
+        try {
+            const job = await importJobService.approve(id, userId);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: userId,
+                    action: 'APPROVE_IMPORT',
+                    entityType: 'IMPORT_BATCH',
+                    entityId: id,
+                    afterJson: { jobId: job.id }
+                }
+            });
+
+            return reply.status(202).send(job);
+        } catch (error: any) {
+            if (error.message === 'Import batch not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/imports/:id/cancel - Cancel a queued or running import
+    server.post('/imports/:id/cancel', { preHandler: requirePermission('pricing.import') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const job = await importJobService.cancel(id);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'CANCEL_IMPORT',
+                    entityType: 'IMPORT_BATCH',
+                    entityId: id,
+                    afterJson: { jobId: job?.id ?? null }
+                }
+            });
+
+            return { success: true };
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * BACKORDER HISTORY
+     */
+
+    // GET /admin/backorders/datasets - Retained backorder datasets, newest first
+    server.get('/backorders/datasets', { preHandler: requirePermission('orders.read') }, async () => {
+        const [datasets, retention] = await Promise.all([
+            backorderDiffService.listDatasets(),
+            backorderRetentionService.get()
+        ]);
+        return { datasets, retention };
+    });
+
+    // GET /admin/backorders/diff - Changes between two datasets (default: active vs previous), per account or for one account
+    server.get('/backorders/diff', { preHandler: requirePermission('orders.read') }, async (request, reply) => {
+        const { from, to, accountNo } = BackorderDiffSchema.parse(request.query);
+
+        try {
+            return accountNo
+                ? await backorderDiffService.diffAccount(accountNo, from, to)
+                : await backorderDiffService.diff(from, to);
+        } catch (error: any) {
+            if (error.message === 'Backorder dataset not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
     });
 
     /**
@@ -752,7 +1548,7 @@ export default async function adminRoutes(server: FastifyInstance) {
      */
 
     // GET /admin/users - List all users
-    server.get('/users', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.get('/users', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
         const { role, search, page, limit } = ListUsersSchema.parse(request.query);
         const skip = (page - 1) * limit;
 
@@ -808,7 +1604,7 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // POST /admin/users/admin - Create admin user
-    server.post('/users/admin', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.post('/users/admin', { preHandler: requirePermission('admins.manage') }, async (request, reply) => {
         const { email, password, adminRole } = CreateAdminUserSchema.parse(request.body);
 
         const existing = await prisma.appUser.findUnique({ where: { email } });
@@ -822,8 +1618,9 @@ export default async function adminRoutes(server: FastifyInstance) {
             data: {
                 email,
                 passwordHash,
+                mustChangePassword: true,
                 role: UserRole.ADMIN,
-                adminRole: adminRole as any,
+                adminRole,
                 isActive: true
             }
         });
@@ -850,14 +1647,17 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // PATCH /admin/users/:id - Update user
-    server.patch('/users/:id', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.patch('/users/:id', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
         const data = UpdateUserSchema.parse(request.body);
 
         const user = await prisma.appUser.findUnique({ where: { id } });
         if (!user) {
             return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
         }
+        if (!canManageUser(request as AuthenticatedRequest, user, data)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
 
         const updatedUser = await prisma.appUser.update({
             where: { id },
@@ -865,10 +1665,14 @@ export default async function adminRoutes(server: FastifyInstance) {
                 email: data.email,
                 role: data.role,
                 isActive: data.isActive,
-                adminRole: data.adminRole as any
+                adminRole: data.adminRole
             }
         });
 
+        if (user.isActive && data.isActive === false) {
+            await sessionService.revokeAll(id, 'DEACTIVATED');
+        }
+
         await prisma.auditLog.create({
             data: {
                 actorType: ActorType.ADMIN,
@@ -885,21 +1689,21 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // POST /admin/users/:id/reset-password - Reset password
-    server.post('/users/:id/reset-password', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.post('/users/:id/reset-password', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
 
         const user = await prisma.appUser.findUnique({ where: { id } });
         if (!user) {
             return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
         }
+        if (!canManageUser(request as AuthenticatedRequest, user)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
 
         const newPassword = generateSecurePassword();
-        const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
 
-        await prisma.appUser.update({
-            where: { id },
-            data: { passwordHash }
-        });
+        await passwordService.setTemporary(id, newPassword);
+        const revokedSessions = await sessionService.revokeAll(id, 'PASSWORD_RESET');
 
         // Send email
         try {
@@ -915,7 +1719,7 @@ export default async function adminRoutes(server: FastifyInstance) {
                 action: 'PASSWORD_RESET',
                 entityType: 'USER',
                 entityId: id,
-                afterJson: { email: user.email }
+                afterJson: { email: user.email, revokedSessions }
             }
         });
 
@@ -923,18 +1727,22 @@ export default async function adminRoutes(server: FastifyInstance) {
     });
 
     // DELETE /admin/users/:id - Deactivate user
-    server.delete('/users/:id', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
-        const { id } = request.params as any;
+    server.delete('/users/:id', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
 
         const user = await prisma.appUser.findUnique({ where: { id } });
         if (!user) {
             return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
         }
+        if (!canManageUser(request as AuthenticatedRequest, user)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
 
         await prisma.appUser.update({
             where: { id },
             data: { isActive: false }
         });
+        const revokedSessions = await sessionService.revokeAll(id, 'DEACTIVATED');
 
         await prisma.auditLog.create({
             data: {
@@ -943,19 +1751,487 @@ export default async function adminRoutes(server: FastifyInstance) {
                 action: 'DEACTIVATE_USER',
                 entityType: 'USER',
                 entityId: id,
-                afterJson: { email: user.email }
+                afterJson: { email: user.email, revokedSessions }
             }
         });
 
         return { message: 'User deactivated successfully' };
     });
 
+    // GET /admin/users/:id/sessions - Browsers the user is signed in on
+    server.get('/users/:id/sessions', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        const user = await prisma.appUser.findUnique({ where: { id } });
+        if (!user) {
+            return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
+        }
+        if (!canManageUser(request as AuthenticatedRequest, user)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
+
+        return { sessions: await sessionService.listActive(id) };
+    });
+
+    // DELETE /admin/users/:id/sessions - Sign the user out everywhere
+    server.delete('/users/:id/sessions', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        const user = await prisma.appUser.findUnique({ where: { id } });
+        if (!user) {
+            return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
+        }
+        if (!canManageUser(request as AuthenticatedRequest, user)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
+
+        const revokedSessions = await sessionService.revokeAll(id, 'FORCED');
+
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: (request as AuthenticatedRequest).user!.userId,
+                action: 'FORCE_LOGOUT',
+                entityType: 'USER',
+                entityId: id,
+                afterJson: { email: user.email, revokedSessions }
+            }
+        });
+
+        return { revokedSessions };
+    });
+
+    // DELETE /admin/users/:id/sessions/:sessionId - Sign the user out of one browser
+    server.delete('/users/:id/sessions/:sessionId', { preHandler: requirePermission('users.manage') }, async (request, reply) => {
+        const { id, sessionId } = request.params as { id: string; sessionId: string };
+
+        const user = await prisma.appUser.findUnique({ where: { id } });
+        if (!user) {
+            return reply.status(404).send({ error: 'Not Found', message: 'User not found' });
+        }
+        if (!canManageUser(request as AuthenticatedRequest, user)) {
+            return reply.status(403).send({ error: 'Forbidden', message: 'Only super admins can manage admin accounts' });
+        }
+
+        if (!(await sessionService.revoke(sessionId, 'FORCED', id))) {
+            return reply.status(404).send({ error: 'Not Found', message: 'Session not found' });
+        }
+
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: (request as AuthenticatedRequest).user!.userId,
+                action: 'FORCE_LOGOUT',
+                entityType: 'USER',
+                entityId: id,
+                afterJson: { email: user.email, sessionId }
+            }
+        });
+
+        return { message: 'Session ended' };
+    });
+
+    /**
+     * ORDER MANAGEMENT
+     */
+
+    // GET /admin/orders/:id/pdf - Order acknowledgement or proforma as a PDF, e.g. ?document=PROFORMA
+    server.get('/orders/:id/pdf', { preHandler: requirePermission('orders.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { document } = OrderPdfQuerySchema.parse(request.query);
+
+        try {
+            const pdf = await orderPdfService.render(id, document);
+
+            reply.type(pdf.contentType);
+            reply.header('Content-Disposition', `attachment; filename="${pdf.fileName}"`);
+            return reply.send(pdf.content);
+        } catch (error: any) {
+            if (error.message === 'Order not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/orders/:id/cancel - Cancel an order and release its stock reservations
+    server.post('/orders/:id/cancel', { preHandler: requirePermission('orders.cancel') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const result = await orderService.cancelOrder(id);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'CANCEL_ORDER',
+                    entityType: 'ORDER',
+                    entityId: id,
+                    beforeJson: { status: result.previousStatus },
+                    afterJson: { status: 'CANCELLED', releasedQty: result.releasedQty }
+                }
+            });
+
+            return { message: `Order ${result.orderNo} cancelled`, releasedQty: result.releasedQty };
+        } catch (error: any) {
+            if (error.message === 'Order not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/erp-exports - ERP export outbox, e.g. ?status=FAILED
+    server.get('/erp-exports', { preHandler: requirePermission('orders.read') }, async (request) => {
+        const query = ListErpExportsSchema.parse(request.query);
+        const { exports, total } = await erpExportService.list(query);
+
+        return {
+            exports,
+            meta: {
+                total,
+                page: query.page,
+                limit: query.limit,
+                totalPages: Math.ceil(total / query.limit)
+            }
+        };
+    });
+
+    // POST /admin/erp-exports/:id/resend - Requeue a failed export
+    server.post('/erp-exports/:id/resend', { preHandler: requirePermission('orders.export') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const before = await prisma.erpExport.findUnique({ where: { id } });
+            const erpExport = await erpExportService.resend(id);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'RESEND_ERP_EXPORT',
+                    entityType: 'ERP_EXPORT',
+                    entityId: id,
+                    beforeJson: { status: before?.status, attempts: before?.attempts, lastError: before?.lastError },
+                    afterJson: { status: erpExport.status, attempts: erpExport.attempts }
+                }
+            });
+
+            return { message: 'Export queued for resend', export: erpExport };
+        } catch (error: any) {
+            if (error.message === 'Export not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * EMAIL TEMPLATES
+     */
+
+    // GET /admin/email-templates - Every template with its stored versions
+    server.get('/email-templates', { preHandler: requirePermission('emails.read') }, async () => {
+        return { templates: await emailTemplateService.list() };
+    });
+
+    // GET /admin/email-templates/:key - Built-in and stored content for one template
+    server.get('/email-templates/:key', { preHandler: requirePermission('emails.read') }, async (request) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        return emailTemplateService.get(key);
+    });
+
+    // POST /admin/email-templates/:key/versions - Save a new version, optionally putting it in use
+    server.post('/email-templates/:key/versions', { preHandler: requirePermission('emails.manage') }, async (request, reply) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        const { notes, activate, ...content } = CreateEmailTemplateVersionSchema.parse(request.body);
+        const actorUserId = (request as AuthenticatedRequest).user!.userId;
+
+        try {
+            const template = await emailTemplateService.createVersion(key, content, { notes, activate, createdById: actorUserId });
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId,
+                    action: 'CREATE_EMAIL_TEMPLATE_VERSION',
+                    entityType: 'EMAIL_TEMPLATE',
+                    entityId: template.id,
+                    afterJson: { key, version: template.version, isActive: template.isActive, notes: template.notes }
+                }
+            });
+
+            return reply.status(201).send(template);
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // PUT /admin/email-templates/:key/active - Choose the version in use (null for the built-in one)
+    server.put('/email-templates/:key/active', { preHandler: requirePermission('emails.manage') }, async (request, reply) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        const { version } = ActivateEmailTemplateSchema.parse(request.body);
+
+        try {
+            const result = await emailTemplateService.activate(key, version);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'ACTIVATE_EMAIL_TEMPLATE',
+                    entityType: 'EMAIL_TEMPLATE',
+                    entityId: key,
+                    beforeJson: { version: result.previousVersion },
+                    afterJson: { version: result.activeVersion }
+                }
+            });
+
+            return result;
+        } catch (error: any) {
+            if (error.message === 'Template version not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/email-templates/:key/preview-sources - Orders, dealers or imports to preview against
+    server.get('/email-templates/:key/preview-sources', { preHandler: requirePermission('emails.read') }, async (request) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        const { search } = z.object({ search: z.string().optional() }).parse(request.query);
+        return { sources: await emailTemplateService.previewSources(key, search) };
+    });
+
+    // POST /admin/email-templates/:key/preview - Render a draft, a version or the one in use against a real record
+    server.post('/email-templates/:key/preview', { preHandler: requirePermission('emails.read') }, async (request, reply) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        const { sourceId, version, content } = EmailTemplatePreviewSchema.parse(request.body);
+
+        try {
+            return await emailTemplateService.preview(key, { version, content }, sourceId);
+        } catch (error: any) {
+            if (error.message.includes('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // POST /admin/email-templates/:key/test - Send the preview to an address of the admin's choosing
+    server.post('/email-templates/:key/test', { preHandler: requirePermission('emails.manage') }, async (request, reply) => {
+        const { key } = EmailTemplateKeySchema.parse(request.params);
+        const { sourceId, version, content, to } = EmailTemplateTestSchema.parse(request.body);
+
+        try {
+            const email = await emailTemplateService.sendTest(key, { version, content }, sourceId, to);
+            return { message: `Test email sent to ${to}`, subject: email.subject };
+        } catch (error: any) {
+            if (error.message.includes('not found')) {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * EMAIL LOG
+     */
+
+    // GET /admin/email-logs - Search the email outbox
+    server.get('/email-logs', { preHandler: requirePermission('emails.read') }, async (request) => {
+        const query = ListEmailLogsSchema.parse(request.query);
+        const { emails, total } = await emailOutbox.list(query);
+
+        return {
+            emails,
+            meta: { total, page: query.page, limit: query.limit, totalPages: Math.ceil(total / query.limit) }
+        };
+    });
+
+    // GET /admin/email-logs/recipients - Addresses with delivery failures or a suppression
+    server.get('/email-logs/recipients', { preHandler: requirePermission('emails.read') }, async (request) => {
+        const { suppressedOnly } = z.object({ suppressedOnly: z.coerce.boolean().optional().default(false) }).parse(request.query);
+        return { recipients: await emailOutbox.listRecipients(suppressedOnly) };
+    });
+
+    // DELETE /admin/email-logs/recipients/:email/suppression - Email an address again
+    server.delete('/email-logs/recipients/:email/suppression', { preHandler: requirePermission('emails.manage') }, async (request, reply) => {
+        const { email } = request.params as { email: string };
+
+        try {
+            const before = await prisma.emailRecipient.findUnique({ where: { email: normalizeEmail(email) } });
+            const recipient = await emailOutbox.liftSuppression(email);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'LIFT_EMAIL_SUPPRESSION',
+                    entityType: 'EMAIL_RECIPIENT',
+                    entityId: recipient.id,
+                    beforeJson: { email: recipient.email, suppressedAt: before?.suppressedAt, suppressedReason: before?.suppressedReason },
+                    afterJson: { email: recipient.email, suppressedAt: null }
+                }
+            });
+
+            return { message: `${recipient.email} can be emailed again`, recipient };
+        } catch (error: any) {
+            if (error.message === 'Recipient not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/email-logs/:id - One email with its bodies and the recipient's delivery health
+    server.get('/email-logs/:id', { preHandler: requirePermission('emails.read') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            return await emailOutbox.get(id);
+        } catch (error: any) {
+            return reply.status(404).send({ error: 'Not Found', message: error.message });
+        }
+    });
+
+    // POST /admin/email-logs/:id/resend - Queue a copy of a sent, failed or suppressed email
+    server.post('/email-logs/:id/resend', { preHandler: requirePermission('emails.manage') }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+
+        try {
+            const email = await emailOutbox.resend(id);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'RESEND_EMAIL',
+                    entityType: 'EMAIL_LOG',
+                    entityId: id,
+                    afterJson: { resentAs: email.id, recipientEmail: email.recipientEmail, subject: email.subject }
+                }
+            });
+
+            return { message: `Email to ${email.recipientEmail} queued for resend`, email: { id: email.id, status: email.status } };
+        } catch (error: any) {
+            if (error.message === 'Email not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    /**
+     * SYSTEM SETTINGS
+     */
+
+    // GET /admin/settings/order-numbers - Order number format per order source
+    server.get('/settings/order-numbers', { preHandler: requirePermission('settings.manage') }, async () => {
+        const formats = await orderNumberService.getFormats();
+        const now = new Date();
+        const examples = Object.fromEntries(
+            Object.entries(formats).map(([source, format]) => [source, OrderNumberService.render(format, 123, now)])
+        );
+        return { formats, examples };
+    });
+
+    // PUT /admin/settings/order-numbers - Change order number formats
+    server.put('/settings/order-numbers', { preHandler: requirePermission('settings.manage') }, async (request, reply) => {
+        const data = OrderNumberFormatsSchema.parse(request.body);
+
+        try {
+            const before = await orderNumberService.getFormats();
+            const formats = await orderNumberService.setFormats(data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_ORDER_NUMBER_FORMATS',
+                    entityType: 'SYSTEM_SETTING',
+                    entityId: ORDER_NUMBER_FORMATS_KEY,
+                    beforeJson: JSON.parse(JSON.stringify(before)),
+                    afterJson: JSON.parse(JSON.stringify(formats))
+                }
+            });
+
+            return { formats };
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/settings/backorder-retention - Number of backorder datasets kept
+    server.get('/settings/backorder-retention', { preHandler: requirePermission('settings.manage') }, async () => {
+        return { retention: await backorderRetentionService.get() };
+    });
+
+    // PUT /admin/settings/backorder-retention - Change retention and prune straight away
+    server.put('/settings/backorder-retention', { preHandler: requirePermission('settings.manage') }, async (request, reply) => {
+        const data = BackorderRetentionSchema.parse(request.body);
+
+        try {
+            const before = await backorderRetentionService.get();
+            const retention = await backorderRetentionService.set(data);
+            const pruned = await backorderRetentionService.prune();
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_BACKORDER_RETENTION',
+                    entityType: 'SYSTEM_SETTING',
+                    entityId: BACKORDER_RETENTION_KEY,
+                    beforeJson: { ...before },
+                    afterJson: { ...retention, pruned }
+                }
+            });
+
+            return { retention, pruned };
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
+    // GET /admin/settings/password-policy - Strength and reuse rules for passwords users choose
+    server.get('/settings/password-policy', { preHandler: requirePermission('settings.manage') }, async () => {
+        return { policy: await passwordPolicyService.get(), limits: PASSWORD_POLICY_LIMITS };
+    });
+
+    // PUT /admin/settings/password-policy - Change the policy; existing passwords are checked at their next change
+    server.put('/settings/password-policy', { preHandler: requirePermission('settings.manage') }, async (request, reply) => {
+        const data = PasswordPolicySchema.parse(request.body);
+
+        try {
+            const before = await passwordPolicyService.get();
+            const policy = await passwordPolicyService.set(data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.ADMIN,
+                    actorUserId: (request as AuthenticatedRequest).user!.userId,
+                    action: 'UPDATE_PASSWORD_POLICY',
+                    entityType: 'SYSTEM_SETTING',
+                    entityId: PASSWORD_POLICY_KEY,
+                    beforeJson: { ...before },
+                    afterJson: { ...policy }
+                }
+            });
+
+            return { policy };
+        } catch (error: any) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+    });
+
     /**
      * DASHBOARD ANALYTICS
      */
 
     // GET /admin/dashboard - Dashboard statistics
-    server.get('/dashboard', { preHandler: requireRole('ADMIN') }, async (request, reply) => {
+    server.get('/dashboard', { preHandler: requirePermission('dashboard.read') }, async (request, reply) => {
         const now = new Date();
         const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         const startOfWeek = new Date(now);
@@ -1,8 +1,86 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
 import { z } from 'zod';
 import bcrypt from 'bcrypt';
-import { prisma } from 'db';
-import { generateToken, JWTPayload } from '../lib/auth';
+import { prisma, AppUser, DealerUser, ActorType, UserRole } from 'db';
+import { permissionsFor, PasswordError, SessionClient, SessionError } from '@hotbray/domain-auth';
+import { generateToken, verifyToken, JWTPayload } from '../lib/auth';
+import { sessionService, passwordService, passwordPolicyService, emailService } from '../lib/services';
+
+// Base of the links in forgot-password emails
+const PORTAL_URL = process.env.PORTAL_URL || 'http://localhost:3000';
+
+const RefreshSchema = z.object({
+    refreshToken: z.string().min(1)
+});
+
+const LogoutSchema = z.object({
+    refreshToken: z.string().min(1).optional()
+});
+
+const ForgotPasswordSchema = z.object({
+    email: z.string().email()
+});
+
+const ResetTokenSchema = z.object({
+    token: z.string().min(1)
+});
+
+const ResetPasswordSchema = z.object({
+    token: z.string().min(1),
+    password: z.string().min(1).max(200)
+});
+
+const ChangePasswordSchema = z.object({
+    currentPassword: z.string().min(1),
+    newPassword: z.string().min(1).max(200)
+});
+
+/**
+ * Access token claims for a user; rebuilt on every refresh so role changes apply within one token lifetime
+ */
+function tokenPayload(user: AppUser & { dealerUser: DealerUser | null }, sessionId: string): JWTPayload {
+    const payload: JWTPayload = {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        sessionId
+    };
+
+    // Admin-generated passwords must be replaced before the token opens anything else
+    if (user.mustChangePassword) {
+        payload.mustChangePassword = true;
+    }
+
+    // Admins carry their admin role, which decides their permissions
+    if (user.role === 'ADMIN' && user.adminRole) {
+        payload.adminRole = user.adminRole;
+    }
+
+    // If user is a dealer, include dealerAccountId
+    if (user.role === 'DEALER' && user.dealerUser) {
+        payload.dealerAccountId = user.dealerUser.dealerAccountId;
+        payload.dealerUserId = user.dealerUser.id;
+    }
+
+    return payload;
+}
+
+function sessionClient(request: FastifyRequest): SessionClient {
+    return { userAgent: request.headers['user-agent'], ipAddress: request.ip };
+}
+
+// Password events are audited as the user they belong to, whether or not they were signed in
+function actorTypeFor(role: UserRole): ActorType {
+    return role === UserRole.ADMIN ? ActorType.ADMIN : ActorType.DEALER;
+}
+
+function sendPasswordError(reply: FastifyReply, error: PasswordError) {
+    return reply.status(400).send({
+        error: 'Validation Error',
+        message: error.message,
+        violations: error.violations
+    });
+}
 
 const authRoutes: FastifyPluginAsync = async (server) => {
     // POST /auth/login
@@ -45,8 +123,8 @@ const authRoutes: FastifyPluginAsync = async (server) => {
                 });
             }
 
-            // Check if user is active
-            if (!user.isActive) {
+            // Check if user is active (dealer users can also be deactivated by their account's primary user)
+            if (!user.isActive || user.dealerUser?.isActive === false) {
                 return reply.status(401).send({
                     error: 'Unauthorized',
                     message: 'Account is inactive'
@@ -63,29 +141,24 @@ const authRoutes: FastifyPluginAsync = async (server) => {
                 });
             }
 
-            // Build JWT payload
-            const payload: JWTPayload = {
-                userId: user.id,
-                email: user.email,
-                role: user.role
-            };
-
-            // If user is a dealer, include dealerAccountId
-            if (user.role === 'DEALER' && user.dealerUser) {
-                payload.dealerAccountId = user.dealerUser.dealerAccountId;
-                payload.dealerUserId = user.dealerUser.id;
-            }
+            // Start a session; the refresh token renews the short-lived access token
+            const { session, refreshToken } = await sessionService.start(user.id, sessionClient(request));
+            await prisma.appUser.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
 
-            // Generate token
+            const payload = tokenPayload(user, session.id);
             const token = generateToken(payload);
 
             // Return response
             return reply.status(200).send({
                 token,
+                refreshToken,
+                mustChangePassword: user.mustChangePassword,
                 user: {
                     id: user.id,
                     email: user.email,
                     role: user.role,
+                    adminRole: payload.adminRole,
+                    permissions: permissionsFor(payload.adminRole),
                     dealerAccountId: payload.dealerAccountId,
                     dealerUserId: payload.dealerUserId,
                     companyName: user.dealerUser?.dealerAccount?.companyName
@@ -101,6 +174,262 @@ const authRoutes: FastifyPluginAsync = async (server) => {
         }
     });
 
+    // POST /auth/refresh - Swap a refresh token for a new access token and refresh token
+    server.post('/refresh', async (request, reply) => {
+        const validation = RefreshSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Refresh token is required'
+            });
+        }
+
+        try {
+            const { session, refreshToken } = await sessionService.rotate(validation.data.refreshToken, sessionClient(request));
+
+            const user = await prisma.appUser.findUnique({
+                where: { id: session.userId },
+                include: { dealerUser: true }
+            });
+
+            // Deactivations revoke sessions, but a login switched off directly in the database must not refresh either
+            if (!user || !user.isActive || user.dealerUser?.isActive === false) {
+                await sessionService.revoke(session.id, 'DEACTIVATED');
+                return reply.status(401).send({
+                    error: 'Unauthorized',
+                    message: 'Account is inactive'
+                });
+            }
+
+            return reply.status(200).send({
+                token: generateToken(tokenPayload(user, session.id)),
+                refreshToken
+            });
+        } catch (error) {
+            if (error instanceof SessionError) {
+                return reply.status(401).send({
+                    error: 'Unauthorized',
+                    message: error.message
+                });
+            }
+
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while refreshing the session'
+            });
+        }
+    });
+
+    // POST /auth/logout - End the session of the refresh token sent, or of the Bearer token
+    server.post('/logout', async (request, reply) => {
+        const validation = LogoutSchema.safeParse(request.body ?? {});
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid refresh token'
+            });
+        }
+
+        try {
+            if (validation.data.refreshToken) {
+                await sessionService.revokeByToken(validation.data.refreshToken, 'LOGOUT');
+            } else {
+                const authHeader = request.headers.authorization;
+                const sessionId = authHeader?.startsWith('Bearer ') ? verifyToken(authHeader.substring(7)).sessionId : undefined;
+                if (sessionId) {
+                    await sessionService.revoke(sessionId, 'LOGOUT');
+                }
+            }
+        } catch (error) {
+            // Signing out with an expired token is not an error; the session simply expires
+            server.log.warn(error);
+        }
+
+        return reply.status(204).send();
+    });
+
+    // POST /auth/forgot-password - Email a single-use reset link. Answers the same for unknown emails.
+    server.post('/forgot-password', async (request, reply) => {
+        const validation = ForgotPasswordSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'A valid email is required'
+            });
+        }
+
+        const { email } = validation.data;
+
+        try {
+            const issued = await passwordService.requestReset(email, request.ip);
+
+            if (issued) {
+                const expiresInMinutes = Math.round((issued.expiresAt.getTime() - Date.now()) / 60000);
+                const resetUrl = `${PORTAL_URL}/reset-password?token=${encodeURIComponent(issued.token)}`;
+                await emailService.sendPasswordResetLink(issued.user.email, issued.user.firstName || 'there', resetUrl, expiresInMinutes);
+            }
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: issued ? actorTypeFor(issued.user.role) : ActorType.SYSTEM,
+                    actorUserId: issued?.user.id,
+                    action: 'PASSWORD_RESET_REQUESTED',
+                    entityType: 'USER',
+                    entityId: issued?.user.id,
+                    afterJson: { email, linkSent: !!issued, ...(issued ? { expiresAt: issued.expiresAt.toISOString() } : {}) },
+                    ipAddress: request.ip
+                }
+            });
+        } catch (error) {
+            server.log.error(error);
+        }
+
+        return reply.status(200).send({
+            message: 'If an account exists for that email, a reset link is on its way'
+        });
+    });
+
+    // GET /auth/password-policy - What a new password needs, shown on the reset and change password pages
+    server.get('/password-policy', async () => {
+        const { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, historyCount } = await passwordPolicyService.get();
+        return { policy: { minLength, requireUppercase, requireLowercase, requireNumber, requireSymbol, historyCount } };
+    });
+
+    // GET /auth/reset-password?token= - Whether a reset link can still be used
+    server.get('/reset-password', async (request, reply) => {
+        const validation = ResetTokenSchema.safeParse(request.query);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Reset token is required'
+            });
+        }
+
+        return reply.status(200).send({ valid: await passwordService.checkResetToken(validation.data.token) });
+    });
+
+    // POST /auth/reset-password - Choose a new password with a reset link; signs the user out everywhere
+    server.post('/reset-password', async (request, reply) => {
+        const validation = ResetPasswordSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Reset token and password are required'
+            });
+        }
+
+        try {
+            const result = await passwordService.resetWithToken(validation.data.token, validation.data.password);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: actorTypeFor(result.role),
+                    actorUserId: result.userId,
+                    action: 'PASSWORD_RESET_COMPLETED',
+                    entityType: 'USER',
+                    entityId: result.userId,
+                    afterJson: { email: result.email, revokedSessions: result.revokedSessions },
+                    ipAddress: request.ip
+                }
+            });
+
+            return reply.status(200).send({ message: 'Password updated, please sign in' });
+        } catch (error) {
+            if (error instanceof PasswordError) {
+                return sendPasswordError(reply, error);
+            }
+
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while resetting the password'
+            });
+        }
+    });
+
+    // POST /auth/change-password - Signed-in users, including those told to replace an admin-generated password.
+    // Other sessions are signed out; this one gets a new access token without the forced-change flag.
+    server.post('/change-password', async (request, reply) => {
+        const authHeader = request.headers.authorization;
+
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            return reply.status(401).send({
+                error: 'Unauthorized',
+                message: 'Missing or invalid authorization header'
+            });
+        }
+
+        let decoded: JWTPayload;
+        try {
+            decoded = verifyToken(authHeader.substring(7));
+        } catch (error) {
+            return reply.status(401).send({
+                error: 'Unauthorized',
+                message: 'Invalid or expired token'
+            });
+        }
+        if (!decoded.sessionId || !(await sessionService.isActive(decoded.sessionId))) {
+            return reply.status(401).send({
+                error: 'Unauthorized',
+                message: 'Session has ended, please sign in again'
+            });
+        }
+
+        const validation = ChangePasswordSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Current and new password are required'
+            });
+        }
+
+        try {
+            const result = await passwordService.change(
+                decoded.userId,
+                validation.data.currentPassword,
+                validation.data.newPassword,
+                decoded.sessionId
+            );
+
+            const user = await prisma.appUser.findUniqueOrThrow({
+                where: { id: decoded.userId },
+                include: { dealerUser: true }
+            });
+            await prisma.auditLog.create({
+                data: {
+                    actorType: actorTypeFor(user.role),
+                    actorUserId: user.id,
+                    action: 'PASSWORD_CHANGED',
+                    entityType: 'USER',
+                    entityId: user.id,
+                    afterJson: { email: result.email, required: !!decoded.mustChangePassword, revokedSessions: result.revokedSessions },
+                    ipAddress: request.ip
+                }
+            });
+
+            return reply.status(200).send({
+                token: generateToken(tokenPayload(user, decoded.sessionId))
+            });
+        } catch (error) {
+            if (error instanceof PasswordError) {
+                return sendPasswordError(reply, error);
+            }
+
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while changing the password'
+            });
+        }
+    });
+
     // GET /auth/me - Get current user info (requires authentication)
     server.get('/me', async (request, reply) => {
         const authHeader = request.headers.authorization;
@@ -113,12 +442,15 @@ const authRoutes: FastifyPluginAsync = async (server) => {
         }
 
         try {
-            const { verifyToken } = await import('../lib/auth');
             const token = authHeader.substring(7);
             const decoded = verifyToken(token);
+            if (!decoded.sessionId || !(await sessionService.isActive(decoded.sessionId))) {
+                throw new Error('Session has ended');
+            }
 
             return reply.status(200).send({
-                user: decoded
+                user: decoded,
+                permissions: decoded.role === 'ADMIN' ? permissionsFor(decoded.adminRole) : []
             });
         } catch (error) {
             return reply.status(401).send({
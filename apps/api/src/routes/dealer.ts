@@ -1,14 +1,55 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { PartType } from 'db';
-import { CheckoutSchema, CartItemSchema } from 'shared';
-import { requireAuth, AuthenticatedRequest } from '../lib/auth';
-import { dealerService, cartService, orderService } from '../lib/services';
+import { PartType, ActorType, DealerUserRole, prisma } from 'db';
+import { BusinessRuleError } from 'rules';
+import { CheckoutSchema, CartItemSchema, OrderCreateSchema, ORDER_DOCUMENT_TYPES } from 'shared';
+import { requireAuth, requireDealerAccess, requireDealerRole, AuthenticatedRequest } from '../lib/auth';
+import { sendIdempotent } from '../lib/idempotency';
+import { dealerService, dealerUserService, cartService, orderService, orderApprovalService, orderPdfService, emailService } from '../lib/services';
+
+const BackorderQuerySchema = z.object({
+    yourOrderNo: z.string().max(100).optional(),
+    part: z.string().max(100).optional()
+});
+
+const OrderPdfQuerySchema = z.object({
+    document: z.enum(ORDER_DOCUMENT_TYPES).optional().default('CONFIRMATION')
+});
+
+const InviteDealerUserSchema = z.object({
+    email: z.string().email(),
+    firstName: z.string().max(100).optional(),
+    lastName: z.string().max(100).optional(),
+    role: z.nativeEnum(DealerUserRole).optional().default(DealerUserRole.BUYER)
+});
+
+const UpdateDealerUserSchema = z.object({
+    firstName: z.string().max(100).nullable().optional(),
+    lastName: z.string().max(100).nullable().optional(),
+    role: z.nativeEnum(DealerUserRole).optional(),
+    isActive: z.boolean().optional(),
+    orderLimit: z.number().nonnegative().max(9999999999).nullable().optional() // Null removes the limit
+});
+
+const ApproveOrderSchema = z.object({
+    lines: z.array(z.object({
+        lineId: z.string().uuid(),
+        qty: z.number().int().min(0) // 0 removes the line; cannot exceed the quantity ordered
+    })).optional()
+});
+
+const RejectOrderSchema = z.object({
+    reason: z.string().trim().min(1).max(500)
+});
+
+const PreferencesSchema = z.object({
+    notifyBackorderStock: z.boolean().optional()
+});
 
 const dealerRoutes: FastifyPluginAsync = async (server) => {
     // GET /dealer/search - Search products with dealer pricing & entitlement filtering
     server.get('/search', {
-        preHandler: requireAuth
+        preHandler: requireDealerAccess('catalog:read')
     }, async (request: AuthenticatedRequest, reply) => {
         const querySchema = z.object({
             q: z.string().min(1).optional(),
@@ -46,7 +87,8 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
                 count: result.count,
                 query: validation.data.q || null,
                 entitlement: result.entitlement,
-                status: result.status
+                status: result.status,
+                supersession: result.supersession
             });
         } catch (error: any) {
             server.log.error(error);
@@ -67,7 +109,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // GET /dealer/product/:productCode - Get single product with pricing
     server.get('/product/:productCode', {
-        preHandler: requireAuth
+        preHandler: requireDealerAccess('catalog:read')
     }, async (request: AuthenticatedRequest, reply) => {
         const paramsSchema = z.object({
             productCode: z.string().min(1)
@@ -110,10 +152,20 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
         }
     });
 
-    // GET /dealer/backorders - Get backorders for dealer
+    // GET /dealer/backorders - Get backorders for dealer, flagged against the previous import
     server.get('/backorders', {
-        preHandler: requireAuth
+        preHandler: requireDealerAccess('backorders:read')
     }, async (request: AuthenticatedRequest, reply) => {
+        const validation = BackorderQuerySchema.safeParse(request.query);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid query parameters',
+                details: validation.error.issues
+            });
+        }
+
         if (!request.user?.dealerAccountId) {
             return reply.status(400).send({
                 error: 'Bad Request',
@@ -122,8 +174,12 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
         }
 
         try {
-            const backorders = await dealerService.getBackorders(request.user.dealerAccountId);
-            return reply.status(200).send({ backorders });
+            const result = await dealerService.getBackorders(request.user.dealerAccountId, validation.data);
+            return reply.status(200).send({
+                backorders: result.lines,
+                dataset: result.dataset,
+                clearedCount: result.clearedCount
+            });
         } catch (error: any) {
             server.log.error(error);
 
@@ -138,6 +194,111 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
         }
     });
 
+    // GET /dealer/backorders/export - Download the filtered backorders as CSV or XLSX
+    server.get('/backorders/export', {
+        preHandler: requireDealerAccess('backorders:read')
+    }, async (request: AuthenticatedRequest, reply) => {
+        const validation = BackorderQuerySchema.extend({
+            format: z.enum(['csv', 'xlsx']).optional().default('csv')
+        }).safeParse(request.query);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid query parameters',
+                details: validation.error.issues
+            });
+        }
+
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const { format, ...filters } = validation.data;
+            const file = await dealerService.exportBackorders(request.user.dealerAccountId, filters, format);
+
+            reply.type(file.contentType);
+            reply.header('Content-Disposition', `attachment; filename="${file.fileName}"`);
+            return reply.send(file.content);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'Dealer account not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while exporting backorders'
+            });
+        }
+    });
+
+    // GET /dealer/preferences - Notification preferences of the signed-in dealer user
+    server.get('/preferences', {
+        preHandler: requireAuth
+    }, async (request: AuthenticatedRequest, reply) => {
+        if (!request.user?.dealerUserId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const preferences = await dealerService.getPreferences(request.user.dealerUserId);
+            return reply.status(200).send(preferences);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'Dealer user not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while fetching preferences'
+            });
+        }
+    });
+
+    // PUT /dealer/preferences - Opt in or out of notification emails
+    server.put('/preferences', {
+        preHandler: requireAuth
+    }, async (request: AuthenticatedRequest, reply) => {
+        const validation = PreferencesSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid preferences',
+                details: validation.error.issues
+            });
+        }
+
+        if (!request.user?.dealerUserId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const preferences = await dealerService.updatePreferences(request.user.dealerUserId, validation.data);
+            return reply.status(200).send(preferences);
+        } catch (error: any) {
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while updating preferences'
+            });
+        }
+    });
+
     // GET /dealer/cart - Get current cart
     server.get('/cart', {
         preHandler: requireAuth
@@ -167,7 +328,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // POST /dealer/cart/items - Add item to cart
     server.post('/cart/items', {
-        preHandler: requireAuth
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
     }, async (request: AuthenticatedRequest, reply) => {
         const validation = CartItemSchema.safeParse(request.body);
 
@@ -210,7 +371,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // PATCH /dealer/cart/items/:id - Update cart item quantity
     server.patch('/cart/items/:id', {
-        preHandler: requireAuth
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
     }, async (request: AuthenticatedRequest, reply) => {
         const paramsSchema = z.object({
             id: z.string().uuid()
@@ -260,9 +421,59 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
         }
     });
 
+    // POST /dealer/cart/items/:id/substitute - Replace a superseded cart item with its current replacement
+    server.post('/cart/items/:id/substitute', {
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const paramsSchema = z.object({
+            id: z.string().uuid()
+        });
+
+        const validation = paramsSchema.safeParse(request.params);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid cart item ID'
+            });
+        }
+
+        if (!request.user?.dealerUserId || !request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const cart = await cartService.substituteItem(
+                validation.data.id,
+                request.user.dealerUserId,
+                request.user.dealerAccountId
+            );
+
+            return reply.status(200).send(cart);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'Cart item not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+
+            if (error.message === 'No replacement available') {
+                return reply.status(400).send({ error: 'Bad Request', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while substituting cart item'
+            });
+        }
+    });
+
     // DELETE /dealer/cart/items/:id - Remove item from cart
     server.delete('/cart/items/:id', {
-        preHandler: requireAuth
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
     }, async (request: AuthenticatedRequest, reply) => {
         const paramsSchema = z.object({
             id: z.string().uuid()
@@ -308,7 +519,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // DELETE /dealer/cart - Clear cart
     server.delete('/cart', {
-        preHandler: requireAuth
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
     }, async (request: AuthenticatedRequest, reply) => {
         if (!request.user?.dealerUserId || !request.user?.dealerAccountId) {
             return reply.status(400).send({
@@ -335,7 +546,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // POST /dealer/checkout - Create order from cart
     server.post('/checkout', {
-        preHandler: requireAuth
+        preHandler: [requireDealerAccess('orders:write'), requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
     }, async (request: AuthenticatedRequest, reply) => {
         const validation = CheckoutSchema.safeParse(request.body);
 
@@ -355,13 +566,13 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
         }
 
         try {
-            const order = await orderService.createOrder(
-                request.user.dealerUserId,
-                request.user.dealerAccountId,
-                validation.data
-            );
+            const { dealerUserId, dealerAccountId } = request.user;
 
-            return reply.status(201).send(order);
+            // A double-clicked "Place order" or a client retry with the same Idempotency-Key gets the first order back
+            return await sendIdempotent(request, reply, async () => {
+                const order = await orderService.createOrder(dealerUserId, dealerAccountId, validation.data, request.log);
+                return { status: 201, body: order, orderNo: order.orderNo };
+            });
         } catch (error: any) {
             server.log.error(error);
 
@@ -369,7 +580,50 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
                 return reply.status(400).send({ error: 'Bad Request', message: error.message });
             }
 
-            if (error.message.includes('not available') || error.message.includes('no price')) {
+            // Order rules, entitlement and pricing failures are the dealer's to fix
+            if (error instanceof BusinessRuleError) {
+                return reply.status(400).send({ error: 'Bad Request', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while creating order'
+            });
+        }
+    });
+
+    // POST /dealer/orders - Place an order from a list of lines without a cart (partner integrations)
+    server.post('/orders', {
+        preHandler: [requireDealerAccess('orders:write'), requireDealerRole(DealerUserRole.BUYER, DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const validation = OrderCreateSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid order data',
+                details: validation.error.issues
+            });
+        }
+
+        if (!request.user?.dealerUserId || !request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const { dealerUserId, dealerAccountId, apiKeyId } = request.user;
+
+            return await sendIdempotent(request, reply, async () => {
+                const order = await orderService.placeOrder(dealerUserId, dealerAccountId, validation.data, apiKeyId ? 'EDI' : 'WEB', request.log);
+                return { status: 201, body: order, orderNo: order.orderNo };
+            });
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error instanceof BusinessRuleError) {
                 return reply.status(400).send({ error: 'Bad Request', message: error.message });
             }
 
@@ -382,7 +636,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // GET /dealer/orders - Get order history
     server.get('/orders', {
-        preHandler: requireAuth
+        preHandler: requireDealerAccess('orders:read')
     }, async (request: AuthenticatedRequest, reply) => {
         const querySchema = z.object({
             limit: z.coerce.number().int().min(1).max(100).optional().default(20)
@@ -422,7 +676,7 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
 
     // GET /dealer/orders/:id - Get order detail
     server.get('/orders/:id', {
-        preHandler: requireAuth
+        preHandler: requireDealerAccess('orders:read')
     }, async (request: AuthenticatedRequest, reply) => {
         const paramsSchema = z.object({
             id: z.string().uuid()
@@ -464,6 +718,330 @@ const dealerRoutes: FastifyPluginAsync = async (server) => {
             });
         }
     });
+
+    // GET /dealer/orders/:id/pdf - Order acknowledgement or proforma as a PDF, e.g. ?document=PROFORMA
+    server.get('/orders/:id/pdf', {
+        preHandler: requireDealerAccess('orders:read')
+    }, async (request: AuthenticatedRequest, reply) => {
+        const paramsSchema = z.object({
+            id: z.string().uuid()
+        });
+
+        const params = paramsSchema.safeParse(request.params);
+        const query = OrderPdfQuerySchema.safeParse(request.query);
+
+        if (!params.success || !query.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid order ID or document type'
+            });
+        }
+
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const pdf = await orderPdfService.render(params.data.id, query.data.document, request.user.dealerAccountId);
+
+            reply.type(pdf.contentType);
+            reply.header('Content-Disposition', `attachment; filename="${pdf.fileName}"`);
+            return reply.send(pdf.content);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'Order not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while generating the order PDF'
+            });
+        }
+    });
+
+    // GET /dealer/approvals - Orders over their placer's limit, waiting for an approver on this account
+    server.get('/approvals', {
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const orders = await orderApprovalService.listPending(request.user.dealerAccountId);
+            return reply.status(200).send({ orders });
+        } catch (error: any) {
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while fetching approvals'
+            });
+        }
+    });
+
+    // POST /dealer/orders/:id/approve - Release a held order to the ERP, optionally with changed line quantities
+    server.post('/orders/:id/approve', {
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const params = z.object({ id: z.string().uuid() }).safeParse(request.params);
+        const validation = ApproveOrderSchema.safeParse(request.body ?? {});
+
+        if (!params.success || !validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid order ID or line changes',
+                details: validation.error?.issues
+            });
+        }
+
+        if (!request.user?.dealerUserId || !request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const { before, after } = await orderApprovalService.approve(
+                params.data.id,
+                request.user.dealerAccountId,
+                request.user.dealerUserId,
+                validation.data.lines,
+                request.log
+            );
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.DEALER,
+                    actorUserId: request.user.userId,
+                    action: 'APPROVE_ORDER',
+                    entityType: 'ORDER',
+                    entityId: params.data.id,
+                    beforeJson: before,
+                    afterJson: after
+                }
+            });
+
+            return reply.status(200).send(after);
+        } catch (error: any) {
+            return sendApprovalError(reply, error, 'An error occurred while approving order');
+        }
+    });
+
+    // POST /dealer/orders/:id/reject - Turn down a held order; the buyer is emailed the reason
+    server.post('/orders/:id/reject', {
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const params = z.object({ id: z.string().uuid() }).safeParse(request.params);
+        const validation = RejectOrderSchema.safeParse(request.body);
+
+        if (!params.success || !validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'A reason is required to reject an order',
+                details: validation.error?.issues
+            });
+        }
+
+        if (!request.user?.dealerUserId || !request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'User information not found'
+            });
+        }
+
+        try {
+            const { before, after } = await orderApprovalService.reject(
+                params.data.id,
+                request.user.dealerAccountId,
+                request.user.dealerUserId,
+                validation.data.reason,
+                request.log
+            );
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.DEALER,
+                    actorUserId: request.user.userId,
+                    action: 'REJECT_ORDER',
+                    entityType: 'ORDER',
+                    entityId: params.data.id,
+                    beforeJson: before,
+                    afterJson: after
+                }
+            });
+
+            return reply.status(200).send(after);
+        } catch (error: any) {
+            return sendApprovalError(reply, error, 'An error occurred while rejecting order');
+        }
+    });
+
+    function sendApprovalError(reply: FastifyReply, error: any, fallback: string) {
+        server.log.error(error);
+
+        if (error.message === 'Order not found' || error.message === 'Order line not found') {
+            return reply.status(404).send({ error: 'Not Found', message: error.message });
+        }
+        if (error.message === 'Only approvers can decide on orders'
+            || error.message === 'You cannot approve your own order'
+            || error.message === 'You cannot reject your own order') {
+            return reply.status(403).send({ error: 'Forbidden', message: error.message });
+        }
+        if (error.message === 'Order status changed, please retry') {
+            return reply.status(409).send({ error: 'Conflict', message: error.message });
+        }
+        if (error.message?.startsWith('Cannot transition')
+            || error.message?.startsWith('An approved order needs')
+            || error.message === 'Approvers can only reduce quantities'
+            || error.message?.startsWith('Cannot re-price')) {
+            return reply.status(400).send({ error: 'Bad Request', message: error.message });
+        }
+
+        return reply.status(500).send({ error: 'Internal Server Error', message: fallback });
+    }
+
+    // GET /dealer/users - Logins on the signed-in dealer's account, with how many orders each has placed
+    server.get('/users', {
+        preHandler: [requireAuth, requireDealerRole(DealerUserRole.BUYER, DealerUserRole.VIEWER, DealerUserRole.APPROVER)]
+    }, async (request: AuthenticatedRequest, reply) => {
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const users = await dealerUserService.list(request.user.dealerAccountId);
+            return reply.status(200).send({ users });
+        } catch (error: any) {
+            server.log.error(error);
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while fetching users'
+            });
+        }
+    });
+
+    // POST /dealer/users - Invite a colleague (primary user only); they are emailed a password
+    server.post('/users', {
+        preHandler: [requireAuth, requireDealerRole()]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const validation = InviteDealerUserSchema.safeParse(request.body);
+
+        if (!validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid user details',
+                details: validation.error.issues
+            });
+        }
+
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const { user, password } = await dealerUserService.invite(request.user.dealerAccountId, validation.data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.DEALER,
+                    actorUserId: request.user.userId,
+                    action: 'INVITE_DEALER_USER',
+                    entityType: 'DEALER_USER',
+                    entityId: user.id,
+                    afterJson: { dealerAccountId: request.user.dealerAccountId, email: user.email, role: user.role }
+                }
+            });
+
+            try {
+                await emailService.sendWelcomeEmail(user.email, user.firstName || 'Dealer', password);
+            } catch (err) {
+                server.log.error(err, `Email failed for new dealer user ${user.email}:`);
+            }
+
+            return reply.status(201).send(user);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'User already exists') {
+                return reply.status(400).send({ error: 'Conflict', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while inviting user'
+            });
+        }
+    });
+
+    // PATCH /dealer/users/:id - Change a colleague's name, role, order limit or active state (primary user only)
+    server.patch('/users/:id', {
+        preHandler: [requireAuth, requireDealerRole()]
+    }, async (request: AuthenticatedRequest, reply) => {
+        const params = z.object({ id: z.string().uuid() }).safeParse(request.params);
+        const validation = UpdateDealerUserSchema.safeParse(request.body);
+
+        if (!params.success || !validation.success) {
+            return reply.status(400).send({
+                error: 'Validation Error',
+                message: 'Invalid user ID or changes',
+                details: validation.error?.issues
+            });
+        }
+
+        if (!request.user?.dealerAccountId) {
+            return reply.status(400).send({
+                error: 'Bad Request',
+                message: 'Dealer account ID not found'
+            });
+        }
+
+        try {
+            const { before, after } = await dealerUserService.update(request.user.dealerAccountId, params.data.id, validation.data);
+
+            await prisma.auditLog.create({
+                data: {
+                    actorType: ActorType.DEALER,
+                    actorUserId: request.user.userId,
+                    action: 'UPDATE_DEALER_USER',
+                    entityType: 'DEALER_USER',
+                    entityId: after.id,
+                    beforeJson: { role: before.role, isActive: before.isActive, orderLimit: before.orderLimit, firstName: before.firstName, lastName: before.lastName },
+                    afterJson: { role: after.role, isActive: after.isActive, orderLimit: after.orderLimit, firstName: after.firstName, lastName: after.lastName }
+                }
+            });
+
+            return reply.status(200).send(after);
+        } catch (error: any) {
+            server.log.error(error);
+
+            if (error.message === 'Dealer user not found') {
+                return reply.status(404).send({ error: 'Not Found', message: error.message });
+            }
+            if (error.message === 'The primary user cannot be deactivated') {
+                return reply.status(400).send({ error: 'Bad Request', message: error.message });
+            }
+
+            return reply.status(500).send({
+                error: 'Internal Server Error',
+                message: 'An error occurred while updating user'
+            });
+        }
+    });
 };
 
 export default dealerRoutes;
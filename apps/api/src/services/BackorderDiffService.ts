@@ -0,0 +1,220 @@
+import { PrismaClient, BackorderLine } from 'db';
+import { BackorderLineDiff, BackorderRules } from 'rules';
+
+export interface BackorderDatasetSummary {
+    id: string;
+    uploadedAt: Date;
+    isActive: boolean;
+    fileName: string | null;
+    lineCount: number;
+}
+
+export interface BackorderAccountDiff {
+    accountNo: string;
+    customerName: string | null;
+    newlyBackordered: number;
+    cleared: number;
+    outstandingChanged: number;
+    newInWarehouse: number;
+}
+
+export interface BackorderDiffLine {
+    yourOrderNo: string | null;
+    ourNo: string;
+    itemNo: string;
+    part: string;
+    description: string | null;
+    qtyOrdered: number;
+    qtyOutstanding: number | null; // Null on a cleared line
+    inWh: number | null;
+    previousQtyOutstanding: number | null; // Null on a newly backordered line
+    previousInWh: number | null;
+    outstandingDelta: number;
+    inWhDelta: number;
+}
+
+export interface BackorderDatasetDiff {
+    from: BackorderDatasetSummary;
+    to: BackorderDatasetSummary;
+    summary: Omit<BackorderAccountDiff, 'accountNo' | 'customerName'> & { accounts: number };
+    accounts: BackorderAccountDiff[]; // Accounts with at least one change, busiest first
+}
+
+export interface BackorderAccountLineDiff {
+    from: BackorderDatasetSummary;
+    to: BackorderDatasetSummary;
+    accountNo: string;
+    newlyBackordered: BackorderDiffLine[];
+    cleared: BackorderDiffLine[];
+    outstandingChanged: BackorderDiffLine[];
+    newInWarehouse: BackorderDiffLine[];
+}
+
+type Categories = Record<'newlyBackordered' | 'cleared' | 'outstandingChanged' | 'newInWarehouse', boolean>;
+
+/**
+ * Classify one line diff. A line can be in several categories: an outstanding change
+ * and new in-warehouse stock often arrive together.
+ */
+function categorize(entry: BackorderLineDiff<BackorderLine>): Categories {
+    return {
+        newlyBackordered: !entry.previous,
+        cleared: !entry.current,
+        outstandingChanged: !!entry.previous && !!entry.current && entry.outstandingDelta !== 0,
+        newInWarehouse: !!entry.current && entry.inWhDelta > 0
+    };
+}
+
+function toDiffLine(entry: BackorderLineDiff<BackorderLine>): BackorderDiffLine {
+    const line = (entry.current ?? entry.previous)!;
+    return {
+        yourOrderNo: line.yourOrderNo,
+        ourNo: line.ourNo,
+        itemNo: line.itemNo,
+        part: line.part,
+        description: line.description,
+        qtyOrdered: line.qtyOrdered,
+        qtyOutstanding: entry.current?.qtyOutstanding ?? null,
+        inWh: entry.current?.inWh ?? null,
+        previousQtyOutstanding: entry.previous?.qtyOutstanding ?? null,
+        previousInWh: entry.previous?.inWh ?? null,
+        outstandingDelta: entry.outstandingDelta,
+        inWhDelta: entry.inWhDelta
+    };
+}
+
+export class BackorderDiffService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Retained datasets, newest first
+     */
+    async listDatasets(): Promise<BackorderDatasetSummary[]> {
+        const datasets = await this.prisma.backorderDataset.findMany({
+            orderBy: { uploadedAt: 'desc' },
+            include: {
+                batch: { select: { fileName: true } },
+                _count: { select: { lines: true } }
+            }
+        });
+
+        return datasets.map(d => ({
+            id: d.id,
+            uploadedAt: d.uploadedAt,
+            isActive: d.isActive,
+            fileName: d.batch.fileName,
+            lineCount: d._count.lines
+        }));
+    }
+
+    /**
+     * Per-account change counts between two datasets.
+     * Without ids, compares the active dataset with the one before it.
+     */
+    async diff(fromId?: string, toId?: string): Promise<BackorderDatasetDiff> {
+        const { from, to } = await this.resolvePair(fromId, toId);
+        const [previous, current] = await Promise.all([this.loadLines(from.id), this.loadLines(to.id)]);
+
+        const accounts = new Map<string, BackorderAccountDiff>();
+        for (const entry of BackorderRules.diff(previous, current)) {
+            if (!entry.changed) continue;
+
+            const line = (entry.current ?? entry.previous)!;
+            let account = accounts.get(line.accountNo);
+            if (!account) {
+                account = {
+                    accountNo: line.accountNo,
+                    customerName: line.customerName,
+                    newlyBackordered: 0,
+                    cleared: 0,
+                    outstandingChanged: 0,
+                    newInWarehouse: 0
+                };
+                accounts.set(line.accountNo, account);
+            }
+
+            const categories = categorize(entry);
+            for (const category of Object.keys(categories) as Array<keyof Categories>) {
+                if (categories[category]) account[category]++;
+            }
+        }
+
+        const list = Array.from(accounts.values()).sort((a, b) =>
+            (b.newlyBackordered + b.cleared + b.outstandingChanged + b.newInWarehouse) -
+            (a.newlyBackordered + a.cleared + a.outstandingChanged + a.newInWarehouse)
+        );
+
+        return {
+            from,
+            to,
+            summary: {
+                accounts: list.length,
+                newlyBackordered: list.reduce((sum, a) => sum + a.newlyBackordered, 0),
+                cleared: list.reduce((sum, a) => sum + a.cleared, 0),
+                outstandingChanged: list.reduce((sum, a) => sum + a.outstandingChanged, 0),
+                newInWarehouse: list.reduce((sum, a) => sum + a.newInWarehouse, 0)
+            },
+            accounts: list
+        };
+    }
+
+    /**
+     * Line-level changes for one account between two datasets
+     */
+    async diffAccount(accountNo: string, fromId?: string, toId?: string): Promise<BackorderAccountLineDiff> {
+        const { from, to } = await this.resolvePair(fromId, toId);
+        const [previous, current] = await Promise.all([
+            this.loadLines(from.id, accountNo),
+            this.loadLines(to.id, accountNo)
+        ]);
+
+        const result: BackorderAccountLineDiff = {
+            from,
+            to,
+            accountNo,
+            newlyBackordered: [],
+            cleared: [],
+            outstandingChanged: [],
+            newInWarehouse: []
+        };
+
+        for (const entry of BackorderRules.diff(previous, current)) {
+            if (!entry.changed) continue;
+
+            const categories = categorize(entry);
+            for (const category of Object.keys(categories) as Array<keyof Categories>) {
+                if (categories[category]) result[category].push(toDiffLine(entry));
+            }
+        }
+
+        return result;
+    }
+
+    private async resolvePair(fromId?: string, toId?: string): Promise<{ from: BackorderDatasetSummary; to: BackorderDatasetSummary }> {
+        const datasets = await this.listDatasets();
+
+        const to = toId ? datasets.find(d => d.id === toId) : datasets.find(d => d.isActive);
+        if (!to) {
+            throw new Error(toId ? 'Backorder dataset not found' : 'No active backorder dataset');
+        }
+
+        const from = fromId
+            ? datasets.find(d => d.id === fromId)
+            : datasets.find(d => d.uploadedAt < to.uploadedAt);
+        if (!from) {
+            throw new Error(fromId ? 'Backorder dataset not found' : 'No earlier backorder dataset to compare with');
+        }
+        if (from.id === to.id) {
+            throw new Error('Choose two different datasets to compare');
+        }
+
+        return { from, to };
+    }
+
+    private async loadLines(datasetId: string, accountNo?: string): Promise<BackorderLine[]> {
+        return this.prisma.backorderLine.findMany({
+            where: { datasetId, ...(accountNo && { accountNo }) },
+            orderBy: [{ accountNo: 'asc' }, { ourNo: 'asc' }, { itemNo: 'asc' }]
+        });
+    }
+}
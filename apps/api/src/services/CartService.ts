@@ -1,5 +1,7 @@
 import { PrismaClient } from 'db';
-import { PricingRules } from 'rules';
+import { PricingRules, SupersessionRules } from 'rules';
+import { SupersessionService, SupersessionInfo } from './SupersessionService';
+import { PriceRuleInfo, toPriceRuleInfo } from './DealerService';
 
 export interface CartItemInput {
     productId: string;
@@ -21,8 +23,10 @@ export interface CartWithItems {
         };
         yourPrice: number | null;
         bandCode: string | null;
+        priceRule: PriceRuleInfo | null;
         available: boolean;
         lineTotal: number | null;
+        supersession: SupersessionInfo | null;
     }>;
     subtotal: number;
 }
@@ -30,7 +34,8 @@ export interface CartWithItems {
 export class CartService {
     constructor(
         private prisma: PrismaClient,
-        private pricingRules: PricingRules
+        private pricingRules: PricingRules,
+        private supersessionService: SupersessionService
     ) { }
 
     async getOrCreateCart(dealerUserId: string, dealerAccountId: string): Promise<CartWithItems> {
@@ -164,6 +169,57 @@ export class CartService {
         return this.getOrCreateCart(dealerUserId, dealerAccountId);
     }
 
+    async substituteItem(cartItemId: string, dealerUserId: string, dealerAccountId: string): Promise<CartWithItems> {
+        // 1. Verify item belongs to user's cart
+        const item = await this.prisma.cartItem.findUnique({
+            where: { id: cartItemId },
+            include: { cart: true, product: true }
+        });
+
+        if (!item || item.cart.dealerUserId !== dealerUserId) {
+            throw new Error('Cart item not found');
+        }
+
+        // 2. Resolve the current replacement
+        const supersessions = await this.supersessionService.findReplacements(
+            dealerAccountId,
+            [item.product.productCode]
+        );
+        const replacement = supersessions.get(SupersessionRules.normalize(item.product.productCode))?.replacement;
+
+        if (!replacement || !replacement.available) {
+            throw new Error('No replacement available');
+        }
+
+        // 3. Swap the line, merging into an existing line for the replacement
+        await this.prisma.$transaction(async (tx) => {
+            const existingItem = await tx.cartItem.findUnique({
+                where: {
+                    cartId_productId: {
+                        cartId: item.cartId,
+                        productId: replacement.id
+                    }
+                }
+            });
+
+            if (existingItem) {
+                await tx.cartItem.update({
+                    where: { id: existingItem.id },
+                    data: { qty: existingItem.qty + item.qty }
+                });
+                await tx.cartItem.delete({ where: { id: item.id } });
+            } else {
+                await tx.cartItem.update({
+                    where: { id: item.id },
+                    data: { productId: replacement.id }
+                });
+            }
+        });
+
+        // 4. Return updated cart
+        return this.getOrCreateCart(dealerUserId, dealerAccountId);
+    }
+
     async clearCart(dealerUserId: string, dealerAccountId: string): Promise<CartWithItems> {
         const cart = await this.prisma.cart.findUnique({
             where: { dealerUserId }
@@ -187,10 +243,17 @@ export class CartService {
             };
         }
 
-        // Calculate pricing for all items
+        // Calculate pricing for all items at their cart quantities
         const priceMap = await this.pricingRules.calculatePrices(
             dealerAccountId,
-            cart.items.map((item: any) => item.productId)
+            cart.items.map((item: any) => item.productId),
+            new Map(cart.items.map((item: any) => [item.productId, item.qty]))
+        );
+
+        // Flag superseded lines so the dealer can switch to the replacement
+        const supersessions = await this.supersessionService.findReplacements(
+            dealerAccountId,
+            cart.items.map((item: any) => item.product.productCode)
         );
 
         let subtotal = 0;
@@ -209,8 +272,10 @@ export class CartService {
                 product: item.product,
                 yourPrice: pricing?.available ? pricing.price : null,
                 bandCode: pricing?.bandCode ?? null,
+                priceRule: toPriceRuleInfo(pricing),
                 available: pricing?.available ?? false,
-                lineTotal
+                lineTotal,
+                supersession: supersessions.get(SupersessionRules.normalize(item.product.productCode)) ?? null
             };
         });
 
@@ -0,0 +1,170 @@
+import { PrismaClient, Prisma, DealerPriceOverride } from 'db';
+import { PricingRules } from 'rules';
+
+export interface DealerPriceInput {
+    productCode: string;
+    netPrice: number;
+    validFrom?: Date | null;
+    validTo?: Date | null;
+    waiveMinimumPrice?: boolean;
+    note?: string | null;
+}
+
+export type DealerPriceStatus = 'ACTIVE' | 'SCHEDULED' | 'EXPIRED';
+
+/**
+ * Dealer-specific net price overrides (DealerPriceOverride).
+ * Validity windows for the same dealer and product may not overlap, so at most one override applies at a time.
+ */
+export class DealerPriceService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * A dealer's overrides with the band and minimum prices they replace
+     */
+    async list(dealerAccountId: string, now: Date = new Date()) {
+        const dealer = await this.findDealer(dealerAccountId);
+
+        const overrides = await this.prisma.dealerPriceOverride.findMany({
+            where: { dealerAccountId },
+            include: {
+                product: {
+                    select: {
+                        productCode: true,
+                        description: true,
+                        partType: true,
+                        bandPrices: true,
+                        refPrice: { select: { minimumPrice: true } }
+                    }
+                }
+            },
+            orderBy: [{ product: { productCode: 'asc' } }, { validFrom: 'desc' }]
+        });
+
+        return overrides.map(({ product, ...override }) => {
+            const bandCode = dealer.bandAssignments.find(b => b.partType === product.partType)?.bandCode;
+            const bandPrice = product.bandPrices.find(p => p.bandCode === bandCode)?.price;
+
+            return {
+                ...override,
+                netPrice: Number(override.netPrice),
+                productCode: product.productCode,
+                description: product.description,
+                partType: product.partType,
+                bandCode: bandCode ?? null,
+                bandPrice: bandPrice !== undefined ? Number(bandPrice) : null,
+                minimumPrice: product.refPrice?.minimumPrice ? Number(product.refPrice.minimumPrice) : null,
+                status: this.statusOf(override, now)
+            };
+        });
+    }
+
+    async create(dealerAccountId: string, input: DealerPriceInput) {
+        await this.findDealer(dealerAccountId);
+        const product = await this.findProduct(input.productCode);
+
+        const data = {
+            netPrice: new Prisma.Decimal(input.netPrice),
+            validFrom: input.validFrom ?? null,
+            validTo: input.validTo ?? null,
+            waiveMinimumPrice: input.waiveMinimumPrice ?? false,
+            note: input.note ?? null
+        };
+        await this.assertNoOverlap(dealerAccountId, product.id, data.validFrom, data.validTo);
+
+        return this.prisma.dealerPriceOverride.create({
+            data: { ...data, dealerAccountId, productId: product.id }
+        });
+    }
+
+    async update(dealerAccountId: string, overrideId: string, input: Partial<DealerPriceInput>) {
+        const existing = await this.findOverride(dealerAccountId, overrideId);
+        const productId = input.productCode
+            ? (await this.findProduct(input.productCode)).id
+            : existing.productId;
+
+        const validFrom = input.validFrom !== undefined ? input.validFrom : existing.validFrom;
+        const validTo = input.validTo !== undefined ? input.validTo : existing.validTo;
+        await this.assertNoOverlap(dealerAccountId, productId, validFrom, validTo, overrideId);
+
+        return this.prisma.dealerPriceOverride.update({
+            where: { id: overrideId },
+            data: {
+                productId,
+                netPrice: input.netPrice !== undefined ? new Prisma.Decimal(input.netPrice) : undefined,
+                validFrom,
+                validTo,
+                waiveMinimumPrice: input.waiveMinimumPrice,
+                note: input.note
+            }
+        });
+    }
+
+    async delete(dealerAccountId: string, overrideId: string) {
+        const existing = await this.findOverride(dealerAccountId, overrideId);
+        await this.prisma.dealerPriceOverride.delete({ where: { id: overrideId } });
+        return existing;
+    }
+
+    private statusOf(override: Pick<DealerPriceOverride, 'validFrom' | 'validTo'>, now: Date): DealerPriceStatus {
+        if (override.validFrom && override.validFrom > now) return 'SCHEDULED';
+        if (override.validTo && override.validTo <= now) return 'EXPIRED';
+        return 'ACTIVE';
+    }
+
+    private async assertNoOverlap(
+        dealerAccountId: string,
+        productId: string,
+        validFrom: Date | null,
+        validTo: Date | null,
+        excludeId?: string
+    ) {
+        if (validFrom && validTo && validFrom >= validTo) {
+            throw new Error('Valid to must be after valid from');
+        }
+
+        const others = await this.prisma.dealerPriceOverride.findMany({
+            where: { dealerAccountId, productId, id: excludeId ? { not: excludeId } : undefined }
+        });
+        const clash = others.find(o => PricingRules.windowsOverlap(o.validFrom, o.validTo, validFrom, validTo));
+        if (clash) {
+            throw new Error(`Overlaps an existing override (${this.describeWindow(clash)})`);
+        }
+    }
+
+    private describeWindow(override: Pick<DealerPriceOverride, 'validFrom' | 'validTo'>): string {
+        const day = (date: Date | null) => date ? date.toISOString().slice(0, 10) : null;
+        return `${day(override.validFrom) ?? 'open start'} to ${day(override.validTo) ?? 'open end'}`;
+    }
+
+    private async findDealer(dealerAccountId: string) {
+        const dealer = await this.prisma.dealerAccount.findUnique({
+            where: { id: dealerAccountId },
+            include: { bandAssignments: true }
+        });
+        if (!dealer) {
+            throw new Error('Dealer not found');
+        }
+        return dealer;
+    }
+
+    private async findProduct(productCode: string) {
+        const product = await this.prisma.product.findFirst({
+            where: { productCode: { equals: productCode.trim(), mode: 'insensitive' } }
+        });
+        if (!product) {
+            throw new Error('Product not found');
+        }
+        return product;
+    }
+
+    private async findOverride(dealerAccountId: string, overrideId: string) {
+        const override = await this.prisma.dealerPriceOverride.findFirst({
+            where: { id: overrideId, dealerAccountId }
+        });
+        if (!override) {
+            throw new Error('Price override not found');
+        }
+        return override;
+    }
+}
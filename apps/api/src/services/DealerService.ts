@@ -1,5 +1,7 @@
-import { PrismaClient, PartType, Entitlement, DealerStatus } from 'db';
-import { EntitlementRules, PricingRules } from 'rules';
+import { PrismaClient, PartType, Entitlement, DealerStatus, PriceRuleType, BackorderLine } from 'db';
+import { BackorderRules, EntitlementRules, PricingRules, PricingResult, SupersessionRules } from 'rules';
+import * as XLSX from 'xlsx';
+import { SupersessionService, SupersessionInfo } from './SupersessionService';
 
 export interface ProductSearchFilters {
     q?: string;
@@ -19,20 +21,81 @@ export interface PricedProduct {
     bandCode: string | null;
     available: boolean;
     minPriceApplied: boolean;
+    priceRule: PriceRuleInfo | null;
     reason?: string;
     currency: string;
+    supersession?: SupersessionInfo;
+}
+
+export interface BackorderFilters {
+    yourOrderNo?: string;
+    part?: string;
+}
+
+// NEW: not on the previous import; CHANGED: ordered, outstanding or in-warehouse qty moved
+export type BackorderChange = 'NEW' | 'CHANGED' | null;
+
+export type DealerBackorderLine = BackorderLine & {
+    change: BackorderChange;
+    previous: { qtyOutstanding: number; inWh: number } | null;
+};
+
+export interface DealerBackorders {
+    dataset: { id: string; uploadedAt: Date; previousUploadedAt: Date | null } | null;
+    lines: DealerBackorderLine[];
+    clearedCount: number; // Lines on the previous import that have since shipped or been cancelled
+}
+
+export type BackorderExportFormat = 'csv' | 'xlsx';
+
+export interface DealerPreferences {
+    notifyBackorderStock: boolean;
+}
+
+// Why a price differs from the dealer's band price
+export interface PriceRuleInfo {
+    ruleType: PriceRuleType | typeof DEALER_NET_PRICE;
+    name: string;
+    basePrice: number;
+}
+
+// PriceRuleInfo.ruleType reported for a DealerPriceOverride
+export const DEALER_NET_PRICE = 'DEALER_NET_PRICE';
+
+export function dealerNetPriceInfo(basePrice: number): PriceRuleInfo {
+    return { ruleType: DEALER_NET_PRICE, name: 'Account net price', basePrice };
+}
+
+export function toPriceRuleInfo(pricing?: PricingResult): PriceRuleInfo | null {
+    if (!pricing?.available) return null;
+    if (pricing.appliedOverride) {
+        return dealerNetPriceInfo(Number(pricing.appliedOverride.basePrice));
+    }
+    if (!pricing.appliedRule) return null;
+    return {
+        ruleType: pricing.appliedRule.ruleType,
+        name: pricing.appliedRule.name,
+        basePrice: Number(pricing.appliedRule.basePrice)
+    };
 }
 
 export class DealerService {
     constructor(
         private prisma: PrismaClient,
-        private pricingRules: PricingRules
+        private pricingRules: PricingRules,
+        private supersessionService: SupersessionService
     ) { }
 
     async searchProducts(
         dealerAccountId: string,
         filters: ProductSearchFilters
-    ): Promise<{ results: PricedProduct[]; count: number; entitlement: Entitlement; status: DealerStatus }> {
+    ): Promise<{
+        results: PricedProduct[];
+        count: number;
+        entitlement: Entitlement;
+        status: DealerStatus;
+        supersession: SupersessionInfo | null;
+    }> {
         // 1. Load dealer account
         const dealerAccount = await this.prisma.dealerAccount.findUnique({
             where: { id: dealerAccountId },
@@ -91,9 +154,16 @@ export class DealerService {
             products.map(p => p.id)
         );
 
-        // 6. Format results
+        // 6. Resolve supersessions for the query and every result
+        const supersessions = await this.supersessionService.findReplacements(
+            dealerAccountId,
+            [...(filters.q ? [filters.q] : []), ...products.map(p => p.productCode)]
+        );
+
+        // 7. Format results
         let results = products.map(product => {
             const pricing = priceMap.get(product.id);
+            const supersession = supersessions.get(SupersessionRules.normalize(product.productCode));
 
             return {
                 id: product.id,
@@ -105,12 +175,14 @@ export class DealerService {
                 bandCode: pricing?.bandCode ?? null,
                 available: pricing?.available ?? false,
                 minPriceApplied: pricing?.minimumPriceApplied ?? false,
+                priceRule: toPriceRuleInfo(pricing),
                 reason: pricing?.reason,
-                currency: 'GBP'
+                currency: 'GBP',
+                ...(supersession ? { supersession } : {})
             };
         });
 
-        // 7. In-memory sort by price if requested
+        // 8. In-memory sort by price if requested
         if (filters.sortBy === 'price') {
             results.sort((a, b) => (Number(a.yourPrice) || 0) - (Number(b.yourPrice) || 0));
         }
@@ -119,7 +191,8 @@ export class DealerService {
             results,
             count: results.length,
             entitlement: dealerAccount.entitlement,
-            status: dealerAccount.status
+            status: dealerAccount.status,
+            supersession: filters.q ? supersessions.get(SupersessionRules.normalize(filters.q)) ?? null : null
         };
     }
 
@@ -137,11 +210,19 @@ export class DealerService {
             }
         });
 
+        // 2. Resolve supersession (also covers superseded codes no longer in the catalogue)
+        const supersessions = await this.supersessionService.findReplacements(dealerAccountId, [productCode]);
+        const supersession = supersessions.get(SupersessionRules.normalize(productCode));
+
         if (!product) {
+            if (supersession?.replacement) {
+                const replacement = await this.getProductDetail(dealerAccountId, supersession.replacement.productCode);
+                return { ...replacement, supersession };
+            }
             throw new Error('Product not found');
         }
 
-        // 2. Calculate pricing
+        // 3. Calculate pricing
         const priceMap = await this.pricingRules.calculatePrices(
             dealerAccountId,
             [product.id]
@@ -158,14 +239,19 @@ export class DealerService {
             bandCode: pricing?.bandCode ?? null,
             available: pricing?.available ?? false,
             minPriceApplied: pricing?.minimumPriceApplied ?? false,
+            priceRule: toPriceRuleInfo(pricing),
             reason: pricing?.reason,
             currency: 'GBP',
             aliases: product.aliases,
-            refPrice: product.refPrice
+            refPrice: product.refPrice,
+            ...(supersession ? { supersession } : {})
         };
     }
 
-    async getBackorders(dealerAccountId: string): Promise<any[]> {
+    /**
+     * Backorders from the active dataset, each flagged against the import before it
+     */
+    async getBackorders(dealerAccountId: string, filters: BackorderFilters = {}): Promise<DealerBackorders> {
         // 1. Verify dealer exists
         const dealer = await this.prisma.dealerAccount.findUnique({
             where: { id: dealerAccountId },
@@ -176,20 +262,127 @@ export class DealerService {
             throw new Error('Dealer account not found');
         }
 
-        // 2. Get active backorder dataset
+        // 2. Get active backorder dataset and the one it replaced
         const activeDataset = await this.prisma.backorderDataset.findFirst({
             where: { isActive: true },
             include: {
                 lines: {
-                    where: { accountNo: dealer.accountNo }
+                    where: { accountNo: dealer.accountNo },
+                    orderBy: [{ ourNo: 'asc' }, { itemNo: 'asc' }]
                 }
             }
         });
 
         if (!activeDataset) {
-            return [];
+            return { dataset: null, lines: [], clearedCount: 0 };
+        }
+
+        const previousDataset = await this.prisma.backorderDataset.findFirst({
+            where: { isActive: false, uploadedAt: { lt: activeDataset.uploadedAt } },
+            orderBy: { uploadedAt: 'desc' },
+            include: {
+                lines: { where: { accountNo: dealer.accountNo } }
+            }
+        });
+
+        // 3. Diff the whole account, then filter, so a filter never turns an old line into a new one
+        const diff = BackorderRules.diff(previousDataset?.lines ?? [], activeDataset.lines);
+        const matches = (line: BackorderLine) =>
+            (!filters.yourOrderNo || (line.yourOrderNo ?? '').toUpperCase().includes(filters.yourOrderNo.trim().toUpperCase())) &&
+            (!filters.part || line.part.toUpperCase().includes(filters.part.trim().toUpperCase()));
+
+        const lines: DealerBackorderLine[] = [];
+        let clearedCount = 0;
+        for (const entry of diff) {
+            if (!entry.current) {
+                if (previousDataset && matches(entry.previous!)) clearedCount++;
+                continue;
+            }
+            if (!matches(entry.current)) continue;
+
+            lines.push({
+                ...entry.current,
+                // Everything is new on the first import; flagging it all would be noise
+                change: !previousDataset || !entry.changed ? null : entry.previous ? 'CHANGED' : 'NEW',
+                previous: entry.previous
+                    ? { qtyOutstanding: entry.previous.qtyOutstanding, inWh: entry.previous.inWh }
+                    : null
+            });
+        }
+
+        return {
+            dataset: {
+                id: activeDataset.id,
+                uploadedAt: activeDataset.uploadedAt,
+                previousUploadedAt: previousDataset?.uploadedAt ?? null
+            },
+            lines,
+            clearedCount
+        };
+    }
+
+    /**
+     * The dealer's filtered backorders as a CSV or XLSX file
+     */
+    async exportBackorders(
+        dealerAccountId: string,
+        filters: BackorderFilters,
+        format: BackorderExportFormat
+    ): Promise<{ fileName: string; contentType: string; content: Buffer }> {
+        const { dataset, lines } = await this.getBackorders(dealerAccountId, filters);
+
+        const rows = lines.map(line => ({
+            'Your Order No': line.yourOrderNo ?? '',
+            'Our No': line.ourNo,
+            'Item No': line.itemNo,
+            'Part': line.part,
+            'Description': line.description ?? '',
+            'Qty Ordered': line.qtyOrdered,
+            'Qty Outstanding': line.qtyOutstanding,
+            'In WH': line.inWh,
+            'Changed': line.change ?? ''
+        }));
+
+        const worksheet = XLSX.utils.json_to_sheet(rows, {
+            header: ['Your Order No', 'Our No', 'Item No', 'Part', 'Description', 'Qty Ordered', 'Qty Outstanding', 'In WH', 'Changed']
+        });
+        const stamp = (dataset?.uploadedAt ?? new Date()).toISOString().slice(0, 10);
+
+        if (format === 'csv') {
+            return {
+                fileName: `backorders-${stamp}.csv`,
+                contentType: 'text/csv; charset=utf-8',
+                content: Buffer.from(XLSX.utils.sheet_to_csv(worksheet), 'utf-8')
+            };
+        }
+
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, 'Backorders');
+        return {
+            fileName: `backorders-${stamp}.xlsx`,
+            contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            content: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+        };
+    }
+
+    async getPreferences(dealerUserId: string): Promise<DealerPreferences> {
+        const dealerUser = await this.prisma.dealerUser.findUnique({
+            where: { id: dealerUserId },
+            select: { notifyBackorderStock: true }
+        });
+
+        if (!dealerUser) {
+            throw new Error('Dealer user not found');
         }
 
-        return activeDataset.lines;
+        return dealerUser;
+    }
+
+    async updatePreferences(dealerUserId: string, preferences: Partial<DealerPreferences>): Promise<DealerPreferences> {
+        return this.prisma.dealerUser.update({
+            where: { id: dealerUserId },
+            data: preferences,
+            select: { notifyBackorderStock: true }
+        });
     }
 }
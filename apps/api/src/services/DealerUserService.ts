@@ -0,0 +1,182 @@
+import { PrismaClient, DealerStatus, DealerUserRole, UserRole } from 'db';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { SessionService } from '@hotbray/domain-auth';
+
+const SALT_ROUNDS = 10;
+
+export interface DealerUserSummary {
+    id: string;
+    userId: string;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+    role: DealerUserRole;
+    isPrimary: boolean;
+    isActive: boolean;
+    orderLimit: number | null; // Orders above it wait for an approver
+    lastLoginAt: Date | null;
+    createdAt: Date;
+    orderCount: number;
+    lastOrderAt: Date | null;
+}
+
+export interface DealerUserInvite {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    role: DealerUserRole;
+}
+
+export interface DealerUserChanges {
+    firstName?: string | null;
+    lastName?: string | null;
+    role?: DealerUserRole;
+    isActive?: boolean;
+    orderLimit?: number | null;
+}
+
+// What the signed-in dealer user may do right now, read fresh rather than from the token
+export interface DealerUserAccess {
+    dealerAccountId: string;
+    role: DealerUserRole;
+    isPrimary: boolean;
+    isActive: boolean;
+}
+
+/**
+ * Logins on a dealer account. The primary user manages the others; admins can do the same and move the primary flag.
+ */
+export class DealerUserService {
+    constructor(private prisma: PrismaClient, private sessions?: SessionService) { }
+
+    /**
+     * Primary user first, then in the order they were added
+     */
+    async list(dealerAccountId: string): Promise<DealerUserSummary[]> {
+        const users = await this.prisma.dealerUser.findMany({
+            where: { dealerAccountId },
+            orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+            include: {
+                user: { select: { email: true, lastLoginAt: true } },
+                _count: { select: { orders: true } },
+                orders: { orderBy: { createdAt: 'desc' }, take: 1, select: { createdAt: true } }
+            }
+        });
+
+        return users.map(u => ({
+            id: u.id,
+            userId: u.userId,
+            email: u.user.email,
+            firstName: u.firstName,
+            lastName: u.lastName,
+            role: u.role,
+            isPrimary: u.isPrimary,
+            isActive: u.isActive,
+            orderLimit: u.orderLimit === null ? null : Number(u.orderLimit),
+            lastLoginAt: u.user.lastLoginAt,
+            createdAt: u.createdAt,
+            orderCount: u._count.orders,
+            lastOrderAt: u.orders[0]?.createdAt ?? null
+        }));
+    }
+
+    async access(dealerUserId: string): Promise<DealerUserAccess | null> {
+        const dealerUser = await this.prisma.dealerUser.findUnique({
+            where: { id: dealerUserId },
+            select: { dealerAccountId: true, role: true, isPrimary: true, isActive: true, user: { select: { isActive: true } } }
+        });
+        if (!dealerUser) return null;
+
+        return {
+            dealerAccountId: dealerUser.dealerAccountId,
+            role: dealerUser.role,
+            isPrimary: dealerUser.isPrimary,
+            isActive: dealerUser.isActive && dealerUser.user.isActive
+        };
+    }
+
+    /**
+     * Create a login on the account. Returns the generated password for the welcome email.
+     */
+    async invite(dealerAccountId: string, invite: DealerUserInvite): Promise<{ user: DealerUserSummary; password: string }> {
+        const dealer = await this.prisma.dealerAccount.findUnique({ where: { id: dealerAccountId }, select: { status: true } });
+        if (!dealer) {
+            throw new Error('Dealer not found');
+        }
+
+        const existing = await this.prisma.appUser.findUnique({ where: { email: invite.email } });
+        if (existing) {
+            throw new Error('User already exists');
+        }
+
+        const password = randomBytes(9).toString('base64url');
+        const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+
+        const dealerUser = await this.prisma.dealerUser.create({
+            data: {
+                dealerAccount: { connect: { id: dealerAccountId } },
+                firstName: invite.firstName,
+                lastName: invite.lastName,
+                role: invite.role,
+                user: {
+                    create: {
+                        email: invite.email,
+                        passwordHash,
+                        mustChangePassword: true,
+                        role: UserRole.DEALER,
+                        isActive: dealer.status === DealerStatus.ACTIVE
+                    }
+                }
+            }
+        });
+
+        return { user: await this.get(dealerAccountId, dealerUser.id), password };
+    }
+
+    async get(dealerAccountId: string, dealerUserId: string): Promise<DealerUserSummary> {
+        const user = (await this.list(dealerAccountId)).find(u => u.id === dealerUserId);
+        if (!user) {
+            throw new Error('Dealer user not found');
+        }
+        return user;
+    }
+
+    /**
+     * Throws for unknown users and for deactivating the primary user. Deactivating signs the user out everywhere.
+     */
+    async update(dealerAccountId: string, dealerUserId: string, changes: DealerUserChanges): Promise<{ before: DealerUserSummary; after: DealerUserSummary }> {
+        const before = await this.get(dealerAccountId, dealerUserId);
+        if (before.isPrimary && changes.isActive === false) {
+            throw new Error('The primary user cannot be deactivated');
+        }
+
+        await this.prisma.dealerUser.update({
+            where: { id: dealerUserId },
+            data: changes
+        });
+
+        if (before.isActive && changes.isActive === false) {
+            await this.sessions?.revokeAll(before.userId, 'DEACTIVATED');
+        }
+
+        return { before, after: await this.get(dealerAccountId, dealerUserId) };
+    }
+
+    /**
+     * Hand the primary flag to another active user on the account
+     */
+    async makePrimary(dealerAccountId: string, dealerUserId: string): Promise<DealerUserSummary> {
+        const target = await this.get(dealerAccountId, dealerUserId);
+        if (!target.isActive) {
+            throw new Error('A deactivated user cannot be the primary user');
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.dealerUser.updateMany({ where: { dealerAccountId, isPrimary: true }, data: { isPrimary: false } }),
+            this.prisma.dealerUser.update({ where: { id: dealerUserId }, data: { isPrimary: true } })
+        ]);
+
+        return this.get(dealerAccountId, dealerUserId);
+    }
+}
@@ -0,0 +1,258 @@
+import { PrismaClient, ImportStatus, EmailStatus } from 'db';
+import {
+    EmailService,
+    EmailContext,
+    RenderedEmail,
+    ResolvedTemplate,
+    EmailTemplateContent,
+    EmailTemplateKey,
+    EMAIL_TEMPLATE_KEYS,
+    DEFAULT_EMAIL_TEMPLATES,
+    parseTemplate
+} from 'shared';
+
+export interface EmailTemplateVersionSummary {
+    id: string;
+    version: number;
+    isActive: boolean;
+    notes: string | null;
+    createdById: string | null;
+    createdAt: Date;
+}
+
+export interface EmailTemplateSummary {
+    key: EmailTemplateKey;
+    name: string;
+    previewSource: 'ORDER' | 'DEALER' | 'IMPORT';
+    variables: string[];
+    activeVersion: number | null; // Null while the built-in version is in use
+    versions: EmailTemplateVersionSummary[];
+}
+
+export interface EmailTemplateDetail extends EmailTemplateSummary {
+    builtIn: EmailTemplateContent;
+    versionContent: Array<EmailTemplateVersionSummary & EmailTemplateContent>;
+}
+
+export interface PreviewSourceOption {
+    id: string;
+    label: string;
+}
+
+export interface EmailPreview extends RenderedEmail {
+    to: string;
+}
+
+// What to render: unsaved content from the editor, a stored version, or (neither) the version in use
+export interface TemplateSelection {
+    content?: EmailTemplateContent;
+    version?: number;
+}
+
+export class EmailTemplateService {
+    constructor(private prisma: PrismaClient, private emailService: EmailService) { }
+
+    /**
+     * Every template key with its stored versions, newest first
+     */
+    async list(): Promise<EmailTemplateSummary[]> {
+        const versions = await this.prisma.emailTemplate.findMany({
+            orderBy: [{ key: 'asc' }, { version: 'desc' }],
+            select: { id: true, key: true, version: true, isActive: true, notes: true, createdById: true, createdAt: true }
+        });
+
+        return EMAIL_TEMPLATE_KEYS.map(key => {
+            const own = versions.filter(v => v.key === key).map(({ key: _key, ...v }) => v);
+            const { name, previewSource, variables } = DEFAULT_EMAIL_TEMPLATES[key];
+            return {
+                key,
+                name,
+                previewSource,
+                variables,
+                activeVersion: own.find(v => v.isActive)?.version ?? null,
+                versions: own
+            };
+        });
+    }
+
+    async get(key: EmailTemplateKey): Promise<EmailTemplateDetail> {
+        const summary = (await this.list()).find(t => t.key === key)!;
+        const versions = await this.prisma.emailTemplate.findMany({
+            where: { key },
+            orderBy: { version: 'desc' }
+        });
+        const { subject, bodyHtml, bodyText } = DEFAULT_EMAIL_TEMPLATES[key];
+
+        return {
+            ...summary,
+            builtIn: { subject, bodyHtml, bodyText },
+            versionContent: versions.map(v => ({
+                id: v.id,
+                version: v.version,
+                isActive: v.isActive,
+                notes: v.notes,
+                createdById: v.createdById,
+                createdAt: v.createdAt,
+                subject: v.subject,
+                bodyHtml: v.bodyHtml,
+                bodyText: v.bodyText
+            }))
+        };
+    }
+
+    /**
+     * Save a new version. Versions are never edited in place, so sent emails keep pointing at what they were rendered from.
+     * Throws TemplateSyntaxError for malformed content.
+     */
+    async createVersion(
+        key: EmailTemplateKey,
+        content: EmailTemplateContent,
+        options: { notes?: string; createdById?: string; activate?: boolean } = {}
+    ) {
+        EmailTemplateService.validate(content);
+
+        return this.prisma.$transaction(async (tx) => {
+            const latest = await tx.emailTemplate.findFirst({ where: { key }, orderBy: { version: 'desc' } });
+            if (options.activate) {
+                await tx.emailTemplate.updateMany({ where: { key, isActive: true }, data: { isActive: false } });
+            }
+
+            return tx.emailTemplate.create({
+                data: {
+                    key,
+                    version: (latest?.version ?? 0) + 1,
+                    subject: content.subject,
+                    bodyHtml: content.bodyHtml,
+                    bodyText: content.bodyText,
+                    isActive: !!options.activate,
+                    notes: options.notes,
+                    createdById: options.createdById
+                }
+            });
+        });
+    }
+
+    /**
+     * Put a stored version in use, or go back to the built-in version with null
+     */
+    async activate(key: EmailTemplateKey, version: number | null): Promise<{ previousVersion: number | null; activeVersion: number | null }> {
+        return this.prisma.$transaction(async (tx) => {
+            const current = await tx.emailTemplate.findFirst({ where: { key, isActive: true } });
+
+            if (version !== null) {
+                const target = await tx.emailTemplate.findUnique({ where: { key_version: { key, version } } });
+                if (!target) {
+                    throw new Error('Template version not found');
+                }
+            }
+
+            await tx.emailTemplate.updateMany({ where: { key, isActive: true }, data: { isActive: false } });
+            if (version !== null) {
+                await tx.emailTemplate.update({ where: { key_version: { key, version } }, data: { isActive: true } });
+            }
+
+            return { previousVersion: current?.version ?? null, activeVersion: version };
+        });
+    }
+
+    /**
+     * Recent records a template can be previewed against, newest first
+     */
+    async previewSources(key: EmailTemplateKey, search?: string): Promise<PreviewSourceOption[]> {
+        const source = DEFAULT_EMAIL_TEMPLATES[key].previewSource;
+        const term = search?.trim();
+
+        if (source === 'ORDER') {
+            const orders = await this.prisma.orderHeader.findMany({
+                where: term ? { orderNo: { contains: term, mode: 'insensitive' } } : undefined,
+                orderBy: { createdAt: 'desc' },
+                take: 20,
+                include: { dealerAccount: { select: { companyName: true } } }
+            });
+            return orders.map(o => ({ id: o.id, label: `${o.orderNo} - ${o.dealerAccount.companyName}` }));
+        }
+
+        if (source === 'IMPORT') {
+            const batches = await this.prisma.importBatch.findMany({
+                where: {
+                    status: { in: [ImportStatus.FAILED, ImportStatus.SUCCEEDED_WITH_ERRORS] },
+                    ...(term ? { fileName: { contains: term, mode: 'insensitive' as const } } : {})
+                },
+                orderBy: { startedAt: 'desc' },
+                take: 20
+            });
+            return batches.map(b => ({ id: b.id, label: `${b.fileName} (${b.importType}, ${b.status})` }));
+        }
+
+        const dealers = await this.prisma.dealerAccount.findMany({
+            where: term
+                ? { OR: [{ accountNo: { contains: term, mode: 'insensitive' } }, { companyName: { contains: term, mode: 'insensitive' } }] }
+                : undefined,
+            orderBy: { companyName: 'asc' },
+            take: 20
+        });
+        return dealers.map(d => ({ id: d.id, label: `${d.accountNo} - ${d.companyName}` }));
+    }
+
+    /**
+     * Render against a real order, dealer or import batch
+     */
+    async preview(key: EmailTemplateKey, selection: TemplateSelection, sourceId: string): Promise<EmailPreview> {
+        const [template, context] = await Promise.all([this.resolve(key, selection), this.context(key, sourceId)]);
+        return { ...EmailService.render(key, template, context.data), to: context.to };
+    }
+
+    /**
+     * Render as for preview and send to the given address instead of the real recipient.
+     * Goes through the outbox like any other email, but is delivered straight away.
+     */
+    async sendTest(key: EmailTemplateKey, selection: TemplateSelection, sourceId: string, to: string): Promise<EmailPreview> {
+        const { to: _recipient, ...rendered } = await this.preview(key, selection, sourceId);
+        const email = { ...rendered, subject: `[TEST] ${rendered.subject}` };
+
+        const queued = await this.emailService.queue(to, email);
+        if (queued.status === EmailStatus.SUPPRESSED) {
+            throw new Error(`${to} is suppressed after repeated delivery failures`);
+        }
+
+        const outcome = await this.emailService.outbox.deliverNow(queued.id);
+        if (outcome !== 'sent') {
+            const { errorMessage } = await this.emailService.outbox.get(queued.id);
+            throw new Error(`Test email could not be sent (${errorMessage}); check the SMTP settings`);
+        }
+        return { ...email, to };
+    }
+
+    static validate(content: EmailTemplateContent): void {
+        parseTemplate(content.subject);
+        parseTemplate(content.bodyHtml);
+        parseTemplate(content.bodyText);
+    }
+
+    private async resolve(key: EmailTemplateKey, selection: TemplateSelection): Promise<ResolvedTemplate> {
+        if (selection.content) {
+            return { ...selection.content, version: null };
+        }
+        if (selection.version !== undefined) {
+            const stored = await this.prisma.emailTemplate.findUnique({
+                where: { key_version: { key, version: selection.version } }
+            });
+            if (!stored) {
+                throw new Error('Template version not found');
+            }
+            return { subject: stored.subject, bodyHtml: stored.bodyHtml, bodyText: stored.bodyText, version: stored.version };
+        }
+        return this.emailService.getActiveTemplate(key);
+    }
+
+    private context(key: EmailTemplateKey, sourceId: string): Promise<EmailContext> {
+        switch (DEFAULT_EMAIL_TEMPLATES[key].previewSource) {
+            case 'ORDER':
+                return this.emailService.orderConfirmationContext(sourceId);
+            case 'IMPORT':
+                return this.emailService.importFailedContext(sourceId);
+            default:
+                return this.emailService.dealerContext(sourceId);
+        }
+    }
+}
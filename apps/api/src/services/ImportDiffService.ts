@@ -0,0 +1,257 @@
+import { PrismaClient, PartType, ImportStatus } from 'db';
+
+// Price changes at or beyond this percentage are flagged on the review screen
+export const LARGE_CHANGE_PERCENT = 20;
+
+// Cap on listed rows per section; summaries always cover the whole file
+const MAX_LISTED = 500;
+
+const LOOKUP_CHUNK = 1000;
+
+export type PriceField = 'BAND_1' | 'BAND_2' | 'BAND_3' | 'BAND_4' | 'COST' | 'RETAIL' | 'TRADE' | 'LIST';
+
+export interface PriceChange {
+    productCode: string;
+    description: string;
+    field: PriceField;
+    oldPrice: number | null;
+    newPrice: number | null;
+    deltaPercent: number | null;
+    flagged: boolean;
+}
+
+export interface PriceFieldSummary {
+    field: PriceField;
+    label: string;
+    changed: number;
+    increased: number;
+    decreased: number;
+    averageDeltaPercent: number | null;
+    largestDropPercent: number | null;
+    largestRisePercent: number | null;
+    flagged: number;
+}
+
+export interface NewProduct {
+    productCode: string;
+    description: string;
+    reactivated: boolean;
+    bandPrices: Record<string, number | null>;
+    freeStock: number | null;
+}
+
+export interface StockChange {
+    productCode: string;
+    description: string;
+    oldStock: number;
+    newStock: number;
+}
+
+export interface ImportDiff {
+    batchId: string;
+    partType: PartType | null;
+    summary: {
+        stagedRows: number;
+        validRows: number;
+        invalidRows: number;
+        newProducts: number;
+        changedProducts: number;
+        unchangedProducts: number;
+        priceChanges: number;
+        flaggedChanges: number;
+        stockChanges: number;
+    };
+    fieldSummaries: PriceFieldSummary[];
+    newProducts: NewProduct[];
+    priceChanges: PriceChange[];
+    stockChanges: StockChange[];
+    truncated: boolean;
+}
+
+const BAND_FIELDS: Array<{ field: PriceField; label: string; bandCode: string; staged: 'band1Price' | 'band2Price' | 'band3Price' | 'band4Price' }> = [
+    { field: 'BAND_1', label: 'Band 1', bandCode: '1', staged: 'band1Price' },
+    { field: 'BAND_2', label: 'Band 2', bandCode: '2', staged: 'band2Price' },
+    { field: 'BAND_3', label: 'Band 3', bandCode: '3', staged: 'band3Price' },
+    { field: 'BAND_4', label: 'Band 4', bandCode: '4', staged: 'band4Price' }
+];
+
+const REFERENCE_FIELDS: Array<{ field: PriceField; label: string; key: 'costPrice' | 'retailPrice' | 'tradePrice' | 'listPrice' }> = [
+    { field: 'COST', label: 'Cost', key: 'costPrice' },
+    { field: 'RETAIL', label: 'Retail', key: 'retailPrice' },
+    { field: 'TRADE', label: 'Trade', key: 'tradePrice' },
+    { field: 'LIST', label: 'List', key: 'listPrice' }
+];
+
+function toNumber(value: any): number | null {
+    return value === null || value === undefined ? null : Number(value);
+}
+
+function percentDelta(oldPrice: number | null, newPrice: number | null): number | null {
+    if (oldPrice === null || newPrice === null || oldPrice === 0) return null;
+    return Math.round(((newPrice - oldPrice) / oldPrice) * 10000) / 100;
+}
+
+export class ImportDiffService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Compare a staged product price file against the live catalogue.
+     * Mirrors what the worker will do on approval:
+     * 1. Band prices are only written when the file supplies them
+     * 2. Reference prices (cost/retail/trade/list) are overwritten, including with blanks
+     * 3. Stock is only written when the file supplies it
+     */
+    async getProductDiff(batchId: string): Promise<ImportDiff> {
+        const batch = await this.prisma.importBatch.findUnique({ where: { id: batchId } });
+
+        if (!batch) {
+            throw new Error('Import batch not found');
+        }
+        if (!batch.dryRun || batch.status !== ImportStatus.AWAITING_APPROVAL) {
+            throw new Error('Only dry runs awaiting approval can be reviewed');
+        }
+
+        const stagedRows = await this.prisma.stgProductPriceRow.findMany({
+            where: { batchId },
+            orderBy: { rowNumber: 'asc' }
+        });
+        const validRows = stagedRows.filter(r => r.isValid && r.productCode);
+        const partType = stagedRows[0]?.partType ?? null;
+
+        // 1. Load the live products referenced by the file
+        const codes = validRows.map(r => r.productCode!);
+        const liveProducts = new Map<string, any>();
+        for (let i = 0; i < codes.length; i += LOOKUP_CHUNK) {
+            const products = await this.prisma.product.findMany({
+                where: { productCode: { in: codes.slice(i, i + LOOKUP_CHUNK) } },
+                include: { stock: true, refPrice: true, bandPrices: true }
+            });
+            products.forEach(p => liveProducts.set(p.productCode, p));
+        }
+
+        const newProducts: NewProduct[] = [];
+        const priceChanges: PriceChange[] = [];
+        const stockChanges: StockChange[] = [];
+        let changedProducts = 0;
+
+        // 2. Compare row by row
+        for (const row of validRows) {
+            const live = liveProducts.get(row.productCode!);
+            const description = row.description || live?.description || '';
+
+            if (!live || !live.isActive) {
+                newProducts.push({
+                    productCode: row.productCode!,
+                    description,
+                    reactivated: !!live,
+                    bandPrices: Object.fromEntries(BAND_FIELDS.map(b => [b.bandCode, toNumber(row[b.staged])])),
+                    freeStock: row.freeStock
+                });
+                if (!live) continue;
+            }
+
+            let changed = false;
+
+            for (const band of BAND_FIELDS) {
+                const newPrice = toNumber(row[band.staged]);
+                if (newPrice === null) continue;
+
+                const oldPrice = toNumber(live.bandPrices.find((bp: any) => bp.bandCode === band.bandCode)?.price);
+                if (oldPrice === newPrice) continue;
+
+                priceChanges.push(this.buildChange(row.productCode!, description, band.field, oldPrice, newPrice));
+                changed = true;
+            }
+
+            for (const ref of REFERENCE_FIELDS) {
+                const newPrice = toNumber(row[ref.key]);
+                const oldPrice = toNumber(live.refPrice?.[ref.key]);
+                if (oldPrice === newPrice) continue;
+
+                priceChanges.push(this.buildChange(row.productCode!, description, ref.field, oldPrice, newPrice));
+                changed = true;
+            }
+
+            if (row.freeStock !== null) {
+                // Compare like with like: the previous imported figure, before portal reservations
+                const oldStock = live.stock?.importedStock ?? live.stock?.freeStock ?? 0;
+                if (oldStock !== row.freeStock) {
+                    stockChanges.push({ productCode: row.productCode!, description, oldStock, newStock: row.freeStock });
+                    changed = true;
+                }
+            }
+
+            if (changed) changedProducts++;
+        }
+
+        // Largest moves first so the risky rows are at the top of the review
+        priceChanges.sort((a, b) => Math.abs(b.deltaPercent ?? 0) - Math.abs(a.deltaPercent ?? 0));
+
+        const existingCount = validRows.length - newProducts.filter(p => !p.reactivated).length;
+        const truncated = [newProducts, priceChanges, stockChanges].some(list => list.length > MAX_LISTED);
+
+        return {
+            batchId,
+            partType,
+            summary: {
+                stagedRows: stagedRows.length,
+                validRows: validRows.length,
+                invalidRows: stagedRows.length - validRows.length,
+                newProducts: newProducts.length,
+                changedProducts,
+                unchangedProducts: existingCount - changedProducts,
+                priceChanges: priceChanges.length,
+                flaggedChanges: priceChanges.filter(c => c.flagged).length,
+                stockChanges: stockChanges.length
+            },
+            fieldSummaries: this.summarizeFields(priceChanges),
+            newProducts: newProducts.slice(0, MAX_LISTED),
+            priceChanges: priceChanges.slice(0, MAX_LISTED),
+            stockChanges: stockChanges.slice(0, MAX_LISTED),
+            truncated
+        };
+    }
+
+    private buildChange(
+        productCode: string,
+        description: string,
+        field: PriceField,
+        oldPrice: number | null,
+        newPrice: number | null
+    ): PriceChange {
+        const deltaPercent = percentDelta(oldPrice, newPrice);
+        return {
+            productCode,
+            description,
+            field,
+            oldPrice,
+            newPrice,
+            deltaPercent,
+            // A price being blanked out is always worth a second look
+            flagged: newPrice === null || (deltaPercent !== null && Math.abs(deltaPercent) >= LARGE_CHANGE_PERCENT)
+        };
+    }
+
+    private summarizeFields(changes: PriceChange[]): PriceFieldSummary[] {
+        const fields = [...BAND_FIELDS, ...REFERENCE_FIELDS];
+
+        return fields.map(({ field, label }) => {
+            const fieldChanges = changes.filter(c => c.field === field);
+            const deltas = fieldChanges.map(c => c.deltaPercent).filter((d): d is number => d !== null);
+
+            return {
+                field,
+                label,
+                changed: fieldChanges.length,
+                increased: deltas.filter(d => d > 0).length,
+                decreased: deltas.filter(d => d < 0).length,
+                averageDeltaPercent: deltas.length > 0
+                    ? Math.round((deltas.reduce((sum, d) => sum + d, 0) / deltas.length) * 100) / 100
+                    : null,
+                largestDropPercent: deltas.some(d => d < 0) ? deltas.reduce((min, d) => Math.min(min, d), 0) : null,
+                largestRisePercent: deltas.some(d => d > 0) ? deltas.reduce((max, d) => Math.max(max, d), 0) : null,
+                flagged: fieldChanges.filter(c => c.flagged).length
+            };
+        });
+    }
+}
@@ -0,0 +1,115 @@
+import { PrismaClient, ImportStatus, ImportJobStatus } from 'db';
+import * as fs from 'fs';
+
+const ACTIVE_JOB_STATUSES = [ImportJobStatus.QUEUED, ImportJobStatus.RUNNING];
+
+/**
+ * Enqueues import batches for the apps/worker job runner.
+ * The queue lives in the ImportJob table, so queued work survives API and worker restarts.
+ */
+export class ImportJobService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Queue a newly uploaded batch for processing
+     */
+    async enqueue(batchId: string) {
+        const [job] = await this.prisma.$transaction([
+            this.prisma.importJob.create({ data: { batchId } }),
+            this.prisma.importBatch.update({
+                where: { id: batchId },
+                data: { status: ImportStatus.QUEUED }
+            })
+        ]);
+        return job;
+    }
+
+    /**
+     * Re-queue a failed or cancelled batch
+     * BUSINESS RULES:
+     * 1. Only FAILED or CANCELLED batches can be retried
+     * 2. A batch can only have one queued or running job at a time
+     * 3. The uploaded file must still be on disk
+     */
+    async retry(batchId: string) {
+        const batch = await this.prisma.importBatch.findUnique({
+            where: { id: batchId },
+            include: { jobs: { where: { status: { in: ACTIVE_JOB_STATUSES } } } }
+        });
+
+        if (!batch) {
+            throw new Error('Import batch not found');
+        }
+        if (batch.jobs.length > 0) {
+            throw new Error('Import is already queued or running');
+        }
+        if (batch.status !== ImportStatus.FAILED && batch.status !== ImportStatus.CANCELLED) {
+            throw new Error(`Cannot retry an import with status ${batch.status}`);
+        }
+        if (!batch.filePath || !fs.existsSync(batch.filePath)) {
+            throw new Error('Import file is no longer available');
+        }
+
+        return this.enqueue(batchId);
+    }
+
+    /**
+     * Approve a reviewed dry run and queue it to be applied from its staging rows
+     */
+    async approve(batchId: string, approvedById: string) {
+        const batch = await this.prisma.importBatch.findUnique({ where: { id: batchId } });
+
+        if (!batch) {
+            throw new Error('Import batch not found');
+        }
+        if (batch.status !== ImportStatus.AWAITING_APPROVAL) {
+            throw new Error('Only dry runs awaiting approval can be approved');
+        }
+
+        await this.prisma.importBatch.update({
+            where: { id: batchId },
+            data: { approvedAt: new Date(), approvedById }
+        });
+
+        return this.enqueue(batchId);
+    }
+
+    /**
+     * Cancel a queued or running batch, or reject a dry run awaiting approval.
+     * Queued jobs stop immediately; running jobs stop at the importer's next progress checkpoint.
+     */
+    async cancel(batchId: string) {
+        const job = await this.prisma.importJob.findFirst({
+            where: { batchId, status: { in: ACTIVE_JOB_STATUSES } },
+            orderBy: { createdAt: 'desc' }
+        });
+
+        if (!job) {
+            const batch = await this.prisma.importBatch.findUnique({ where: { id: batchId } });
+            if (batch?.status !== ImportStatus.AWAITING_APPROVAL) {
+                throw new Error('Import is not queued, running or awaiting approval');
+            }
+
+            await this.prisma.importBatch.update({
+                where: { id: batchId },
+                data: { status: ImportStatus.CANCELLED, completedAt: new Date() }
+            });
+            return null;
+        }
+
+        await this.prisma.importJob.update({
+            where: { id: job.id },
+            data: { status: ImportJobStatus.CANCELLED, completedAt: new Date() }
+        });
+
+        // The runner marks running batches as cancelled once it notices
+        if (job.status === ImportJobStatus.QUEUED) {
+            await this.prisma.importBatch.update({
+                where: { id: batchId },
+                data: { status: ImportStatus.CANCELLED, completedAt: new Date() }
+            });
+        }
+
+        return job;
+    }
+}
@@ -0,0 +1,245 @@
+import { FastifyBaseLogger } from 'fastify';
+import { PrismaClient, Prisma, DealerUserRole, OrderStatus } from 'db';
+import { OrderRules, PricingRules, PricingResult } from 'rules';
+import { OrderPipeline } from '@hotbray/domain-orders';
+import { EmailService } from 'shared';
+
+// Who on the dealer account placed an order, and the limit that held it
+const PLACED_BY = {
+    select: { id: true, firstName: true, lastName: true, orderLimit: true, user: { select: { email: true } } }
+} as const;
+
+export type PendingApprovalOrder = Prisma.OrderHeaderGetPayload<{ include: { lines: true; dealerUser: typeof PLACED_BY } }>;
+
+export interface ApprovalLineEdit {
+    lineId: string;
+    qty: number; // 0 removes the line
+}
+
+// What the audit log records on either side of a decision; a type alias so it is assignable to a JSON column
+export type ApprovalSnapshot = {
+    orderNo: string;
+    status: OrderStatus;
+    subtotal: number;
+    total: number;
+    lines: Array<{ id: string; productCode: string; qty: number; unitPrice: number }>;
+    rejectionReason?: string | null;
+};
+
+/**
+ * Orders held as PENDING_APPROVAL because they were over the placing user's order limit.
+ * An approver (or the primary user) on the same account releases them, optionally with changed quantities,
+ * or rejects them with a reason. Nobody decides on their own orders.
+ */
+export class OrderApprovalService {
+    constructor(
+        private prisma: PrismaClient,
+        private pricingRules: PricingRules,
+        private orderRules: OrderRules,
+        private orderPipeline: OrderPipeline,
+        private emailService?: EmailService
+    ) { }
+
+    /**
+     * Oldest first, so they are decided in the order they were placed
+     */
+    async listPending(dealerAccountId: string): Promise<PendingApprovalOrder[]> {
+        return this.prisma.orderHeader.findMany({
+            where: { dealerAccountId, status: OrderStatus.PENDING_APPROVAL },
+            include: { lines: true, dealerUser: PLACED_BY },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /**
+     * Release a held order to the ERP. Quantities can only be lowered; a lower quantity can fall below
+     * a quantity break, so every product whose ordered total changed is priced again at its new total.
+     */
+    async approve(
+        orderId: string,
+        dealerAccountId: string,
+        approverId: string,
+        edits: ApprovalLineEdit[] = [],
+        log: FastifyBaseLogger
+    ): Promise<{ before: ApprovalSnapshot; after: ApprovalSnapshot }> {
+        const order = await this.getHeld(orderId, dealerAccountId, approverId, OrderStatus.SUSPENDED);
+        if (order.dealerUserId === approverId) {
+            throw new Error('You cannot approve your own order');
+        }
+
+        const qtys = new Map(order.lines.map(line => [line.id, line.qty]));
+        for (const edit of edits) {
+            const placed = qtys.get(edit.lineId);
+            if (placed === undefined) {
+                throw new Error('Order line not found');
+            }
+            if (edit.qty > placed) {
+                throw new Error('Approvers can only reduce quantities');
+            }
+            qtys.set(edit.lineId, edit.qty);
+        }
+        if ([...qtys.values()].every(qty => qty === 0)) {
+            throw new Error('An approved order needs at least one line; reject it instead');
+        }
+
+        const repriced = await this.reprice(dealerAccountId, order.lines, qtys);
+        const subtotal = order.lines.reduce(
+            (sum, line) => sum + Number(repriced.get(line.productId)?.price ?? line.unitPriceSnapshot) * qtys.get(line.id)!,
+            0
+        );
+
+        await this.prisma.$transaction(async (tx) => {
+            // Conditional on the status we checked, so two approvers cannot both release the order
+            const updated = await tx.orderHeader.updateMany({
+                where: { id: orderId, status: OrderStatus.PENDING_APPROVAL },
+                data: {
+                    status: OrderStatus.SUSPENDED,
+                    subtotal,
+                    total: subtotal,
+                    decidedById: approverId,
+                    decidedAt: new Date()
+                }
+            });
+            if (updated.count === 0) {
+                throw new Error('Order status changed, please retry');
+            }
+
+            for (const line of order.lines) {
+                const qty = qtys.get(line.id)!;
+                const pricing = repriced.get(line.productId);
+                if (qty === line.qty && !pricing) continue;
+
+                if (qty === 0) {
+                    await tx.orderLine.delete({ where: { id: line.id } });
+                } else {
+                    await tx.orderLine.update({
+                        where: { id: line.id },
+                        data: { qty, ...(pricing && OrderPipeline.priceSnapshot(pricing)) }
+                    });
+                }
+            }
+
+            await this.orderPipeline.releaseHeldOrder(tx, orderId);
+        });
+
+        this.notify(orderId, 'approved', id => this.emailService!.sendOrderConfirmation(id), log);
+        return { before: this.snapshot(order), after: this.snapshot(await this.getOrder(orderId)) };
+    }
+
+    async reject(
+        orderId: string,
+        dealerAccountId: string,
+        approverId: string,
+        reason: string,
+        log: FastifyBaseLogger
+    ): Promise<{ before: ApprovalSnapshot; after: ApprovalSnapshot }> {
+        const order = await this.getHeld(orderId, dealerAccountId, approverId, OrderStatus.REJECTED);
+        if (order.dealerUserId === approverId) {
+            throw new Error('You cannot reject your own order');
+        }
+
+        const updated = await this.prisma.orderHeader.updateMany({
+            where: { id: orderId, status: OrderStatus.PENDING_APPROVAL },
+            data: {
+                status: OrderStatus.REJECTED,
+                decidedById: approverId,
+                decidedAt: new Date(),
+                rejectionReason: reason
+            }
+        });
+        if (updated.count === 0) {
+            throw new Error('Order status changed, please retry');
+        }
+
+        this.notify(orderId, 'rejection', id => this.emailService!.sendOrderRejected(id), log);
+        return { before: this.snapshot(order), after: this.snapshot(await this.getOrder(orderId)) };
+    }
+
+    /**
+     * Price again each product still on the order whose total quantity the edits changed; as at checkout,
+     * quantity breaks see the total across lines for the same product
+     */
+    private async reprice(
+        dealerAccountId: string,
+        lines: Array<{ id: string; productId: string; productCodeSnapshot: string; qty: number }>,
+        qtys: Map<string, number>
+    ): Promise<Map<string, PricingResult>> {
+        const placed = new Map<string, number>();
+        const approved = new Map<string, number>();
+        for (const line of lines) {
+            placed.set(line.productId, (placed.get(line.productId) ?? 0) + line.qty);
+            approved.set(line.productId, (approved.get(line.productId) ?? 0) + qtys.get(line.id)!);
+        }
+
+        const changed = [...approved.keys()].filter(id => approved.get(id)! > 0 && approved.get(id) !== placed.get(id));
+        if (changed.length === 0) {
+            return new Map();
+        }
+
+        const prices = await this.pricingRules.calculatePrices(dealerAccountId, changed, approved);
+        for (const productId of changed) {
+            const pricing = prices.get(productId);
+            if (!pricing?.available) {
+                const code = lines.find(line => line.productId === productId)!.productCodeSnapshot;
+                throw new Error(`Cannot re-price ${code}: ${pricing?.reason ?? 'Not available or has no price'}`);
+            }
+        }
+        return prices;
+    }
+
+    /**
+     * The order on this account, checked against OrderRules for the move to `next`,
+     * and the approver checked for the right to decide on it
+     */
+    private async getHeld(orderId: string, dealerAccountId: string, approverId: string, next: OrderStatus) {
+        const order = await this.prisma.orderHeader.findFirst({
+            where: { id: orderId, dealerAccountId },
+            include: { lines: { orderBy: { lineNo: 'asc' } } }
+        });
+        if (!order) {
+            throw new Error('Order not found');
+        }
+
+        const approver = await this.prisma.dealerUser.findUnique({
+            where: { id: approverId },
+            select: { dealerAccountId: true, role: true, isPrimary: true, isActive: true }
+        });
+        if (!approver || approver.dealerAccountId !== dealerAccountId || !approver.isActive
+            || (approver.role !== DealerUserRole.APPROVER && !approver.isPrimary)) {
+            throw new Error('Only approvers can decide on orders');
+        }
+
+        const transition = this.orderRules.validateStatusTransition(order.status, next);
+        if (!transition.allowed) {
+            throw new Error(transition.reason);
+        }
+
+        return order;
+    }
+
+    private async getOrder(orderId: string) {
+        return this.prisma.orderHeader.findUniqueOrThrow({
+            where: { id: orderId },
+            include: { lines: { orderBy: { lineNo: 'asc' } } }
+        });
+    }
+
+    private snapshot(order: Awaited<ReturnType<OrderApprovalService['getOrder']>>): ApprovalSnapshot {
+        return {
+            orderNo: order.orderNo,
+            status: order.status,
+            subtotal: Number(order.subtotal),
+            total: Number(order.total),
+            lines: order.lines.map(line => ({ id: line.id, productCode: line.productCodeSnapshot, qty: line.qty, unitPrice: Number(line.unitPriceSnapshot) })),
+            ...(order.rejectionReason ? { rejectionReason: order.rejectionReason } : {})
+        };
+    }
+
+    // Email in the background, logged on the request's logger; a mail failure never undoes the decision
+    private notify(orderId: string, what: string, send: (orderId: string) => Promise<unknown>, log: FastifyBaseLogger): void {
+        if (!this.emailService) return;
+        send(orderId).catch(error => {
+            log.error(error, `Order ${what} email for ${orderId} failed`);
+        });
+    }
+}
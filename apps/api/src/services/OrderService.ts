@@ -1,5 +1,19 @@
-import { PrismaClient, OrderStatus, PartType } from 'db';
-import { PricingRules, OrderRules } from 'rules';
+import { FastifyBaseLogger } from 'fastify';
+import { PrismaClient, OrderStatus, PartType, ErpExportStatus } from 'db';
+import { OrderRules, InventoryRules } from 'rules';
+import { OrderPipeline, OrderSource, PlacedOrder } from '@hotbray/domain-orders';
+import { EmailService } from 'shared';
+import { PriceRuleInfo, dealerNetPriceInfo } from './DealerService';
+
+// Who on the dealer account placed an order
+const PLACED_BY = {
+    select: { id: true, firstName: true, lastName: true, user: { select: { email: true } } }
+} as const;
+
+// Who approved or rejected it, for orders that were held over the placing user's limit
+const DECIDED_BY = {
+    select: { id: true, firstName: true, lastName: true }
+} as const;
 
 export interface CheckoutInput {
     dispatchMethod?: string;
@@ -7,6 +21,10 @@ export interface CheckoutInput {
     notes?: string;
 }
 
+export interface OrderLinesInput extends CheckoutInput {
+    lines: Array<{ productCode: string; qty: number }>;
+}
+
 export interface CreatedOrder {
     id: string;
     orderNo: string;
@@ -22,173 +40,119 @@ export interface CreatedOrder {
         description: string;
         partType: PartType;
         qty: number;
+        allocatedQty: number;
+        backorderedQty: number;
         unitPrice: number;
         bandCode: string;
         minPriceApplied: boolean;
+        priceRule: PriceRuleInfo | null;
     }>;
 }
 
 export class OrderService {
     constructor(
         private prisma: PrismaClient,
-        private pricingRules: PricingRules,
-        private orderRules: OrderRules
+        private orderRules: OrderRules,
+        private inventoryRules: InventoryRules,
+        private orderPipeline: OrderPipeline,
+        private emailService?: EmailService
     ) { }
 
     async createOrder(
         dealerUserId: string,
         dealerAccountId: string,
-        checkoutData: CheckoutInput
+        checkoutData: CheckoutInput,
+        log: FastifyBaseLogger
     ): Promise<CreatedOrder> {
         // 1. Get cart with items
         const cart = await this.prisma.cart.findUnique({
             where: { dealerUserId },
-            include: {
-                items: {
-                    include: {
-                        product: true
-                    }
-                }
-            }
+            include: { items: true }
         });
 
         if (!cart || cart.items.length === 0) {
             throw new Error('Cart is empty');
         }
 
-        // 2. Get dealer account for validation
-        const dealerAccount = await this.prisma.dealerAccount.findUnique({
-            where: { id: dealerAccountId },
-            select: { status: true }
+        // 2. Validate, price, number and reserve through the shared pipeline
+        const order = await this.orderPipeline.placeOrder({
+            source: 'WEB',
+            dealerAccountId,
+            dealerUserId,
+            lines: cart.items.map(item => ({ productId: item.productId, qty: item.qty })),
+            dispatchMethod: checkoutData.dispatchMethod,
+            poRef: checkoutData.poRef,
+            notes: checkoutData.notes,
+            cartId: cart.id
         });
 
-        if (!dealerAccount) {
-            throw new Error('Dealer account not found');
-        }
+        this.sendConfirmation(order, log);
+        return this.formatOrder(order);
+    }
 
-        // 3. Validate order using OrderRules
-        const orderInput = {
+    /**
+     * Place an order straight from product codes, for callers without a cart such as API partners
+     */
+    async placeOrder(
+        dealerUserId: string,
+        dealerAccountId: string,
+        input: OrderLinesInput,
+        source: OrderSource = 'WEB',
+        log: FastifyBaseLogger
+    ): Promise<CreatedOrder> {
+        const order = await this.orderPipeline.placeOrder({
+            source,
             dealerAccountId,
-            dealerStatus: dealerAccount.status,
-            items: cart.items.map(item => ({
-                productId: item.productId,
-                quantity: item.qty
-            })),
-            cartItems: cart.items.map(item => ({
-                productId: item.productId,
-                productCode: item.product.productCode,
-                quantity: item.qty
-            }))
-        };
+            dealerUserId,
+            lines: input.lines.map(line => ({ productCode: line.productCode, qty: line.qty })),
+            dispatchMethod: input.dispatchMethod,
+            poRef: input.poRef,
+            notes: input.notes
+        });
 
-        const validationResult = await this.orderRules.validateOrderCreation(orderInput);
+        this.sendConfirmation(order, log);
+        return this.formatOrder(order);
+    }
 
-        if (!validationResult.success) {
-            const errorMessages = validationResult.errors?.map(e => e.message).join(', ') || 'Validation failed';
-            throw new Error(errorMessages);
+    /**
+     * Cancel an order, return its reserved stock to free stock and withdraw its unsent ERP export
+     */
+    async cancelOrder(orderId: string): Promise<{ orderNo: string; previousStatus: OrderStatus; releasedQty: number }> {
+        const order = await this.prisma.orderHeader.findUnique({ where: { id: orderId } });
+        if (!order) {
+            throw new Error('Order not found');
         }
 
-        // 4. Calculate pricing for all items (snapshot)
-        const priceMap = await this.pricingRules.calculatePrices(
-            dealerAccountId,
-            cart.items.map(item => item.productId)
-        );
-
-        // 4. Check all items are available and priced
-        for (const item of cart.items) {
-            const pricing = priceMap.get(item.productId);
-            if (!pricing?.available) {
-                throw new Error(`Product ${item.product.productCode} is not available or has no price`);
-            }
+        const transition = this.orderRules.validateStatusTransition(order.status, OrderStatus.CANCELLED);
+        if (!transition.allowed) {
+            throw new Error(transition.reason);
         }
 
-        // 5. Calculate totals
-        let subtotal = 0;
-        const orderLines = cart.items.map(item => {
-            const pricing = priceMap.get(item.productId)!;
-            const lineTotal = Number(pricing.price) * item.qty;
-            subtotal += lineTotal;
-
-            return {
-                productId: item.productId,
-                productCodeSnapshot: item.product.productCode,
-                descriptionSnapshot: item.product.description,
-                partTypeSnapshot: item.product.partType,
-                qty: item.qty,
-                unitPriceSnapshot: pricing.price,
-                bandCodeSnapshot: pricing.bandCode,
-                minPriceApplied: pricing.minimumPriceApplied
-            };
-        });
-
-        // 6. Create order in transaction
-        const order = await this.prisma.$transaction(async (tx) => {
-            // Generate order number
-            const orderCount = await tx.orderHeader.count();
-            const orderNo = `ORD-${String(orderCount + 1).padStart(6, '0')}`;
-
-            // Create order
-            const newOrder = await tx.orderHeader.create({
-                data: {
-                    orderNo,
-                    dealerAccountId,
-                    dealerUserId,
-                    status: OrderStatus.SUSPENDED,
-                    dispatchMethod: checkoutData.dispatchMethod,
-                    poRef: checkoutData.poRef,
-                    notes: checkoutData.notes,
-                    subtotal,
-                    total: subtotal,
-                    currency: 'GBP',
-                    lines: {
-                        create: orderLines
-                    }
-                },
-                include: {
-                    lines: {
-                        include: {
-                            product: true
-                        }
-                    }
-                }
+        const releasedQty = await this.prisma.$transaction(async (tx) => {
+            // Conditional on the status we checked, so a concurrent cancel cannot release twice
+            const updated = await tx.orderHeader.updateMany({
+                where: { id: orderId, status: order.status },
+                data: { status: OrderStatus.CANCELLED }
             });
-
-            // Clear cart
-            await tx.cartItem.deleteMany({
-                where: { cartId: cart.id }
+            if (updated.count === 0) {
+                throw new Error('Order status changed, please retry');
+            }
+            await tx.erpExport.updateMany({
+                where: { orderId, status: { not: ErpExportStatus.SENT } },
+                data: { status: ErpExportStatus.CANCELLED, lastError: 'Order cancelled', lockedBy: null, lockedAt: null }
             });
-
-            return newOrder;
+            return this.inventoryRules.releaseOrder(tx, orderId);
         });
 
-        // 7. Format response
-        return {
-            id: order.id,
-            orderNo: order.orderNo,
-            dealerAccountId: order.dealerAccountId,
-            dealerUserId: order.dealerUserId,
-            status: order.status,
-            subtotal: Number(order.subtotal),
-            total: Number(order.total),
-            currency: order.currency,
-            createdAt: order.createdAt,
-            lines: order.lines.map(line => ({
-                productCode: line.productCodeSnapshot,
-                description: line.descriptionSnapshot,
-                partType: line.partTypeSnapshot,
-                qty: line.qty,
-                unitPrice: Number(line.unitPriceSnapshot),
-                bandCode: line.bandCodeSnapshot,
-                minPriceApplied: line.minPriceApplied
-            }))
-        };
+        return { orderNo: order.orderNo, previousStatus: order.status, releasedQty };
     }
 
     async getOrders(dealerAccountId: string, limit: number = 20): Promise<any[]> {
         const orders = await this.prisma.orderHeader.findMany({
             where: { dealerAccountId },
             include: {
-                lines: true
+                lines: true,
+                dealerUser: PLACED_BY
             },
             orderBy: { createdAt: 'desc' },
             take: limit
@@ -204,7 +168,8 @@ export class OrderService {
                 dealerAccountId
             },
             include: {
-                lines: true
+                lines: true,
+                dealerUser: PLACED_BY
             }
         });
 
@@ -212,6 +177,63 @@ export class OrderService {
             throw new Error('Order not found');
         }
 
-        return order;
+        const decidedBy = order.decidedById
+            ? await this.prisma.dealerUser.findUnique({ where: { id: order.decidedById }, ...DECIDED_BY })
+            : null;
+
+        return { ...order, decidedBy };
+    }
+
+    // Email the confirmation (or, for orders held over the user's limit, the approvers) in the background,
+    // logged on the request's logger; a mail failure never fails the order
+    private sendConfirmation(order: PlacedOrder, log: FastifyBaseLogger): void {
+        const send = order.status === OrderStatus.PENDING_APPROVAL
+            ? this.emailService?.sendOrderApprovalRequest(order.id)
+            : this.emailService?.sendOrderConfirmation(order.id);
+        send?.catch(error => {
+            log.error(error, `Order email for ${order.id} failed`);
+        });
+    }
+
+    // Rebuild the price explanation from an OrderLine snapshot
+    private formatOrder(order: PlacedOrder): CreatedOrder {
+        return {
+            id: order.id,
+            orderNo: order.orderNo,
+            dealerAccountId: order.dealerAccountId,
+            dealerUserId: order.dealerUserId,
+            status: order.status,
+            subtotal: Number(order.subtotal),
+            total: Number(order.total),
+            currency: order.currency,
+            createdAt: order.createdAt,
+            lines: order.lines.map(line => ({
+                productCode: line.productCodeSnapshot,
+                description: line.descriptionSnapshot,
+                partType: line.partTypeSnapshot,
+                qty: line.qty,
+                allocatedQty: line.allocatedQty,
+                backorderedQty: line.backorderedQty,
+                unitPrice: Number(line.unitPriceSnapshot),
+                bandCode: line.bandCodeSnapshot,
+                minPriceApplied: line.minPriceApplied,
+                priceRule: this.describePriceSource(line)
+            }))
+        };
+    }
+
+    private describePriceSource(line: {
+        basePriceSnapshot: unknown;
+        priceRuleType: PriceRuleInfo['ruleType'] | null;
+        priceRuleName: string | null;
+        priceOverrideId: string | null;
+    }): PriceRuleInfo | null {
+        if (line.priceOverrideId) {
+            return dealerNetPriceInfo(Number(line.basePriceSnapshot));
+        }
+        if (line.priceRuleType) {
+            return { ruleType: line.priceRuleType, name: line.priceRuleName!, basePrice: Number(line.basePriceSnapshot) };
+        }
+        return null;
     }
 }
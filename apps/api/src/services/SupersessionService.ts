@@ -0,0 +1,100 @@
+import { PrismaClient, PartType } from 'db';
+import { PricingRules, SupersessionRules } from 'rules';
+
+export interface ReplacementProduct {
+    id: string;
+    productCode: string;
+    description: string;
+    partType: PartType;
+    freeStock: number;
+    yourPrice: number | null;
+    bandCode: string | null;
+    available: boolean;
+    minPriceApplied: boolean;
+    reason?: string;
+}
+
+export interface SupersessionInfo {
+    originalPartCode: string;
+    currentPartCode: string;
+    chain: string[];
+    cycleDetected: boolean;
+    note?: string;
+    // Null when the current replacement is not an active product in the catalogue
+    replacement: ReplacementProduct | null;
+}
+
+export class SupersessionService {
+    constructor(
+        private prisma: PrismaClient,
+        private pricingRules: PricingRules,
+        private supersessionRules: SupersessionRules
+    ) { }
+
+    /**
+     * Resolve superseded part codes to their current replacement, priced for the dealer.
+     * Only superseded codes appear in the returned map, keyed by normalized part code.
+     */
+    async findReplacements(
+        dealerAccountId: string,
+        partCodes: string[]
+    ): Promise<Map<string, SupersessionInfo>> {
+        const infos = new Map<string, SupersessionInfo>();
+
+        // 1. Resolve replacement chains
+        const resolved = await this.supersessionRules.resolveMany(partCodes);
+        const superseded = Array.from(resolved.values()).filter(r => r.isSuperseded);
+
+        if (superseded.length === 0) {
+            return infos;
+        }
+
+        // 2. Load the current replacements
+        const replacementCodes = Array.from(new Set(superseded.map(r => r.currentPartCode)));
+        const products = await this.prisma.product.findMany({
+            where: {
+                productCode: { in: replacementCodes, mode: 'insensitive' },
+                isActive: true
+            },
+            include: { stock: true }
+        });
+
+        // 3. Price replacements (entitlement is enforced by PricingRules)
+        const priceMap = await this.pricingRules.calculatePrices(
+            dealerAccountId,
+            products.map(p => p.id)
+        );
+
+        const productsByCode = new Map(products.map(p => [SupersessionRules.normalize(p.productCode), p]));
+
+        // 4. Assemble results
+        for (const [code, result] of resolved) {
+            if (!result.isSuperseded) continue;
+
+            const product = productsByCode.get(result.currentPartCode);
+            const pricing = product ? priceMap.get(product.id) : undefined;
+
+            infos.set(code, {
+                originalPartCode: result.originalPartCode,
+                currentPartCode: result.currentPartCode,
+                chain: result.chain,
+                cycleDetected: result.cycleDetected,
+                note: result.note,
+                replacement: product ? {
+                    id: product.id,
+                    productCode: product.productCode,
+                    description: product.description,
+                    partType: product.partType,
+                    freeStock: product.stock?.freeStock ?? 0,
+                    yourPrice: pricing?.available ? Number(pricing.price) : null,
+                    bandCode: pricing?.bandCode ?? null,
+                    available: pricing?.available ?? false,
+                    minPriceApplied: pricing?.minimumPriceApplied ?? false,
+                    reason: pricing?.reason
+                } : null
+            });
+        }
+
+        return infos;
+    }
+}
@@ -0,0 +1,152 @@
+import { PrismaClient, Prisma } from 'db';
+import { ColumnMappingRules, COLUMN_TRANSFORMS, IMPORT_FIELD_SETS, ResolvedColumn } from 'rules';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { parse } from 'csv-parse/sync';
+
+// Number of mapped rows returned by a mapping test; the counts cover the whole sample
+const TEST_PREVIEW_ROWS = 20;
+
+export interface TemplateMappingInput {
+    mappingJson?: unknown;
+    validationJson?: unknown;
+    fileType?: 'CSV' | 'XLSX';
+    delimiter?: string | null;
+    hasHeader?: boolean;
+}
+
+export interface TemplateTestResult {
+    columns: ResolvedColumn[];
+    missingRequired: string[];
+    unmappedHeaders: string[];
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    rows: Array<{ rowNumber: number; values: Record<string, string | number | null>; errors: string[] }>;
+}
+
+/**
+ * Column mappings on UploadTemplate, as used by the worker importers to read supplier files
+ */
+export class TemplateService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Template settings plus the fields its import type can map
+     */
+    async getMapping(templateId: string) {
+        const template = await this.findTemplate(templateId);
+
+        return {
+            id: template.id,
+            templateName: template.templateName,
+            importType: template.importType,
+            fileType: template.fileType,
+            delimiter: template.delimiter,
+            hasHeader: template.hasHeader,
+            mappingJson: template.mappingJson,
+            validationJson: template.validationJson,
+            fields: IMPORT_FIELD_SETS[template.importType] ?? [],
+            transforms: COLUMN_TRANSFORMS
+        };
+    }
+
+    /**
+     * Save a mapping after checking it against the template's field set
+     */
+    async updateMapping(templateId: string, input: TemplateMappingInput) {
+        const template = await this.findTemplate(templateId);
+        // Rejects unknown fields and malformed rules before anything is saved
+        ColumnMappingRules.forTemplate(template.importType, input);
+
+        return this.prisma.uploadTemplate.update({
+            where: { id: templateId },
+            data: {
+                mappingJson: this.toJsonInput(input.mappingJson),
+                validationJson: this.toJsonInput(input.validationJson),
+                fileType: input.fileType,
+                delimiter: input.delimiter,
+                hasHeader: input.hasHeader
+            }
+        });
+    }
+
+    /**
+     * Run a sample file through a mapping without importing it.
+     * Unsaved settings in `overrides` take precedence over the stored template.
+     */
+    async testMapping(
+        templateId: string,
+        sample: { buffer: Buffer; fileName: string },
+        overrides: TemplateMappingInput = {}
+    ): Promise<TemplateTestResult> {
+        const template = await this.findTemplate(templateId);
+        const settings = {
+            mappingJson: overrides.mappingJson !== undefined ? overrides.mappingJson : template.mappingJson,
+            validationJson: overrides.validationJson !== undefined ? overrides.validationJson : template.validationJson,
+            fileType: overrides.fileType ?? template.fileType,
+            delimiter: overrides.delimiter !== undefined ? overrides.delimiter : template.delimiter,
+            hasHeader: overrides.hasHeader ?? template.hasHeader
+        };
+
+        const rules = ColumnMappingRules.forTemplate(template.importType, settings);
+        const allRows = this.readSample(sample, settings.fileType, settings.delimiter);
+
+        const headers = settings.hasHeader ? (allRows[0] ?? []) : null;
+        const dataRows = settings.hasHeader ? allRows.slice(1) : allRows;
+        const firstRowNumber = settings.hasHeader ? 2 : 1;
+
+        const columns = rules.resolveColumns(headers);
+        const usedIndexes = new Set(columns.map(c => c.index));
+        const unmappedHeaders = (headers ?? [])
+            .map((header, index) => ({ header: String(header ?? '').trim(), index }))
+            .filter(h => h.header !== '' && !usedIndexes.has(h.index))
+            .map(h => h.header);
+
+        const mapped = dataRows.map((row, i) => ({ rowNumber: i + firstRowNumber, ...rules.mapRow(row, columns) }));
+        const invalidRows = mapped.filter(r => r.errors.length > 0).length;
+
+        return {
+            columns,
+            missingRequired: rules.missingRequired(columns),
+            unmappedHeaders,
+            totalRows: mapped.length,
+            validRows: mapped.length - invalidRows,
+            invalidRows,
+            rows: mapped.slice(0, TEST_PREVIEW_ROWS)
+        };
+    }
+
+    private async findTemplate(templateId: string) {
+        const template = await this.prisma.uploadTemplate.findUnique({ where: { id: templateId } });
+        if (!template) {
+            throw new Error('Template not found');
+        }
+        return template;
+    }
+
+    // undefined leaves the stored value alone; null clears it
+    private toJsonInput(value: unknown) {
+        if (value === undefined) return undefined;
+        return value === null ? Prisma.JsonNull : (value as Prisma.InputJsonValue);
+    }
+
+    private readSample(sample: { buffer: Buffer; fileName: string }, fileType: string, delimiter: string | null): unknown[][] {
+        // Same precedence as the worker: the template's file type, then the file extension
+        const type = fileType || (path.extname(sample.fileName).toLowerCase() === '.csv' ? 'CSV' : 'XLSX');
+
+        if (type === 'CSV') {
+            return parse(sample.buffer.toString('utf-8'), {
+                delimiter: delimiter || ',',
+                bom: true,
+                skip_empty_lines: true,
+                relax_column_count: true,
+                trim: true
+            }) as string[][];
+        }
+
+        const workbook = XLSX.read(sample.buffer, { type: 'buffer' });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, blankrows: false });
+    }
+}
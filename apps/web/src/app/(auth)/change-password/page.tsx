@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+
+import { Button, Input, Label, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/ui';
+import { PasswordRequirements } from '@/components/common/PasswordRequirements';
+import api, { logout } from '@/lib/api';
+import { getUser, setAuthToken } from '@/lib/auth';
+
+/**
+ * Where users land after signing in with an admin-generated password, which the API refuses to accept
+ * anywhere else until it is replaced. Also usable by anyone signed in who wants a new password.
+ */
+export default function ChangePasswordPage() {
+    const router = useRouter();
+    const [required, setRequired] = useState(false);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [violations, setViolations] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        const user = getUser();
+        if (!user) {
+            router.replace('/login');
+            return;
+        }
+        setRequired(!!user.mustChangePassword);
+    }, [router]);
+
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setViolations([]);
+
+        try {
+            const response = await api.post('/auth/change-password', { currentPassword, newPassword });
+            setAuthToken(response.data.token);
+            toast.success('Password changed');
+
+            const role = getUser()?.role;
+            router.push(role === 'ADMIN' ? '/admin' : role === 'DEALER' ? '/dealer/search' : '/');
+        } catch (error: any) {
+            const data = error.response?.data;
+            setViolations(data?.violations?.length ? data.violations : []);
+            toast.error(data?.message || 'Could not change the password. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleSignOut = async () => {
+        await logout();
+        router.push('/login');
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 p-4">
+            <Card className="w-full max-w-md shadow-xl border-slate-200">
+                <CardHeader className="space-y-2 text-center pb-6">
+                    <CardTitle className="text-2xl font-bold tracking-tight">
+                        {required ? 'Choose your own password' : 'Change password'}
+                    </CardTitle>
+                    <CardDescription className="text-slate-500">
+                        {required
+                            ? 'You signed in with a password we sent you. Replace it with your own to continue.'
+                            : 'Other browsers you are signed in on will be signed out'}
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent>
+                    <form onSubmit={onSubmit} className="space-y-6">
+                        <div className="space-y-2">
+                            <Label htmlFor="currentPassword">{required ? 'Password from your email' : 'Current password'}</Label>
+                            <Input
+                                id="currentPassword"
+                                type="password"
+                                autoComplete="current-password"
+                                value={currentPassword}
+                                onChange={(e) => setCurrentPassword(e.target.value)}
+                                disabled={isLoading}
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="newPassword">New password</Label>
+                            <Input
+                                id="newPassword"
+                                type="password"
+                                autoComplete="new-password"
+                                value={newPassword}
+                                onChange={(e) => setNewPassword(e.target.value)}
+                                disabled={isLoading}
+                            />
+                            <PasswordRequirements password={newPassword} />
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="confirm">Confirm new password</Label>
+                            <Input
+                                id="confirm"
+                                type="password"
+                                autoComplete="new-password"
+                                value={confirm}
+                                onChange={(e) => setConfirm(e.target.value)}
+                                className={confirm && confirm !== newPassword ? 'border-red-500' : ''}
+                                disabled={isLoading}
+                            />
+                            {confirm && confirm !== newPassword && (
+                                <p className="text-sm text-red-500">Passwords do not match</p>
+                            )}
+                        </div>
+
+                        {violations.length > 0 && (
+                            <ul className="space-y-1 text-sm text-red-500">
+                                {violations.map((violation) => (
+                                    <li key={violation}>{violation}</li>
+                                ))}
+                            </ul>
+                        )}
+
+                        <Button
+                            type="submit"
+                            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-6 text-base"
+                            disabled={isLoading || !currentPassword || !newPassword || newPassword !== confirm}
+                        >
+                            {isLoading ? 'Saving...' : 'Change Password'}
+                        </Button>
+                    </form>
+
+                    <div className="mt-6 text-center text-sm">
+                        <button
+                            type="button"
+                            onClick={handleSignOut}
+                            className="text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                            Sign out
+                        </button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
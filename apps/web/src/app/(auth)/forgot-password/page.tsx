@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { MailCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button, Input, Label, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/ui';
+import api from '@/lib/api';
+
+const forgotPasswordSchema = z.object({
+    email: z.string().email('Enter the email you sign in with'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPasswordPage() {
+    const [isLoading, setIsLoading] = useState(false);
+    const [sentTo, setSentTo] = useState<string | null>(null);
+
+    const {
+        register,
+        handleSubmit,
+        formState: { errors },
+    } = useForm<ForgotPasswordFormData>({
+        resolver: zodResolver(forgotPasswordSchema),
+    });
+
+    const onSubmit = async (data: ForgotPasswordFormData) => {
+        setIsLoading(true);
+
+        try {
+            // The API answers the same whether or not the email has an account
+            await api.post('/auth/forgot-password', { email: data.email.trim() });
+            setSentTo(data.email.trim());
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Could not send the reset link. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 p-4">
+            <Card className="w-full max-w-md shadow-xl border-slate-200">
+                <CardHeader className="space-y-2 text-center pb-6">
+                    <CardTitle className="text-2xl font-bold tracking-tight">Forgot your password?</CardTitle>
+                    <CardDescription className="text-slate-500">
+                        We will email you a link to choose a new one
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent>
+                    {sentTo ? (
+                        <div className="space-y-4 text-center">
+                            <MailCheck className="mx-auto h-10 w-10 text-blue-600" />
+                            <p className="text-sm text-slate-600">
+                                If <span className="font-medium text-slate-900">{sentTo}</span> has an account, a reset
+                                link is on its way. It works once and expires soon, so use it straight away.
+                            </p>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="email">Email</Label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    placeholder="Enter your email"
+                                    {...register('email')}
+                                    className={errors.email ? 'border-red-500' : ''}
+                                    disabled={isLoading}
+                                />
+                                {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
+                            </div>
+
+                            <Button
+                                type="submit"
+                                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-6 text-base"
+                                disabled={isLoading}
+                            >
+                                {isLoading ? 'Sending...' : 'Send Reset Link'}
+                            </Button>
+                        </form>
+                    )}
+
+                    <div className="mt-6 text-center text-sm">
+                        <Link href="/login" className="text-blue-600 hover:text-blue-700 font-medium">
+                            Back to sign in
+                        </Link>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -10,7 +11,7 @@ import { toast } from 'sonner';
 
 import { Button, Input, Label, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/ui';
 import api from '@/lib/api';
-import { decodeJwtPayload, setAuthToken } from '@/lib/auth';
+import { decodeJwtPayload, setAuthToken, setRefreshToken } from '@/lib/auth';
 
 const loginSchema = z.object({
     emailOrAccount: z.string().min(1, 'Email or Account Number is required'),
@@ -45,10 +46,17 @@ export default function LoginPage() {
                 password: data.password,
             });
 
-            const { token } = response.data;
+            const { token, refreshToken } = response.data;
 
-            // Save token
+            // Save the access token and the refresh token that renews it
             setAuthToken(token);
+            setRefreshToken(refreshToken);
+
+            // An admin-generated password has to be replaced before anything else
+            if (response.data.mustChangePassword) {
+                router.push('/change-password');
+                return;
+            }
 
             // Decode token to get role
             const role = response.data?.user?.role || decodeJwtPayload(token)?.role;
@@ -108,16 +116,12 @@ export default function LoginPage() {
                         <div className="space-y-2">
                             <div className="flex items-center justify-between">
                                 <Label htmlFor="password">Password</Label>
-                                <a
-                                    href="#"
+                                <Link
+                                    href="/forgot-password"
                                     className="text-sm text-blue-600 hover:text-blue-700 font-medium"
-                                    onClick={(e) => {
-                                        e.preventDefault();
-                                        toast.info('Please contact your administrator to reset your password.');
-                                    }}
                                 >
                                     Forgot password?
-                                </a>
+                                </Link>
                             </div>
                             <div className="relative">
                                 <Input
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+import { Button, Input, Label, Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/ui';
+import { PasswordRequirements } from '@/components/common/PasswordRequirements';
+import api from '@/lib/api';
+
+/**
+ * Opened from the forgot-password email. The link works once; afterwards the user signs in again everywhere.
+ */
+export default function ResetPasswordPage() {
+    const router = useRouter();
+    const token = useSearchParams().get('token') ?? '';
+    const [password, setPassword] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [violations, setViolations] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const { data: valid, isLoading: isChecking } = useQuery({
+        queryKey: ['auth', 'reset-token', token],
+        queryFn: async () => {
+            const response = await api.get('/auth/reset-password', { params: { token } });
+            return response.data.valid as boolean;
+        },
+        enabled: !!token,
+        retry: false,
+    });
+
+    const onSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setViolations([]);
+
+        try {
+            await api.post('/auth/reset-password', { token, password });
+            toast.success('Password updated, please sign in');
+            router.push('/login');
+        } catch (error: any) {
+            const data = error.response?.data;
+            setViolations(data?.violations?.length ? data.violations : []);
+            toast.error(data?.message || 'Could not reset the password. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const linkUnusable = !token || (!isChecking && !valid);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 p-4">
+            <Card className="w-full max-w-md shadow-xl border-slate-200">
+                <CardHeader className="space-y-2 text-center pb-6">
+                    <CardTitle className="text-2xl font-bold tracking-tight">Choose a new password</CardTitle>
+                    <CardDescription className="text-slate-500">
+                        You will be signed out everywhere and asked to sign in with it
+                    </CardDescription>
+                </CardHeader>
+
+                <CardContent>
+                    {isChecking && token ? (
+                        <p className="text-center text-sm text-slate-500">Checking your link...</p>
+                    ) : linkUnusable ? (
+                        <div className="space-y-4 text-center">
+                            <p className="text-sm text-slate-600">
+                                This reset link is invalid or has expired. Links work once and only for a short time.
+                            </p>
+                            <Link href="/forgot-password" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                                Send a new link
+                            </Link>
+                        </div>
+                    ) : (
+                        <form onSubmit={onSubmit} className="space-y-6">
+                            <div className="space-y-2">
+                                <Label htmlFor="password">New password</Label>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    autoComplete="new-password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    disabled={isLoading}
+                                />
+                                <PasswordRequirements password={password} />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="confirm">Confirm new password</Label>
+                                <Input
+                                    id="confirm"
+                                    type="password"
+                                    autoComplete="new-password"
+                                    value={confirm}
+                                    onChange={(e) => setConfirm(e.target.value)}
+                                    className={confirm && confirm !== password ? 'border-red-500' : ''}
+                                    disabled={isLoading}
+                                />
+                                {confirm && confirm !== password && (
+                                    <p className="text-sm text-red-500">Passwords do not match</p>
+                                )}
+                            </div>
+
+                            {violations.length > 0 && (
+                                <ul className="space-y-1 text-sm text-red-500">
+                                    {violations.map((violation) => (
+                                        <li key={violation}>{violation}</li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            <Button
+                                type="submit"
+                                className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-6 text-base"
+                                disabled={isLoading || !password || password !== confirm}
+                            >
+                                {isLoading ? 'Saving...' : 'Set Password'}
+                            </Button>
+                        </form>
+                    )}
+
+                    <div className="mt-6 text-center text-sm">
+                        <Link href="/login" className="text-blue-600 hover:text-blue-700 font-medium">
+                            Back to sign in
+                        </Link>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+    Button,
+    Input,
+    Badge,
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/ui';
+import { ArrowLeft } from 'lucide-react';
+import api from '@/lib/api';
+import { toast } from 'sonner';
+import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+
+interface Dataset {
+    id: string;
+    uploadedAt: string;
+    isActive: boolean;
+    fileName: string | null;
+    lineCount: number;
+}
+
+interface Counts {
+    newlyBackordered: number;
+    cleared: number;
+    outstandingChanged: number;
+    newInWarehouse: number;
+}
+
+interface AccountDiff extends Counts {
+    accountNo: string;
+    customerName: string | null;
+}
+
+interface DatasetDiff {
+    from: Dataset;
+    to: Dataset;
+    summary: Counts & { accounts: number };
+    accounts: AccountDiff[];
+}
+
+interface DiffLine {
+    yourOrderNo: string | null;
+    ourNo: string;
+    itemNo: string;
+    part: string;
+    description: string | null;
+    qtyOrdered: number;
+    qtyOutstanding: number | null;
+    inWh: number | null;
+    previousQtyOutstanding: number | null;
+    previousInWh: number | null;
+    outstandingDelta: number;
+    inWhDelta: number;
+}
+
+type AccountLineDiff = Record<keyof Counts, DiffLine[]> & { accountNo: string };
+
+const CATEGORIES: Array<{ key: keyof Counts; label: string; className: string }> = [
+    { key: 'newlyBackordered', label: 'Newly Backordered', className: 'text-amber-700' },
+    { key: 'cleared', label: 'Cleared', className: 'text-green-700' },
+    { key: 'outstandingChanged', label: 'Outstanding Changed', className: 'text-blue-700' },
+    { key: 'newInWarehouse', label: 'New In Warehouse', className: 'text-emerald-700' },
+];
+
+function datasetLabel(dataset: Dataset) {
+    const date = new Date(dataset.uploadedAt).toLocaleString();
+    return `${date}${dataset.fileName ? ` - ${dataset.fileName}` : ''}${dataset.isActive ? ' (active)' : ''}`;
+}
+
+function delta(value: number) {
+    return value > 0 ? `+${value}` : String(value);
+}
+
+export default function BackorderHistoryPage() {
+    const [fromId, setFromId] = useState('');
+    const [toId, setToId] = useState('');
+    const [accountNo, setAccountNo] = useState<string | null>(null);
+    const [snapshots, setSnapshots] = useState('');
+    const [savingRetention, setSavingRetention] = useState(false);
+
+    const { data: datasetData, refetch: refetchDatasets } = useQuery({
+        queryKey: ['backorder-datasets'],
+        queryFn: async () => {
+            const response = await api.get('/admin/backorders/datasets');
+            return response.data as { datasets: Dataset[]; retention: { snapshots: number } };
+        },
+    });
+
+    const datasets = datasetData?.datasets ?? [];
+
+    // Default to the active dataset against the one before it
+    useEffect(() => {
+        if (datasets.length < 2 || toId) return;
+        const activeIndex = Math.max(0, datasets.findIndex((d) => d.isActive));
+        setToId(datasets[activeIndex].id);
+        setFromId(datasets[activeIndex + 1]?.id ?? '');
+    }, [datasets, toId]);
+
+    useEffect(() => {
+        if (datasetData) setSnapshots(String(datasetData.retention.snapshots));
+    }, [datasetData]);
+
+    const pairChosen = !!fromId && !!toId && fromId !== toId;
+
+    const { data: diff, isLoading: diffLoading, error: diffError } = useQuery({
+        queryKey: ['backorder-diff', fromId, toId],
+        enabled: pairChosen && !accountNo,
+        queryFn: async () => {
+            const response = await api.get('/admin/backorders/diff', { params: { from: fromId, to: toId } });
+            return response.data as DatasetDiff;
+        },
+    });
+
+    const { data: accountDiff, isLoading: accountLoading } = useQuery({
+        queryKey: ['backorder-diff', fromId, toId, accountNo],
+        enabled: pairChosen && !!accountNo,
+        queryFn: async () => {
+            const response = await api.get('/admin/backorders/diff', { params: { from: fromId, to: toId, accountNo } });
+            return response.data as AccountLineDiff;
+        },
+    });
+
+    useLoadingCursor(diffLoading || accountLoading);
+
+    const handleSaveRetention = async () => {
+        setSavingRetention(true);
+        try {
+            const response = await api.put('/admin/settings/backorder-retention', { snapshots: Number(snapshots) });
+            const pruned = response.data.pruned as number;
+            toast.success(pruned > 0 ? `Retention saved, ${pruned} old dataset(s) pruned` : 'Retention saved');
+            refetchDatasets();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to save retention');
+        } finally {
+            setSavingRetention(false);
+        }
+    };
+
+    const renderLines = (lines: DiffLine[]) => (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Our No</TableHead>
+                    <TableHead>Your Order</TableHead>
+                    <TableHead>Part</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                    <TableHead className="text-right">In WH</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {lines.map((line, index) => (
+                    <TableRow key={`${line.ourNo}-${line.itemNo}-${line.part}-${index}`}>
+                        <TableCell className="font-medium">{line.ourNo}</TableCell>
+                        <TableCell className="text-sm">{line.yourOrderNo || '-'}</TableCell>
+                        <TableCell>
+                            <div className="text-sm font-medium">{line.part}</div>
+                            {line.description && <div className="text-xs text-slate-500">{line.description}</div>}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                            {line.previousQtyOutstanding ?? '-'} → {line.qtyOutstanding ?? '-'}
+                            {line.outstandingDelta !== 0 && (
+                                <span className="ml-2 text-xs text-slate-500">({delta(line.outstandingDelta)})</span>
+                            )}
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                            {line.previousInWh ?? '-'} → {line.inWh ?? '-'}
+                            {line.inWhDelta !== 0 && (
+                                <span className="ml-2 text-xs text-slate-500">({delta(line.inWhDelta)})</span>
+                            )}
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Backorder History</h2>
+                    <p className="text-slate-500">Compare backorder imports per dealer account</p>
+                </div>
+            </div>
+
+            {/* Dataset selection & retention */}
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="pt-6 grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Compare from</label>
+                        <select
+                            className="w-full p-2 border rounded-md"
+                            value={fromId}
+                            onChange={(e) => setFromId(e.target.value)}
+                        >
+                            <option value="">Select dataset</option>
+                            {datasets.map((d) => (
+                                <option key={d.id} value={d.id}>{datasetLabel(d)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">To</label>
+                        <select
+                            className="w-full p-2 border rounded-md"
+                            value={toId}
+                            onChange={(e) => setToId(e.target.value)}
+                        >
+                            <option value="">Select dataset</option>
+                            {datasets.map((d) => (
+                                <option key={d.id} value={d.id}>{datasetLabel(d)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium">Datasets kept (including active)</label>
+                        <div className="flex gap-2">
+                            <Input
+                                type="number"
+                                min={2}
+                                max={100}
+                                value={snapshots}
+                                onChange={(e) => setSnapshots(e.target.value)}
+                            />
+                            <Button variant="outline" onClick={handleSaveRetention} disabled={savingRetention}>
+                                Save
+                            </Button>
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {datasets.length < 2 ? (
+                <Card className="shadow-sm border-slate-200">
+                    <CardContent className="py-16 text-center text-slate-500">
+                        At least two backorder imports are needed to compare.
+                    </CardContent>
+                </Card>
+            ) : !pairChosen ? (
+                <Card className="shadow-sm border-slate-200">
+                    <CardContent className="py-16 text-center text-slate-500">
+                        Choose two different datasets to compare.
+                    </CardContent>
+                </Card>
+            ) : accountNo ? (
+                /* Account detail */
+                <div className="space-y-4">
+                    <Button variant="ghost" onClick={() => setAccountNo(null)}>
+                        <ArrowLeft className="h-4 w-4 mr-2" />
+                        All accounts
+                    </Button>
+                    {accountLoading || !accountDiff ? (
+                        <div className="text-center text-slate-500 py-8">Loading {accountNo}...</div>
+                    ) : (
+                        CATEGORIES.map((category) => (
+                            <Card key={category.key} className="shadow-sm border-slate-200">
+                                <CardHeader>
+                                    <CardTitle className={`text-base ${category.className}`}>
+                                        {category.label} ({accountDiff[category.key].length})
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="p-0">
+                                    {accountDiff[category.key].length === 0 ? (
+                                        <div className="px-6 pb-6 text-sm text-slate-400">None</div>
+                                    ) : (
+                                        renderLines(accountDiff[category.key])
+                                    )}
+                                </CardContent>
+                            </Card>
+                        ))
+                    )}
+                </div>
+            ) : (
+                <>
+                    {/* Summary */}
+                    <div className="grid gap-4 md:grid-cols-4">
+                        {CATEGORIES.map((category) => (
+                            <Card key={category.key} className="shadow-sm border-slate-200">
+                                <CardContent className="pt-6">
+                                    <div className="text-xs uppercase text-slate-400">{category.label}</div>
+                                    <div className={`text-2xl font-bold ${category.className}`}>
+                                        {diff?.summary[category.key] ?? '-'}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        ))}
+                    </div>
+
+                    {/* Accounts */}
+                    <Card className="shadow-sm border-slate-200">
+                        <CardContent className="p-0">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Account</TableHead>
+                                        {CATEGORIES.map((category) => (
+                                            <TableHead key={category.key} className="text-right">{category.label}</TableHead>
+                                        ))}
+                                        <TableHead />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {diffLoading ? (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="h-24 text-center">
+                                                Comparing datasets...
+                                            </TableCell>
+                                        </TableRow>
+                                    ) : diffError ? (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="h-24 text-center text-red-600">
+                                                {(diffError as any).response?.data?.message || 'Failed to compare datasets'}
+                                            </TableCell>
+                                        </TableRow>
+                                    ) : !diff || diff.accounts.length === 0 ? (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="h-24 text-center">
+                                                No changes between these datasets
+                                            </TableCell>
+                                        </TableRow>
+                                    ) : (
+                                        diff.accounts.map((account) => (
+                                            <TableRow key={account.accountNo}>
+                                                <TableCell>
+                                                    <div className="font-medium">{account.accountNo}</div>
+                                                    {account.customerName && (
+                                                        <div className="text-xs text-slate-500">{account.customerName}</div>
+                                                    )}
+                                                </TableCell>
+                                                {CATEGORIES.map((category) => (
+                                                    <TableCell key={category.key} className="text-right">
+                                                        {account[category.key] > 0 ? (
+                                                            <Badge variant="outline">{account[category.key]}</Badge>
+                                                        ) : (
+                                                            <span className="text-slate-300">0</span>
+                                                        )}
+                                                    </TableCell>
+                                                ))}
+                                                <TableCell className="text-right">
+                                                    <Button size="sm" variant="outline" onClick={() => setAccountNo(account.accountNo)}>
+                                                        View lines
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+    Button,
+    Input,
+    Badge,
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+    Tabs,
+    TabsList,
+    TabsTrigger,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/ui';
+import { RefreshCw, Send } from 'lucide-react';
+import api from '@/lib/api';
+import { toast } from 'sonner';
+import { EmailLogDialog } from '@/admin';
+import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+
+type EmailStatus = 'QUEUED' | 'SENDING' | 'SENT' | 'FAILED' | 'SUPPRESSED';
+
+interface EmailLog {
+    id: string;
+    recipientEmail: string;
+    subject: string;
+    status: EmailStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: string;
+    errorMessage?: string | null;
+    templateKey?: string | null;
+    templateVersion?: number | null;
+    resentFromId?: string | null;
+    createdAt: string;
+    sentAt?: string | null;
+}
+
+interface EmailRecipient {
+    id: string;
+    email: string;
+    consecutiveFailures: number;
+    bounceCount: number;
+    lastError?: string | null;
+    lastFailureAt?: string | null;
+    suppressedAt?: string | null;
+    suppressedReason?: string | null;
+}
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+    QUEUED: 'bg-amber-100 text-amber-700 border-amber-200',
+    SENDING: 'bg-blue-100 text-blue-700 border-blue-200',
+    SENT: 'bg-green-100 text-green-700 border-green-200',
+    FAILED: 'bg-red-100 text-red-700 border-red-200',
+    SUPPRESSED: 'bg-slate-100 text-slate-700 border-slate-200',
+};
+
+const PAGE_SIZE = 50;
+
+export default function EmailLogsPage() {
+    const [statusFilter, setStatusFilter] = useState<EmailStatus | 'ALL'>('ALL');
+    const [search, setSearch] = useState('');
+    const [page, setPage] = useState(1);
+    const [openEmailId, setOpenEmailId] = useState<string | null>(null);
+    const [resending, setResending] = useState<string | null>(null);
+    const [lifting, setLifting] = useState<string | null>(null);
+    const debouncedSearch = useDebouncedValue(search.trim(), 300);
+
+    const { data, isLoading, refetch } = useQuery({
+        queryKey: ['email-logs', statusFilter, debouncedSearch, page],
+        queryFn: async () => {
+            const params: any = { page, limit: PAGE_SIZE };
+            if (statusFilter !== 'ALL') params.status = statusFilter;
+            if (debouncedSearch) params.search = debouncedSearch;
+
+            const response = await api.get('/admin/email-logs', { params });
+            return response.data as { emails: EmailLog[]; meta: { total: number; totalPages: number } };
+        },
+    });
+
+    const { data: recipients, refetch: refetchRecipients } = useQuery({
+        queryKey: ['email-recipients'],
+        queryFn: async () => {
+            const response = await api.get('/admin/email-logs/recipients');
+            return response.data.recipients as EmailRecipient[];
+        },
+    });
+
+    useLoadingCursor(isLoading);
+
+    const handleResend = async (id: string) => {
+        setResending(id);
+        try {
+            const response = await api.post(`/admin/email-logs/${id}/resend`);
+            toast.success(response.data.message);
+            setOpenEmailId(null);
+            refetch();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to resend email');
+        } finally {
+            setResending(null);
+        }
+    };
+
+    const handleLift = async (recipient: EmailRecipient) => {
+        setLifting(recipient.email);
+        try {
+            const response = await api.delete(`/admin/email-logs/recipients/${encodeURIComponent(recipient.email)}/suppression`);
+            toast.success(response.data.message);
+            refetchRecipients();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to lift suppression');
+        } finally {
+            setLifting(null);
+        }
+    };
+
+    const emails = data?.emails ?? [];
+    const totalPages = data?.meta.totalPages ?? 1;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Email Log</h2>
+                    <p className="text-slate-500">Every email the portal has queued, with delivery attempts and failures</p>
+                </div>
+                <Button
+                    variant="outline"
+                    onClick={() => {
+                        refetch();
+                        refetchRecipients();
+                    }}
+                >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Refresh
+                </Button>
+            </div>
+
+            {/* Filters */}
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+                    <Input
+                        value={search}
+                        onChange={(e) => {
+                            setSearch(e.target.value);
+                            setPage(1);
+                        }}
+                        placeholder="Search recipient or subject"
+                        className="max-w-sm"
+                    />
+                    <Tabs
+                        value={statusFilter}
+                        onValueChange={(v) => {
+                            setStatusFilter(v as any);
+                            setPage(1);
+                        }}
+                    >
+                        <TabsList>
+                            <TabsTrigger value="ALL">All</TabsTrigger>
+                            <TabsTrigger value="QUEUED">Queued</TabsTrigger>
+                            <TabsTrigger value="SENT">Sent</TabsTrigger>
+                            <TabsTrigger value="FAILED">Failed</TabsTrigger>
+                            <TabsTrigger value="SUPPRESSED">Suppressed</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                </CardContent>
+            </Card>
+
+            {/* Table */}
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Queued</TableHead>
+                                    <TableHead>Recipient</TableHead>
+                                    <TableHead>Subject</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Attempts</TableHead>
+                                    <TableHead>Last Error</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isLoading ? (
+                                    <TableRow>
+                                        <TableCell colSpan={7} className="h-24 text-center">
+                                            Loading emails...
+                                        </TableCell>
+                                    </TableRow>
+                                ) : emails.length === 0 ? (
+                                    <TableRow>
+                                        <TableCell colSpan={7} className="h-24 text-center">
+                                            No emails found
+                                        </TableCell>
+                                    </TableRow>
+                                ) : (
+                                    emails.map((email) => (
+                                        <TableRow key={email.id} className="cursor-pointer" onClick={() => setOpenEmailId(email.id)}>
+                                            <TableCell className="text-sm text-slate-600 whitespace-nowrap">
+                                                {new Date(email.createdAt).toLocaleString()}
+                                            </TableCell>
+                                            <TableCell className="text-sm font-medium">{email.recipientEmail}</TableCell>
+                                            <TableCell>
+                                                <div className="text-sm">{email.subject}</div>
+                                                {email.templateKey && (
+                                                    <div className="text-xs text-slate-500">
+                                                        {email.templateKey}
+                                                        {email.resentFromId && ' • resend'}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline" className={STATUS_STYLES[email.status]}>
+                                                    {email.status}
+                                                </Badge>
+                                                {email.status === 'QUEUED' && email.attempts > 0 && (
+                                                    <div className="text-xs text-slate-500 mt-1">
+                                                        Retry {new Date(email.nextAttemptAt).toLocaleTimeString()}
+                                                    </div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {email.attempts} / {email.maxAttempts}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-red-600 max-w-xs truncate" title={email.errorMessage || undefined}>
+                                                {email.errorMessage || <span className="text-slate-400">-</span>}
+                                            </TableCell>
+                                            <TableCell>
+                                                {email.status !== 'QUEUED' && email.status !== 'SENDING' && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        disabled={resending === email.id}
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            handleResend(email.id);
+                                                        }}
+                                                    >
+                                                        <Send className="h-4 w-4 mr-2" />
+                                                        Resend
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </div>
+
+                    {/* Pagination */}
+                    {!isLoading && totalPages > 1 && (
+                        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-200">
+                            <div className="text-sm text-slate-500">
+                                Page {page} of {totalPages} ({data?.meta.total} emails)
+                            </div>
+                            <div className="flex gap-2">
+                                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                                    Previous
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                                    Next
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Recipient health */}
+            {recipients && recipients.length > 0 && (
+                <Card className="shadow-sm border-slate-200">
+                    <CardHeader>
+                        <CardTitle>Failing Recipients</CardTitle>
+                        <CardDescription>
+                            Addresses are suppressed after repeated failed emails and receive nothing until the suppression is lifted
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Recipient</TableHead>
+                                    <TableHead>Failures in a Row</TableHead>
+                                    <TableHead>Bounces</TableHead>
+                                    <TableHead>Last Error</TableHead>
+                                    <TableHead>Suppressed</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {recipients.map((recipient) => (
+                                    <TableRow key={recipient.id}>
+                                        <TableCell className="text-sm font-medium">{recipient.email}</TableCell>
+                                        <TableCell className="text-sm">{recipient.consecutiveFailures}</TableCell>
+                                        <TableCell className="text-sm">{recipient.bounceCount}</TableCell>
+                                        <TableCell className="text-sm text-red-600 max-w-xs truncate" title={recipient.lastError || undefined}>
+                                            {recipient.lastError || <span className="text-slate-400">-</span>}
+                                        </TableCell>
+                                        <TableCell className="text-sm text-slate-600">
+                                            {recipient.suppressedAt ? new Date(recipient.suppressedAt).toLocaleString() : '-'}
+                                        </TableCell>
+                                        <TableCell>
+                                            {recipient.suppressedAt && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    disabled={lifting === recipient.email}
+                                                    onClick={() => handleLift(recipient)}
+                                                >
+                                                    Lift suppression
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
+            <EmailLogDialog
+                emailId={openEmailId}
+                onClose={() => setOpenEmailId(null)}
+                onResend={handleResend}
+                resending={resending !== null}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,426 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+    Button,
+    Input,
+    Label,
+    Badge,
+    Card,
+    CardContent,
+    CardHeader,
+    CardTitle,
+    CardDescription,
+    Tabs,
+    TabsList,
+    TabsTrigger,
+    TabsContent,
+} from '@/ui';
+import { Eye, Mail, Save, Upload } from 'lucide-react';
+import api from '@/lib/api';
+import { toast } from 'sonner';
+import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+
+type PreviewSource = 'ORDER' | 'DEALER' | 'IMPORT';
+
+interface TemplateContent {
+    subject: string;
+    bodyHtml: string;
+    bodyText: string;
+}
+
+interface TemplateVersion extends TemplateContent {
+    id: string;
+    version: number;
+    isActive: boolean;
+    notes?: string | null;
+    createdAt: string;
+}
+
+interface TemplateSummary {
+    key: string;
+    name: string;
+    previewSource: PreviewSource;
+    variables: string[];
+    activeVersion: number | null;
+    versions: Array<Omit<TemplateVersion, keyof TemplateContent>>;
+}
+
+interface TemplateDetail extends TemplateSummary {
+    builtIn: TemplateContent;
+    versionContent: TemplateVersion[];
+}
+
+interface RenderedPreview {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+const SOURCE_LABELS: Record<PreviewSource, string> = {
+    ORDER: 'Order',
+    DEALER: 'Dealer',
+    IMPORT: 'Import batch',
+};
+
+const EMPTY_CONTENT: TemplateContent = { subject: '', bodyHtml: '', bodyText: '' };
+
+export default function EmailTemplatesPage() {
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [openedKey, setOpenedKey] = useState<string | null>(null);
+    // 'builtin' or a stored version number, as loaded into the editor
+    const [loadedFrom, setLoadedFrom] = useState<string>('builtin');
+    const [content, setContent] = useState<TemplateContent>(EMPTY_CONTENT);
+    const [notes, setNotes] = useState('');
+    const [sourceSearch, setSourceSearch] = useState('');
+    const [sourceId, setSourceId] = useState('');
+    const [testTo, setTestTo] = useState('');
+    const [preview, setPreview] = useState<RenderedPreview | null>(null);
+    const [busy, setBusy] = useState<'save' | 'publish' | 'preview' | 'test' | null>(null);
+
+    const { data: templates, isLoading, refetch: refetchList } = useQuery({
+        queryKey: ['email-templates'],
+        queryFn: async () => {
+            const response = await api.get('/admin/email-templates');
+            return response.data.templates as TemplateSummary[];
+        },
+    });
+
+    const { data: detail, refetch: refetchDetail } = useQuery({
+        queryKey: ['email-template', selectedKey],
+        queryFn: async () => {
+            const response = await api.get(`/admin/email-templates/${selectedKey}`);
+            return response.data as TemplateDetail;
+        },
+        enabled: !!selectedKey,
+    });
+
+    const { data: sources } = useQuery({
+        queryKey: ['email-template-sources', selectedKey, sourceSearch],
+        queryFn: async () => {
+            const response = await api.get(`/admin/email-templates/${selectedKey}/preview-sources`, {
+                params: sourceSearch ? { search: sourceSearch } : undefined,
+            });
+            return response.data.sources as Array<{ id: string; label: string }>;
+        },
+        enabled: !!selectedKey,
+    });
+
+    useLoadingCursor(isLoading);
+
+    useEffect(() => {
+        if (!selectedKey && templates?.length) setSelectedKey(templates[0].key);
+    }, [templates, selectedKey]);
+
+    const loadVersion = useCallback((value: string, from: TemplateDetail | undefined = detail) => {
+        if (!from) return;
+        const stored = from.versionContent.find((v) => String(v.version) === value);
+        const { subject, bodyHtml, bodyText } = stored ?? from.builtIn;
+        setContent({ subject, bodyHtml, bodyText });
+        setLoadedFrom(stored ? value : 'builtin');
+    }, [detail]);
+
+    // Open the version in use whenever another template is picked; refetching the same one keeps the edits
+    useEffect(() => {
+        if (!detail || detail.key === openedKey) return;
+        const active = detail.versionContent.find((v) => v.isActive);
+        loadVersion(active ? String(active.version) : 'builtin', detail);
+        setPreview(null);
+        setSourceId('');
+        setOpenedKey(detail.key);
+    }, [detail, openedKey, loadVersion]);
+
+    const refreshAll = async () => {
+        await Promise.all([refetchList(), refetchDetail()]);
+    };
+
+    const handleSave = async (activate: boolean) => {
+        if (!selectedKey) return;
+        setBusy(activate ? 'publish' : 'save');
+        try {
+            const response = await api.post(`/admin/email-templates/${selectedKey}/versions`, {
+                ...content,
+                notes: notes || undefined,
+                activate,
+            });
+            toast.success(`Saved version ${response.data.version}${activate ? ' and put it in use' : ''}`);
+            setNotes('');
+            await refreshAll();
+            setLoadedFrom(String(response.data.version));
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to save template');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleActivate = async (version: number | null) => {
+        if (!selectedKey) return;
+        setBusy('publish');
+        try {
+            await api.put(`/admin/email-templates/${selectedKey}/active`, { version });
+            toast.success(version === null ? 'Built-in version is now in use' : `Version ${version} is now in use`);
+            await refreshAll();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to change the version in use');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handlePreview = async () => {
+        if (!selectedKey || !sourceId) return;
+        setBusy('preview');
+        try {
+            const response = await api.post(`/admin/email-templates/${selectedKey}/preview`, { sourceId, content });
+            setPreview(response.data);
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to render preview');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleSendTest = async () => {
+        if (!selectedKey || !sourceId || !testTo) return;
+        setBusy('test');
+        try {
+            const response = await api.post(`/admin/email-templates/${selectedKey}/test`, { sourceId, content, to: testTo });
+            toast.success(response.data.message);
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to send test email');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const selected = templates?.find((t) => t.key === selectedKey);
+    const loadedVersion = loadedFrom === 'builtin' ? null : Number(loadedFrom);
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Email Templates</h2>
+                <p className="text-slate-500">Edit, preview and publish the emails the portal sends</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                {/* Template list */}
+                <Card className="shadow-sm border-slate-200 h-fit">
+                    <CardContent className="p-2">
+                        {isLoading ? (
+                            <div className="p-4 text-sm text-slate-500">Loading templates...</div>
+                        ) : (
+                            templates?.map((t) => (
+                                <button
+                                    key={t.key}
+                                    type="button"
+                                    onClick={() => setSelectedKey(t.key)}
+                                    className={`w-full text-left rounded-md px-3 py-2 ${
+                                        t.key === selectedKey ? 'bg-slate-100' : 'hover:bg-slate-50'
+                                    }`}
+                                >
+                                    <div className="text-sm font-medium text-slate-900">{t.name}</div>
+                                    <div className="text-xs text-slate-500">
+                                        {t.activeVersion === null ? 'Built-in' : `Version ${t.activeVersion}`}
+                                        {t.versions.length > 0 && ` • ${t.versions.length} saved`}
+                                    </div>
+                                </button>
+                            ))
+                        )}
+                    </CardContent>
+                </Card>
+
+                {selected && (
+                    <div className="lg:col-span-3 space-y-6">
+                        {/* Editor */}
+                        <Card className="shadow-sm border-slate-200">
+                            <CardHeader>
+                                <div className="flex flex-wrap items-center justify-between gap-4">
+                                    <div>
+                                        <CardTitle>{selected.name}</CardTitle>
+                                        <CardDescription>
+                                            {'Handlebars-style tags: {{name}}, {{#if name}}...{{/if}}, {{#each lines}}...{{/each}}'}
+                                        </CardDescription>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            className="p-2 border rounded-md text-sm"
+                                            value={loadedFrom}
+                                            onChange={(e) => loadVersion(e.target.value)}
+                                        >
+                                            <option value="builtin">
+                                                Built-in{selected.activeVersion === null ? ' (in use)' : ''}
+                                            </option>
+                                            {detail?.versionContent.map((v) => (
+                                                <option key={v.id} value={String(v.version)}>
+                                                    Version {v.version}{v.isActive ? ' (in use)' : ''}
+                                                    {v.notes ? ` - ${v.notes}` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        {loadedVersion !== selected.activeVersion && (
+                                            <Button
+                                                variant="outline"
+                                                onClick={() => handleActivate(loadedVersion)}
+                                                disabled={busy !== null}
+                                            >
+                                                Use this version
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="template-subject">Subject</Label>
+                                    <Input
+                                        id="template-subject"
+                                        value={content.subject}
+                                        onChange={(e) => setContent({ ...content, subject: e.target.value })}
+                                    />
+                                </div>
+
+                                <Tabs defaultValue="html">
+                                    <TabsList>
+                                        <TabsTrigger value="html">HTML</TabsTrigger>
+                                        <TabsTrigger value="text">Plain text</TabsTrigger>
+                                    </TabsList>
+                                    <TabsContent value="html">
+                                        <textarea
+                                            className="w-full h-72 p-3 border rounded-md font-mono text-xs"
+                                            value={content.bodyHtml}
+                                            onChange={(e) => setContent({ ...content, bodyHtml: e.target.value })}
+                                        />
+                                    </TabsContent>
+                                    <TabsContent value="text">
+                                        <textarea
+                                            className="w-full h-72 p-3 border rounded-md font-mono text-xs"
+                                            value={content.bodyText}
+                                            onChange={(e) => setContent({ ...content, bodyText: e.target.value })}
+                                        />
+                                    </TabsContent>
+                                </Tabs>
+
+                                <div className="flex flex-wrap gap-1">
+                                    {selected.variables.map((v) => (
+                                        <Badge key={v} variant="outline" className="font-mono text-xs">{v}</Badge>
+                                    ))}
+                                </div>
+
+                                <div className="flex flex-wrap items-end gap-3">
+                                    <div className="flex-1 min-w-[200px] space-y-2">
+                                        <Label htmlFor="template-notes">Version notes</Label>
+                                        <Input
+                                            id="template-notes"
+                                            value={notes}
+                                            onChange={(e) => setNotes(e.target.value)}
+                                            placeholder="What changed"
+                                        />
+                                    </div>
+                                    <Button variant="outline" onClick={() => handleSave(false)} disabled={busy !== null}>
+                                        <Save className="h-4 w-4 mr-2" />
+                                        {busy === 'save' ? 'Saving...' : 'Save as new version'}
+                                    </Button>
+                                    <Button onClick={() => handleSave(true)} disabled={busy !== null}>
+                                        <Upload className="h-4 w-4 mr-2" />
+                                        {busy === 'publish' ? 'Publishing...' : 'Save and use'}
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+
+                        {/* Preview and test send */}
+                        <Card className="shadow-sm border-slate-200">
+                            <CardHeader>
+                                <CardTitle>Preview</CardTitle>
+                                <CardDescription>
+                                    Renders the editor contents against a real {SOURCE_LABELS[selected.previewSource].toLowerCase()}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="preview-search">Find {SOURCE_LABELS[selected.previewSource].toLowerCase()}</Label>
+                                        <Input
+                                            id="preview-search"
+                                            value={sourceSearch}
+                                            onChange={(e) => setSourceSearch(e.target.value)}
+                                            placeholder="Search"
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="preview-source">{SOURCE_LABELS[selected.previewSource]}</Label>
+                                        <select
+                                            id="preview-source"
+                                            className="w-full p-2 border rounded-md"
+                                            value={sourceId}
+                                            onChange={(e) => setSourceId(e.target.value)}
+                                        >
+                                            <option value="">Choose...</option>
+                                            {sources?.map((s) => (
+                                                <option key={s.id} value={s.id}>{s.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap items-end gap-3">
+                                    <Button variant="outline" onClick={handlePreview} disabled={!sourceId || busy !== null}>
+                                        <Eye className="h-4 w-4 mr-2" />
+                                        {busy === 'preview' ? 'Rendering...' : 'Preview'}
+                                    </Button>
+                                    <div className="flex-1 min-w-[200px] space-y-2">
+                                        <Label htmlFor="test-to">Send test to</Label>
+                                        <Input
+                                            id="test-to"
+                                            type="email"
+                                            value={testTo}
+                                            onChange={(e) => setTestTo(e.target.value)}
+                                            placeholder="you@example.com"
+                                        />
+                                    </div>
+                                    <Button onClick={handleSendTest} disabled={!sourceId || !testTo || busy !== null}>
+                                        <Mail className="h-4 w-4 mr-2" />
+                                        {busy === 'test' ? 'Sending...' : 'Send test'}
+                                    </Button>
+                                </div>
+
+                                {preview && (
+                                    <div className="space-y-3">
+                                        <div className="text-sm">
+                                            <div><span className="text-slate-500">To:</span> {preview.to || '(no recipient)'}</div>
+                                            <div><span className="text-slate-500">Subject:</span> {preview.subject}</div>
+                                        </div>
+                                        <Tabs defaultValue="html">
+                                            <TabsList>
+                                                <TabsTrigger value="html">HTML</TabsTrigger>
+                                                <TabsTrigger value="text">Plain text</TabsTrigger>
+                                            </TabsList>
+                                            <TabsContent value="html">
+                                                <iframe
+                                                    title="Email preview"
+                                                    sandbox=""
+                                                    srcDoc={preview.html}
+                                                    className="w-full h-[600px] border rounded-md bg-white"
+                                                />
+                                            </TabsContent>
+                                            <TabsContent value="text">
+                                                <pre className="whitespace-pre-wrap p-4 border rounded-md bg-slate-50 text-sm">
+                                                    {preview.text}
+                                                </pre>
+                                            </TabsContent>
+                                        </Tabs>
+                                    </div>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+    Button,
+    Badge,
+    Card,
+    CardContent,
+    Tabs,
+    TabsList,
+    TabsTrigger,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/ui';
+import { RefreshCw, Send } from 'lucide-react';
+import api from '@/lib/api';
+import { toast } from 'sonner';
+import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+
+type ErpExportStatus = 'PENDING' | 'PROCESSING' | 'SENT' | 'FAILED' | 'CANCELLED';
+
+interface ErpExport {
+    id: string;
+    status: ErpExportStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: string;
+    lastError?: string | null;
+    adapter?: string | null;
+    sentAt?: string | null;
+    updatedAt: string;
+    order: {
+        orderNo: string;
+        poRef?: string | null;
+        total: string;
+        createdAt: string;
+        erpReference?: string | null;
+        dealerAccount: {
+            accountNo: string;
+            companyName: string;
+        };
+    };
+}
+
+const STATUS_STYLES: Record<ErpExportStatus, string> = {
+    PENDING: 'bg-amber-100 text-amber-700 border-amber-200',
+    PROCESSING: 'bg-blue-100 text-blue-700 border-blue-200',
+    SENT: 'bg-green-100 text-green-700 border-green-200',
+    FAILED: 'bg-red-100 text-red-700 border-red-200',
+    CANCELLED: 'bg-slate-100 text-slate-600 border-slate-200',
+};
+
+const PAGE_SIZE = 50;
+
+export default function ErpExportsPage() {
+    const [statusFilter, setStatusFilter] = useState<ErpExportStatus | 'ALL'>('FAILED');
+    const [page, setPage] = useState(1);
+    const [resending, setResending] = useState<string | null>(null);
+
+    const { data, isLoading, refetch } = useQuery({
+        queryKey: ['erp-exports', statusFilter, page],
+        queryFn: async () => {
+            const params: any = { page, limit: PAGE_SIZE };
+            if (statusFilter !== 'ALL') params.status = statusFilter;
+
+            const response = await api.get('/admin/erp-exports', { params });
+            return response.data as { exports: ErpExport[]; meta: { total: number; totalPages: number } };
+        },
+    });
+
+    useLoadingCursor(isLoading);
+
+    const handleResend = async (erpExport: ErpExport) => {
+        setResending(erpExport.id);
+        try {
+            await api.post(`/admin/erp-exports/${erpExport.id}/resend`);
+            toast.success(`${erpExport.order.orderNo} queued for resend`);
+            refetch();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to resend export');
+        } finally {
+            setResending(null);
+        }
+    };
+
+    const exports = data?.exports ?? [];
+    const totalPages = data?.meta.totalPages ?? 1;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">ERP Exports</h2>
+                    <p className="text-slate-500">Orders queued for the ERP, and exports that ran out of retries</p>
+                </div>
+                <Button variant="outline" onClick={() => refetch()}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Refresh
+                </Button>
+            </div>
+
+            {/* Filters */}
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="pt-6">
+                    <Tabs
+                        value={statusFilter}
+                        onValueChange={(v) => {
+                            setStatusFilter(v as any);
+                            setPage(1);
+                        }}
+                    >
+                        <TabsList>
+                            <TabsTrigger value="FAILED">Failed</TabsTrigger>
+                            <TabsTrigger value="PENDING">Pending</TabsTrigger>
+                            <TabsTrigger value="SENT">Sent</TabsTrigger>
+                            <TabsTrigger value="CANCELLED">Cancelled</TabsTrigger>
+                            <TabsTrigger value="ALL">All</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                </CardContent>
+            </Card>
+
+            {/* Table */}
+            <Card className="shadow-sm border-slate-200">
+                <CardContent className="p-0">
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Order</TableHead>
+                                    <TableHead>Dealer</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Attempts</TableHead>
+                                    <TableHead>ERP Ref</TableHead>
+                                    <TableHead>Last Error</TableHead>
+                                    <TableHead>Updated</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isLoading ? (
+                                    <TableRow>
+                                        <TableCell colSpan={8} className="h-24 text-center">
+                                            Loading exports...
+                                        </TableCell>
+                                    </TableRow>
+                                ) : exports.length === 0 ? (
+                                    <TableRow>
+                                        <TableCell colSpan={8} className="h-24 text-center">
+                                            No exports found
+                                        </TableCell>
+                                    </TableRow>
+                                ) : (
+                                    exports.map((erpExport) => (
+                                        <TableRow key={erpExport.id}>
+                                            <TableCell>
+                                                <div className="font-medium">{erpExport.order.orderNo}</div>
+                                                {erpExport.order.poRef && (
+                                                    <div className="text-xs text-slate-500">PO {erpExport.order.poRef}</div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="text-sm font-medium">{erpExport.order.dealerAccount.companyName}</div>
+                                                <div className="text-xs text-slate-500">{erpExport.order.dealerAccount.accountNo}</div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline" className={STATUS_STYLES[erpExport.status]}>
+                                                    {erpExport.status}
+                                                </Badge>
+                                                {erpExport.adapter && (
+                                                    <div className="text-xs text-slate-500 mt-1">{erpExport.adapter}</div>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {erpExport.attempts} / {erpExport.maxAttempts}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {erpExport.order.erpReference || <span className="text-slate-400">-</span>}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-red-600 max-w-xs truncate" title={erpExport.lastError || undefined}>
+                                                {erpExport.lastError || <span className="text-slate-400">-</span>}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-slate-600">
+                                                {new Date(erpExport.updatedAt).toLocaleString()}
+                                            </TableCell>
+                                            <TableCell>
+                                                {erpExport.status === 'FAILED' && (
+                                                    <Button
+                                                        size="sm"
+                                                        variant="outline"
+                                                        disabled={resending === erpExport.id}
+                                                        onClick={() => handleResend(erpExport)}
+                                                    >
+                                                        <Send className="h-4 w-4 mr-2" />
+                                                        Resend
+                                                    </Button>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </div>
+
+                    {/* Pagination */}
+                    {!isLoading && totalPages > 1 && (
+                        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-200">
+                            <div className="text-sm text-slate-500">
+                                Page {page} of {totalPages} ({data?.meta.total} exports)
+                            </div>
+                            <div className="flex gap-2">
+                                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                                    Previous
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+                                    Next
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
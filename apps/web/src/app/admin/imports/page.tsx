@@ -26,13 +26,24 @@ import {
     TableHeader,
     TableRow,
 } from '@/ui';
-import { Upload, Package, Clock, Truck, ChevronDown, ChevronUp, Download } from 'lucide-react';
+import { Upload, Package, Clock, Truck, ChevronDown, ChevronUp, Download, RotateCcw, XCircle, GitBranch, FileSearch, Tag } from 'lucide-react';
+import { toast } from 'sonner';
 import api from '@/lib/api';
 import { DensityToggle } from '@/components/portal/DensityToggle';
 import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+import ImportDiffDialog from '@/components/admin/ImportDiffDialog';
 
-type ImportStatus = 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'SUCCEEDED_WITH_ERRORS';
-type ImportType = 'PRODUCTS_GENUINE' | 'PRODUCTS_AFTERMARKET' | 'BACKORDERS' | 'FULFILLMENT';
+type ImportStatus = 'QUEUED' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'SUCCEEDED_WITH_ERRORS' | 'CANCELLED' | 'AWAITING_APPROVAL';
+type ImportType = 'PRODUCTS_GENUINE' | 'PRODUCTS_AFTERMARKET' | 'BACKORDERS' | 'SUPERSESSION' | 'FULFILLMENT_STATUS' | 'DEALER_PRICES';
+
+interface ImportJob {
+    id: string;
+    status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED';
+    attempts: number;
+    maxAttempts: number;
+    runAfter: string;
+    lastError?: string | null;
+}
 
 interface ImportBatch {
     id: string;
@@ -44,21 +55,29 @@ interface ImportBatch {
         email: string;
     };
     totalRows?: number;
+    processedRows?: number;
     validRows?: number;
     invalidRows?: number;
+    dryRun?: boolean;
+    jobs?: ImportJob[];
 }
 
 const statusColors: Record<ImportStatus, string> = {
+    QUEUED: 'bg-slate-100 text-slate-700 border-slate-200',
     PROCESSING: 'bg-blue-100 text-blue-700 border-blue-200',
     SUCCEEDED: 'bg-green-100 text-green-700 border-green-200',
     FAILED: 'bg-red-100 text-red-700 border-red-200',
     SUCCEEDED_WITH_ERRORS: 'bg-amber-100 text-amber-700 border-amber-200',
+    CANCELLED: 'bg-slate-100 text-slate-500 border-slate-200',
+    AWAITING_APPROVAL: 'bg-purple-100 text-purple-700 border-purple-200',
 };
 
 const typeIcons: Record<string, any> = {
     PRODUCTS: Package,
     BACKORDERS: Clock,
-    FULFILLMENT: Truck,
+    SUPERSESSION: GitBranch,
+    FULFILLMENT_STATUS: Truck,
+    DEALER_PRICES: Tag,
 };
 
 export default function ImportsPage() {
@@ -70,9 +89,13 @@ export default function ImportsPage() {
     const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
     const [uploadType, setUploadType] = useState<ImportType>('PRODUCTS_GENUINE');
+    const [uploadFile, setUploadFile] = useState<File | null>(null);
+    const [dryRun, setDryRun] = useState(true);
+    const [uploadTemplateId, setUploadTemplateId] = useState('');
+    const [reviewBatch, setReviewBatch] = useState<ImportBatch | null>(null);
     const [isUploading, setIsUploading] = useState(false);
 
-    const { data, isLoading } = useQuery({
+    const { data, isLoading, refetch } = useQuery({
         queryKey: ['imports', statusFilter, typeFilter],
         queryFn: async () => {
             const params: any = {};
@@ -85,25 +108,76 @@ export default function ImportsPage() {
         refetchInterval: 5000,
     });
 
+    const { data: templates } = useQuery({
+        queryKey: ['templates'],
+        queryFn: async () => {
+            const response = await api.get('/admin/templates');
+            return response.data as Array<{ id: string; templateName: string; importType: string }>;
+        },
+        enabled: isUploadModalOpen,
+    });
+
     useLoadingCursor(isLoading);
 
+    const isProductUpload = uploadType.startsWith('PRODUCTS');
+
+    // Column mappings exist for product, backorder and dealer price files only
+    const templateImportType = isProductUpload
+        ? 'PRODUCTS'
+        : uploadType === 'BACKORDERS' || uploadType === 'DEALER_PRICES' ? uploadType : null;
+    const uploadTemplates = (templates ?? []).filter(t => t.importType === templateImportType);
+
     const handleUpload = async () => {
+        if (!uploadFile) {
+            toast.error('Please choose a file to import');
+            return;
+        }
+
         setIsUploading(true);
         try {
-            const mockFilePath = `C:/uploads/mock_${Date.now()}.xlsx`;
-            await api.post('/admin/import', {
-                type: uploadType.startsWith('PRODUCTS') ? uploadType.split('_')[1] : uploadType,
-                filePath: mockFilePath
+            // importType must precede the file part so the API can read it from data.fields
+            const formData = new FormData();
+            formData.append('importType', uploadType);
+            if (isProductUpload) formData.append('dryRun', String(dryRun));
+            if (uploadTemplateId) formData.append('templateId', uploadTemplateId);
+            formData.append('file', uploadFile);
+
+            await api.post('/admin/imports/upload', formData, {
+                headers: { 'Content-Type': 'multipart/form-data' },
             });
             setIsUploadModalOpen(false);
-            alert('Import started successfully!');
-        } catch (e: any) {
-            alert('Upload failed: ' + e.message);
+            setUploadFile(null);
+            toast.success(isProductUpload && dryRun ? 'Dry run queued. Review it here once staged.' : 'Import queued');
+            refetch();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Upload failed');
         } finally {
             setIsUploading(false);
         }
     };
 
+    const handleRetry = async (batchId: string) => {
+        try {
+            await api.post(`/admin/imports/${batchId}/retry`);
+            toast.success('Import re-queued');
+            refetch();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to retry import');
+        }
+    };
+
+    const handleCancel = async (batchId: string) => {
+        if (!confirm('Cancel this import? Rows already applied are not rolled back.')) return;
+
+        try {
+            await api.post(`/admin/imports/${batchId}/cancel`);
+            toast.success('Import cancellation requested');
+            refetch();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to cancel import');
+        }
+    };
+
     const toggleRow = (id: string) => {
         const newExpanded = new Set(expandedRows);
         if (newExpanded.has(id)) {
@@ -175,6 +249,32 @@ export default function ImportsPage() {
                 </Badge>
             ),
         },
+        {
+            id: 'progress',
+            header: 'Progress',
+            cell: ({ row }) => {
+                const { status, totalRows, processedRows } = row.original;
+                const job = row.original.jobs?.[0];
+                if (status === 'QUEUED') {
+                    return (
+                        <div className="text-xs text-slate-500">
+                            {job && job.attempts > 0 ? `Retry ${job.attempts}/${job.maxAttempts} pending` : 'Waiting for worker'}
+                        </div>
+                    );
+                }
+                if (status !== 'PROCESSING' || !totalRows) {
+                    return job?.lastError && status === 'FAILED' ? (
+                        <div className="text-xs text-red-600 max-w-[200px] truncate" title={job.lastError}>{job.lastError}</div>
+                    ) : null;
+                }
+                const percent = Math.round(((processedRows || 0) / totalRows) * 100);
+                return (
+                    <div className="text-xs font-mono text-slate-600">
+                        {(processedRows || 0).toLocaleString()} / {totalRows.toLocaleString()} ({percent}%)
+                    </div>
+                );
+            },
+        },
         {
             accessorKey: 'startedAt',
             header: 'Uploaded At',
@@ -223,6 +323,35 @@ export default function ImportsPage() {
                 );
             },
         },
+        {
+            id: 'actions',
+            cell: ({ row }) => {
+                const { id, status } = row.original;
+                if (status === 'AWAITING_APPROVAL') {
+                    return (
+                        <Button variant="outline" size="sm" onClick={() => setReviewBatch(row.original)}>
+                            <FileSearch className="h-4 w-4 mr-1" />
+                            Review
+                        </Button>
+                    );
+                }
+                if (status === 'QUEUED' || status === 'PROCESSING') {
+                    return (
+                        <Button variant="ghost" size="sm" onClick={() => handleCancel(id)} title="Cancel import">
+                            <XCircle className="h-4 w-4 text-red-600" />
+                        </Button>
+                    );
+                }
+                if (status === 'FAILED' || status === 'CANCELLED') {
+                    return (
+                        <Button variant="ghost" size="sm" onClick={() => handleRetry(id)} title="Retry import">
+                            <RotateCcw className="h-4 w-4" />
+                        </Button>
+                    );
+                }
+                return null;
+            },
+        },
     ];
 
     const table = useReactTable({
@@ -268,23 +397,62 @@ export default function ImportsPage() {
                                 <select
                                     className="w-full p-2 border rounded-md"
                                     value={uploadType}
-                                    onChange={(e) => setUploadType(e.target.value as any)}
+                                    onChange={(e) => {
+                                        setUploadType(e.target.value as any);
+                                        setUploadTemplateId('');
+                                    }}
                                 >
                                     <option value="PRODUCTS_GENUINE">Genuine Products</option>
                                     <option value="PRODUCTS_AFTERMARKET">Aftermarket Products</option>
                                     <option value="BACKORDERS">Backorders</option>
+                                    <option value="SUPERSESSION">Supersessions</option>
+                                    <option value="FULFILLMENT_STATUS">Fulfillment Status</option>
+                                    <option value="DEALER_PRICES">Dealer Net Prices</option>
                                 </select>
                             </div>
-                            <div className="border-2 border-dashed border-slate-200 rounded-lg p-8 text-center bg-slate-50">
+                            {uploadTemplates.length > 0 && (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Column Mapping</label>
+                                    <select
+                                        className="w-full p-2 border rounded-md"
+                                        value={uploadTemplateId}
+                                        onChange={(e) => setUploadTemplateId(e.target.value)}
+                                    >
+                                        <option value="">Standard headings</option>
+                                        {uploadTemplates.map(t => (
+                                            <option key={t.id} value={t.id}>{t.templateName}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <label className="block border-2 border-dashed border-slate-200 rounded-lg p-8 text-center bg-slate-50 cursor-pointer">
+                                <input
+                                    type="file"
+                                    accept=".xlsx,.xls,.csv"
+                                    className="hidden"
+                                    onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
+                                />
                                 <Upload className="h-8 w-8 mx-auto text-slate-400 mb-2" />
-                                <p className="text-sm text-slate-500">Click to select or drag and drop XLSX file</p>
-                            </div>
+                                <p className="text-sm text-slate-500">
+                                    {uploadFile ? uploadFile.name : 'Click to select an XLSX or CSV file'}
+                                </p>
+                            </label>
+                            {isProductUpload && (
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={dryRun}
+                                        onChange={(e) => setDryRun(e.target.checked)}
+                                    />
+                                    Dry run: review price and stock changes before applying
+                                </label>
+                            )}
                             <div className="flex justify-end gap-2">
                                 <Button variant="ghost" onClick={() => setIsUploadModalOpen(false)}>Cancel</Button>
                                 <Button
                                     className="bg-blue-600 hover:bg-blue-700"
                                     onClick={handleUpload}
-                                    disabled={isUploading}
+                                    disabled={isUploading || !uploadFile}
                                 >
                                     {isUploading ? 'Uploading...' : 'Start Import'}
                                 </Button>
@@ -303,7 +471,10 @@ export default function ImportsPage() {
                                 <TabsTrigger value="ALL">All</TabsTrigger>
                                 <TabsTrigger value="SUCCEEDED">Success</TabsTrigger>
                                 <TabsTrigger value="FAILED">Failed</TabsTrigger>
+                                <TabsTrigger value="QUEUED">Queued</TabsTrigger>
                                 <TabsTrigger value="PROCESSING">Processing</TabsTrigger>
+                                <TabsTrigger value="AWAITING_APPROVAL">Awaiting Review</TabsTrigger>
+                                <TabsTrigger value="CANCELLED">Cancelled</TabsTrigger>
                             </TabsList>
                         </Tabs>
                     </div>
@@ -315,7 +486,9 @@ export default function ImportsPage() {
                                 <TabsTrigger value="ALL">All</TabsTrigger>
                                 <TabsTrigger value="PRODUCTS_GENUINE">Products</TabsTrigger>
                                 <TabsTrigger value="BACKORDERS">Backorders</TabsTrigger>
-                                <TabsTrigger value="FULFILLMENT">Fulfillment</TabsTrigger>
+                                <TabsTrigger value="SUPERSESSION">Supersessions</TabsTrigger>
+                                <TabsTrigger value="FULFILLMENT_STATUS">Fulfillment</TabsTrigger>
+                                <TabsTrigger value="DEALER_PRICES">Dealer Prices</TabsTrigger>
                             </TabsList>
                         </Tabs>
                     </div>
@@ -389,6 +562,17 @@ export default function ImportsPage() {
                     </div>
                 </CardContent>
             </Card>
+
+            <ImportDiffDialog
+                open={!!reviewBatch}
+                batchId={reviewBatch?.id ?? null}
+                fileName={reviewBatch?.fileName}
+                onClose={() => setReviewBatch(null)}
+                onDecision={() => {
+                    setReviewBatch(null);
+                    refetch();
+                }}
+            />
         </div>
     );
 }
@@ -1,11 +1,96 @@
-'use client'; // This is actually an action file, but usually exported to use in client components
+'use server';
 
-import { orderEngine, OrderInput } from '@/services/OrderEngine';
+import prisma from '@/lib/prisma';
+import { orderEngine } from '@/services/OrderEngine';
+import { IdempotencyService } from '@hotbray/domain-orders';
+import { JWTPayload, SessionService, hasPermission, verifyToken } from '@hotbray/domain-auth';
+import { ActorType } from 'db';
 
-export async function submitOrderAction(input: OrderInput) {
+const idempotency = new IdempotencyService(prisma);
+const sessions = new SessionService(prisma);
+
+// What the order entry form decides; the source and the acting admin are set here, never by the client
+export interface AdminOrderInput {
+    dealerAccountId: string; // Account id or account number
+    poRef?: string;
+    notes?: string;
+    items: Array<{
+        productCode: string;
+        qty: number;
+    }>;
+}
+
+export type SubmitOrderResult =
+    | { success: true; data: { orderId: string; orderNo: string; total: number } }
+    | { success: false; error: string; unauthorized?: boolean };
+
+/**
+ * Server actions are reachable by anyone who can reach the web app, so the caller's access token is
+ * checked here as the API's requirePermission('orders.write') would
+ */
+async function authorize(token: string | null): Promise<JWTPayload> {
+    if (!token) {
+        throw new Error('Please sign in again');
+    }
+
+    const user = verifyToken(token);
+    if (!user.sessionId || !(await sessions.isActive(user.sessionId))) {
+        throw new Error('Session has ended, please sign in again');
+    }
+    return user;
+}
+
+/**
+ * The form sends a fresh idempotency key per order, so a double submit places it only once.
+ * Keys are scoped to the signed-in admin, so two admins never see each other's results.
+ */
+export async function submitOrderAction(token: string | null, input: AdminOrderInput, idempotencyKey?: string): Promise<SubmitOrderResult> {
+    let admin: JWTPayload;
     try {
-        const result = await orderEngine.createOrder(input);
-        return { success: true, data: result };
+        admin = await authorize(token);
+    } catch (error: any) {
+        return { success: false, error: error.message, unauthorized: true };
+    }
+    if (admin.role !== 'ADMIN' || admin.mustChangePassword || !hasPermission(admin.adminRole, 'orders.write')) {
+        return { success: false, error: 'Access denied. Required permission: orders.write' };
+    }
+
+    const order = {
+        dealerAccountId: input.dealerAccountId,
+        source: 'ADMIN' as const,
+        poRef: input.poRef,
+        notes: input.notes,
+        items: input.items.map(item => ({ productCode: item.productCode, qty: item.qty }))
+    };
+
+    const place = async () => {
+        const result = await orderEngine.createOrder(order);
+        await prisma.auditLog.create({
+            data: {
+                actorType: ActorType.ADMIN,
+                actorUserId: admin.userId,
+                action: 'CREATE_ORDER',
+                entityType: 'ORDER',
+                entityId: result.orderId,
+                afterJson: { orderNo: result.orderNo, source: order.source, dealerAccountId: order.dealerAccountId, items: order.items }
+            }
+        });
+        return { orderId: result.orderId, orderNo: result.orderNo, total: result.total };
+    };
+
+    try {
+        if (!idempotencyKey) {
+            return { success: true, data: await place() };
+        }
+
+        const { body } = await idempotency.run(
+            { ownerId: admin.userId, key: idempotencyKey, route: 'submitOrderAction', body: JSON.stringify(order) },
+            async () => {
+                const result = await place();
+                return { status: 200, body: result, orderNo: result.orderNo };
+            }
+        );
+        return { success: true, data: body as { orderId: string; orderNo: string; total: number } };
     } catch (error: any) {
         return { success: false, error: error.message };
     }
@@ -2,7 +2,9 @@
 
 import { useState } from 'react';
 import { Button, Input, Label, Card, CardHeader, CardTitle, CardContent } from '@/ui';
-import { submitOrderAction } from './actions';
+import { submitOrderAction, AdminOrderInput } from './actions';
+import { refreshAccessToken } from '@/lib/api';
+import { getAuthToken } from '@/lib/auth';
 import { toast } from 'sonner';
 
 export default function AdminOrderEntry() {
@@ -10,20 +12,27 @@ export default function AdminOrderEntry() {
     const [sku, setSku] = useState('');
     const [qty, setQty] = useState(1);
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
     const handleManualEntry = async () => {
         setIsSubmitting(true);
-        const result = await submitOrderAction({
+        const input: AdminOrderInput = {
             dealerAccountId: dealerId,
-            dealerUserId: 'ADMIN-PORTAL', // Simulated admin user
-            source: 'ADMIN',
             items: [{ productCode: sku, qty }]
-        });
+        };
+        let result = await submitOrderAction(getAuthToken(), input, idempotencyKey);
+
+        // The access token is short-lived; renew it once and retry with the same idempotency key
+        if (!result.success && result.unauthorized) {
+            const token = await refreshAccessToken();
+            if (token) result = await submitOrderAction(token, input, idempotencyKey);
+        }
 
         if (result.success) {
-            toast.success(`Order created: ${result.data?.orderNo}. ERP Ref: ${result.data?.erpReference}`);
+            toast.success(`Order created: ${result.data.orderNo}. Queued for ERP export.`);
             setSku('');
             setQty(1);
+            setIdempotencyKey(crypto.randomUUID());
         } else {
             toast.error(`Failed: ${result.error}`);
         }
@@ -38,7 +47,7 @@ export default function AdminOrderEntry() {
                 </CardHeader>
                 <CardContent className="space-y-4">
                     <div className="space-y-2">
-                        <Label>Dealer Account ID</Label>
+                        <Label>Dealer Account No</Label>
                         <Input
                             placeholder="e.g. DEAL001"
                             value={dealerId}
@@ -70,7 +79,7 @@ export default function AdminOrderEntry() {
                         onClick={handleManualEntry}
                         disabled={isSubmitting}
                     >
-                        {isSubmitting ? 'Syncing with ERP...' : 'Create Order and Push to ERP'}
+                        {isSubmitting ? 'Creating order...' : 'Create Order'}
                     </Button>
                 </CardContent>
             </Card>
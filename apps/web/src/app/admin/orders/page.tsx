@@ -4,7 +4,6 @@ import {
     Search,
     ChevronLeft,
     ChevronRight,
-    MoreHorizontal,
     AlertCircle,
     Package,
     User,
@@ -15,6 +14,7 @@ import {
 } from "lucide-react";
 import Link from 'next/link';
 import { DensityToggleLink } from '@/components/portal/DensityToggleLink';
+import OrderActionsMenu from '@/components/admin/OrderActionsMenu';
 
 /**
  * SERVER-SIDE RENDERING ARCHITECTURE:
@@ -46,6 +46,8 @@ interface SearchParams {
 // --- STATUS BADGE COMPONENT ---
 const StatusBadge = ({ status }: { status: string }) => {
     const configs: Record<string, { color: string; icon: any }> = {
+        PENDING_APPROVAL: { color: 'bg-violet-100 text-violet-800', icon: Clock },
+        REJECTED: { color: 'bg-slate-100 text-slate-700', icon: AlertCircle },
         SUSPENDED: { color: 'bg-amber-100 text-amber-800', icon: Clock },
         PROCESSING: { color: 'bg-blue-100 text-blue-800', icon: Clock },
         SHIPPED: { color: 'bg-emerald-100 text-emerald-800', icon: CheckCircle2 },
@@ -57,7 +59,7 @@ const StatusBadge = ({ status }: { status: string }) => {
 
     return (
         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${config.color}`}>
-            <Icon className="w-3 h-3 mr-1" /> {status.charAt(0) + status.slice(1).toLowerCase()}
+            <Icon className="w-3 h-3 mr-1" /> {status.charAt(0) + status.slice(1).toLowerCase().replace('_', ' ')}
         </span>
     );
 };
@@ -130,6 +132,13 @@ async function OrderList({
                         id: true,
                     },
                 },
+                dealerUser: {
+                    select: {
+                        firstName: true,
+                        lastName: true,
+                        user: { select: { email: true } },
+                    },
+                },
             },
             orderBy: { createdAt: 'desc' },
             skip,
@@ -227,6 +236,10 @@ async function OrderList({
                                             <Calendar className="w-3 h-3 mr-1" />
                                             {new Date(order.createdAt).toLocaleDateString()}
                                         </div>
+                                        <div className="flex items-center mt-1" title={order.dealerUser.user.email}>
+                                            <User className="w-3 h-3 mr-1" />
+                                            {[order.dealerUser.firstName, order.dealerUser.lastName].filter(Boolean).join(' ') || order.dealerUser.user.email}
+                                        </div>
                                     </div>
                                 </td>
                                 <td className={`px-6 ${cellPadding} whitespace-nowrap`}>
@@ -238,9 +251,7 @@ async function OrderList({
                                     </span>
                                 </td>
                                 <td className={`px-6 ${cellPadding} whitespace-nowrap text-right text-sm`}>
-                                    <button className="text-gray-400 hover:text-blue-600 transition-colors p-1 hover:bg-gray-100 rounded-lg">
-                                        <MoreHorizontal className="w-5 h-5" />
-                                    </button>
+                                    <OrderActionsMenu orderId={order.id} orderNo={order.orderNo} />
                                 </td>
                             </tr>
                         ))}
@@ -328,6 +339,8 @@ export default async function AdminOrdersPage({
                         onChange={(e) => e.currentTarget.form?.requestSubmit()}
                     >
                         <option value="">All Statuses</option>
+                        <option value="PENDING_APPROVAL">Pending approval</option>
+                        <option value="REJECTED">Rejected</option>
                         <option value="SUSPENDED">Suspended</option>
                         <option value="PROCESSING">Processing</option>
                         <option value="SHIPPED">Shipped</option>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import {
     Button,
     Card,
@@ -21,11 +21,12 @@ import {
     TableHeader,
     TableRow,
 } from '@/ui';
-import { Download, FileSpreadsheet, FileText, Eye } from 'lucide-react';
+import { Download, FileSpreadsheet, FileText, Eye, Columns3 } from 'lucide-react';
 import api from '@/lib/api';
 import { toast } from 'sonner';
 import { DensityToggle } from '@/components/portal/DensityToggle';
 import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+import TemplateMappingDialog from '@/components/admin/TemplateMappingDialog';
 
 interface Template {
     id: string;
@@ -34,8 +35,13 @@ interface Template {
     fileName: string;
     filePath: string;
     templateType: string;
+    importType: string;
+    mappingJson: Record<string, unknown> | null;
 }
 
+// UploadTemplate import types the importers can read through a column mapping
+const MAPPABLE_IMPORT_TYPES = ['PRODUCTS', 'BACKORDERS', 'DEALER_PRICES'];
+
 const sampleData: Record<string, { headers: string[]; rows: string[][]; notes: string[] }> = {
     GENUINE_PARTS: {
         headers: ['PartNo', 'Description', 'Band1Price', 'Band2Price', 'Band3Price', 'Band4Price', 'FreeStock', 'AllocatedStock'],
@@ -99,6 +105,8 @@ const sampleData: Record<string, { headers: string[]; rows: string[][]; notes: s
 export default function TemplatesPage() {
     const [previewTemplate, setPreviewTemplate] = useState<string | null>(null);
     const [density, setDensity] = useState<'comfortable' | 'dense'>('comfortable');
+    const [mappingTemplateId, setMappingTemplateId] = useState<string | null>(null);
+    const queryClient = useQueryClient();
 
     const { data: templates, isLoading } = useQuery({
         queryKey: ['templates'],
@@ -197,6 +205,9 @@ export default function TemplatesPage() {
                                 <div className="text-sm text-slate-500 font-mono bg-slate-50 px-3 py-2 rounded">
                                     {template.fileName}
                                 </div>
+                                {template.mappingJson && (
+                                    <div className="text-xs text-blue-700">Custom column mapping</div>
+                                )}
                                 <div className="flex gap-2">
                                     <Button
                                         className="flex-1 bg-blue-600 hover:bg-blue-700"
@@ -214,6 +225,16 @@ export default function TemplatesPage() {
                                         Preview
                                     </Button>
                                 </div>
+                                {MAPPABLE_IMPORT_TYPES.includes(template.importType) && (
+                                    <Button
+                                        variant="outline"
+                                        className="w-full"
+                                        onClick={() => setMappingTemplateId(template.id)}
+                                    >
+                                        <Columns3 className="h-4 w-4 mr-2" />
+                                        Column Mapping
+                                    </Button>
+                                )}
                             </CardContent>
                         </Card>
                     );
@@ -287,6 +308,16 @@ export default function TemplatesPage() {
                     )}
                 </DialogContent>
             </Dialog>
+
+            <TemplateMappingDialog
+                open={!!mappingTemplateId}
+                templateId={mappingTemplateId}
+                onClose={() => setMappingTemplateId(null)}
+                onSaved={() => {
+                    setMappingTemplateId(null);
+                    queryClient.invalidateQueries({ queryKey: ['templates'] });
+                }}
+            />
         </div>
     );
 }
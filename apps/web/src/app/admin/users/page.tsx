@@ -31,11 +31,14 @@ import {
     TableHeader,
     TableRow,
 } from '@/ui';
-import { MoreHorizontal, Plus, Search } from 'lucide-react';
+import { KeyRound, MoreHorizontal, Plus, Search } from 'lucide-react';
 import api from '@/lib/api';
 import { toast } from 'sonner';
 import { DensityToggle } from '@/components/portal/DensityToggle';
 import { useLoadingCursor } from '@/hooks/useLoadingCursor';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
+import UserSessionsDialog from '@/components/admin/UserSessionsDialog';
+import PasswordPolicyDialog from '@/components/admin/PasswordPolicyDialog';
 
 type UserRole = 'ADMIN' | 'DEALER';
 
@@ -62,6 +65,9 @@ export default function UsersPage() {
     const [sorting, setSorting] = useState<SortingState>([]);
     const [pagination, setPagination] = useState({ pageIndex: 0, pageSize: 20 });
     const [density, setDensity] = useState<'comfortable' | 'dense'>('comfortable');
+    const [sessionsFor, setSessionsFor] = useState<User | null>(null);
+    const [policyOpen, setPolicyOpen] = useState(false);
+    const { can } = useAdminPermissions();
 
     const { data, isLoading, refetch } = useQuery({
         queryKey: ['users', roleFilter, searchQuery],
@@ -78,7 +84,7 @@ export default function UsersPage() {
     useLoadingCursor(isLoading);
 
     const handleResetPassword = async (userId: string, email: string) => {
-        if (!confirm(`Reset password for ${email}?`)) return;
+        if (!confirm(`Reset password for ${email}? They will be signed out everywhere and must choose a new password when they sign in.`)) return;
 
         try {
             await api.post(`/admin/users/${userId}/reset-password`);
@@ -205,6 +211,7 @@ export default function UsersPage() {
             id: 'actions',
             cell: ({ row }) => {
                 const user = row.original;
+                if (user.role === 'ADMIN' && !can('admins.manage')) return null;
 
                 return (
                     <DropdownMenu>
@@ -214,6 +221,9 @@ export default function UsersPage() {
                             </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setSessionsFor(user)}>
+                                Active Sessions
+                            </DropdownMenuItem>
                             <DropdownMenuItem onClick={() => handleResetPassword(user.id, user.email)}>
                                 Reset Password
                             </DropdownMenuItem>
@@ -255,10 +265,18 @@ export default function UsersPage() {
                 <div className="flex items-center gap-3">
                     <DensityToggle value={density} onChange={setDensity} />
                     <div className="flex gap-2">
-                        <Button variant="outline" className="border-blue-600 text-blue-600 hover:bg-blue-50">
-                            <Plus className="h-4 w-4 mr-2" />
-                            Create Admin User
-                        </Button>
+                        {can('settings.manage') && (
+                            <Button variant="outline" onClick={() => setPolicyOpen(true)}>
+                                <KeyRound className="h-4 w-4 mr-2" />
+                                Password Policy
+                            </Button>
+                        )}
+                        {can('admins.manage') && (
+                            <Button variant="outline" className="border-blue-600 text-blue-600 hover:bg-blue-50">
+                                <Plus className="h-4 w-4 mr-2" />
+                                Create Admin User
+                            </Button>
+                        )}
                         <Button className="bg-blue-600 hover:bg-blue-700">
                             <Plus className="h-4 w-4 mr-2" />
                             Create Dealer User
@@ -376,6 +394,9 @@ export default function UsersPage() {
                     )}
                 </CardContent>
             </Card>
+
+            <UserSessionsDialog user={sessionsFor} onClose={() => setSessionsFor(null)} />
+            <PasswordPolicyDialog open={policyOpen} onClose={() => setPolicyOpen(false)} />
         </div>
     );
 }
@@ -1,39 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
 import { orderEngine } from '@/services/OrderEngine';
+import { BusinessRuleError, EdiSyntaxError, IDEMPOTENCY_KEY_HEADER, IdempotencyConflictError, IdempotencyService, IdempotentResponse } from '@hotbray/domain-orders';
+import { ApiKeyError, ApiKeyService } from '@hotbray/domain-auth';
+
+const apiKeys = new ApiKeyService(prisma);
+const idempotency = new IdempotencyService(prisma);
 
 /**
  * EDI Endpoint: POST /api/edi
- * 
+ *
  * Secure REST interface for bulk order ingestion from EDI providers.
+ * Requests are signed with a dealer API key holding the orders:write scope (X-Api-Key, X-Timestamp,
+ * X-Nonce, X-Signature) and can only order for that key's dealer account. A retry carrying the same
+ * Idempotency-Key gets the original response back rather than a second order.
+ * - EDIFACT ORDERS D96A or X12 850 as the raw request body: returns the CONTRL / 997 acknowledgement
+ *   and the ORDRSP / 855 order response
+ * - Normalized JSON (Content-Type: application/json): { dealerAccountId?, dealerUserId?, poRef?, items }
  */
 export async function POST(req: NextRequest) {
+    const body = await req.text();
+
+    let dealerAccountId: string;
     try {
-        const body = await req.json();
+        const principal = await apiKeys.verify({
+            apiKey: req.headers.get('x-api-key') ?? undefined,
+            timestamp: req.headers.get('x-timestamp') ?? undefined,
+            nonce: req.headers.get('x-nonce') ?? undefined,
+            signature: req.headers.get('x-signature') ?? undefined,
+            method: req.method,
+            path: req.nextUrl.pathname + req.nextUrl.search,
+            body
+        }, 'orders:write');
+        dealerAccountId = principal.dealerAccountId;
+    } catch (error: any) {
+        if (error instanceof ApiKeyError) {
+            return NextResponse.json({ error: error.message }, { status: error.statusCode });
+        }
+        console.error('💥 [EDI API] Authentication failed:', error.message);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
 
-        // In real EDI, you'd map from their format (X12/EDIFACT) to our OrderInput
-        // Here we assume a normalized JSON for simulation
-        const { dealerAccountId, dealerUserId, items } = body;
+    const idempotencyKey = req.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey !== null) {
+        const invalid = IdempotencyService.validateKey(idempotencyKey);
+        if (invalid) {
+            return NextResponse.json({ error: invalid }, { status: 400 });
+        }
+    }
 
-        if (!dealerAccountId || !items || !Array.isArray(items)) {
-            return NextResponse.json(
-                { error: 'Invalid EDI payload structural check failed' },
-                { status: 400 }
-            );
+    try {
+        if (idempotencyKey === null) {
+            const response = await ingest(req, body, dealerAccountId);
+            return NextResponse.json(response.body, { status: response.status });
         }
 
-        const result = await orderEngine.createOrder({
-            dealerAccountId,
-            dealerUserId,
-            source: 'EDI',
-            items
+        const response = await idempotency.run(
+            { ownerId: dealerAccountId, key: idempotencyKey, route: 'POST /api/edi', body },
+            () => ingest(req, body, dealerAccountId)
+        );
+        return NextResponse.json(response.body, {
+            status: response.status,
+            headers: response.replayed ? { 'Idempotent-Replayed': 'true' } : undefined
         });
-
-        return NextResponse.json(result);
     } catch (error: any) {
         console.error('💥 [EDI API] Ingestion failed:', error.message);
+
+        if (error instanceof IdempotencyConflictError) {
+            return NextResponse.json({ error: error.message }, { status: 409 });
+        }
+        if (error instanceof EdiSyntaxError || error instanceof SyntaxError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
         return NextResponse.json(
             { error: error.message },
-            { status: 500 }
+            // Rejected by order, entitlement or pricing rules: the partner has to correct the order
+            { status: error instanceof BusinessRuleError ? 422 : 500 }
         );
     }
 }
+
+/**
+ * Raw EDI or normalized JSON into an order; thrown errors are mapped by POST
+ */
+async function ingest(req: NextRequest, body: string, dealerAccountId: string): Promise<IdempotentResponse<object>> {
+    if (!req.headers.get('content-type')?.includes('application/json')) {
+        const result = await orderEngine.ingestEdi(body, dealerAccountId);
+        return { status: 200, body: result, orderNo: result.orderNo ?? undefined };
+    }
+
+    const payload = JSON.parse(body);
+    const { dealerUserId, poRef, items } = payload;
+
+    if (!items || !Array.isArray(items)) {
+        return { status: 400, body: { error: 'Invalid EDI payload structural check failed' } };
+    }
+    // Kept for older integrations; it has to name the key's own account
+    if (payload.dealerAccountId) {
+        const named = await prisma.dealerAccount.findFirst({
+            where: { OR: [{ id: payload.dealerAccountId }, { accountNo: payload.dealerAccountId }] },
+            select: { id: true }
+        });
+        if (named?.id !== dealerAccountId) {
+            return { status: 403, body: { error: 'dealerAccountId does not match the API key' } };
+        }
+    }
+
+    const result = await orderEngine.createOrder({
+        dealerAccountId,
+        dealerUserId,
+        source: 'EDI',
+        poRef,
+        items
+    });
+
+    return { status: 200, body: result, orderNo: result.orderNo };
+}
@@ -1,13 +1,336 @@
 'use client';
 
-import { Card, CardContent } from '@/ui';
+import { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import api from '@/lib/api';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import { DataTable } from '@/components/portal/DataTable';
+import { DensityToggle } from '@/components/portal/DensityToggle';
+import { StatusChip } from '@/components/portal/StatusChip';
+import { Card, CardContent, Button } from '@/ui';
+
+type BackorderChange = 'NEW' | 'CHANGED' | null;
+
+interface BackorderLine {
+  id: string;
+  yourOrderNo: string | null;
+  ourNo: string;
+  itemNo: string;
+  part: string;
+  description: string | null;
+  qtyOrdered: number;
+  qtyOutstanding: number;
+  inWh: number;
+  change: BackorderChange;
+  previous: { qtyOutstanding: number; inWh: number } | null;
+}
+
+interface BackordersResponse {
+  backorders: BackorderLine[];
+  dataset: { id: string; uploadedAt: string; previousUploadedAt: string | null } | null;
+  clearedCount: number;
+}
+
+interface BackorderGroup {
+  ourNo: string;
+  yourOrderNos: string[];
+  lines: BackorderLine[];
+  outstanding: number;
+  inWh: number;
+  changed: number;
+}
+
+const changeTone: Record<NonNullable<BackorderChange>, 'blue' | 'amber'> = {
+  NEW: 'blue',
+  CHANGED: 'amber',
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+}
 
 export default function DealerBackordersPage() {
+  const queryClient = useQueryClient();
+  const [yourOrderNo, setYourOrderNo] = useState('');
+  const [part, setPart] = useState('');
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [density, setDensity] = useState<'comfortable' | 'dense'>('comfortable');
+  const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null);
+  const filters = {
+    yourOrderNo: useDebouncedValue(yourOrderNo.trim(), 300) || undefined,
+    part: useDebouncedValue(part.trim(), 300) || undefined,
+  };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['dealer-backorders', filters.yourOrderNo, filters.part],
+    queryFn: async () => {
+      const response = await api.get('/dealer/backorders', { params: filters });
+      return response.data as BackordersResponse;
+    },
+  });
+
+  const { data: preferences } = useQuery({
+    queryKey: ['dealer-preferences'],
+    queryFn: async () => {
+      const response = await api.get('/dealer/preferences');
+      return response.data as { notifyBackorderStock: boolean };
+    },
+  });
+
+  const preferenceMutation = useMutation({
+    mutationFn: async (notifyBackorderStock: boolean) => {
+      const response = await api.put('/dealer/preferences', { notifyBackorderStock });
+      return response.data as { notifyBackorderStock: boolean };
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['dealer-preferences'], data);
+      toast.success(
+        data.notifyBackorderStock
+          ? "We'll email you when backordered parts arrive in the warehouse"
+          : 'Stock arrival emails turned off'
+      );
+    },
+    onError: () => toast.error('Failed to update email preference'),
+  });
+
+  // One group per ERP order number, in the order the API returns them
+  const groups = useMemo(() => {
+    const byOurNo = new Map<string, BackorderGroup>();
+    for (const line of data?.backorders ?? []) {
+      if (changedOnly && !line.change) continue;
+
+      let group = byOurNo.get(line.ourNo);
+      if (!group) {
+        group = { ourNo: line.ourNo, yourOrderNos: [], lines: [], outstanding: 0, inWh: 0, changed: 0 };
+        byOurNo.set(line.ourNo, group);
+      }
+      group.lines.push(line);
+      group.outstanding += line.qtyOutstanding;
+      group.inWh += line.inWh;
+      if (line.change) group.changed++;
+      if (line.yourOrderNo && !group.yourOrderNos.includes(line.yourOrderNo)) {
+        group.yourOrderNos.push(line.yourOrderNo);
+      }
+    }
+    return Array.from(byOurNo.values());
+  }, [data, changedOnly]);
+
+  const totals = useMemo(
+    () =>
+      (data?.backorders ?? []).reduce(
+        (sum, line) => ({
+          outstanding: sum.outstanding + line.qtyOutstanding,
+          inWh: sum.inWh + line.inWh,
+          changed: sum.changed + (line.change ? 1 : 0),
+        }),
+        { outstanding: 0, inWh: 0, changed: 0 }
+      ),
+    [data]
+  );
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExporting(format);
+    try {
+      const response = await api.get('/dealer/backorders/export', {
+        params: { ...filters, format },
+        responseType: 'blob',
+      });
+
+      const fileName =
+        response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1] ?? `backorders.${format}`;
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', fileName);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Failed to export backorders');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const columns = [
+    { key: 'yourOrderNo', label: 'Your Order' },
+    { key: 'part', label: 'Part' },
+    { key: 'ordered', label: 'Ordered', align: 'right' as const },
+    { key: 'outstanding', label: 'Outstanding', align: 'right' as const },
+    { key: 'inWh', label: 'In Warehouse', align: 'right' as const },
+    { key: 'change', label: 'Since Last Import' },
+  ];
+
+  const rowsFor = (lines: BackorderLine[]) =>
+    lines.map((line) => ({
+      id: line.id,
+      cells: [
+        <div key={`${line.id}-your`} className="text-sm text-slate-700">
+          {line.yourOrderNo || <span className="text-slate-400">-</span>}
+        </div>,
+        <div key={`${line.id}-part`}>
+          <div className="text-sm font-semibold text-slate-900">{line.part}</div>
+          {line.description && <div className="text-xs text-slate-500">{line.description}</div>}
+        </div>,
+        <div key={`${line.id}-ordered`} className="text-right text-sm text-slate-600">
+          {line.qtyOrdered}
+        </div>,
+        <div key={`${line.id}-outstanding`} className="text-right text-sm font-semibold text-slate-900">
+          {line.qtyOutstanding}
+          {line.previous && line.previous.qtyOutstanding !== line.qtyOutstanding && (
+            <div className="text-xs font-normal text-slate-400">was {line.previous.qtyOutstanding}</div>
+          )}
+        </div>,
+        <div
+          key={`${line.id}-inwh`}
+          className={`text-right text-sm font-semibold ${line.inWh > 0 ? 'text-emerald-700' : 'text-slate-400'}`}
+        >
+          {line.inWh}
+          {line.previous && line.previous.inWh !== line.inWh && (
+            <div className="text-xs font-normal text-slate-400">was {line.previous.inWh}</div>
+          )}
+        </div>,
+        <div key={`${line.id}-change`}>
+          {line.change ? (
+            <StatusChip label={line.change === 'NEW' ? 'New' : 'Changed'} tone={changeTone[line.change]} />
+          ) : (
+            <span className="text-xs text-slate-400">-</span>
+          )}
+        </div>,
+      ],
+    }));
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-16 text-center text-slate-500">Loading backorders...</CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-16 text-center text-slate-500">Failed to load backorders.</CardContent>
+      </Card>
+    );
+  }
+
   return (
-    <Card>
-      <CardContent className="py-16 text-center text-slate-500">
-        Backorders tracking will launch in Phase 2.
-      </CardContent>
-    </Card>
+    <>
+      <div className="rounded-3xl border border-slate-200 bg-white shadow-sm p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold text-slate-900">Backorders</h1>
+            <p className="text-slate-500 mt-1">
+              {data?.dataset
+                ? `Updated ${formatDate(data.dataset.uploadedAt)}${
+                    data.dataset.previousUploadedAt
+                      ? `, compared with ${formatDate(data.dataset.previousUploadedAt)}`
+                      : ''
+                  }.`
+                : 'No backorder report has been published yet.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <DensityToggle value={density} onChange={setDensity} />
+            <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+              {exporting === 'csv' ? 'Exporting...' : 'Export CSV'}
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+              {exporting === 'xlsx' ? 'Exporting...' : 'Export XLSX'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <div className="text-xs uppercase text-slate-400">Outstanding</div>
+            <div className="text-xl font-semibold text-slate-900">{totals.outstanding}</div>
+          </div>
+          <div>
+            <div className="text-xs uppercase text-slate-400">In Warehouse</div>
+            <div className="text-xl font-semibold text-emerald-700">{totals.inWh}</div>
+          </div>
+          <div>
+            <div className="text-xs uppercase text-slate-400">Changed Since Last Import</div>
+            <div className="text-xl font-semibold text-amber-700">{totals.changed}</div>
+          </div>
+          {(data?.clearedCount ?? 0) > 0 && (
+            <div>
+              <div className="text-xs uppercase text-slate-400">Cleared Since Last Import</div>
+              <div className="text-xl font-semibold text-slate-900">{data?.clearedCount}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="sr-only" htmlFor="backorder-your-order">Your order number</label>
+          <input
+            id="backorder-your-order"
+            value={yourOrderNo}
+            onChange={(event) => setYourOrderNo(event.target.value)}
+            placeholder="Your order no"
+            className="min-w-[200px] rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600"
+          />
+          <label className="sr-only" htmlFor="backorder-part">Part</label>
+          <input
+            id="backorder-part"
+            value={part}
+            onChange={(event) => setPart(event.target.value)}
+            placeholder="Part"
+            className="min-w-[200px] rounded-full border border-slate-200 px-4 py-2 text-xs font-semibold text-slate-600"
+          />
+          <button
+            type="button"
+            onClick={() => setChangedOnly(!changedOnly)}
+            className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+              changedOnly
+                ? 'border-blue-600 bg-blue-50 text-blue-700'
+                : 'border-slate-200 text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            Changed only
+          </button>
+          {preferences && (
+            <label className="ml-auto flex items-center gap-2 text-xs font-semibold text-slate-600">
+              <input
+                type="checkbox"
+                checked={preferences.notifyBackorderStock}
+                disabled={preferenceMutation.isPending}
+                onChange={(event) => preferenceMutation.mutate(event.target.checked)}
+              />
+              Email me when backordered parts arrive in the warehouse
+            </label>
+          )}
+        </div>
+      </div>
+
+      {groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-16 text-center text-slate-500">No backorders match this filter.</CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => (
+          <div key={group.ourNo} className="space-y-2">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 px-1">
+              <div>
+                <span className="text-sm font-semibold text-slate-900">Order {group.ourNo}</span>
+                {group.yourOrderNos.length > 0 && (
+                  <span className="ml-2 text-xs text-slate-500">Your ref {group.yourOrderNos.join(', ')}</span>
+                )}
+              </div>
+              <div className="text-xs text-slate-500">
+                {group.outstanding} outstanding • {group.inWh} in warehouse
+                {group.changed > 0 && ` • ${group.changed} changed`}
+              </div>
+            </div>
+            <DataTable columns={columns} rows={rowsFor(group.lines)} density={density} />
+          </div>
+        ))
+      )}
+    </>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useRouter } from 'next/navigation';
 import {
@@ -32,6 +32,20 @@ interface CartItem {
         partType: string;
     };
     price: number;
+    priceRule?: {
+        ruleType: 'QUANTITY_BREAK' | 'PROMOTION' | 'CONTRACT' | 'DEALER_NET_PRICE';
+        name: string;
+        basePrice: number;
+    } | null;
+    supersession?: {
+        chain: string[];
+        currentPartCode: string;
+        replacement: {
+            productCode: string;
+            yourPrice: number | null;
+            available: boolean;
+        } | null;
+    } | null;
 }
 
 interface Cart {
@@ -46,9 +60,12 @@ export default function DealerCartPage() {
     const [showCheckout, setShowCheckout] = useState(false);
     const [showConfirmation, setShowConfirmation] = useState(false);
     const [orderNumber, setOrderNumber] = useState('');
+    const [backorderedLines, setBackorderedLines] = useState<Array<{ productCode: string; backorderedQty: number }>>([]);
     const [dispatchMethod, setDispatchMethod] = useState('STANDARD');
     const [poRef, setPoRef] = useState('');
     const [notes, setNotes] = useState('');
+    // One key per order attempt: a double-clicked or retried "Place order" gets the same order back
+    const checkoutKey = useRef(crypto.randomUUID());
 
     const { data: cart, isLoading } = useQuery<Cart>({
         queryKey: ['cart'],
@@ -83,17 +100,34 @@ export default function DealerCartPage() {
         },
     });
 
+    const substituteItemMutation = useMutation({
+        mutationFn: async (itemId: string) => {
+            await api.post(`/dealer/cart/items/${itemId}/substitute`);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['cart'] });
+            toast.success('Replacement part added to cart');
+        },
+        onError: (error: any) => {
+            toast.error(error.response?.data?.message || 'Failed to substitute item');
+        },
+    });
+
     const checkoutMutation = useMutation({
         mutationFn: async () => {
             const response = await api.post('/dealer/checkout', {
                 dispatchMethod,
                 poRef,
                 notes,
+            }, {
+                headers: { 'Idempotency-Key': checkoutKey.current },
             });
             return response.data;
         },
         onSuccess: (data) => {
+            checkoutKey.current = crypto.randomUUID();
             setOrderNumber(data.orderNo);
+            setBackorderedLines((data.lines ?? []).filter((line: any) => line.backorderedQty > 0));
             setShowCheckout(false);
             setShowConfirmation(true);
             queryClient.invalidateQueries({ queryKey: ['cart'] });
@@ -139,6 +173,13 @@ export default function DealerCartPage() {
         BRANDED: 'bg-green-100 text-green-700 border-green-200',
     };
 
+    const priceRuleColors: Record<string, string> = {
+        QUANTITY_BREAK: 'bg-slate-100 text-slate-700 border-slate-200',
+        PROMOTION: 'bg-amber-100 text-amber-700 border-amber-200',
+        CONTRACT: 'bg-teal-100 text-teal-700 border-teal-200',
+        DEALER_NET_PRICE: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+    };
+
     if (isLoading) {
         return (
             <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -218,10 +259,48 @@ export default function DealerCartPage() {
                                                     </Button>
                                                 </div>
 
+                                                {/* Supersession Notice */}
+                                                {item.supersession && (
+                                                    <div className="flex items-center justify-between gap-3 mt-3 p-3 rounded-lg bg-amber-50 border border-amber-200">
+                                                        <div className="flex items-start gap-2 text-sm text-amber-800">
+                                                            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                                            <div>
+                                                                <div>
+                                                                    Superseded by <span className="font-semibold">{item.supersession.currentPartCode}</span>
+                                                                    {item.supersession.replacement?.yourPrice != null && (
+                                                                        <> at £{item.supersession.replacement.yourPrice.toFixed(2)}</>
+                                                                    )}
+                                                                </div>
+                                                                {item.supersession.chain.length > 2 && (
+                                                                    <div className="text-xs text-amber-700">{item.supersession.chain.join(' → ')}</div>
+                                                                )}
+                                                            </div>
+                                                        </div>
+                                                        {item.supersession.replacement?.available && (
+                                                            <Button
+                                                                variant="outline"
+                                                                size="sm"
+                                                                onClick={() => substituteItemMutation.mutate(item.id)}
+                                                                disabled={substituteItemMutation.isPending}
+                                                            >
+                                                                Use replacement
+                                                            </Button>
+                                                        )}
+                                                    </div>
+                                                )}
+
                                                 {/* Price and Quantity */}
                                                 <div className="flex items-center justify-between mt-4">
                                                     <div className="text-sm text-slate-600">
                                                         Unit Price: <span className="font-semibold">£{(item.price || 0).toFixed(2)}</span>
+                                                        {item.priceRule && (
+                                                            <div className="flex items-center gap-2 mt-1">
+                                                                <span className="line-through text-slate-400">£{item.priceRule.basePrice.toFixed(2)}</span>
+                                                                <Badge variant="outline" className={priceRuleColors[item.priceRule.ruleType]}>
+                                                                    {item.priceRule.name}
+                                                                </Badge>
+                                                            </div>
+                                                        )}
                                                     </div>
 
                                                     <div className="flex items-center gap-3">
@@ -408,6 +487,20 @@ export default function DealerCartPage() {
                                 <div className="text-2xl font-bold text-blue-600">{orderNumber}</div>
                             </div>
 
+                            {backorderedLines.length > 0 && (
+                                <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                    <div>
+                                        <div className="font-medium">Some items are on backorder</div>
+                                        {backorderedLines.map(line => (
+                                            <div key={line.productCode}>
+                                                {line.productCode}: {line.backorderedQty} to follow
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             <p className="text-sm text-slate-600 text-center">
                                 You will be redirected to your orders page shortly...
                             </p>
@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import api from '@/lib/api';
 import { getOrderById, getOrderTimeline } from '@/lib/services/dealerApi';
 import { StatusChip } from '@/components/portal/StatusChip';
 import { DataTable } from '@/components/portal/DataTable';
@@ -19,6 +21,7 @@ export default function DealerOrderDetailPage() {
   const params = useParams();
   const [order, setOrder] = useState<Awaited<ReturnType<typeof getOrderById>>>(null);
   const [timeline, setTimeline] = useState<Awaited<ReturnType<typeof getOrderTimeline>>>([]);
+  const [downloading, setDownloading] = useState<'CONFIRMATION' | 'PROFORMA' | null>(null);
 
   useEffect(() => {
     const id = Array.isArray(params.id) ? params.id[0] : params.id;
@@ -26,6 +29,32 @@ export default function DealerOrderDetailPage() {
     getOrderTimeline(id as string).then(setTimeline);
   }, [params.id]);
 
+  const handleDownload = async (document: 'CONFIRMATION' | 'PROFORMA') => {
+    if (!order) return;
+    setDownloading(document);
+    try {
+      const response = await api.get(`/dealer/orders/${order.id}/pdf`, {
+        params: { document },
+        responseType: 'blob',
+      });
+
+      const fileName =
+        response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1] ?? `order-${order.orderNo}.pdf`;
+      const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', fileName);
+      window.document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error('Failed to generate order PDF');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
   const columns = [
     { key: 'sku', label: 'SKU' },
     { key: 'description', label: 'Description' },
@@ -81,7 +110,16 @@ export default function DealerOrderDetailPage() {
           <Link href={`/dealer/process-order?id=${order.id}`}>
             <Button variant="outline">Process Order</Button>
           </Link>
-          <Button className="bg-blue-600 text-white hover:bg-blue-700">Download PDF</Button>
+          <Button variant="outline" onClick={() => handleDownload('PROFORMA')} disabled={downloading !== null}>
+            {downloading === 'PROFORMA' ? 'Generating...' : 'Proforma PDF'}
+          </Button>
+          <Button
+            className="bg-blue-600 text-white hover:bg-blue-700"
+            onClick={() => handleDownload('CONFIRMATION')}
+            disabled={downloading !== null}
+          >
+            {downloading === 'CONFIRMATION' ? 'Generating...' : 'Download PDF'}
+          </Button>
         </div>
       </div>
 
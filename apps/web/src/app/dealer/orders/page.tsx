@@ -7,6 +7,7 @@ import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import { DataTable } from '@/components/portal/DataTable';
 import { DensityToggle } from '@/components/portal/DensityToggle';
 import { StatusChip } from '@/components/portal/StatusChip';
+import { OrderApprovalsPanel } from '@/components/dealer/OrderApprovalsPanel';
 import { Card, CardContent, Button } from '@/ui';
 
 const statusTone: Record<string, 'blue' | 'green' | 'amber' | 'red' | 'slate'> = {
@@ -106,6 +107,8 @@ export default function DealerOrdersPage() {
 
   return (
     <>
+      <OrderApprovalsPanel />
+
       <div className="rounded-3xl border border-slate-200 bg-white shadow-sm p-6 space-y-4">
         <div className="flex flex-wrap items-center justify-between gap-4">
           <div>
@@ -199,6 +199,7 @@ export default function SearchPartsPage() {
             <ProductResultsTable
               products={products}
               onAddToCart={handleAddToCart}
+              onAddReplacement={handleAddToCart}
             />
           )}
         </div>
@@ -3,122 +3,138 @@
 import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { searchParts, type SearchParams } from '@/lib/services/dealerApi';
-import { useDebouncedValue } from '@/hooks/useDebouncedValue';
-import { useDealerCart } from '@/context/DealerCartContext';
-import { DataTable } from '@/components/portal/DataTable';
-import { DensityToggle } from '@/components/portal/DensityToggle';
-import { StatusChip } from '@/components/portal/StatusChip';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import api from '@/lib/api';
+import { useCart } from '@/hooks/useCart';
+import type { Product, StockStatus } from '@/types/dealer';
+import { ProductResultsTable } from '@/components/dealer/ProductResultsTable';
 import { SearchInput } from '@/components/portal/SearchInput';
-import { Card, CardContent, CardHeader, Button } from '@/ui';
+import { Card, CardContent, CardHeader } from '@/ui';
 
-const stockTone: Record<string, 'green' | 'amber' | 'red' | 'slate'> = {
-  'In Stock': 'green',
-  'Low Stock': 'amber',
-  Backorder: 'red',
+// Matches LOW_STOCK_THRESHOLD in InventoryRules
+const LOW_STOCK_THRESHOLD = 10;
+
+type PartTypeFilter = 'All' | 'GENUINE' | 'AFTERMARKET' | 'BRANDED';
+
+interface PricedPart {
+  id: string;
+  productCode: string;
+  description: string;
+  freeStock: number;
+  yourPrice: number | null;
+  available: boolean;
+}
+
+interface Supersession {
+  originalPartCode: string;
+  currentPartCode: string;
+  chain: string[];
+  replacement: PricedPart | null;
+}
+
+interface SearchResponse {
+  results: Array<PricedPart & { supersession?: Supersession }>;
+  count: number;
+  supersession: Supersession | null; // Set when the query itself is a superseded part code
+}
+
+const availability = (part: PricedPart): StockStatus => {
+  if (!part.available) return 'unknown';
+  if (part.freeStock <= 0) return 'backorder';
+  return part.freeStock < LOW_STOCK_THRESHOLD ? 'low_stock' : 'in_stock';
 };
 
+const toProduct = (part: PricedPart, supersession?: Supersession | null): Product => ({
+  id: part.id,
+  lrNo: part.productCode,
+  description: part.description,
+  dealerPrice: part.yourPrice ?? 0,
+  availability: availability(part),
+  quantityAvailable: part.freeStock,
+  ...(supersession && {
+    supersededBy: supersession.currentPartCode,
+    supersessionChain: supersession.chain,
+    replacement: supersession.replacement ? toProduct(supersession.replacement) : undefined,
+  }),
+});
+
 export default function DealerSearchPage() {
   const params = useSearchParams();
   const queryParam = params.get('q') || '';
   const [query, setQuery] = useState(queryParam);
-  const [partType, setPartType] = useState<SearchParams['partType']>('All');
-  const [stock, setStock] = useState<SearchParams['stock']>('All');
-  const [page, setPage] = useState(1);
-  const [density, setDensity] = useState<'comfortable' | 'dense'>('comfortable');
-  const [expandedPartId, setExpandedPartId] = useState<string | null>(null);
-  const debouncedQuery = useDebouncedValue(query, 300);
-  const [results, setResults] = useState<{ items: any[]; total: number }>({ items: [], total: 0 });
-  const [loading, setLoading] = useState(false);
+  const [partType, setPartType] = useState<PartTypeFilter>('All');
+  const [inStockOnly, setInStockOnly] = useState(false);
 
-  const { addItem, items } = useDealerCart();
+  const queryClient = useQueryClient();
+  const { items, addItem } = useCart();
 
   useEffect(() => {
     setQuery(queryParam);
   }, [queryParam]);
 
-  useEffect(() => {
-    const fetchResults = async () => {
-      setLoading(true);
-      const response = await searchParts({
-        query: debouncedQuery,
-        page,
-        pageSize: 6,
-        stock,
-        partType,
+  const { data, isLoading } = useQuery<SearchResponse>({
+    queryKey: ['dealer-search', query, partType, inStockOnly],
+    queryFn: async () => {
+      const response = await api.get('/dealer/search', {
+        params: {
+          q: query || undefined,
+          partType: partType === 'All' ? undefined : partType,
+          inStockOnly: inStockOnly || undefined,
+          limit: 50,
+        },
       });
-      setResults(response);
-      setLoading(false);
-    };
-    fetchResults();
-  }, [debouncedQuery, page, partType, stock]);
-
-  const totalPages = Math.max(1, Math.ceil(results.total / 6));
-
-  const columns = [
-    { key: 'sku', label: 'Part', width: '30%' },
-    { key: 'stock', label: 'Stock', width: '20%' },
-    { key: 'price', label: 'Price', align: 'right' as const },
-    { key: 'action', label: '', align: 'right' as const, width: '20%' },
-  ];
-
-  const rows = useMemo(
-    () =>
-      results.items.map((part) => ({
-        id: part.id,
-        onClick: () => setExpandedPartId(part.id === expandedPartId ? null : part.id),
-        cells: [
-          <div key={`${part.id}-name`}>
-            <div className="text-sm font-semibold text-slate-900">{part.sku}</div>
-            <div className="text-xs text-slate-500">{part.name}</div>
-            <div className="text-xs text-slate-400">{part.description}</div>
-          </div>,
-          <div key={`${part.id}-stock`} className="space-y-2">
-            <StatusChip label={part.stockStatus} tone={stockTone[part.stockStatus]} />
-            <div className="text-xs text-slate-400">{part.stockQty} available</div>
-          </div>,
-          <div key={`${part.id}-price`} className="text-right">
-            <div className="text-sm font-semibold text-slate-900">GBP {part.price.toFixed(2)}</div>
-            <div className="text-xs text-slate-400">{part.band}</div>
-          </div>,
-          <div key={`${part.id}-action`} className="flex justify-end">
-            <Button
-              size="sm"
-              className="bg-blue-600 text-white hover:bg-blue-700"
-              onClick={(event) => {
-                event.stopPropagation();
-                addItem(part);
-              }}
-            >
-              Add to Cart
-            </Button>
-          </div>,
-        ],
-      })),
-    [results.items, addItem, expandedPartId]
-  );
+      return response.data;
+    },
+  });
+
+  const substituteItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      await api.post(`/dealer/cart/items/${itemId}/substitute`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cart'] });
+      toast.success('Replacement part added to cart');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || 'Failed to substitute item');
+    },
+  });
+
+  // A superseded code that is no longer in the catalogue still leads the dealer to its replacement
+  const products = useMemo(() => {
+    const results = (data?.results ?? []).map((part) => toProduct(part, part.supersession));
+    const replacement = data?.supersession?.replacement;
+    if (replacement && !results.some((product) => product.id === replacement.id)) {
+      results.unshift({
+        ...toProduct(replacement),
+        notes: `Replaces ${data.supersession!.chain.join(' → ')}`,
+      });
+    }
+    return results;
+  }, [data]);
+
+  // A superseded part already in the cart is swapped for its replacement; otherwise the replacement is added
+  const handleAddReplacement = (replacement: Product, qty: number, original: Product) => {
+    const inCart = items.find((item) => item.productId === original.id);
+    if (inCart) {
+      substituteItemMutation.mutate(inCart.id);
+    } else {
+      addItem({ productId: replacement.id, qty });
+    }
+  };
 
   return (
     <>
       <div className="rounded-3xl border border-slate-200 bg-white shadow-sm p-6">
-        <div className="flex flex-wrap items-center justify-between gap-4">
-          <div>
-            <h1 className="text-3xl font-semibold text-slate-900">Search Parts</h1>
-            <p className="text-slate-500 mt-1">Live stock and pricing for your account.</p>
-          </div>
-          <DensityToggle value={density} onChange={setDensity} />
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Search Parts</h1>
+          <p className="text-slate-500 mt-1">Live stock and pricing for your account.</p>
         </div>
         <div className="mt-6 grid gap-4 lg:grid-cols-[2fr_1fr_1fr]">
           <div>
             <label className="sr-only" htmlFor="dealer-search">Search parts</label>
-            <SearchInput
-              defaultValue={query}
-              onSearch={(value) => {
-                setQuery(value);
-                setPage(1);
-              }}
-              size="lg"
-            />
+            <SearchInput defaultValue={query} onSearch={setQuery} size="lg" />
           </div>
           <div>
             <label className="block text-xs font-semibold text-slate-500 mb-2" htmlFor="part-type-filter">
@@ -127,16 +143,13 @@ export default function DealerSearchPage() {
             <select
               id="part-type-filter"
               value={partType}
-              onChange={(event) => {
-                setPartType(event.target.value as SearchParams['partType']);
-                setPage(1);
-              }}
+              onChange={(event) => setPartType(event.target.value as PartTypeFilter)}
               className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-600 shadow-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
             >
               <option value="All">All Part Types</option>
-              <option value="Genuine">Genuine</option>
-              <option value="Aftermarket">Aftermarket</option>
-              <option value="Branded">Branded</option>
+              <option value="GENUINE">Genuine</option>
+              <option value="AFTERMARKET">Aftermarket</option>
+              <option value="BRANDED">Branded</option>
             </select>
           </div>
           <div>
@@ -145,17 +158,12 @@ export default function DealerSearchPage() {
             </label>
             <select
               id="stock-filter"
-              value={stock}
-              onChange={(event) => {
-                setStock(event.target.value as SearchParams['stock']);
-                setPage(1);
-              }}
+              value={inStockOnly ? 'IN_STOCK' : 'All'}
+              onChange={(event) => setInStockOnly(event.target.value === 'IN_STOCK')}
               className="w-full rounded-2xl border border-slate-200 bg-white px-4 py-3 text-sm text-slate-600 shadow-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-600 focus-visible:outline-offset-2"
             >
               <option value="All">All Stock</option>
-              <option value="In Stock">In Stock</option>
-              <option value="Low Stock">Low Stock</option>
-              <option value="Backorder">Backorder</option>
+              <option value="IN_STOCK">In Stock Only</option>
             </select>
           </div>
         </div>
@@ -163,33 +171,17 @@ export default function DealerSearchPage() {
 
       <div className="grid gap-6 xl:grid-cols-[2.2fr_1fr]">
         <div className="space-y-4">
-          {loading ? (
+          {isLoading ? (
             <Card>
               <CardContent className="py-16 text-center text-slate-500">Loading results...</CardContent>
             </Card>
           ) : (
-            <DataTable columns={columns} rows={rows} density={density} />
-          )}
-          {expandedPartId && (
-            <Card>
-              <CardContent className="py-6 text-sm text-slate-600">
-                Details for this part will appear here (supersessions, fitment notes, and lead time).
-              </CardContent>
-            </Card>
+            <ProductResultsTable
+              products={products}
+              onAddToCart={(product, qty) => addItem({ productId: product.id, qty })}
+              onAddReplacement={handleAddReplacement}
+            />
           )}
-          <div className="flex items-center justify-between text-sm text-slate-500">
-            <span>
-              Showing page {page} of {totalPages}
-            </span>
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
-                Previous
-              </Button>
-              <Button variant="outline" size="sm" disabled={page === totalPages} onClick={() => setPage(page + 1)}>
-                Next
-              </Button>
-            </div>
-          </div>
         </div>
         <Card className="h-fit">
           <CardHeader className="pb-2">
@@ -203,8 +195,8 @@ export default function DealerSearchPage() {
               items.map((item) => (
                 <div key={item.id} className="flex items-center justify-between border-b border-slate-100 pb-3">
                   <div>
-                    <div className="text-sm font-semibold text-slate-900">{item.part.sku}</div>
-                    <div className="text-xs text-slate-400">{item.part.name}</div>
+                    <div className="text-sm font-semibold text-slate-900">{item.product.productCode}</div>
+                    <div className="text-xs text-slate-400">{item.product.description}</div>
                   </div>
                   <div className="text-sm font-semibold text-slate-700">x{item.qty}</div>
                 </div>
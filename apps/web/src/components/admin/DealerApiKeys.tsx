@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Ban, Copy, KeyRound, RefreshCw } from 'lucide-react';
+import { Badge, Button, Input, Label } from '@/ui';
+import api from '@/lib/api';
+
+interface DealerApiKey {
+    id: string;
+    name: string;
+    keyId: string;
+    scopes: string[];
+    lastUsedAt: string | null;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    replacedById: string | null;
+    createdAt: string;
+}
+
+interface IssuedCredentials {
+    key: DealerApiKey;
+    apiKey: string;
+    signingSecret: string;
+}
+
+type KeyStatus = 'ACTIVE' | 'ROTATING' | 'EXPIRED' | 'REVOKED';
+
+const statusColors: Record<KeyStatus, string> = {
+    ACTIVE: 'bg-green-100 text-green-700 border-green-200',
+    ROTATING: 'bg-amber-100 text-amber-700 border-amber-200',
+    EXPIRED: 'bg-slate-100 text-slate-500 border-slate-200',
+    REVOKED: 'bg-red-100 text-red-700 border-red-200',
+};
+
+const keyStatus = (key: DealerApiKey): KeyStatus => {
+    if (key.revokedAt) return 'REVOKED';
+    if (key.expiresAt && new Date(key.expiresAt) <= new Date()) return 'EXPIRED';
+    return key.replacedById ? 'ROTATING' : 'ACTIVE';
+};
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString('en-GB') : '—');
+
+interface DealerApiKeysProps {
+    dealerId: string;
+}
+
+/**
+ * Partner API credentials for one dealer. Requests made with a key are priced and entitled as the dealer.
+ */
+export default function DealerApiKeys({ dealerId }: DealerApiKeysProps) {
+    const queryClient = useQueryClient();
+    const [name, setName] = useState('');
+    const [scopes, setScopes] = useState<string[]>([]);
+    const [issued, setIssued] = useState<IssuedCredentials | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const queryKey = ['admin-dealer-api-keys', dealerId];
+    const { data, isLoading } = useQuery({
+        queryKey,
+        queryFn: async () => {
+            const response = await api.get(`/admin/dealers/${dealerId}/api-keys`);
+            return response.data as { keys: DealerApiKey[]; scopes: string[] };
+        },
+    });
+
+    const toggleScope = (scope: string) => {
+        setScopes(scopes.includes(scope) ? scopes.filter(s => s !== scope) : [...scopes, scope]);
+    };
+
+    const handleCreate = async () => {
+        if (!name || scopes.length === 0) {
+            toast.error('Name and at least one scope are required');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const response = await api.post(`/admin/dealers/${dealerId}/api-keys`, { name, scopes });
+            setIssued(response.data);
+            setName('');
+            setScopes([]);
+            queryClient.invalidateQueries({ queryKey });
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to create API key');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRotate = async (key: DealerApiKey) => {
+        if (!confirm(`Rotate ${key.name}? The current key keeps working for 24 hours.`)) return;
+
+        try {
+            const response = await api.post(`/admin/dealers/${dealerId}/api-keys/${key.id}/rotate`, {});
+            setIssued(response.data);
+            queryClient.invalidateQueries({ queryKey });
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to rotate API key');
+        }
+    };
+
+    const handleRevoke = async (key: DealerApiKey) => {
+        if (!confirm(`Revoke ${key.name}? Requests using it will be rejected immediately.`)) return;
+
+        try {
+            await api.post(`/admin/dealers/${dealerId}/api-keys/${key.id}/revoke`);
+            toast.success('API key revoked');
+            queryClient.invalidateQueries({ queryKey });
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to revoke API key');
+        }
+    };
+
+    const copy = async (value: string) => {
+        await navigator.clipboard.writeText(value);
+        toast.success('Copied');
+    };
+
+    return (
+        <div className="space-y-6">
+            {issued && (
+                <div className="space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-4">
+                    <p className="text-sm font-semibold text-amber-800">
+                        Copy these now. They will not be shown again.
+                    </p>
+                    {[
+                        { label: 'API Key (X-Api-Key)', value: issued.apiKey },
+                        { label: 'Signing Secret', value: issued.signingSecret },
+                    ].map(({ label, value }) => (
+                        <div key={label} className="space-y-1">
+                            <Label>{label}</Label>
+                            <div className="flex gap-2">
+                                <Input readOnly value={value} className="font-mono text-xs" />
+                                <Button type="button" variant="outline" size="sm" onClick={() => copy(value)}>
+                                    <Copy className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                    <div className="flex justify-end">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setIssued(null)}>
+                            Done
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">New API Key</h3>
+                <div className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="apiKeyName">Name</Label>
+                        <Input
+                            id="apiKeyName"
+                            placeholder="e.g. EDI gateway"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Scopes</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {(data?.scopes ?? []).map(scope => (
+                                <label key={scope} className="flex items-center space-x-2 cursor-pointer text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={scopes.includes(scope)}
+                                        onChange={() => toggleScope(scope)}
+                                        className="h-4 w-4"
+                                    />
+                                    <span className="font-mono">{scope}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <Button type="button" onClick={handleCreate} disabled={isSaving}>
+                        <KeyRound className="h-4 w-4 mr-2" />
+                        {isSaving ? 'Creating...' : 'Create API Key'}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">API Keys</h3>
+                <div className="max-h-80 overflow-y-auto border rounded-lg">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-slate-50">
+                            <tr className="text-left text-slate-500">
+                                <th className="p-2">Key</th>
+                                <th className="p-2">Scopes</th>
+                                <th className="p-2">Last Used</th>
+                                <th className="p-2">Status</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading && (
+                                <tr>
+                                    <td colSpan={5} className="p-4 text-center text-slate-500">Loading API keys...</td>
+                                </tr>
+                            )}
+                            {!isLoading && (data?.keys ?? []).length === 0 && (
+                                <tr>
+                                    <td colSpan={5} className="p-4 text-center text-slate-500">
+                                        No API keys. This dealer can only use the portal.
+                                    </td>
+                                </tr>
+                            )}
+                            {(data?.keys ?? []).map(key => {
+                                const status = keyStatus(key);
+                                return (
+                                    <tr key={key.id} className="border-t">
+                                        <td className="p-2">
+                                            <div>{key.name}</div>
+                                            <div className="font-mono text-xs text-slate-500">{key.keyId}</div>
+                                        </td>
+                                        <td className="p-2 font-mono text-xs">{key.scopes.join(', ')}</td>
+                                        <td className="p-2 text-xs">{formatDateTime(key.lastUsedAt)}</td>
+                                        <td className="p-2">
+                                            <Badge variant="outline" className={statusColors[status]}>
+                                                {status}
+                                            </Badge>
+                                            {status === 'ROTATING' && (
+                                                <div className="text-xs text-slate-500">Until {formatDateTime(key.expiresAt)}</div>
+                                            )}
+                                        </td>
+                                        <td className="p-2 text-right whitespace-nowrap">
+                                            {status === 'ACTIVE' && (
+                                                <Button type="button" variant="ghost" size="sm" onClick={() => handleRotate(key)}>
+                                                    <RefreshCw className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                            {(status === 'ACTIVE' || status === 'ROTATING') && (
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleRevoke(key)}
+                                                    className="text-red-600 hover:text-red-700"
+                                                >
+                                                    <Ban className="h-4 w-4" />
+                                                </Button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
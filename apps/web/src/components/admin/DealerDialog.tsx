@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -16,8 +16,13 @@ import {
     Input,
     Label,
     Select,
+    Tabs,
+    TabsList,
+    TabsTrigger,
 } from '@/ui';
 import api from '@/lib/api';
+import DealerPriceOverrides from './DealerPriceOverrides';
+import DealerApiKeys from './DealerApiKeys';
 
 const dealerSchema = z.object({
     companyName: z.string().min(1, 'Company name is required'),
@@ -50,6 +55,7 @@ interface DealerDialogProps {
 
 export default function DealerDialog({ open, onClose, onSuccess, dealer }: DealerDialogProps) {
     const isEdit = !!dealer;
+    const [tab, setTab] = useState<'details' | 'prices' | 'api-keys'>('details');
 
     const {
         register,
@@ -70,6 +76,7 @@ export default function DealerDialog({ open, onClose, onSuccess, dealer }: Deale
     const entitlement = watch('entitlement');
 
     useEffect(() => {
+        setTab('details');
         if (dealer) {
             reset({
                 companyName: dealer.companyName,
@@ -153,133 +160,149 @@ export default function DealerDialog({ open, onClose, onSuccess, dealer }: Deale
                     </DialogDescription>
                 </DialogHeader>
 
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
-                    {/* Section 1: Company Details */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Company Details</h3>
-                        <div className="grid gap-4 md:grid-cols-2">
-                            <div className="space-y-2">
-                                <Label htmlFor="companyName">
-                                    Company Name <span className="text-red-500">*</span>
-                                </Label>
-                                <Input id="companyName" {...register('companyName')} />
-                                {errors.companyName && (
-                                    <p className="text-sm text-red-500">{errors.companyName.message}</p>
-                                )}
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="erpAccountNo">ERP Account Number</Label>
-                                <Input id="erpAccountNo" {...register('erpAccountNo')} />
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="accountNo">
-                                    Account Number <span className="text-red-500">*</span>
-                                </Label>
-                                <Input id="accountNo" {...register('accountNo')} />
-                                {errors.accountNo && (
-                                    <p className="text-sm text-red-500">{errors.accountNo.message}</p>
-                                )}
+                {isEdit && (
+                    <Tabs value={tab} onValueChange={(v) => setTab(v as 'details' | 'prices' | 'api-keys')}>
+                        <TabsList>
+                            <TabsTrigger value="details">Details</TabsTrigger>
+                            <TabsTrigger value="prices">Net Prices</TabsTrigger>
+                            <TabsTrigger value="api-keys">API Keys</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                )}
+
+                {tab === 'prices' && isEdit && (
+                    <>
+                        <DealerPriceOverrides dealerId={dealer.id} />
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={onClose}>
+                                Close
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+
+                {tab === 'api-keys' && isEdit && (
+                    <>
+                        <DealerApiKeys dealerId={dealer.id} />
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={onClose}>
+                                Close
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+
+                {tab === 'details' && (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+                        {/* Section 1: Company Details */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Company Details</h3>
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-2">
+                                    <Label htmlFor="companyName">
+                                        Company Name <span className="text-red-500">*</span>
+                                    </Label>
+                                    <Input id="companyName" {...register('companyName')} />
+                                    {errors.companyName && (
+                                        <p className="text-sm text-red-500">{errors.companyName.message}</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="erpAccountNo">ERP Account Number</Label>
+                                    <Input id="erpAccountNo" {...register('erpAccountNo')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="accountNo">
+                                        Account Number <span className="text-red-500">*</span>
+                                    </Label>
+                                    <Input id="accountNo" {...register('accountNo')} />
+                                    {errors.accountNo && (
+                                        <p className="text-sm text-red-500">{errors.accountNo.message}</p>
+                                    )}
+                                </div>
                             </div>
                         </div>
-                    </div>
 
-                    {/* Section 2: Contact Information */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Contact Information</h3>
-                        <div className="grid gap-4 md:grid-cols-2">
-                            <div className="space-y-2">
-                                <Label htmlFor="firstName">
-                                    First Name <span className="text-red-500">*</span>
-                                </Label>
-                                <Input id="firstName" {...register('firstName')} />
-                                {errors.firstName && (
-                                    <p className="text-sm text-red-500">{errors.firstName.message}</p>
-                                )}
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="lastName">
-                                    Last Name <span className="text-red-500">*</span>
-                                </Label>
-                                <Input id="lastName" {...register('lastName')} />
-                                {errors.lastName && (
-                                    <p className="text-sm text-red-500">{errors.lastName.message}</p>
-                                )}
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="email">
-                                    Email <span className="text-red-500">*</span>
-                                </Label>
-                                <Input id="email" type="email" {...register('email')} />
-                                {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="phone">Phone</Label>
-                                <Input id="phone" {...register('phone')} />
+                        {/* Section 2: Contact Information */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Contact Information</h3>
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-2">
+                                    <Label htmlFor="firstName">
+                                        First Name <span className="text-red-500">*</span>
+                                    </Label>
+                                    <Input id="firstName" {...register('firstName')} />
+                                    {errors.firstName && (
+                                        <p className="text-sm text-red-500">{errors.firstName.message}</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="lastName">
+                                        Last Name <span className="text-red-500">*</span>
+                                    </Label>
+                                    <Input id="lastName" {...register('lastName')} />
+                                    {errors.lastName && (
+                                        <p className="text-sm text-red-500">{errors.lastName.message}</p>
+                                    )}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="email">
+                                        Email <span className="text-red-500">*</span>
+                                    </Label>
+                                    <Input id="email" type="email" {...register('email')} />
+                                    {errors.email && <p className="text-sm text-red-500">{errors.email.message}</p>}
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="phone">Phone</Label>
+                                    <Input id="phone" {...register('phone')} />
+                                </div>
                             </div>
                         </div>
-                    </div>
 
-                    {/* Section 3: Entitlement */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Entitlement</h3>
-                        <div className="space-y-3">
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="GENUINE_ONLY"
-                                    {...register('entitlement')}
-                                    className="h-4 w-4 text-blue-600"
-                                />
-                                <span>Genuine Parts Only</span>
-                            </label>
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="AFTERMARKET_ONLY"
-                                    {...register('entitlement')}
-                                    className="h-4 w-4 text-blue-600"
-                                />
-                                <span>Aftermarket Parts Only</span>
-                            </label>
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="SHOW_ALL"
-                                    {...register('entitlement')}
-                                    className="h-4 w-4 text-blue-600"
-                                />
-                                <span>Show All</span>
-                            </label>
+                        {/* Section 3: Entitlement */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Entitlement</h3>
+                            <div className="space-y-3">
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="GENUINE_ONLY"
+                                        {...register('entitlement')}
+                                        className="h-4 w-4 text-blue-600"
+                                    />
+                                    <span>Genuine Parts Only</span>
+                                </label>
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="AFTERMARKET_ONLY"
+                                        {...register('entitlement')}
+                                        className="h-4 w-4 text-blue-600"
+                                    />
+                                    <span>Aftermarket Parts Only</span>
+                                </label>
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="SHOW_ALL"
+                                        {...register('entitlement')}
+                                        className="h-4 w-4 text-blue-600"
+                                    />
+                                    <span>Show All</span>
+                                </label>
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Section 4: Pricing Bands (Conditional) */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Pricing Bands</h3>
-                        <div className="grid gap-4 md:grid-cols-3">
-                            {(entitlement === 'GENUINE_ONLY' || entitlement === 'SHOW_ALL') && (
-                                <div className="space-y-2">
-                                    <Label htmlFor="genuineBand">Genuine Band</Label>
-                                    <select
-                                        id="genuineBand"
-                                        {...register('genuineBand')}
-                                        className="w-full px-3 py-2 border border-slate-200 rounded-md"
-                                    >
-                                        <option value="">Select band</option>
-                                        <option value="1">Band 1</option>
-                                        <option value="2">Band 2</option>
-                                        <option value="3">Band 3</option>
-                                        <option value="4">Band 4</option>
-                                    </select>
-                                </div>
-                            )}
-                            {(entitlement === 'AFTERMARKET_ONLY' || entitlement === 'SHOW_ALL') && (
-                                <>
+                        {/* Section 4: Pricing Bands (Conditional) */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Pricing Bands</h3>
+                            <div className="grid gap-4 md:grid-cols-3">
+                                {(entitlement === 'GENUINE_ONLY' || entitlement === 'SHOW_ALL') && (
                                     <div className="space-y-2">
-                                        <Label htmlFor="aftermarketBand">Aftermarket Band</Label>
+                                        <Label htmlFor="genuineBand">Genuine Band</Label>
                                         <select
-                                            id="aftermarketBand"
-                                            {...register('aftermarketBand')}
+                                            id="genuineBand"
+                                            {...register('genuineBand')}
                                             className="w-full px-3 py-2 border border-slate-200 rounded-md"
                                         >
                                             <option value="">Select band</option>
@@ -289,107 +312,125 @@ export default function DealerDialog({ open, onClose, onSuccess, dealer }: Deale
                                             <option value="4">Band 4</option>
                                         </select>
                                     </div>
-                                    <div className="space-y-2">
-                                        <Label htmlFor="brandedBand">Branded Band</Label>
-                                        <select
-                                            id="brandedBand"
-                                            {...register('brandedBand')}
-                                            className="w-full px-3 py-2 border border-slate-200 rounded-md"
-                                        >
-                                            <option value="">Select band</option>
-                                            <option value="1">Band 1</option>
-                                            <option value="2">Band 2</option>
-                                            <option value="3">Band 3</option>
-                                            <option value="4">Band 4</option>
-                                        </select>
-                                    </div>
-                                </>
-                            )}
+                                )}
+                                {(entitlement === 'AFTERMARKET_ONLY' || entitlement === 'SHOW_ALL') && (
+                                    <>
+                                        <div className="space-y-2">
+                                            <Label htmlFor="aftermarketBand">Aftermarket Band</Label>
+                                            <select
+                                                id="aftermarketBand"
+                                                {...register('aftermarketBand')}
+                                                className="w-full px-3 py-2 border border-slate-200 rounded-md"
+                                            >
+                                                <option value="">Select band</option>
+                                                <option value="1">Band 1</option>
+                                                <option value="2">Band 2</option>
+                                                <option value="3">Band 3</option>
+                                                <option value="4">Band 4</option>
+                                            </select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label htmlFor="brandedBand">Branded Band</Label>
+                                            <select
+                                                id="brandedBand"
+                                                {...register('brandedBand')}
+                                                className="w-full px-3 py-2 border border-slate-200 rounded-md"
+                                            >
+                                                <option value="">Select band</option>
+                                                <option value="1">Band 1</option>
+                                                <option value="2">Band 2</option>
+                                                <option value="3">Band 3</option>
+                                                <option value="4">Band 4</option>
+                                            </select>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Section 5: Status */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Status</h3>
-                        <div className="space-y-3">
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="ACTIVE"
-                                    {...register('status')}
-                                    className="h-4 w-4 text-green-600"
-                                />
-                                <span className="text-green-700 font-medium">Active</span>
-                            </label>
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="INACTIVE"
-                                    {...register('status')}
-                                    className="h-4 w-4 text-slate-600"
-                                />
-                                <span className="text-slate-600">Inactive</span>
-                            </label>
-                            <label className="flex items-center space-x-3 cursor-pointer">
-                                <input
-                                    type="radio"
-                                    value="SUSPENDED"
-                                    {...register('status')}
-                                    className="h-4 w-4 text-amber-600"
-                                />
-                                <span className="text-amber-700 font-medium">Suspended</span>
-                            </label>
+                        {/* Section 5: Status */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Status</h3>
+                            <div className="space-y-3">
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="ACTIVE"
+                                        {...register('status')}
+                                        className="h-4 w-4 text-green-600"
+                                    />
+                                    <span className="text-green-700 font-medium">Active</span>
+                                </label>
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="INACTIVE"
+                                        {...register('status')}
+                                        className="h-4 w-4 text-slate-600"
+                                    />
+                                    <span className="text-slate-600">Inactive</span>
+                                </label>
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        value="SUSPENDED"
+                                        {...register('status')}
+                                        className="h-4 w-4 text-amber-600"
+                                    />
+                                    <span className="text-amber-700 font-medium">Suspended</span>
+                                </label>
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Section 6: Billing Address */}
-                    <div className="space-y-4">
-                        <h3 className="text-lg font-semibold border-b pb-2">Billing Address (Optional)</h3>
-                        <div className="grid gap-4 md:grid-cols-2">
-                            <div className="space-y-2">
-                                <Label htmlFor="billingLine1">Address Line 1</Label>
-                                <Input id="billingLine1" {...register('billingLine1')} />
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="billingLine2">Address Line 2</Label>
-                                <Input id="billingLine2" {...register('billingLine2')} />
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="billingCity">City</Label>
-                                <Input id="billingCity" {...register('billingCity')} />
-                            </div>
-                            <div className="space-y-2">
-                                <Label htmlFor="billingPostcode">Postcode</Label>
-                                <Input id="billingPostcode" {...register('billingPostcode')} />
-                            </div>
-                            <div className="space-y-2 md:col-span-2">
-                                <Label htmlFor="billingCountry">Country</Label>
-                                <select
-                                    id="billingCountry"
-                                    {...register('billingCountry')}
-                                    className="w-full px-3 py-2 border border-slate-200 rounded-md"
-                                >
-                                    <option value="United Kingdom">United Kingdom</option>
-                                    <option value="Ireland">Ireland</option>
-                                    <option value="France">France</option>
-                                    <option value="Germany">Germany</option>
-                                    <option value="Spain">Spain</option>
-                                    <option value="Italy">Italy</option>
-                                    <option value="Other">Other</option>
-                                </select>
+                        {/* Section 6: Billing Address */}
+                        <div className="space-y-4">
+                            <h3 className="text-lg font-semibold border-b pb-2">Billing Address (Optional)</h3>
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <div className="space-y-2">
+                                    <Label htmlFor="billingLine1">Address Line 1</Label>
+                                    <Input id="billingLine1" {...register('billingLine1')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="billingLine2">Address Line 2</Label>
+                                    <Input id="billingLine2" {...register('billingLine2')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="billingCity">City</Label>
+                                    <Input id="billingCity" {...register('billingCity')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="billingPostcode">Postcode</Label>
+                                    <Input id="billingPostcode" {...register('billingPostcode')} />
+                                </div>
+                                <div className="space-y-2 md:col-span-2">
+                                    <Label htmlFor="billingCountry">Country</Label>
+                                    <select
+                                        id="billingCountry"
+                                        {...register('billingCountry')}
+                                        className="w-full px-3 py-2 border border-slate-200 rounded-md"
+                                    >
+                                        <option value="United Kingdom">United Kingdom</option>
+                                        <option value="Ireland">Ireland</option>
+                                        <option value="France">France</option>
+                                        <option value="Germany">Germany</option>
+                                        <option value="Spain">Spain</option>
+                                        <option value="Italy">Italy</option>
+                                        <option value="Other">Other</option>
+                                    </select>
+                                </div>
                             </div>
                         </div>
-                    </div>
 
-                    <DialogFooter>
-                        <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
-                            Cancel
-                        </Button>
-                        <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
-                            {isSubmitting ? 'Saving...' : isEdit ? 'Update Dealer' : 'Create Dealer'}
-                        </Button>
-                    </DialogFooter>
-                </form>
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+                                Cancel
+                            </Button>
+                            <Button type="submit" className="bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
+                                {isSubmitting ? 'Saving...' : isEdit ? 'Update Dealer' : 'Create Dealer'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                )}
             </DialogContent>
         </Dialog>
     );
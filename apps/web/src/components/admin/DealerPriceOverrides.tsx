@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
+import { Badge, Button, Input, Label } from '@/ui';
+import api from '@/lib/api';
+
+interface DealerPrice {
+    id: string;
+    productCode: string;
+    description: string;
+    netPrice: number;
+    bandCode: string | null;
+    bandPrice: number | null;
+    minimumPrice: number | null;
+    validFrom: string | null;
+    validTo: string | null;
+    waiveMinimumPrice: boolean;
+    note: string | null;
+    status: 'ACTIVE' | 'SCHEDULED' | 'EXPIRED';
+}
+
+const statusColors: Record<DealerPrice['status'], string> = {
+    ACTIVE: 'bg-green-100 text-green-700 border-green-200',
+    SCHEDULED: 'bg-blue-100 text-blue-700 border-blue-200',
+    EXPIRED: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+const emptyForm = { productCode: '', netPrice: '', validFrom: '', validTo: '', waiveMinimumPrice: false, note: '' };
+
+const formatPrice = (value: number | null) => (value === null ? '—' : `£${value.toFixed(2)}`);
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('en-GB') : '—');
+
+interface DealerPriceOverridesProps {
+    dealerId: string;
+}
+
+/**
+ * Net price overrides for one dealer; bulk changes go through the Dealer Net Prices import
+ */
+export default function DealerPriceOverrides({ dealerId }: DealerPriceOverridesProps) {
+    const queryClient = useQueryClient();
+    const [form, setForm] = useState(emptyForm);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const queryKey = ['admin-dealer-prices', dealerId];
+    const { data: prices, isLoading } = useQuery({
+        queryKey,
+        queryFn: async () => {
+            const response = await api.get(`/admin/dealers/${dealerId}/prices`);
+            return response.data.prices as DealerPrice[];
+        },
+    });
+
+    const handleAdd = async () => {
+        if (!form.productCode || form.netPrice === '') {
+            toast.error('Product code and net price are required');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await api.post(`/admin/dealers/${dealerId}/prices`, {
+                productCode: form.productCode,
+                netPrice: Number(form.netPrice),
+                validFrom: form.validFrom || null,
+                validTo: form.validTo || null,
+                waiveMinimumPrice: form.waiveMinimumPrice,
+                note: form.note || null,
+            });
+            toast.success('Net price added');
+            setForm(emptyForm);
+            queryClient.invalidateQueries({ queryKey });
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to add net price');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async (price: DealerPrice) => {
+        if (!confirm(`Remove the net price for ${price.productCode}?`)) return;
+
+        try {
+            await api.delete(`/admin/dealers/${dealerId}/prices/${price.id}`);
+            toast.success('Net price removed');
+            queryClient.invalidateQueries({ queryKey });
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to remove net price');
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">Add Net Price</h3>
+                <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                        <Label htmlFor="overrideProductCode">Product Code</Label>
+                        <Input
+                            id="overrideProductCode"
+                            value={form.productCode}
+                            onChange={(e) => setForm({ ...form, productCode: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="overrideNetPrice">Net Price (£)</Label>
+                        <Input
+                            id="overrideNetPrice"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={form.netPrice}
+                            onChange={(e) => setForm({ ...form, netPrice: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="overrideNote">Note</Label>
+                        <Input
+                            id="overrideNote"
+                            value={form.note}
+                            onChange={(e) => setForm({ ...form, note: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="overrideValidFrom">Valid From</Label>
+                        <Input
+                            id="overrideValidFrom"
+                            type="date"
+                            value={form.validFrom}
+                            onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="overrideValidTo">Valid Until</Label>
+                        <Input
+                            id="overrideValidTo"
+                            type="date"
+                            value={form.validTo}
+                            onChange={(e) => setForm({ ...form, validTo: e.target.value })}
+                        />
+                    </div>
+                    <div className="flex items-end">
+                        <label className="flex items-center space-x-2 cursor-pointer text-sm pb-2">
+                            <input
+                                type="checkbox"
+                                checked={form.waiveMinimumPrice}
+                                onChange={(e) => setForm({ ...form, waiveMinimumPrice: e.target.checked })}
+                                className="h-4 w-4"
+                            />
+                            <span>Waive minimum price</span>
+                        </label>
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <Button type="button" onClick={handleAdd} disabled={isSaving}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {isSaving ? 'Adding...' : 'Add Net Price'}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold border-b pb-2">Net Prices</h3>
+                <div className="max-h-80 overflow-y-auto border rounded-lg">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-slate-50">
+                            <tr className="text-left text-slate-500">
+                                <th className="p-2">Product</th>
+                                <th className="p-2 text-right">Band Price</th>
+                                <th className="p-2 text-right">Net Price</th>
+                                <th className="p-2">Valid</th>
+                                <th className="p-2">Status</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {isLoading && (
+                                <tr>
+                                    <td colSpan={6} className="p-4 text-center text-slate-500">Loading net prices...</td>
+                                </tr>
+                            )}
+                            {!isLoading && (prices ?? []).length === 0 && (
+                                <tr>
+                                    <td colSpan={6} className="p-4 text-center text-slate-500">
+                                        No net prices. This dealer pays band prices.
+                                    </td>
+                                </tr>
+                            )}
+                            {(prices ?? []).map(price => {
+                                const belowMinimum = price.minimumPrice !== null && price.netPrice < price.minimumPrice;
+                                return (
+                                    <tr key={price.id} className="border-t">
+                                        <td className="p-2">
+                                            <div className="font-mono">{price.productCode}</div>
+                                            <div className="text-xs text-slate-500">{price.note || price.description}</div>
+                                        </td>
+                                        <td className="p-2 text-right font-mono text-slate-500">
+                                            {formatPrice(price.bandPrice)}
+                                            {price.bandCode && <span className="text-xs ml-1">(B{price.bandCode})</span>}
+                                        </td>
+                                        <td className="p-2 text-right font-mono font-semibold">
+                                            {formatPrice(price.netPrice)}
+                                            {belowMinimum && (
+                                                <div className={`text-xs font-normal ${price.waiveMinimumPrice ? 'text-amber-600' : 'text-red-600'}`}>
+                                                    {price.waiveMinimumPrice
+                                                        ? 'Minimum waived'
+                                                        : `Min ${formatPrice(price.minimumPrice)} applies`}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="p-2 text-xs">
+                                            {formatDate(price.validFrom)} – {formatDate(price.validTo)}
+                                        </td>
+                                        <td className="p-2">
+                                            <Badge variant="outline" className={statusColors[price.status]}>
+                                                {price.status}
+                                            </Badge>
+                                        </td>
+                                        <td className="p-2 text-right">
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => handleDelete(price)}
+                                                className="text-red-600 hover:text-red-700"
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Badge,
+    Button,
+    Tabs,
+    TabsList,
+    TabsTrigger,
+    TabsContent,
+} from '@/ui';
+import { Send } from 'lucide-react';
+import api from '@/lib/api';
+
+interface EmailLogDetail {
+    id: string;
+    recipientEmail: string;
+    subject: string;
+    bodyText: string;
+    bodyHtml?: string | null;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    errorMessage?: string | null;
+    templateKey?: string | null;
+    templateVersion?: number | null;
+    resentFromId?: string | null;
+    createdAt: string;
+    sentAt?: string | null;
+    recipient: {
+        consecutiveFailures: number;
+        bounceCount: number;
+        lastError?: string | null;
+        suppressedAt?: string | null;
+        suppressedReason?: string | null;
+    } | null;
+}
+
+interface EmailLogDialogProps {
+    emailId: string | null;
+    onClose: () => void;
+    onResend: (id: string) => void;
+    resending: boolean;
+}
+
+export default function EmailLogDialog({ emailId, onClose, onResend, resending }: EmailLogDialogProps) {
+    const { data: email, isLoading } = useQuery({
+        queryKey: ['email-log', emailId],
+        queryFn: async () => {
+            const response = await api.get(`/admin/email-logs/${emailId}`);
+            return response.data as EmailLogDetail;
+        },
+        enabled: !!emailId,
+    });
+
+    const canResend = email && email.status !== 'QUEUED' && email.status !== 'SENDING' && !email.recipient?.suppressedAt;
+
+    return (
+        <Dialog open={!!emailId} onOpenChange={onClose}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{email?.subject ?? 'Email'}</DialogTitle>
+                    <DialogDescription>
+                        {email ? `To ${email.recipientEmail}, queued ${new Date(email.createdAt).toLocaleString()}` : ' '}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading && <div className="py-12 text-center text-slate-500">Loading email...</div>}
+
+                {email && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                            <div>
+                                <div className="text-xs uppercase text-slate-400">Status</div>
+                                <Badge variant="outline">{email.status}</Badge>
+                            </div>
+                            <div>
+                                <div className="text-xs uppercase text-slate-400">Attempts</div>
+                                {email.attempts} / {email.maxAttempts}
+                            </div>
+                            <div>
+                                <div className="text-xs uppercase text-slate-400">Template</div>
+                                {email.templateKey
+                                    ? `${email.templateKey} (${email.templateVersion ? `v${email.templateVersion}` : 'built-in'})`
+                                    : '-'}
+                            </div>
+                            <div>
+                                <div className="text-xs uppercase text-slate-400">Sent</div>
+                                {email.sentAt ? new Date(email.sentAt).toLocaleString() : '-'}
+                            </div>
+                        </div>
+
+                        {email.errorMessage && (
+                            <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                                {email.errorMessage}
+                            </div>
+                        )}
+
+                        {email.recipient && (email.recipient.suppressedAt || email.recipient.consecutiveFailures > 0) && (
+                            <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                {email.recipient.suppressedAt
+                                    ? `Recipient suppressed since ${new Date(email.recipient.suppressedAt).toLocaleString()}: ${email.recipient.suppressedReason}`
+                                    : `${email.recipient.consecutiveFailures} failed email(s) in a row to this recipient`}
+                                {email.recipient.bounceCount > 0 && ` • ${email.recipient.bounceCount} bounce(s)`}
+                            </div>
+                        )}
+
+                        <Tabs defaultValue={email.bodyHtml ? 'html' : 'text'}>
+                            <TabsList>
+                                {email.bodyHtml && <TabsTrigger value="html">HTML</TabsTrigger>}
+                                <TabsTrigger value="text">Plain text</TabsTrigger>
+                            </TabsList>
+                            {email.bodyHtml && (
+                                <TabsContent value="html">
+                                    <iframe
+                                        title="Email body"
+                                        sandbox=""
+                                        srcDoc={email.bodyHtml}
+                                        className="w-full h-[480px] border rounded-md bg-white"
+                                    />
+                                </TabsContent>
+                            )}
+                            <TabsContent value="text">
+                                <pre className="whitespace-pre-wrap p-4 border rounded-md bg-slate-50 text-sm">{email.bodyText}</pre>
+                            </TabsContent>
+                        </Tabs>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>Close</Button>
+                    {canResend && (
+                        <Button onClick={() => onResend(email.id)} disabled={resending}>
+                            <Send className="h-4 w-4 mr-2" />
+                            Resend
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
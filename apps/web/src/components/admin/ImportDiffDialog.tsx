@@ -0,0 +1,309 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { AlertTriangle } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Badge,
+    Button,
+    Tabs,
+    TabsList,
+    TabsTrigger,
+} from '@/ui';
+import api from '@/lib/api';
+
+interface PriceChange {
+    productCode: string;
+    description: string;
+    field: string;
+    oldPrice: number | null;
+    newPrice: number | null;
+    deltaPercent: number | null;
+    flagged: boolean;
+}
+
+interface PriceFieldSummary {
+    field: string;
+    label: string;
+    changed: number;
+    increased: number;
+    decreased: number;
+    averageDeltaPercent: number | null;
+    largestDropPercent: number | null;
+    largestRisePercent: number | null;
+    flagged: number;
+}
+
+interface ImportDiff {
+    batchId: string;
+    partType: string | null;
+    summary: {
+        stagedRows: number;
+        validRows: number;
+        invalidRows: number;
+        newProducts: number;
+        changedProducts: number;
+        unchangedProducts: number;
+        priceChanges: number;
+        flaggedChanges: number;
+        stockChanges: number;
+    };
+    fieldSummaries: PriceFieldSummary[];
+    newProducts: Array<{ productCode: string; description: string; reactivated: boolean; bandPrices: Record<string, number | null>; freeStock: number | null }>;
+    priceChanges: PriceChange[];
+    stockChanges: Array<{ productCode: string; description: string; oldStock: number; newStock: number }>;
+    truncated: boolean;
+}
+
+type DiffTab = 'prices' | 'new' | 'stock';
+
+interface ImportDiffDialogProps {
+    open: boolean;
+    batchId: string | null;
+    fileName?: string;
+    onClose: () => void;
+    onDecision: () => void;
+}
+
+const formatPrice = (value: number | null) => (value === null ? '—' : `£${value.toFixed(2)}`);
+
+const formatPercent = (value: number | null) =>
+    value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+export default function ImportDiffDialog({ open, batchId, fileName, onClose, onDecision }: ImportDiffDialogProps) {
+    const [tab, setTab] = useState<DiffTab>('prices');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const { data: diff, isLoading, error } = useQuery({
+        queryKey: ['import-diff', batchId],
+        queryFn: async () => {
+            const response = await api.get(`/admin/imports/${batchId}/diff`);
+            return response.data as ImportDiff;
+        },
+        enabled: open && !!batchId,
+    });
+
+    const handleApprove = async () => {
+        if (diff && diff.summary.flaggedChanges > 0 &&
+            !confirm(`${diff.summary.flaggedChanges} price changes are flagged as large. Apply anyway?`)) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await api.post(`/admin/imports/${batchId}/approve`);
+            toast.success('Import approved and queued to apply');
+            onDecision();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to approve import');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!confirm('Reject this file? Nothing will be applied.')) return;
+
+        setIsSubmitting(true);
+        try {
+            await api.post(`/admin/imports/${batchId}/cancel`);
+            toast.success('Import rejected');
+            onDecision();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to reject import');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const summaryTiles = diff ? [
+        { label: 'New products', value: diff.summary.newProducts },
+        { label: 'Products changed', value: diff.summary.changedProducts },
+        { label: 'Unchanged', value: diff.summary.unchangedProducts },
+        { label: 'Stock changes', value: diff.summary.stockChanges },
+        { label: 'Invalid rows', value: diff.summary.invalidRows },
+    ] : [];
+
+    return (
+        <Dialog open={open} onOpenChange={onClose}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Review Import{fileName ? `: ${fileName}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Dry run compared against the live catalogue. Nothing has been applied yet.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading && <div className="py-12 text-center text-slate-500">Calculating differences...</div>}
+
+                {error && (
+                    <div className="py-12 text-center text-red-600">
+                        {(error as any).response?.data?.message || 'Failed to load diff'}
+                    </div>
+                )}
+
+                {diff && (
+                    <div className="space-y-6">
+                        {diff.summary.flaggedChanges > 0 && (
+                            <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                {diff.summary.flaggedChanges} price changes are large or blank out an existing price.
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+                            {summaryTiles.map(tile => (
+                                <div key={tile.label} className="rounded-lg border border-slate-200 p-3">
+                                    <div className="text-xs text-slate-500">{tile.label}</div>
+                                    <div className="text-xl font-semibold">{tile.value.toLocaleString()}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div>
+                            <h4 className="font-semibold text-sm mb-2">Price changes by field</h4>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-slate-500 border-b">
+                                        <th className="py-2">Field</th>
+                                        <th className="py-2 text-right">Changed</th>
+                                        <th className="py-2 text-right">Up / Down</th>
+                                        <th className="py-2 text-right">Average</th>
+                                        <th className="py-2 text-right">Largest drop</th>
+                                        <th className="py-2 text-right">Largest rise</th>
+                                        <th className="py-2 text-right">Flagged</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {diff.fieldSummaries.map(summary => (
+                                        <tr key={summary.field} className={`border-b ${summary.flagged > 0 ? 'bg-amber-50' : ''}`}>
+                                            <td className="py-2 font-medium">{summary.label}</td>
+                                            <td className="py-2 text-right font-mono">{summary.changed}</td>
+                                            <td className="py-2 text-right font-mono">{summary.increased} / {summary.decreased}</td>
+                                            <td className="py-2 text-right font-mono">{formatPercent(summary.averageDeltaPercent)}</td>
+                                            <td className="py-2 text-right font-mono text-red-600">{formatPercent(summary.largestDropPercent)}</td>
+                                            <td className="py-2 text-right font-mono text-green-600">{formatPercent(summary.largestRisePercent)}</td>
+                                            <td className="py-2 text-right font-mono">{summary.flagged}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        <div className="space-y-3">
+                            <Tabs value={tab} onValueChange={(v) => setTab(v as DiffTab)}>
+                                <TabsList>
+                                    <TabsTrigger value="prices">Price changes ({diff.summary.priceChanges})</TabsTrigger>
+                                    <TabsTrigger value="new">New ({diff.summary.newProducts})</TabsTrigger>
+                                    <TabsTrigger value="stock">Stock ({diff.summary.stockChanges})</TabsTrigger>
+                                </TabsList>
+                            </Tabs>
+
+                            <div className="max-h-80 overflow-y-auto border rounded-lg">
+                                <table className="w-full text-sm">
+                                    {tab === 'prices' && (
+                                        <>
+                                            <thead className="sticky top-0 bg-slate-50">
+                                                <tr className="text-left text-slate-500">
+                                                    <th className="p-2">Product</th>
+                                                    <th className="p-2">Field</th>
+                                                    <th className="p-2 text-right">Current</th>
+                                                    <th className="p-2 text-right">New</th>
+                                                    <th className="p-2 text-right">Change</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {diff.priceChanges.map(change => (
+                                                    <tr key={`${change.productCode}-${change.field}`} className={`border-t ${change.flagged ? 'bg-amber-50' : ''}`}>
+                                                        <td className="p-2 font-mono">{change.productCode}</td>
+                                                        <td className="p-2">{change.field.replace('_', ' ')}</td>
+                                                        <td className="p-2 text-right font-mono">{formatPrice(change.oldPrice)}</td>
+                                                        <td className="p-2 text-right font-mono">{formatPrice(change.newPrice)}</td>
+                                                        <td className={`p-2 text-right font-mono ${(change.deltaPercent ?? 0) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                                                            {formatPercent(change.deltaPercent)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </>
+                                    )}
+                                    {tab === 'new' && (
+                                        <>
+                                            <thead className="sticky top-0 bg-slate-50">
+                                                <tr className="text-left text-slate-500">
+                                                    <th className="p-2">Product</th>
+                                                    <th className="p-2">Description</th>
+                                                    <th className="p-2 text-right">Band 1</th>
+                                                    <th className="p-2 text-right">Stock</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {diff.newProducts.map(product => (
+                                                    <tr key={product.productCode} className="border-t">
+                                                        <td className="p-2 font-mono">
+                                                            {product.productCode}
+                                                            {product.reactivated && (
+                                                                <Badge variant="outline" className="ml-2 text-xs">Reactivated</Badge>
+                                                            )}
+                                                        </td>
+                                                        <td className="p-2">{product.description}</td>
+                                                        <td className="p-2 text-right font-mono">{formatPrice(product.bandPrices['1'])}</td>
+                                                        <td className="p-2 text-right font-mono">{product.freeStock ?? '—'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </>
+                                    )}
+                                    {tab === 'stock' && (
+                                        <>
+                                            <thead className="sticky top-0 bg-slate-50">
+                                                <tr className="text-left text-slate-500">
+                                                    <th className="p-2">Product</th>
+                                                    <th className="p-2 text-right">Current</th>
+                                                    <th className="p-2 text-right">New</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {diff.stockChanges.map(change => (
+                                                    <tr key={change.productCode} className="border-t">
+                                                        <td className="p-2 font-mono">{change.productCode}</td>
+                                                        <td className="p-2 text-right font-mono">{change.oldStock}</td>
+                                                        <td className="p-2 text-right font-mono">{change.newStock}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </>
+                                    )}
+                                </table>
+                            </div>
+                            {diff.truncated && (
+                                <p className="text-xs text-slate-500">Lists are limited to the first 500 rows; totals cover the whole file.</p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onClose} disabled={isSubmitting}>Close</Button>
+                    <Button variant="outline" onClick={handleReject} disabled={isSubmitting || !diff}>
+                        Reject
+                    </Button>
+                    <Button
+                        className="bg-blue-600 hover:bg-blue-700"
+                        onClick={handleApprove}
+                        disabled={isSubmitting || !diff}
+                    >
+                        Approve and Apply
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+import { FileText, MoreHorizontal } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+    Button,
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/ui';
+import api from '@/lib/api';
+
+type OrderDocument = 'CONFIRMATION' | 'PROFORMA';
+
+interface OrderActionsMenuProps {
+    orderId: string;
+    orderNo: string;
+}
+
+export default function OrderActionsMenu({ orderId, orderNo }: OrderActionsMenuProps) {
+    const [downloading, setDownloading] = useState(false);
+
+    const handleDownload = async (document: OrderDocument) => {
+        setDownloading(true);
+        try {
+            const response = await api.get(`/admin/orders/${orderId}/pdf`, {
+                params: { document },
+                responseType: 'blob',
+            });
+
+            const fileName =
+                response.headers['content-disposition']?.match(/filename="(.+)"/)?.[1] ?? `order-${orderNo}.pdf`;
+            const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+            const link = window.document.createElement('a');
+            link.href = url;
+            link.setAttribute('download', fileName);
+            window.document.body.appendChild(link);
+            link.click();
+            link.remove();
+            window.URL.revokeObjectURL(url);
+        } catch {
+            toast.error(`Failed to generate PDF for ${orderNo}`);
+        } finally {
+            setDownloading(false);
+        }
+    };
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={downloading}>
+                    <MoreHorizontal className="h-5 w-5" />
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleDownload('CONFIRMATION')}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Download acknowledgement
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownload('PROFORMA')}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Download proforma
+                </DropdownMenuItem>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
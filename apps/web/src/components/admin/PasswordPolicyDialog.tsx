@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Button,
+    Input,
+    Label,
+} from '@/ui';
+import api from '@/lib/api';
+
+interface PasswordPolicy {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    historyCount: number;
+    resetTokenTtlMinutes: number;
+}
+
+type Limits = Record<'minLength' | 'historyCount' | 'resetTokenTtlMinutes', { min: number; max: number }>;
+
+const NUMBER_FIELDS: Array<{ key: keyof Limits; label: string; hint: string }> = [
+    { key: 'minLength', label: 'Minimum length', hint: 'Characters' },
+    { key: 'historyCount', label: 'Password history', hint: 'Previous passwords that cannot be reused; 0 allows any' },
+    { key: 'resetTokenTtlMinutes', label: 'Reset link lifetime', hint: 'Minutes a forgot-password link works for' },
+];
+
+const REQUIREMENTS: Array<{ key: 'requireUppercase' | 'requireLowercase' | 'requireNumber' | 'requireSymbol'; label: string }> = [
+    { key: 'requireUppercase', label: 'Uppercase letter' },
+    { key: 'requireLowercase', label: 'Lowercase letter' },
+    { key: 'requireNumber', label: 'Number' },
+    { key: 'requireSymbol', label: 'Symbol' },
+];
+
+interface PasswordPolicyDialogProps {
+    open: boolean;
+    onClose: () => void;
+}
+
+/**
+ * Rules for passwords users choose themselves. Existing passwords are not checked until they are next changed.
+ */
+export default function PasswordPolicyDialog({ open, onClose }: PasswordPolicyDialogProps) {
+    const queryClient = useQueryClient();
+    const [draft, setDraft] = useState<Record<string, string | boolean>>({});
+
+    const { data } = useQuery({
+        queryKey: ['settings', 'password-policy'],
+        queryFn: async () => {
+            const response = await api.get('/admin/settings/password-policy');
+            return response.data as { policy: PasswordPolicy; limits: Limits };
+        },
+        enabled: open,
+    });
+
+    useEffect(() => {
+        if (data && open) {
+            setDraft(Object.fromEntries(
+                Object.entries(data.policy).map(([key, value]) => [key, typeof value === 'number' ? String(value) : value])
+            ));
+        }
+    }, [data, open]);
+
+    const save = useMutation({
+        mutationFn: async () => {
+            const policy = Object.fromEntries(
+                Object.entries(draft).map(([key, value]) => [key, typeof value === 'string' ? Number(value) : value])
+            );
+            await api.put('/admin/settings/password-policy', policy);
+        },
+        onSuccess: () => {
+            toast.success('Password policy saved');
+            queryClient.invalidateQueries({ queryKey: ['settings', 'password-policy'] });
+            onClose();
+        },
+        onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to save password policy'),
+    });
+
+    const outOfRange = !!data && NUMBER_FIELDS.some(({ key }) => {
+        const value = Number(draft[key]);
+        return draft[key] === '' || !Number.isInteger(value) || value < data.limits[key].min || value > data.limits[key].max;
+    });
+
+    return (
+        <Dialog open={open} onOpenChange={onClose}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Password policy</DialogTitle>
+                    <DialogDescription>
+                        Applies when users reset or change their password. Passwords generated by admins are
+                        replaced by the user at their next sign-in.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {data && (
+                    <div className="space-y-4">
+                        {NUMBER_FIELDS.map(({ key, label, hint }) => (
+                            <div key={key} className="space-y-1">
+                                <Label htmlFor={`policy-${key}`}>{label}</Label>
+                                <Input
+                                    id={`policy-${key}`}
+                                    type="number"
+                                    min={data.limits[key].min}
+                                    max={data.limits[key].max}
+                                    value={String(draft[key] ?? '')}
+                                    onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                                    className="w-32"
+                                />
+                                <p className="text-xs text-slate-500">
+                                    {hint} ({data.limits[key].min}-{data.limits[key].max})
+                                </p>
+                            </div>
+                        ))}
+
+                        <div className="space-y-2">
+                            <Label>Must contain</Label>
+                            {REQUIREMENTS.map(({ key, label }) => (
+                                <div key={key} className="flex items-center space-x-2">
+                                    <input
+                                        id={`policy-${key}`}
+                                        type="checkbox"
+                                        checked={!!draft[key]}
+                                        onChange={(e) => setDraft({ ...draft, [key]: e.target.checked })}
+                                        className="h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    <Label htmlFor={`policy-${key}`} className="text-sm font-normal cursor-pointer">
+                                        {label}
+                                    </Label>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={() => save.mutate()}
+                        disabled={!data || outOfRange || save.isPending}
+                        className="bg-blue-600 text-white hover:bg-blue-700"
+                    >
+                        {save.isPending ? 'Saving...' : 'Save Policy'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,501 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { AlertTriangle, FlaskConical } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Badge,
+    Button,
+    Input,
+    Label,
+} from '@/ui';
+import api from '@/lib/api';
+
+interface FieldDefinition {
+    field: string;
+    label: string;
+    type: 'string' | 'number' | 'integer';
+    aliases: string[];
+    required?: boolean;
+    min?: number;
+    defaultValue?: string | number;
+}
+
+interface TemplateMapping {
+    id: string;
+    templateName: string;
+    importType: string;
+    fileType: 'CSV' | 'XLSX';
+    delimiter: string | null;
+    hasHeader: boolean;
+    mappingJson: { fields: Record<string, any> } | null;
+    validationJson: { fields: Record<string, any> } | null;
+    fields: FieldDefinition[];
+    transforms: string[];
+}
+
+interface ResolvedColumn {
+    field: string;
+    label: string;
+    index: number | null;
+    header: string | null;
+    source: 'HEADER' | 'INDEX' | 'UNMAPPED';
+}
+
+interface TestResult {
+    columns: ResolvedColumn[];
+    missingRequired: string[];
+    unmappedHeaders: string[];
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    rows: Array<{ rowNumber: number; values: Record<string, string | number | null>; errors: string[] }>;
+}
+
+// One editable row per importable field
+interface FieldSettings {
+    header: string;
+    aliases: string;
+    column: string;
+    transforms: string[];
+    defaultValue: string;
+    required: '' | 'yes' | 'no';
+    min: string;
+    max: string;
+    pattern: string;
+}
+
+interface TemplateMappingDialogProps {
+    open: boolean;
+    templateId: string | null;
+    onClose: () => void;
+    onSaved: () => void;
+}
+
+const sourceColors: Record<ResolvedColumn['source'], string> = {
+    HEADER: 'bg-green-100 text-green-700 border-green-200',
+    INDEX: 'bg-blue-100 text-blue-700 border-blue-200',
+    UNMAPPED: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+function toSettings(mapping: TemplateMapping): Record<string, FieldSettings> {
+    return Object.fromEntries(mapping.fields.map(({ field }) => {
+        const map = mapping.mappingJson?.fields?.[field] ?? {};
+        const rule = mapping.validationJson?.fields?.[field] ?? {};
+        return [field, {
+            header: map.header ?? '',
+            aliases: (map.aliases ?? []).join(', '),
+            column: map.column !== undefined ? String(map.column) : '',
+            transforms: map.transforms ?? [],
+            defaultValue: map.defaultValue !== undefined ? String(map.defaultValue) : '',
+            required: rule.required === undefined ? '' : rule.required ? 'yes' : 'no',
+            min: rule.min !== undefined ? String(rule.min) : '',
+            max: rule.max !== undefined ? String(rule.max) : '',
+            pattern: rule.pattern ?? '',
+        }];
+    }));
+}
+
+// Only fields with settings are written, so built-in defaults keep applying to the rest
+function toPayload(fields: FieldDefinition[], settings: Record<string, FieldSettings>) {
+    const mappingFields: Record<string, any> = {};
+    const validationFields: Record<string, any> = {};
+
+    for (const { field, type } of fields) {
+        const s = settings[field];
+        if (!s) continue;
+
+        const map: Record<string, any> = {};
+        if (s.header.trim()) map.header = s.header.trim();
+        const aliases = s.aliases.split(',').map(a => a.trim()).filter(Boolean);
+        if (aliases.length > 0) map.aliases = aliases;
+        if (s.column.trim()) map.column = Number(s.column);
+        if (s.transforms.length > 0) map.transforms = s.transforms;
+        if (s.defaultValue.trim()) map.defaultValue = type === 'string' ? s.defaultValue.trim() : Number(s.defaultValue);
+        if (Object.keys(map).length > 0) mappingFields[field] = map;
+
+        const rule: Record<string, any> = {};
+        if (s.required) rule.required = s.required === 'yes';
+        if (s.min.trim()) rule.min = Number(s.min);
+        if (s.max.trim()) rule.max = Number(s.max);
+        if (s.pattern.trim()) rule.pattern = s.pattern.trim();
+        if (Object.keys(rule).length > 0) validationFields[field] = rule;
+    }
+
+    return {
+        mappingJson: Object.keys(mappingFields).length > 0 ? { fields: mappingFields } : null,
+        validationJson: Object.keys(validationFields).length > 0 ? { fields: validationFields } : null,
+    };
+}
+
+export default function TemplateMappingDialog({ open, templateId, onClose, onSaved }: TemplateMappingDialogProps) {
+    const [settings, setSettings] = useState<Record<string, FieldSettings>>({});
+    const [fileType, setFileType] = useState<'CSV' | 'XLSX'>('XLSX');
+    const [delimiter, setDelimiter] = useState(',');
+    const [hasHeader, setHasHeader] = useState(true);
+    const [sampleFile, setSampleFile] = useState<File | null>(null);
+    const [testResult, setTestResult] = useState<TestResult | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { data: mapping, isLoading, error } = useQuery({
+        queryKey: ['template-mapping', templateId],
+        queryFn: async () => {
+            const response = await api.get(`/admin/templates/${templateId}/mapping`);
+            return response.data as TemplateMapping;
+        },
+        enabled: open && !!templateId,
+    });
+
+    useEffect(() => {
+        if (!mapping) return;
+        setSettings(toSettings(mapping));
+        setFileType(mapping.fileType);
+        setDelimiter(mapping.delimiter ?? ',');
+        setHasHeader(mapping.hasHeader);
+        setSampleFile(null);
+        setTestResult(null);
+    }, [mapping]);
+
+    const updateField = (field: string, changes: Partial<FieldSettings>) => {
+        setSettings(prev => ({ ...prev, [field]: { ...prev[field], ...changes } }));
+    };
+
+    const toggleTransform = (field: string, transform: string) => {
+        const current = settings[field]?.transforms ?? [];
+        updateField(field, {
+            transforms: current.includes(transform) ? current.filter(t => t !== transform) : [...current, transform],
+        });
+    };
+
+    const handleTest = async () => {
+        if (!mapping || !sampleFile) return;
+
+        const payload = toPayload(mapping.fields, settings);
+        const formData = new FormData();
+        formData.append('mappingJson', JSON.stringify(payload.mappingJson));
+        formData.append('validationJson', JSON.stringify(payload.validationJson));
+        formData.append('fileType', fileType);
+        formData.append('delimiter', fileType === 'CSV' ? delimiter : '');
+        formData.append('hasHeader', String(hasHeader));
+        formData.append('file', sampleFile);
+
+        setIsTesting(true);
+        try {
+            const response = await api.post(`/admin/templates/${mapping.id}/test`, formData, {
+                headers: { 'Content-Type': 'multipart/form-data' },
+            });
+            setTestResult(response.data);
+        } catch (error: any) {
+            setTestResult(null);
+            toast.error(error.response?.data?.message || 'Failed to test mapping');
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!mapping) return;
+
+        setIsSaving(true);
+        try {
+            await api.put(`/admin/templates/${mapping.id}/mapping`, {
+                ...toPayload(mapping.fields, settings),
+                fileType,
+                delimiter: fileType === 'CSV' ? delimiter : null,
+                hasHeader,
+            });
+            toast.success('Column mapping saved');
+            onSaved();
+        } catch (error: any) {
+            toast.error(error.response?.data?.message || 'Failed to save mapping');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onClose}>
+            <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Column Mapping{mapping ? `: ${mapping.templateName}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Match supplier headings to import fields. Blank settings fall back to the standard headings shown under each field.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading && <div className="py-12 text-center text-slate-500">Loading mapping...</div>}
+
+                {error && (
+                    <div className="py-12 text-center text-red-600">
+                        {(error as any).response?.data?.message || 'Failed to load mapping'}
+                    </div>
+                )}
+
+                {mapping && mapping.fields.length === 0 && (
+                    <div className="py-12 text-center text-slate-500">
+                        Column mapping is not available for {mapping.importType} templates.
+                    </div>
+                )}
+
+                {mapping && mapping.fields.length > 0 && (
+                    <div className="space-y-6">
+                        {/* File settings */}
+                        <div className="flex flex-wrap items-end gap-6">
+                            <div className="space-y-1">
+                                <Label htmlFor="fileType">File type</Label>
+                                <select
+                                    id="fileType"
+                                    className="block h-9 rounded-md border border-slate-200 px-2 text-sm"
+                                    value={fileType}
+                                    onChange={(e) => setFileType(e.target.value as 'CSV' | 'XLSX')}
+                                >
+                                    <option value="XLSX">Excel (XLSX)</option>
+                                    <option value="CSV">CSV</option>
+                                </select>
+                            </div>
+                            {fileType === 'CSV' && (
+                                <div className="space-y-1">
+                                    <Label htmlFor="delimiter">Delimiter</Label>
+                                    <Input
+                                        id="delimiter"
+                                        className="w-16"
+                                        maxLength={1}
+                                        value={delimiter}
+                                        onChange={(e) => setDelimiter(e.target.value)}
+                                    />
+                                </div>
+                            )}
+                            <label className="flex items-center gap-2 text-sm pb-2">
+                                <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                                First row is a header row
+                            </label>
+                        </div>
+
+                        {/* Field mapping */}
+                        <div className="border rounded-lg overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-50">
+                                    <tr className="text-left text-slate-500">
+                                        <th className="p-2">Field</th>
+                                        <th className="p-2">Header</th>
+                                        <th className="p-2">Other headings</th>
+                                        <th className="p-2">Column #</th>
+                                        <th className="p-2">Transforms</th>
+                                        <th className="p-2">Default</th>
+                                        <th className="p-2">Required</th>
+                                        <th className="p-2">Min / Max</th>
+                                        <th className="p-2">Pattern</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {mapping.fields.map(definition => {
+                                        const s = settings[definition.field];
+                                        if (!s) return null;
+                                        const numeric = definition.type !== 'string';
+                                        return (
+                                            <tr key={definition.field} className="border-t align-top">
+                                                <td className="p-2">
+                                                    <div className="font-medium">{definition.label}</div>
+                                                    <div className="text-xs text-slate-400">{definition.aliases.join(', ')}</div>
+                                                </td>
+                                                <td className="p-2">
+                                                    <Input
+                                                        className="h-8 w-36"
+                                                        value={s.header}
+                                                        onChange={(e) => updateField(definition.field, { header: e.target.value })}
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <Input
+                                                        className="h-8 w-40"
+                                                        placeholder="Comma separated"
+                                                        value={s.aliases}
+                                                        onChange={(e) => updateField(definition.field, { aliases: e.target.value })}
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <Input
+                                                        className="h-8 w-16"
+                                                        type="number"
+                                                        min={1}
+                                                        value={s.column}
+                                                        onChange={(e) => updateField(definition.field, { column: e.target.value })}
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <div className="flex flex-col gap-1">
+                                                        {mapping.transforms
+                                                            .filter(t => numeric || t !== 'currency')
+                                                            .map(transform => (
+                                                                <label key={transform} className="flex items-center gap-1 text-xs whitespace-nowrap">
+                                                                    <input
+                                                                        type="checkbox"
+                                                                        checked={s.transforms.includes(transform)}
+                                                                        onChange={() => toggleTransform(definition.field, transform)}
+                                                                    />
+                                                                    {transform}
+                                                                </label>
+                                                            ))}
+                                                    </div>
+                                                </td>
+                                                <td className="p-2">
+                                                    <Input
+                                                        className="h-8 w-24"
+                                                        placeholder={definition.defaultValue !== undefined ? String(definition.defaultValue) : ''}
+                                                        value={s.defaultValue}
+                                                        onChange={(e) => updateField(definition.field, { defaultValue: e.target.value })}
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <select
+                                                        className="h-8 rounded-md border border-slate-200 px-1 text-xs"
+                                                        value={s.required}
+                                                        onChange={(e) => updateField(definition.field, { required: e.target.value as FieldSettings['required'] })}
+                                                    >
+                                                        <option value="">Standard ({definition.required ? 'Yes' : 'No'})</option>
+                                                        <option value="yes">Yes</option>
+                                                        <option value="no">No</option>
+                                                    </select>
+                                                </td>
+                                                <td className="p-2">
+                                                    {numeric && (
+                                                        <div className="flex gap-1">
+                                                            <Input
+                                                                className="h-8 w-20"
+                                                                type="number"
+                                                                placeholder={definition.min !== undefined ? String(definition.min) : 'Min'}
+                                                                value={s.min}
+                                                                onChange={(e) => updateField(definition.field, { min: e.target.value })}
+                                                            />
+                                                            <Input
+                                                                className="h-8 w-20"
+                                                                type="number"
+                                                                placeholder="Max"
+                                                                value={s.max}
+                                                                onChange={(e) => updateField(definition.field, { max: e.target.value })}
+                                                            />
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                <td className="p-2">
+                                                    {!numeric && (
+                                                        <Input
+                                                            className="h-8 w-32 font-mono"
+                                                            placeholder="Regex"
+                                                            value={s.pattern}
+                                                            onChange={(e) => updateField(definition.field, { pattern: e.target.value })}
+                                                        />
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Test against a sample file */}
+                        <div className="rounded-lg border border-slate-200 p-4 space-y-4">
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="file"
+                                    accept=".csv,.xlsx,.xls"
+                                    className="text-sm"
+                                    onChange={(e) => {
+                                        setSampleFile(e.target.files?.[0] ?? null);
+                                        setTestResult(null);
+                                    }}
+                                />
+                                <Button variant="outline" size="sm" onClick={handleTest} disabled={!sampleFile || isTesting}>
+                                    <FlaskConical className="h-4 w-4 mr-1" />
+                                    {isTesting ? 'Testing...' : 'Test mapping'}
+                                </Button>
+                                <span className="text-xs text-slate-500">Runs the unsaved settings above against the file. Nothing is imported.</span>
+                            </div>
+
+                            {testResult && (
+                                <div className="space-y-4">
+                                    {testResult.missingRequired.length > 0 && (
+                                        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                                            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                                            Required columns not found: {testResult.missingRequired.join(', ')}. The import would fail.
+                                        </div>
+                                    )}
+
+                                    <div className="flex gap-6 text-sm">
+                                        <span>Rows: <strong>{testResult.totalRows}</strong></span>
+                                        <span className="text-green-700">Valid: <strong>{testResult.validRows}</strong></span>
+                                        <span className="text-red-600">Invalid: <strong>{testResult.invalidRows}</strong></span>
+                                        {testResult.unmappedHeaders.length > 0 && (
+                                            <span className="text-slate-500">Ignored columns: {testResult.unmappedHeaders.join(', ')}</span>
+                                        )}
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-2">
+                                        {testResult.columns.map(column => (
+                                            <Badge key={column.field} variant="outline" className={sourceColors[column.source]}>
+                                                {column.label}
+                                                {column.source !== 'UNMAPPED' && ` ← ${column.header ?? `column ${column.index! + 1}`}`}
+                                            </Badge>
+                                        ))}
+                                    </div>
+
+                                    <div className="max-h-72 overflow-auto border rounded-lg">
+                                        <table className="w-full text-xs">
+                                            <thead className="sticky top-0 bg-slate-50">
+                                                <tr className="text-left text-slate-500">
+                                                    <th className="p-2">Row</th>
+                                                    {testResult.columns.map(column => (
+                                                        <th key={column.field} className="p-2 whitespace-nowrap">{column.label}</th>
+                                                    ))}
+                                                    <th className="p-2">Errors</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {testResult.rows.map(row => (
+                                                    <tr key={row.rowNumber} className={`border-t ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                                                        <td className="p-2 font-mono">{row.rowNumber}</td>
+                                                        {testResult.columns.map(column => (
+                                                            <td key={column.field} className="p-2 font-mono whitespace-nowrap">
+                                                                {row.values[column.field] ?? '—'}
+                                                            </td>
+                                                        ))}
+                                                        <td className="p-2 text-red-600">{row.errors.join('; ')}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    {testResult.totalRows > testResult.rows.length && (
+                                        <p className="text-xs text-slate-500">
+                                            Showing the first {testResult.rows.length} rows; counts cover the whole file.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="ghost" onClick={onClose} disabled={isSaving}>Cancel</Button>
+                    <Button
+                        className="bg-blue-600 hover:bg-blue-700"
+                        onClick={handleSave}
+                        disabled={isSaving || !mapping || mapping.fields.length === 0}
+                    >
+                        {isSaving ? 'Saving...' : 'Save Mapping'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+    Button,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/ui';
+import api from '@/lib/api';
+
+interface UserSession {
+    id: string;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+}
+
+interface UserSessionsDialogProps {
+    user: { id: string; email: string } | null;
+    onClose: () => void;
+}
+
+export default function UserSessionsDialog({ user, onClose }: UserSessionsDialogProps) {
+    const queryClient = useQueryClient();
+
+    const { data: sessions = [], isLoading } = useQuery({
+        queryKey: ['user-sessions', user?.id],
+        queryFn: async () => {
+            const response = await api.get(`/admin/users/${user!.id}/sessions`);
+            return response.data.sessions as UserSession[];
+        },
+        enabled: !!user,
+    });
+
+    const endSession = useMutation({
+        mutationFn: async (sessionId?: string) => {
+            await api.delete(sessionId ? `/admin/users/${user!.id}/sessions/${sessionId}` : `/admin/users/${user!.id}/sessions`);
+        },
+        onSuccess: (_, sessionId) => {
+            toast.success(sessionId ? 'Session ended' : `${user!.email} signed out everywhere`);
+            queryClient.invalidateQueries({ queryKey: ['user-sessions', user?.id] });
+        },
+        onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to end session'),
+    });
+
+    return (
+        <Dialog open={!!user} onOpenChange={onClose}>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Active sessions</DialogTitle>
+                    <DialogDescription>
+                        {user ? `Browsers ${user.email} is signed in on. Ending a session signs them out there at once.` : ' '}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Device</TableHead>
+                            <TableHead>Signed In</TableHead>
+                            <TableHead>Last Active</TableHead>
+                            <TableHead />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {isLoading ? (
+                            <TableRow>
+                                <TableCell colSpan={4} className="h-20 text-center text-slate-500">
+                                    Loading sessions...
+                                </TableCell>
+                            </TableRow>
+                        ) : sessions.length === 0 ? (
+                            <TableRow>
+                                <TableCell colSpan={4} className="h-20 text-center text-slate-500">
+                                    No active sessions
+                                </TableCell>
+                            </TableRow>
+                        ) : (
+                            sessions.map((session) => (
+                                <TableRow key={session.id}>
+                                    <TableCell>
+                                        <div className="text-sm max-w-xs truncate" title={session.userAgent ?? undefined}>
+                                            {session.userAgent || 'Unknown browser'}
+                                        </div>
+                                        <div className="text-xs text-slate-500">{session.ipAddress || '-'}</div>
+                                    </TableCell>
+                                    <TableCell className="text-sm text-slate-600">
+                                        {new Date(session.createdAt).toLocaleString()}
+                                    </TableCell>
+                                    <TableCell className="text-sm text-slate-600">
+                                        {new Date(session.lastUsedAt).toLocaleString()}
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            disabled={endSession.isPending}
+                                            onClick={() => endSession.mutate(session.id)}
+                                        >
+                                            Sign Out
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))
+                        )}
+                    </TableBody>
+                </Table>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={onClose}>
+                        Close
+                    </Button>
+                    <Button
+                        onClick={() => endSession.mutate(undefined)}
+                        disabled={sessions.length === 0 || endSession.isPending}
+                        className="bg-red-600 text-white hover:bg-red-700"
+                    >
+                        Sign Out Everywhere
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,14 +4,25 @@
 export { DealerTable } from './DealerTable'
 export { DealerForm } from './DealerForm'
 export { default as DealerDialog } from './DealerDialog'
+export { default as DealerPriceOverrides } from './DealerPriceOverrides'
 
 // User Management
 export { UserTable } from './UserTable'
 export { UserForm } from './UserForm'
+export { default as UserSessionsDialog } from './UserSessionsDialog'
+export { default as PasswordPolicyDialog } from './PasswordPolicyDialog'
 
 // Import Management
 export { ImportHistory } from './ImportHistory'
 export { ImportUpload } from './ImportUpload'
+export { default as ImportDiffDialog } from './ImportDiffDialog'
+export { default as TemplateMappingDialog } from './TemplateMappingDialog'
+
+// Orders
+export { default as OrderActionsMenu } from './OrderActionsMenu'
+
+// Email
+export { default as EmailLogDialog } from './EmailLogDialog'
 
 // Dashboard
 export { AdminDashboard } from './AdminDashboard'
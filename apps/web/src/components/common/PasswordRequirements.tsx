@@ -0,0 +1,55 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { Check, X } from 'lucide-react';
+import api from '@/lib/api';
+
+export interface PasswordPolicy {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    historyCount: number;
+}
+
+/**
+ * The password policy as a checklist, ticked off as `password` is typed.
+ * Reuse of earlier passwords can only be checked by the API, so it is listed without a tick.
+ */
+export function PasswordRequirements({ password }: { password: string }) {
+    const { data: policy } = useQuery({
+        queryKey: ['auth', 'password-policy'],
+        queryFn: async () => {
+            const response = await api.get('/auth/password-policy');
+            return response.data.policy as PasswordPolicy;
+        },
+        staleTime: 5 * 60 * 1000,
+    });
+
+    if (!policy) return null;
+
+    const rules = [
+        { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength },
+        ...(policy.requireUppercase ? [{ label: 'An uppercase letter', met: /[A-Z]/.test(password) }] : []),
+        ...(policy.requireLowercase ? [{ label: 'A lowercase letter', met: /[a-z]/.test(password) }] : []),
+        ...(policy.requireNumber ? [{ label: 'A number', met: /[0-9]/.test(password) }] : []),
+        ...(policy.requireSymbol ? [{ label: 'A symbol', met: /[^A-Za-z0-9]/.test(password) }] : []),
+    ];
+
+    return (
+        <ul className="space-y-1 text-sm">
+            {rules.map((rule) => (
+                <li key={rule.label} className={`flex items-center gap-2 ${rule.met ? 'text-green-700' : 'text-slate-500'}`}>
+                    {rule.met ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+                    {rule.label}
+                </li>
+            ))}
+            {policy.historyCount > 0 && (
+                <li className="text-slate-500 pl-6">Not one of your last {policy.historyCount} passwords</li>
+            )}
+        </ul>
+    );
+}
+
+export default PasswordRequirements;
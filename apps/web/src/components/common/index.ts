@@ -5,3 +5,4 @@ export { Footer } from './Footer'
 export { Sidebar } from './Sidebar'
 export { Loading } from './Loading'
 export { ErrorBoundary } from './ErrorBoundary'
+export { PasswordRequirements } from './PasswordRequirements'
@@ -0,0 +1,316 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/ui';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+
+type DealerUserRole = 'BUYER' | 'VIEWER' | 'APPROVER';
+
+interface AccountUser {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: DealerUserRole;
+  isPrimary: boolean;
+  isActive: boolean;
+  orderLimit: number | null;
+  lastLoginAt: string | null;
+  orderCount: number;
+  lastOrderAt: string | null;
+}
+
+const ROLE_LABELS: Record<DealerUserRole, string> = {
+  BUYER: 'Buyer',
+  VIEWER: 'Viewer',
+  APPROVER: 'Approver',
+};
+
+const ROLE_HINTS: Record<DealerUserRole, string> = {
+  BUYER: 'Can search, build carts and place orders',
+  VIEWER: 'Can search and view orders and backorders, but not order',
+  APPROVER: 'Can order and approve orders placed by colleagues',
+};
+
+const emptyInvite = { email: '', firstName: '', lastName: '', role: 'BUYER' as DealerUserRole };
+
+export function AccountUsersPanel() {
+  const queryClient = useQueryClient();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState(emptyInvite);
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['dealer-users'],
+    queryFn: async () => {
+      const response = await api.get('/dealer/users');
+      return response.data.users as AccountUser[];
+    },
+  });
+
+  const me = getUser();
+  const isPrimary = users.some((user) => user.id === me?.dealerUserId && user.isPrimary);
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await api.post('/dealer/users', {
+        email: invite.email.trim(),
+        firstName: invite.firstName.trim() || undefined,
+        lastName: invite.lastName.trim() || undefined,
+        role: invite.role,
+      });
+      return response.data as AccountUser;
+    },
+    onSuccess: (user) => {
+      toast.success(`Invitation sent to ${user.email}`);
+      setInviteOpen(false);
+      setInvite(emptyInvite);
+      queryClient.invalidateQueries({ queryKey: ['dealer-users'] });
+    },
+    onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to invite user'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<Pick<AccountUser, 'role' | 'isActive' | 'orderLimit'>> }) => {
+      const response = await api.patch(`/dealer/users/${id}`, changes);
+      return response.data as AccountUser;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dealer-users'] }),
+    onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to update user'),
+  });
+
+  const displayName = (user: AccountUser) =>
+    [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+
+  // Blank removes the limit
+  const saveOrderLimit = (user: AccountUser, value: string) => {
+    const orderLimit = value.trim() === '' ? null : Number(value);
+    if (orderLimit !== null && (Number.isNaN(orderLimit) || orderLimit < 0)) {
+      toast.error('Enter an amount, or leave blank for no limit');
+      return;
+    }
+    if (orderLimit === user.orderLimit) return;
+    updateMutation.mutate(
+      { id: user.id, changes: { orderLimit } },
+      { onSuccess: () => toast.success(`Order limit updated for ${displayName(user)}`) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Users</CardTitle>
+          <CardDescription>
+            Everyone who can sign in to this account, and the orders they have placed. Orders above a
+            limit wait for an approver.
+          </CardDescription>
+        </div>
+        {isPrimary && (
+          <Button onClick={() => setInviteOpen(true)} className="bg-blue-600 text-white hover:bg-blue-700">
+            <UserPlus className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Order Limit</TableHead>
+              <TableHead>Orders Placed</TableHead>
+              <TableHead>Last Sign-in</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center text-slate-500">
+                  Loading users...
+                </TableCell>
+              </TableRow>
+            ) : (
+              users.map((user) => (
+                <TableRow key={user.id} className={user.isActive ? undefined : 'opacity-60'}>
+                  <TableCell>
+                    <div className="text-sm font-semibold text-slate-900">{displayName(user)}</div>
+                    <div className="text-xs text-slate-500">{user.email}</div>
+                    <div className="mt-1 flex gap-1">
+                      {user.isPrimary && <Badge variant="outline">Primary</Badge>}
+                      {!user.isActive && <Badge variant="outline">Deactivated</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {isPrimary && !user.isPrimary ? (
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) =>
+                          updateMutation.mutate({ id: user.id, changes: { role: role as DealerUserRole } })
+                        }
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as DealerUserRole[]).map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-slate-700">
+                        {user.isPrimary ? 'Account owner' : ROLE_LABELS[user.role]}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isPrimary && !user.isPrimary ? (
+                      <Input
+                        key={`${user.id}-${user.orderLimit}`}
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        placeholder="No limit"
+                        defaultValue={user.orderLimit ?? ''}
+                        onBlur={(e) => saveOrderLimit(user, e.target.value)}
+                        className="w-32"
+                      />
+                    ) : (
+                      <span className="text-sm text-slate-700">
+                        {user.orderLimit === null ? 'No limit' : `GBP ${user.orderLimit.toFixed(2)}`}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-slate-700">
+                    {user.orderCount}
+                    {user.lastOrderAt && (
+                      <div className="text-xs text-slate-500">
+                        Last {new Date(user.lastOrderAt).toLocaleDateString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-slate-600">
+                    {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {isPrimary && !user.isPrimary && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={updateMutation.isPending}
+                        onClick={() => updateMutation.mutate({ id: user.id, changes: { isActive: !user.isActive } })}
+                      >
+                        {user.isActive ? 'Deactivate' : 'Reactivate'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite a colleague</DialogTitle>
+            <DialogDescription>They will be emailed a password to sign in with.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite-first-name">First name</Label>
+                <Input
+                  id="invite-first-name"
+                  value={invite.firstName}
+                  onChange={(e) => setInvite({ ...invite, firstName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite-last-name">Last name</Label>
+                <Input
+                  id="invite-last-name"
+                  value={invite.lastName}
+                  onChange={(e) => setInvite({ ...invite, lastName: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={invite.role} onValueChange={(role) => setInvite({ ...invite, role: role as DealerUserRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROLE_LABELS) as DealerUserRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500">{ROLE_HINTS[invite.role]}</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!invite.email.trim() || inviteMutation.isPending}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              {inviteMutation.isPending ? 'Sending...' : 'Send Invite'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
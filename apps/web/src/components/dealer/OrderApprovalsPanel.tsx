@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Input,
+  Label,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/ui';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+
+interface PendingOrderLine {
+  id: string;
+  productCodeSnapshot: string;
+  descriptionSnapshot: string;
+  qty: number;
+  unitPriceSnapshot: string;
+}
+
+interface PendingOrder {
+  id: string;
+  orderNo: string;
+  poRef: string | null;
+  currency: string;
+  total: string;
+  createdAt: string;
+  dealerUserId: string;
+  lines: PendingOrderLine[];
+  dealerUser: {
+    firstName: string | null;
+    lastName: string | null;
+    orderLimit: string | null;
+    user: { email: string };
+  };
+}
+
+interface AccountUser {
+  id: string;
+  role: 'BUYER' | 'VIEWER' | 'APPROVER';
+  isPrimary: boolean;
+}
+
+const placedBy = (order: PendingOrder) =>
+  [order.dealerUser.firstName, order.dealerUser.lastName].filter(Boolean).join(' ') || order.dealerUser.user.email;
+
+const money = (value: number | string) => Number(value).toFixed(2);
+
+/**
+ * Orders held over their placer's order limit. Only shown to approvers and the primary user.
+ */
+export function OrderApprovalsPanel() {
+  const queryClient = useQueryClient();
+  const me = getUser();
+  const [reviewing, setReviewing] = useState<PendingOrder | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [rejecting, setRejecting] = useState<PendingOrder | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['dealer-users'],
+    queryFn: async () => {
+      const response = await api.get('/dealer/users');
+      return response.data.users as AccountUser[];
+    },
+  });
+
+  const self = users.find((user) => user.id === me?.dealerUserId);
+  const canApprove = !!self && (self.isPrimary || self.role === 'APPROVER');
+
+  const { data: orders = [] } = useQuery({
+    queryKey: ['dealer-approvals'],
+    queryFn: async () => {
+      const response = await api.get('/dealer/approvals');
+      return response.data.orders as PendingOrder[];
+    },
+    enabled: canApprove,
+  });
+
+  const onDecided = (message: string) => {
+    toast.success(message);
+    setReviewing(null);
+    setRejecting(null);
+    setReason('');
+    queryClient.invalidateQueries({ queryKey: ['dealer-approvals'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (order: PendingOrder) => {
+      const lines = order.lines
+        .filter((line) => quantities[line.id] !== undefined && Number(quantities[line.id]) !== line.qty)
+        .map((line) => ({ lineId: line.id, qty: Number(quantities[line.id]) }));
+      await api.post(`/dealer/orders/${order.id}/approve`, { lines });
+      return order;
+    },
+    onSuccess: (order) => onDecided(`Order ${order.orderNo} approved`),
+    onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to approve order'),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (order: PendingOrder) => {
+      await api.post(`/dealer/orders/${order.id}/reject`, { reason: reason.trim() });
+      return order;
+    },
+    onSuccess: (order) => onDecided(`Order ${order.orderNo} rejected`),
+    onError: (error: any) => toast.error(error.response?.data?.message || 'Failed to reject order'),
+  });
+
+  if (!canApprove || orders.length === 0) return null;
+
+  const openReview = (order: PendingOrder) => {
+    setQuantities(Object.fromEntries(order.lines.map((line) => [line.id, String(line.qty)])));
+    setReviewing(order);
+  };
+
+  const reviewTotal = reviewing
+    ? reviewing.lines.reduce((sum, line) => sum + Number(line.unitPriceSnapshot) * Number(quantities[line.id] || 0), 0)
+    : 0;
+  const invalidQuantities = !!reviewing && reviewing.lines.some((line) => {
+    const qty = quantities[line.id] ?? '';
+    return qty.trim() === '' || !Number.isInteger(Number(qty)) || Number(qty) < 0 || Number(qty) > line.qty;
+  });
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader>
+        <CardTitle>Awaiting your approval</CardTitle>
+        <CardDescription>
+          These orders are over their buyer&apos;s order limit and will not be processed until approved
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Order</TableHead>
+              <TableHead>Placed By</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {orders.map((order) => (
+              <TableRow key={order.id}>
+                <TableCell>
+                  <div className="text-sm font-semibold text-slate-900">{order.orderNo}</div>
+                  <div className="text-xs text-slate-500">
+                    {new Date(order.createdAt).toLocaleString()}
+                    {order.poRef && ` • PO ${order.poRef}`}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-slate-700">
+                  {placedBy(order)}
+                  {order.dealerUser.orderLimit !== null && (
+                    <div className="text-xs text-slate-500">Limit {order.currency} {money(order.dealerUser.orderLimit)}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right text-sm font-semibold text-slate-900">
+                  {order.currency} {money(order.total)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {order.dealerUserId === me?.dealerUserId ? (
+                    <Badge variant="outline">Your order</Badge>
+                  ) : (
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setRejecting(order)}>
+                        Reject
+                      </Button>
+                      <Button size="sm" onClick={() => openReview(order)} className="bg-blue-600 text-white hover:bg-blue-700">
+                        Review
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Approve {reviewing?.orderNo}</DialogTitle>
+            <DialogDescription>
+              Lower quantities before approving if needed; set a line to 0 to remove it. Lowered parts are priced again for the new quantity, so a quantity-break price can change.
+            </DialogDescription>
+          </DialogHeader>
+          {reviewing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Part</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviewing.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      <div className="text-sm font-semibold text-slate-900">{line.productCodeSnapshot}</div>
+                      <div className="text-xs text-slate-500">{line.descriptionSnapshot}</div>
+                    </TableCell>
+                    <TableCell className="text-right text-sm">{money(line.unitPriceSnapshot)}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={line.qty}
+                        step={1}
+                        value={quantities[line.id] ?? ''}
+                        onChange={(e) => setQuantities({ ...quantities, [line.id]: e.target.value })}
+                        className="ml-auto w-24 text-right"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <div className="text-right text-sm font-semibold text-slate-900">
+            Total at ordered prices {reviewing?.currency} {money(reviewTotal)}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reviewing && approveMutation.mutate(reviewing)}
+              disabled={invalidQuantities || reviewTotal === 0 || approveMutation.isPending}
+              className="bg-blue-600 text-white hover:bg-blue-700"
+            >
+              {approveMutation.isPending ? 'Approving...' : 'Approve Order'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject {rejecting?.orderNo}</DialogTitle>
+            <DialogDescription>
+              {rejecting && placedBy(rejecting)} will be emailed the reason. A rejected order cannot be reopened.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Reason</Label>
+            <Input
+              id="reject-reason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => rejecting && rejectMutation.mutate(rejecting)}
+              disabled={!reason.trim() || rejectMutation.isPending}
+              className="bg-red-600 text-white hover:bg-red-700"
+            >
+              {rejectMutation.isPending ? 'Rejecting...' : 'Reject Order'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import { cn } from '@/lib/utils';
 interface ProductResultsTableProps {
   products: Product[];
   onAddToCart: (product: Product, quantity: number) => void;
+  onAddReplacement?: (replacement: Product, quantity: number, original: Product) => void;
   className?: string;
 }
 
@@ -34,10 +35,12 @@ interface ProductResultsTableProps {
  * - Qty Stepper
  * - Add to Cart button
  * - Expandable row for details (supersession, notes, image)
+ * - "Add replacement instead" for superseded parts
  */
 export function ProductResultsTable({
   products,
   onAddToCart,
+  onAddReplacement,
   className,
 }: ProductResultsTableProps) {
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
@@ -149,6 +152,11 @@ export function ProductResultsTable({
                           {product.jagAlt}
                         </Badge>
                       )}
+                      {product.supersededBy && (
+                        <Badge variant="outline" className="text-xs bg-amber-50 text-amber-700 border-amber-200">
+                          Superseded
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
 
@@ -249,6 +257,26 @@ export function ProductResultsTable({
                                   {product.supersededBy}
                                 </span>
                               </p>
+                              {product.supersessionChain && product.supersessionChain.length > 2 && (
+                                <p className="text-xs text-slate-500 mt-1">
+                                  {product.supersessionChain.join(' → ')}
+                                </p>
+                              )}
+                              {product.replacement && onAddReplacement && (
+                                <div className="flex items-center gap-3 mt-2">
+                                  <span className="text-sm font-semibold text-slate-900">
+                                    {formatCurrency(product.replacement.dealerPrice)}
+                                  </span>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => onAddReplacement(product.replacement!, quantity, product)}
+                                    disabled={product.replacement.availability === 'unknown'}
+                                  >
+                                    Add replacement instead
+                                  </Button>
+                                </div>
+                              )}
                             </div>
                           )}
 
@@ -16,6 +16,7 @@ import {
     LayoutDashboard,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
 import { useCart } from '@/hooks/useCart';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -49,9 +50,9 @@ export function ReferenceHeader() {
         }
     };
 
-    const handleLogout = () => {
-        // Clear auth and redirect
-        localStorage.removeItem('auth');
+    const handleLogout = async () => {
+        // End the session and redirect
+        await logout();
         router.push('/dealer/login');
     };
 
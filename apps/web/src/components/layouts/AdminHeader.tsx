@@ -18,6 +18,7 @@ import {
   LayoutDashboard,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -67,7 +68,8 @@ export function AdminHeader({
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await logout();
     router.push('/admin/login');
   };
 
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Search, ShoppingCart, HelpCircle, User, LogOut, Menu } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -55,8 +56,8 @@ export function DealerHeader({
     }
   };
 
-  const handleLogout = () => {
-    // TODO: Implement proper logout
+  const handleLogout = async () => {
+    await logout();
     router.push('/dealer/login');
   };
 
@@ -14,6 +14,7 @@ import {
   LogOut,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
@@ -66,7 +67,8 @@ export function ReferenceHeader({
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await logout();
     router.push('/dealer/login');
   };
 
@@ -11,6 +11,7 @@ import {
   LogOut,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { logout } from '@/lib/api';
 
 interface SideNavProps {
   onNavigate?: () => void;
@@ -31,8 +32,8 @@ export function SideNav({ onNavigate }: SideNavProps) {
     return pathname === href || pathname.startsWith(href + '/');
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('auth');
+  const handleLogout = async () => {
+    await logout();
     router.push('/dealer/login');
   };
 
@@ -2,23 +2,25 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
 import { LayoutGrid, Users, FileText, Upload, Settings } from 'lucide-react';
 
 const adminNav = [
-  { label: 'Dashboard', href: '/admin', icon: LayoutGrid },
-  { label: 'Dealers', href: '/admin/dealers', icon: Users },
-  { label: 'Orders', href: '/admin/orders', icon: FileText },
-  { label: 'Imports', href: '/admin/imports', icon: Upload },
-  { label: 'Settings', href: '/admin/settings', icon: Settings },
+  { label: 'Dashboard', href: '/admin', icon: LayoutGrid, permission: 'dashboard.read' },
+  { label: 'Dealers', href: '/admin/dealers', icon: Users, permission: 'dealers.read' },
+  { label: 'Orders', href: '/admin/orders', icon: FileText, permission: 'orders.read' },
+  { label: 'Imports', href: '/admin/imports', icon: Upload, permission: 'pricing.read' },
+  { label: 'Settings', href: '/admin/settings', icon: Settings, permission: 'settings.manage' },
 ];
 
 export function AdminBottomNav() {
   const pathname = usePathname();
+  const { can } = useAdminPermissions();
 
   return (
     <nav className="lg:hidden fixed bottom-0 inset-x-0 border-t border-slate-200 bg-white/95 backdrop-blur z-40">
       <div className="grid grid-cols-5 gap-1 px-2 py-2">
-        {adminNav.map((item) => {
+        {adminNav.filter((item) => can(item.permission)).map((item) => {
           const isActive = pathname.startsWith(item.href);
           return (
             <Link
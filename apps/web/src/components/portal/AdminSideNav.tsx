@@ -2,28 +2,35 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutGrid, Users, Package, FileText, Upload, Settings, Shield } from 'lucide-react';
+import { useAdminPermissions } from '@/hooks/useAdminPermissions';
+import { LayoutGrid, Users, Package, FileText, Upload, Settings, Shield, Send, History, Mail, Inbox } from 'lucide-react';
 
+// Each screen is shown to admins whose role grants its permission
 const adminNav = [
-  { label: 'Dashboard', href: '/admin', icon: LayoutGrid },
-  { label: 'Dealers', href: '/admin/dealers', icon: Users },
-  { label: 'Users', href: '/admin/users', icon: Shield },
-  { label: 'Products', href: '/admin/products', icon: Package },
-  { label: 'Orders', href: '/admin/orders', icon: FileText },
-  { label: 'Imports', href: '/admin/imports', icon: Upload },
-  { label: 'Templates', href: '/admin/templates', icon: Upload },
-  { label: 'Settings', href: '/admin/settings', icon: Settings },
+  { label: 'Dashboard', href: '/admin', icon: LayoutGrid, permission: 'dashboard.read' },
+  { label: 'Dealers', href: '/admin/dealers', icon: Users, permission: 'dealers.read' },
+  { label: 'Users', href: '/admin/users', icon: Shield, permission: 'users.manage' },
+  { label: 'Products', href: '/admin/products', icon: Package, permission: 'pricing.read' },
+  { label: 'Orders', href: '/admin/orders', icon: FileText, permission: 'orders.read' },
+  { label: 'ERP Exports', href: '/admin/erp-exports', icon: Send, permission: 'orders.read' },
+  { label: 'Imports', href: '/admin/imports', icon: Upload, permission: 'pricing.read' },
+  { label: 'Backorders', href: '/admin/backorders', icon: History, permission: 'orders.read' },
+  { label: 'Templates', href: '/admin/templates', icon: Upload, permission: 'pricing.read' },
+  { label: 'Email Templates', href: '/admin/email-templates', icon: Mail, permission: 'emails.read' },
+  { label: 'Email Log', href: '/admin/email-logs', icon: Inbox, permission: 'emails.read' },
+  { label: 'Settings', href: '/admin/settings', icon: Settings, permission: 'settings.manage' },
 ];
 
 export function AdminSideNav() {
   const pathname = usePathname();
+  const { can } = useAdminPermissions();
 
   return (
     <aside className="hidden lg:flex lg:flex-col lg:w-60 lg:shrink-0">
       <div className="rounded-2xl border border-slate-200 bg-white shadow-sm p-4">
         <div className="text-xs font-semibold uppercase text-slate-400 px-3 py-2">Admin</div>
         <nav className="mt-2 space-y-1">
-          {adminNav.map((item) => {
+          {adminNav.filter((item) => can(item.permission)).map((item) => {
             const isActive = pathname === item.href || (item.href !== '/admin' && pathname?.startsWith(item.href));
             return (
               <Link
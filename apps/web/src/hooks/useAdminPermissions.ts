@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import api from '@/lib/api';
+
+/**
+ * Permissions granted by the signed-in admin's role. Empty until loaded, so gated screens stay hidden rather than flash.
+ */
+export function useAdminPermissions() {
+    const { data: permissions = [], isLoading } = useQuery<string[]>({
+        queryKey: ['auth', 'permissions'],
+        queryFn: async () => {
+            const response = await api.get('/auth/me');
+            return response.data.permissions ?? [];
+        },
+        staleTime: 5 * 60 * 1000,
+    });
+
+    return {
+        permissions,
+        isLoading,
+        can: (permission: string) => permissions.includes(permission),
+    };
+}
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { getRefreshToken, removeAuthToken, setAuthToken, setRefreshToken } from './auth';
 
 const api = axios.create({
     baseURL: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001',
@@ -12,4 +13,75 @@ api.interceptors.request.use((config) => {
     return config;
 });
 
+// One refresh at a time; requests that fail together all wait for it
+let refreshing: Promise<string | null> | null = null;
+
+// Also used before retrying server actions, which are sent the access token rather than going through axios
+export const refreshAccessToken = (): Promise<string | null> => {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return Promise.resolve(null);
+
+    refreshing ??= api
+        .post('/auth/refresh', { refreshToken })
+        .then((response) => {
+            setAuthToken(response.data.token);
+            setRefreshToken(response.data.refreshToken);
+            return response.data.token as string;
+        })
+        .catch(() => {
+            removeAuthToken();
+            return null;
+        })
+        .finally(() => {
+            refreshing = null;
+        });
+    return refreshing;
+};
+
+// Matches PASSWORD_CHANGE_REQUIRED in the API: the user still has an admin-generated password
+const PASSWORD_CHANGE_REQUIRED = 'Password change required';
+
+// Sign-in routes answer 401 for bad credentials, so only change-password is retried after a refresh
+const canRefresh = (url?: string) => !url?.startsWith('/auth/') || url === '/auth/change-password';
+
+// An expired access token is renewed with the refresh token and the request retried once;
+// when the session itself has ended the user is sent back to sign in
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const request = error.config as (InternalAxiosRequestConfig & { retried?: boolean }) | undefined;
+    if (error.response?.status === 403 && (error.response.data as { message?: string })?.message === PASSWORD_CHANGE_REQUIRED) {
+        if (typeof window !== 'undefined' && !window.location.pathname.endsWith('/change-password')) {
+            window.location.href = '/change-password';
+        }
+        throw error;
+    }
+    if (error.response?.status !== 401 || !request || request.retried || !canRefresh(request.url)) {
+        throw error;
+    }
+
+    const token = await refreshAccessToken();
+    if (!token) {
+        if (typeof window !== 'undefined' && !window.location.pathname.endsWith('/login')) {
+            window.location.href = '/login';
+        }
+        throw error;
+    }
+
+    request.retried = true;
+    request.headers.Authorization = `Bearer ${token}`;
+    return api(request);
+});
+
+/**
+ * End the session on the API as well as in this browser
+ */
+export async function logout(): Promise<void> {
+    const refreshToken = getRefreshToken();
+    try {
+        await api.post('/auth/logout', refreshToken ? { refreshToken } : {});
+    } catch {
+        // Signed out locally regardless
+    }
+    removeAuthToken();
+}
+
 export default api;
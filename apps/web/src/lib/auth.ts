@@ -5,11 +5,21 @@ export interface User {
     adminRole?: 'SUPER_ADMIN' | 'ADMIN' | 'OPS';
     dealerAccountId?: string;
     dealerUserId?: string;
+    sessionId?: string;
+    mustChangePassword?: boolean; // Signed in with an admin-generated password; see app/(auth)/change-password
 }
 
 export const getAuthToken = () => typeof window !== 'undefined' ? localStorage.getItem('token') : null;
 export const setAuthToken = (token: string) => localStorage.setItem('token', token);
-export const removeAuthToken = () => localStorage.removeItem('token');
+
+// Renews the short-lived access token (see lib/api); rotated by the API on every use
+export const getRefreshToken = () => typeof window !== 'undefined' ? localStorage.getItem('refreshToken') : null;
+export const setRefreshToken = (refreshToken: string) => localStorage.setItem('refreshToken', refreshToken);
+
+export const removeAuthToken = () => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+};
 
 export const decodeJwtPayload = (token: string): User | null => {
     try {
@@ -1,109 +1,66 @@
 import prisma from '../lib/prisma';
-import { erpConnector } from './erpConnector';
-import { OrderStatus, PartType } from '@prisma/client';
+import { EdiOrderService, OrderPipeline, OrderSource } from '@hotbray/domain-orders';
 
 export interface OrderInput {
-    dealerAccountId: string;
-    dealerUserId: string;
-    source: 'WEB' | 'ADMIN' | 'EDI';
+    dealerAccountId: string; // Account id or account number
+    dealerUserId?: string;
+    source: OrderSource;
+    poRef?: string;
+    notes?: string;
     items: Array<{
         productCode: string;
         qty: number;
     }>;
 }
 
+const orderPipeline = OrderPipeline.create(prisma);
+const ediOrders = new EdiOrderService(prisma, orderPipeline);
+
 export class OrderEngine {
     async createOrder(input: OrderInput) {
         console.log(`📦 [Order Engine] Processing order from ${input.source} for dealer ${input.dealerAccountId}`);
 
-        // 1. Validation Logic
-        const validatedLines = [];
-        let orderTotal = 0;
-
-        for (const item of input.items) {
-            // Find product in local DB (nightly-synced replica simulation)
-            const product = await prisma.product.findUnique({
-                where: { productCode: item.productCode },
-                include: {
-                    refPrice: true,
-                    stock: true
-                }
-            });
-
-            if (!product) {
-                throw new Error(`Invalid SKU: ${item.productCode}`);
-            }
-
-            if (product.stock && product.stock.freeStock < item.qty) {
-                console.warn(`⚠️ [Order Engine] Short stock for ${item.productCode}: requested ${item.qty}, only ${product.stock.freeStock} available.`);
-            }
-
-            // Calculate price (simplified for now, usually uses PriceBand logic)
-            const unitPrice = product.refPrice?.tradePrice || 0;
-            const amount = unitPrice * item.qty;
-            orderTotal += amount;
-
-            validatedLines.push({
-                productId: product.id,
-                productCodeSnapshot: product.productCode,
-                descriptionSnapshot: product.description,
-                partTypeSnapshot: product.partType,
-                qty: item.qty,
-                unitPriceSnapshot: unitPrice,
-                bandCodeSnapshot: 'DEFAULT'
-            });
+        const dealer = await prisma.dealerAccount.findFirst({
+            where: { OR: [{ id: input.dealerAccountId }, { accountNo: input.dealerAccountId }] },
+            select: { id: true }
+        });
+        if (!dealer) {
+            throw new Error(`Unknown dealer account: ${input.dealerAccountId}`);
         }
 
-        // 2. Persist Locally (Pre-Validation Success)
-        const orderNo = `ORD-${Date.now()}`;
-        const order = await prisma.orderHeader.create({
-            data: {
-                orderNo,
-                dealerAccountId: input.dealerAccountId,
-                dealerUserId: input.dealerUserId,
-                status: OrderStatus.PROCESSING,
-                total: orderTotal,
-                lines: {
-                    create: validatedLines
-                }
-            },
-            include: {
-                lines: true
-            }
+        // Validate, price and persist through the shared order pipeline (same rules as dealer checkout).
+        // The pipeline queues the ERP export in the same transaction; the worker sends it.
+        const order = await orderPipeline.placeOrder({
+            source: input.source,
+            dealerAccountId: dealer.id,
+            dealerUserId: input.dealerUserId,
+            poRef: input.poRef,
+            notes: input.notes,
+            lines: input.items.map(item => ({ productCode: item.productCode, qty: item.qty }))
         });
 
-        // 3. Push to ERP "Suspended" State
-        try {
-            const erpResult = await erpConnector.pushToSuspended(order);
-
-            // Update local record with ERP reference
-            await prisma.orderHeader.update({
-                where: { id: order.id },
-                data: {
-                    status: OrderStatus.COMPLETED, // Map to completed when ERP accepts
-                    comments: `ERP Synced: ${erpResult.erpReference}`
-                }
-            });
-
-            return {
-                success: true,
-                orderNo,
-                erpReference: erpResult.erpReference
-            };
-        } catch (error: any) {
-            console.error(`❌ [Order Engine] ERP sync failed for ${orderNo}:`, error.message);
+        return {
+            success: true,
+            orderId: order.id,
+            orderNo: order.orderNo,
+            total: Number(order.total)
+        };
+    }
 
-            // Keep as processing or update to failed
-            await prisma.orderHeader.update({
-                where: { id: order.id },
-                data: {
-                    status: OrderStatus.PENDING,
-                    comments: `Sync Failed: ${error.message}`
-                }
-            });
+    /**
+     * EDIFACT ORDERS / X12 850 in, functional acknowledgement and order response out
+     */
+    async ingestEdi(document: string, dealerAccountId?: string) {
+        const result = await ediOrders.ingest(document, { dealerAccountId });
+        console.log(`📦 [Order Engine] ${result.format} purchase order ${result.poNumber ?? '(rejected)'} -> ${result.order?.orderNo ?? 'no order'}`);
 
-            throw new Error(`Order validated but ERP sync failed: ${error.message}`);
-        }
+        return {
+            format: result.format,
+            orderNo: result.order?.orderNo ?? null,
+            status: result.response?.status ?? 'REJECTED',
+            acknowledgement: result.acknowledgement,
+            orderResponse: result.orderResponse
+        };
     }
 }
 
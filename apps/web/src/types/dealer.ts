@@ -39,6 +39,8 @@ export interface Product {
   eta?: string;          // Expected arrival date
   quantityAvailable?: number;
   supersededBy?: string; // Supersession info
+  supersessionChain?: string[]; // Original -> ... -> current replacement
+  replacement?: Product; // Current replacement, priced for the dealer
   notes?: string;
   imageUrl?: string;
 }
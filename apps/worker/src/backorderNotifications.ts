@@ -0,0 +1,105 @@
+import { PrismaClient, BackorderLine, DealerStatus } from 'db';
+import { BackorderLineDiff, BackorderRules } from 'rules';
+import { BackorderStockLine, EmailService } from 'shared';
+
+export interface BackorderNotificationResult {
+    accounts: number;
+    emailsQueued: number;
+    emailsSuppressed: number; // Recipients suppressed after repeated delivery failures
+}
+
+/**
+ * Email each dealer's opted-in users a digest of backordered lines that now have stock in the warehouse.
+ * BUSINESS RULES:
+ * 1. A line qualifies when its in-warehouse qty rose since the previous dataset
+ * 2. ...and is above the highest qty already emailed for it (BackorderNotification), so a line is
+ *    not announced twice for the same stock across imports
+ * 3. When a line clears or its in-warehouse qty drops to zero, its record is dropped and the next arrival is emailed
+ * 4. Lines are only recorded as notified once at least one email for the account was queued (not suppressed)
+ */
+export async function notifyBackorderStock(
+    prisma: PrismaClient,
+    previousDatasetId: string | null,
+    datasetId: string,
+    emailService: EmailService = new EmailService(prisma)
+): Promise<BackorderNotificationResult> {
+    const result: BackorderNotificationResult = { accounts: 0, emailsQueued: 0, emailsSuppressed: 0 };
+    if (!previousDatasetId) return result; // First import: nothing to compare with
+
+    const [previous, current] = await Promise.all([
+        prisma.backorderLine.findMany({ where: { datasetId: previousDatasetId } }),
+        prisma.backorderLine.findMany({ where: { datasetId }, orderBy: [{ ourNo: 'asc' }, { itemNo: 'asc' }] })
+    ]);
+
+    // 1. Split the diff into arrivals and resets, per account
+    const arrivals = new Map<string, BackorderLineDiff<BackorderLine>[]>();
+    const resets = new Map<string, string[]>();
+    for (const entry of BackorderRules.diff(previous, current)) {
+        const accountNo = (entry.current ?? entry.previous)!.accountNo;
+
+        if (!entry.current || entry.current.inWh <= 0) {
+            resets.set(accountNo, [...(resets.get(accountNo) ?? []), entry.key]);
+        } else if (entry.inWhDelta > 0) {
+            arrivals.set(accountNo, [...(arrivals.get(accountNo) ?? []), entry]);
+        }
+    }
+
+    for (const [accountNo, lineKeys] of resets) {
+        await prisma.backorderNotification.deleteMany({ where: { accountNo, lineKey: { in: lineKeys } } });
+    }
+
+    // 2. One digest per opted-in user of each account with new stock
+    for (const [accountNo, entries] of arrivals) {
+        const notified = await prisma.backorderNotification.findMany({
+            where: { accountNo, lineKey: { in: entries.map(e => e.key) } }
+        });
+        const notifiedInWh = new Map(notified.map(n => [n.lineKey, n.notifiedInWh]));
+        const fresh = entries.filter(e => e.current!.inWh > (notifiedInWh.get(e.key) ?? 0));
+        if (fresh.length === 0) continue;
+
+        const account = await prisma.dealerAccount.findUnique({
+            where: { accountNo },
+            include: {
+                users: {
+                    where: { notifyBackorderStock: true, isActive: true, user: { isActive: true } },
+                    include: { user: { select: { email: true } } }
+                }
+            }
+        });
+        if (!account || account.status !== DealerStatus.ACTIVE || account.users.length === 0) continue;
+
+        const lines: BackorderStockLine[] = fresh.map(e => ({
+            ourNo: e.current!.ourNo,
+            yourOrderNo: e.current!.yourOrderNo,
+            part: e.current!.part,
+            description: e.current!.description,
+            qtyOutstanding: e.current!.qtyOutstanding,
+            inWh: e.current!.inWh
+        }));
+
+        let queued = 0;
+        for (const dealerUser of account.users) {
+            const ok = await emailService.sendBackorderStockDigest(
+                dealerUser.user.email,
+                dealerUser.firstName || 'there',
+                account.companyName,
+                lines
+            );
+            if (ok) queued++;
+            else result.emailsSuppressed++;
+        }
+        result.emailsQueued += queued;
+        if (queued === 0) continue;
+
+        result.accounts++;
+        for (const entry of fresh) {
+            await prisma.backorderNotification.upsert({
+                where: { accountNo_lineKey: { accountNo, lineKey: entry.key } },
+                update: { notifiedInWh: entry.current!.inWh, datasetId, notifiedAt: new Date() },
+                create: { accountNo, lineKey: entry.key, notifiedInWh: entry.current!.inWh, datasetId }
+            });
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,19 @@
+import { PrismaClient } from 'db';
+
+// Housekeeping runs between import jobs, at most this often
+const HOUSEKEEPING_INTERVAL_MS = parseInt(process.env.HOUSEKEEPING_INTERVAL_MS || String(60 * 60 * 1000), 10);
+
+let lastRunAt = 0;
+
+/**
+ * Delete idempotency keys past their expiry; the portal only replays responses within the key's lifetime
+ */
+export async function runHousekeeping(prisma: PrismaClient, now: Date = new Date()): Promise<void> {
+    if (now.getTime() - lastRunAt < HOUSEKEEPING_INTERVAL_MS) return;
+    lastRunAt = now.getTime();
+
+    const { count } = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } });
+    if (count > 0) {
+        console.log(`🧹 Purged ${count} expired idempotency key(s)`);
+    }
+}
@@ -1,226 +1,182 @@
+import { ImportType, ImportStatus, BackorderRetentionService } from 'db';
+import { notifyBackorderStock } from './backorderNotifications';
+import { ImportJobContext, PROGRESS_INTERVAL, readMappedFile, runFromCli, toRawRowJson } from './importJob';
 
-import * as dotenv from 'dotenv';
-import * as path from 'path';
-dotenv.config({ path: path.resolve(__dirname, '../../../packages/db/.env') });
-import { Pool } from 'pg';
-import { PrismaPg } from '@prisma/adapter-pg';
-import { PrismaClient, ImportType, ImportStatus, Prisma } from '@prisma/client';
-import { z } from 'zod';
-import * as fs from 'fs';
-import { parse } from 'csv-parse/sync';
-
-// Arg parsing
-const args = process.argv.slice(2);
-const fileArg = args.find(a => a.startsWith('--file='));
-
-if (!fileArg) {
-    console.error('Usage: ts-node src/importBackorders.ts --file=<path>');
-    process.exit(1);
-}
+export async function importBackorders(ctx: ImportJobContext) {
+    const { prisma, batchId, filePath, progress } = ctx;
+    console.log(`Starting backorder import from ${filePath}`);
 
-const filePathInput = fileArg.split('=')[1] as string;
-const absoluteFilePath = path.resolve(process.cwd(), filePathInput);
+    // 1. Parse file through the batch's column mapping
+    const { rules, columns, headers, rows, firstRowNumber } = await readMappedFile(ctx, 'BACKORDERS');
 
-if (!fs.existsSync(absoluteFilePath)) {
-    console.error(`File not found: ${absoluteFilePath}`);
-    process.exit(1);
-}
+    console.log(`Found ${rows.length} rows`);
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { totalRows: rows.length }
+    });
+
+    let validCount = 0;
+    let invalidCount = 0;
+
+    // 2. Process & Stage Rows
+    for (let i = 0; i < rows.length; i++) {
+        const raw = toRawRowJson(headers, rows[i]);
+        const rowFn = i + firstRowNumber;
+
+        // Column names, transforms and validation come from the template (or the built-in headers)
+        const { values, errors } = rules.mapRow(rows[i], columns);
+        const mapped: any = {
+            batchId,
+            rowNumber: rowFn,
+            accountNo: values.accountNo,
+            customerName: values.customerName,
+            yourOrderNo: values.yourOrderNo,
+            ourNo: values.ourNo,
+            itemNo: values.itemNo ?? String(i), // Files without item numbers fall back to the row position
+            part: values.part,
+            description: values.description,
+            qtyOrdered: values.qtyOrdered,
+            qtyOutstanding: values.qtyOutstanding,
+            inWh: values.inWh,
+            rawRowJson: raw
+        };
+
+        const isValid = errors.length === 0;
+        const validationErrors = isValid ? null : errors.join(', ');
+
+        await prisma.stgBackorderRow.create({
+            data: {
+                ...mapped,
+                isValid,
+                validationErrors
+            }
+        });
 
-// DB Setup
-const connectionString = process.env.DATABASE_URL!;
-const pool = new Pool({ connectionString });
-const adapter = new PrismaPg(pool);
-const prisma = new PrismaClient({ adapter });
-
-// Zod Schema
-const BackorderRowSchema = z.object({
-    accountNo: z.string().min(1),
-    ourNo: z.string().min(1),
-    itemNo: z.string().min(1),
-    part: z.string().min(1),
-    qtyOrdered: z.number().int().min(0).optional(),
-    qtyOutstanding: z.number().int().min(0).optional()
-});
-
-async function main() {
-    console.log(`Starting backorder import from ${absoluteFilePath}`);
-
-    const fileContent = fs.readFileSync(absoluteFilePath, 'utf-8');
-    const fileHash = 'hash_' + Date.now();
-
-    // 1. Create ImportBatch
-    const batch = await prisma.importBatch.create({
-        data: {
-            importType: ImportType.BACKORDERS,
-            fileName: path.basename(absoluteFilePath),
-            filePath: absoluteFilePath,
-            fileHash,
-            status: ImportStatus.PROCESSING
+        if (isValid) {
+            validCount++;
+        } else {
+            invalidCount++;
+            await prisma.importError.create({
+                data: {
+                    batchId,
+                    rowNumber: rowFn,
+                    errorMessage: validationErrors || 'Unknown error',
+                    rawRowJson: raw
+                }
+            });
         }
-    });
 
-    try {
-        // 2. Parse CSV
-        const rows = parse(fileContent, {
-            columns: true, // Auto-discover headers
-            skip_empty_lines: true,
-            trim: true
-        }) as any[];
+        if ((i + 1) % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: i + 1, validRows: validCount, invalidRows: invalidCount });
+        }
+    }
 
-        console.log(`Found ${rows.length} rows`);
-        await prisma.importBatch.update({
-            where: { id: batch.id },
-            data: { totalRows: rows.length }
-        });
+    await progress({ processedRows: rows.length, validRows: validCount, invalidRows: invalidCount });
 
-        let validCount = 0;
-        let invalidCount = 0;
-
-        // 3. Process & Stage Rows
-        for (let i = 0; i < rows.length; i++) {
-            const raw = rows[i];
-            const rowFn = i + 2; // +1 for 0-index, +1 for header
-
-            // Map keys based on sample CSV headers: 'Account', 'Order No', 'Part No', 'Qty Ordered', 'Qty Outstanding'
-            // Need to map consistent with StgBackorderRow fields
-            const mapped: any = {
-                batchId: batch.id,
-                rowNumber: rowFn,
-                accountNo: raw['Account No'] || raw['Account'],
-                customerName: raw['Customer Name'], // Optional in sample
-                yourOrderNo: raw['Your Order No'], // Optional
-                ourNo: raw['Our No'] || raw['Order No'], // Support both column names
-                itemNo: raw['Itm'] || raw['Item No'] || String(i),
-                part: raw['Part'] || raw['Part No'],
-                description: raw['Descriptio'] || raw['Description'],
-                qtyOrdered: (raw['Q Ord'] || raw['Qty Ordered']) ? parseInt(raw['Q Ord'] || raw['Qty Ordered'], 10) : 0,
-                qtyOutstanding: (raw['Q/O'] || raw['Qty Outstanding']) ? parseInt(raw['Q/O'] || raw['Qty Outstanding'], 10) : 0,
-                inWh: (raw['In WH'] || raw['In Wh']) ? parseInt(raw['In WH'] || raw['In Wh'], 10) : 0,
-                rawRowJson: raw
-            };
-
-            const validation = BackorderRowSchema.safeParse(mapped);
-            let isValid = validation.success;
-            let validationErrors: string | null = null;
-            if (!validation.success) {
-                validationErrors = validation.error.issues.map(i => i.message).join(', ');
+    // 3. Decision Logic
+    if (invalidCount > 0) {
+        console.warn(`Batch failed due to ${invalidCount} invalid rows.`);
+        await prisma.importBatch.update({
+            where: { id: batchId },
+            data: {
+                status: ImportStatus.FAILED,
+                validRows: validCount,
+                invalidRows: invalidCount,
+                completedAt: new Date()
             }
+        });
+        // Do NOT touch BackorderDataset
+    } else {
+        // All Valid -> Transactional Swap
+        console.log('All rows valid. Performing transactional swap of BackorderDataset.');
+
+        const { datasetId, previousDatasetId } = await prisma.$transaction(async (tx) => {
+            // 1. Deactivate old, remembering it for the stock notifications
+            const previousDataset = await tx.backorderDataset.findFirst({ where: { isActive: true }, select: { id: true } });
+            await tx.backorderDataset.updateMany({
+                where: { isActive: true },
+                data: { isActive: false }
+            });
 
-            await prisma.stgBackorderRow.create({
+            // 2. Create new dataset
+            const dataset = await tx.backorderDataset.create({
                 data: {
-                    ...mapped,
-                    isValid,
-                    validationErrors
+                    batchId,
+                    status: ImportStatus.SUCCEEDED,
+                    isActive: true,
                 }
             });
 
-            if (isValid) {
-                validCount++;
-            } else {
-                invalidCount++;
-                await prisma.importError.create({
+            // 3. Insert Lines from Staging
+            // Efficiency: In a real app we might use `insert into ... select ...` SQL. 
+            // For Prisma, we iterate.
+            const stagingRows = await tx.stgBackorderRow.findMany({
+                where: { batchId }
+            });
+
+            for (const row of stagingRows) {
+                await tx.backorderLine.create({
                     data: {
-                        batchId: batch.id,
-                        rowNumber: rowFn,
-                        errorMessage: validationErrors || 'Unknown error',
-                        rawRowJson: raw as any
+                        datasetId: dataset.id,
+                        accountNo: row.accountNo!,
+                        customerName: row.customerName,
+                        yourOrderNo: row.yourOrderNo,
+                        ourNo: row.ourNo!,
+                        itemNo: row.itemNo!,
+                        part: row.part!,
+                        description: row.description,
+                        qtyOrdered: row.qtyOrdered || 0,
+                        qtyOutstanding: row.qtyOutstanding || 0,
+                        inWh: row.inWh || 0
                     }
                 });
             }
-        }
 
-        // 4. Decision Logic
-        if (invalidCount > 0) {
-            console.warn(`Batch failed due to ${invalidCount} invalid rows.`);
-            await prisma.importBatch.update({
-                where: { id: batch.id },
+            // 4. Mark Batch Succeeded
+            await tx.importBatch.update({
+                where: { id: batchId },
                 data: {
-                    status: ImportStatus.FAILED,
+                    status: ImportStatus.SUCCEEDED,
                     validRows: validCount,
-                    invalidRows: invalidCount,
+                    invalidRows: 0,
                     completedAt: new Date()
                 }
             });
-            // Do NOT touch BackorderDataset
-        } else {
-            // All Valid -> Transactional Swap
-            console.log('All rows valid. Performing transactional swap of BackorderDataset.');
-
-            await prisma.$transaction(async (tx) => {
-                // 1. Deactivate old
-                await tx.backorderDataset.updateMany({
-                    where: { isActive: true },
-                    data: { isActive: false }
-                });
 
-                // 2. Create new dataset
-                const dataset = await tx.backorderDataset.create({
-                    data: {
-                        batchId: batch.id,
-                        status: ImportStatus.SUCCEEDED,
-                        isActive: true,
-                    }
-                });
-
-                // 3. Insert Lines from Staging
-                // Efficiency: In a real app we might use `insert into ... select ...` SQL. 
-                // For Prisma, we iterate.
-                const stagingRows = await tx.stgBackorderRow.findMany({
-                    where: { batchId: batch.id }
-                });
-
-                for (const row of stagingRows) {
-                    await tx.backorderLine.create({
-                        data: {
-                            datasetId: dataset.id,
-                            accountNo: row.accountNo!,
-                            customerName: row.customerName,
-                            yourOrderNo: row.yourOrderNo,
-                            ourNo: row.ourNo!,
-                            itemNo: row.itemNo!,
-                            part: row.part!,
-                            description: row.description,
-                            qtyOrdered: row.qtyOrdered || 0,
-                            qtyOutstanding: row.qtyOutstanding || 0,
-                            inWh: row.inWh || 0
-                        }
-                    });
-                }
+            return { datasetId: dataset.id, previousDatasetId: previousDataset?.id ?? null };
+        });
 
-                // 4. Mark Batch Succeeded
-                await tx.importBatch.update({
-                    where: { id: batch.id },
-                    data: {
-                        status: ImportStatus.SUCCEEDED,
-                        validRows: validCount,
-                        invalidRows: 0,
-                        completedAt: new Date()
-                    }
-                });
-            });
+        console.log('Backorder import transaction completed successfully.');
 
-            console.log('Backorder import transaction completed successfully.');
+        // 5. Tell dealers about stock that arrived; the import has succeeded either way
+        try {
+            const notified = await notifyBackorderStock(prisma, previousDatasetId, datasetId);
+            if (notified.emailsQueued + notified.emailsSuppressed > 0) {
+                console.log(`📧 Backorder stock digests: ${notified.emailsQueued} queued, ${notified.emailsSuppressed} suppressed across ${notified.accounts} account(s)`);
+            }
+        } catch (error: any) {
+            console.error('Backorder stock notifications failed:', error);
         }
 
-    } catch (e: any) {
-        console.error('Import failed', e);
-        await prisma.importBatch.update({
-            where: { id: batch.id },
-            data: {
-                status: ImportStatus.FAILED,
-                completedAt: new Date()
-            }
-        });
-        process.exit(1);
+        // 6. Prune history beyond the retention setting, outside the swap so a failure can't undo the import
+        const pruned = await new BackorderRetentionService(prisma).prune();
+        if (pruned > 0) {
+            console.log(`🧹 Pruned ${pruned} old backorder dataset(s)`);
+        }
     }
+
 }
 
-main()
-    .catch(e => {
-        console.error(e);
+if (require.main === module) {
+    const fileArg = process.argv.slice(2).find(a => a.startsWith('--file='));
+    const templateArg = process.argv.slice(2).find(a => a.startsWith('--template='));
+
+    if (!fileArg) {
+        console.error('Usage: ts-node src/importBackorders.ts --file=<path> [--template=<name>]');
         process.exit(1);
-    })
-    .finally(async () => {
-        await prisma.$disconnect();
-        await pool.end();
+    }
+
+    runFromCli(ImportType.BACKORDERS, fileArg.split('=')[1] as string, importBackorders, {
+        templateName: templateArg?.split('=')[1]
     });
+}
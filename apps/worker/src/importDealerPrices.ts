@@ -0,0 +1,222 @@
+import { ImportType } from 'db';
+import { MappedRow, PricingRules } from 'rules';
+import { ImportJobContext, PROGRESS_INTERVAL, readMappedFile, resolveFinalStatus, runFromCli, toRawRowJson } from './importJob';
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+interface DealerPriceRowData {
+    accountNo: string;
+    productCode: string;
+    netPrice: number;
+    validFrom: Date | null;
+    validTo: Date | null;
+    waiveMinimumPrice: boolean;
+    note: string | null;
+}
+
+/**
+ * Accepts ISO dates, UK dd/mm/yyyy dates and spreadsheet date serials
+ */
+function parseDate(value: string | number | null): Date | null | 'INVALID' {
+    if (value === null || value === '') return null;
+    const text = String(value).trim();
+
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return new Date(Math.round((Number(text) - EXCEL_EPOCH_OFFSET_DAYS) * 86400000));
+    }
+
+    const uk = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = uk
+        ? new Date(Date.UTC(Number(uk[3]), Number(uk[2]) - 1, Number(uk[1])))
+        : new Date(text);
+    return isNaN(date.getTime()) ? 'INVALID' : date;
+}
+
+function parseFlag(value: string | number | null): boolean | 'INVALID' {
+    if (value === null || value === '') return false;
+    const text = String(value).trim().toUpperCase();
+    if (['Y', 'YES', 'TRUE', '1'].includes(text)) return true;
+    if (['N', 'NO', 'FALSE', '0'].includes(text)) return false;
+    return 'INVALID';
+}
+
+function toRowData(values: MappedRow['values'], errors: string[]): DealerPriceRowData {
+    const text = (field: string) => values[field] as string | null;
+
+    const validFrom = parseDate(values.validFrom);
+    const validTo = parseDate(values.validTo);
+    const waiveMinimumPrice = parseFlag(values.waiveMinimumPrice);
+
+    if (validFrom === 'INVALID') errors.push('Valid From is not a date');
+    if (validTo === 'INVALID') errors.push('Valid To is not a date');
+    if (waiveMinimumPrice === 'INVALID') errors.push('Waive Minimum must be Y or N');
+
+    const row = {
+        accountNo: text('accountNo')!,
+        productCode: text('productCode')!,
+        netPrice: values.netPrice as number,
+        validFrom: validFrom === 'INVALID' ? null : validFrom,
+        validTo: validTo === 'INVALID' ? null : validTo,
+        waiveMinimumPrice: waiveMinimumPrice === true,
+        note: text('note')
+    };
+
+    if (row.validFrom && row.validTo && row.validFrom >= row.validTo) {
+        errors.push('Valid To must be after Valid From');
+    }
+    return row;
+}
+
+/**
+ * Load dealer net price overrides (DealerPriceOverride).
+ * A row with the same dealer, product and Valid From as an existing override updates it;
+ * otherwise it is added, unless its dates overlap another override for that dealer and product.
+ */
+export async function importDealerPrices(ctx: ImportJobContext) {
+    const { prisma, batchId, filePath, progress } = ctx;
+    console.log(`Starting dealer price import from ${filePath}`);
+
+    // 1. Parse file through the batch's column mapping
+    const { rules, columns, headers, rows, firstRowNumber } = await readMappedFile(ctx, 'DEALER_PRICES');
+
+    console.log(`Found ${rows.length} rows`);
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { totalRows: rows.length }
+    });
+
+    const dealerIds = new Map<string, string | null>();
+    const productIds = new Map<string, string | null>();
+
+    let validCount = 0;
+    let invalidCount = 0;
+
+    // 2. Stage, validate & apply rows
+    for (let i = 0; i < rows.length; i++) {
+        const raw = toRawRowJson(headers, rows[i]);
+        const rowNumber = i + firstRowNumber;
+
+        const { values, errors } = rules.mapRow(rows[i], columns);
+        const row = toRowData(values, errors);
+
+        let dealerAccountId: string | null = null;
+        let productId: string | null = null;
+        if (errors.length === 0) {
+            if (!dealerIds.has(row.accountNo)) {
+                const dealer = await prisma.dealerAccount.findUnique({ where: { accountNo: row.accountNo } });
+                dealerIds.set(row.accountNo, dealer?.id ?? null);
+            }
+            if (!productIds.has(row.productCode.toUpperCase())) {
+                const product = await prisma.product.findFirst({
+                    where: { productCode: { equals: row.productCode, mode: 'insensitive' } }
+                });
+                productIds.set(row.productCode.toUpperCase(), product?.id ?? null);
+            }
+
+            dealerAccountId = dealerIds.get(row.accountNo)!;
+            productId = productIds.get(row.productCode.toUpperCase())!;
+            if (!dealerAccountId) errors.push(`Unknown account ${row.accountNo}`);
+            if (!productId) errors.push(`Unknown product ${row.productCode}`);
+        }
+
+        // Same start date updates in place; anything else must not overlap an existing window
+        let existingId: string | null = null;
+        if (errors.length === 0) {
+            const others = await prisma.dealerPriceOverride.findMany({
+                where: { dealerAccountId: dealerAccountId!, productId: productId! }
+            });
+            const same = others.find(o => (o.validFrom?.getTime() ?? null) === (row.validFrom?.getTime() ?? null));
+            const clash = others.find(o =>
+                o.id !== same?.id && PricingRules.windowsOverlap(o.validFrom, o.validTo, row.validFrom, row.validTo)
+            );
+            existingId = same?.id ?? null;
+            if (clash) errors.push('Dates overlap an existing override for this account and product');
+        }
+
+        const isValid = errors.length === 0;
+        const validationErrors = isValid ? null : errors.join(', ');
+
+        await prisma.stgDealerPriceRow.create({
+            data: {
+                batchId,
+                rowNumber,
+                accountNo: row.accountNo,
+                productCode: row.productCode,
+                netPrice: row.netPrice,
+                validFrom: row.validFrom,
+                validTo: row.validTo,
+                waiveMinimumPrice: row.waiveMinimumPrice,
+                note: row.note,
+                isValid,
+                validationErrors,
+                rawRowJson: raw
+            }
+        });
+
+        if (!isValid) {
+            invalidCount++;
+            await prisma.importError.create({
+                data: {
+                    batchId,
+                    rowNumber,
+                    errorCode: 'INVALID_ROW',
+                    errorMessage: validationErrors || 'Unknown error',
+                    rawRowJson: raw
+                }
+            });
+        } else {
+            validCount++;
+            const data = {
+                netPrice: row.netPrice,
+                validTo: row.validTo,
+                waiveMinimumPrice: row.waiveMinimumPrice,
+                note: row.note,
+                lastImportBatchId: batchId
+            };
+
+            if (existingId) {
+                await prisma.dealerPriceOverride.update({ where: { id: existingId }, data });
+            } else {
+                await prisma.dealerPriceOverride.create({
+                    data: { ...data, dealerAccountId: dealerAccountId!, productId: productId!, validFrom: row.validFrom }
+                });
+            }
+        }
+
+        if ((i + 1) % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: i + 1, validRows: validCount, invalidRows: invalidCount });
+        }
+    }
+
+    await progress({ processedRows: rows.length, validRows: validCount, invalidRows: invalidCount });
+
+    // 3. Final status
+    const finalStatus = resolveFinalStatus(validCount, invalidCount);
+
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+            status: finalStatus,
+            validRows: validCount,
+            invalidRows: invalidCount,
+            completedAt: new Date()
+        }
+    });
+
+    console.log(`Dealer price import completed with status ${finalStatus} (${validCount} valid, ${invalidCount} invalid).`);
+}
+
+if (require.main === module) {
+    const fileArg = process.argv.slice(2).find(a => a.startsWith('--file='));
+    const templateArg = process.argv.slice(2).find(a => a.startsWith('--template='));
+
+    if (!fileArg) {
+        console.error('Usage: ts-node src/importDealerPrices.ts --file=<path> [--template=<name>]');
+        process.exit(1);
+    }
+
+    runFromCli(ImportType.DEALER_PRICES, fileArg.split('=')[1] as string, importDealerPrices, {
+        templateName: templateArg?.split('=')[1]
+    });
+}
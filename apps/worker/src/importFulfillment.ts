@@ -0,0 +1,311 @@
+import { PrismaClient, ImportType, OrderStatus, ErpExportStatus } from 'db';
+import { InventoryRules, OrderRules } from 'rules';
+import { z } from 'zod';
+import * as fs from 'fs';
+import { parse } from 'csv-parse/sync';
+import { ImportJobContext, PROGRESS_INTERVAL, resolveFinalStatus, runFromCli } from './importJob';
+
+const LINE_STATUSES = ['OPEN', 'ALLOCATED', 'PICKED', 'PART_SHIPPED', 'SHIPPED', 'BACKORDERED', 'CANCELLED'] as const;
+
+// Header statuses in the order an order moves through them
+const STATUS_PROGRESSION: OrderStatus[] = [OrderStatus.SUSPENDED, OrderStatus.PROCESSING, OrderStatus.SHIPPED];
+
+// Zod Schema
+const FulfillmentRowSchema = z.object({
+    orderNo: z.string().min(1, 'Order number is required'),
+    lineNo: z.number({ message: 'Line number is required' }).int().min(1, 'Line number must be 1 or more'),
+    partCode: z.string().min(1, 'Part code is required'),
+    lineStatus: z.enum(LINE_STATUSES, { message: `Status must be one of ${LINE_STATUSES.join(', ')}` }),
+    shippedQty: z.number().int().min(0, 'Shipped qty cannot be negative').nullable(),
+    backorderedQty: z.number().int().min(0, 'Backordered qty cannot be negative').nullable(),
+    trackingNo: z.string().nullable(),
+    etaDate: z.date().nullable()
+});
+
+function parseIntOrNull(value: any): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const num = Number(value);
+    return isNaN(num) ? NaN : Math.floor(num);
+}
+
+/**
+ * Parse ETA dates as either ISO (2026-01-31) or UK format (31/01/2026)
+ */
+function parseDate(value: any): Date | null {
+    if (value === undefined || value === null || value === '') return null;
+    const text = String(value).trim();
+    const uk = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const date = uk
+        ? new Date(Date.UTC(Number(uk[3]), Number(uk[2]) - 1, Number(uk[1])))
+        : new Date(text);
+    return isNaN(date.getTime()) ? new Date(NaN) : date;
+}
+
+/**
+ * Work out which header status the line fulfilment state implies
+ */
+function deriveOrderStatus(lines: Array<{ qty: number; lineStatus: string | null; shippedQty: number }>): OrderStatus | null {
+    const openLines = lines.filter(l => l.lineStatus !== 'CANCELLED');
+
+    if (openLines.length === 0) {
+        return OrderStatus.CANCELLED;
+    }
+    if (openLines.every(l => l.lineStatus === 'SHIPPED' || l.shippedQty >= l.qty)) {
+        return OrderStatus.SHIPPED;
+    }
+    if (lines.some(l => l.lineStatus !== null)) {
+        return OrderStatus.PROCESSING;
+    }
+    return null;
+}
+
+/**
+ * Move an order header forward to the status implied by its lines.
+ * Each hop is checked with OrderRules.validateStatusTransition; headers are never moved backwards.
+ * Stock reservations are released on cancellation, and consumed once the ERP has the order.
+ */
+async function rollOrderStatusForward(
+    prisma: PrismaClient,
+    orderRules: OrderRules,
+    inventoryRules: InventoryRules,
+    orderId: string
+) {
+    const order = await prisma.orderHeader.findUnique({
+        where: { id: orderId },
+        include: { lines: true }
+    });
+    if (!order) return;
+
+    const target = deriveOrderStatus(order.lines);
+    if (!target || target === order.status) return;
+
+    let steps: OrderStatus[];
+    if (target === OrderStatus.CANCELLED) {
+        steps = [target];
+    } else {
+        const from = STATUS_PROGRESSION.indexOf(order.status);
+        const to = STATUS_PROGRESSION.indexOf(target);
+        if (from === -1 || to <= from) return;
+        steps = STATUS_PROGRESSION.slice(from + 1, to + 1);
+    }
+
+    let current = order.status;
+    for (const next of steps) {
+        const transition = orderRules.validateStatusTransition(current, next);
+        if (!transition.allowed) {
+            console.warn(`Order ${order.orderNo}: ${transition.reason}`);
+            break;
+        }
+        current = next;
+    }
+
+    if (current !== order.status) {
+        await prisma.$transaction(async (tx) => {
+            await tx.orderHeader.update({
+                where: { id: order.id },
+                data: { status: current }
+            });
+
+            if (current === OrderStatus.CANCELLED) {
+                await inventoryRules.releaseOrder(tx, order.id);
+            } else {
+                await inventoryRules.consumeOrder(tx, order.id);
+            }
+        });
+        console.log(`Order ${order.orderNo}: ${order.status} -> ${current}`);
+    }
+}
+
+/**
+ * The ERP reports its own order reference on the fulfilment feed. Record it if the export didn't return one
+ * (file drop), and close any export still queued or failed: the ERP evidently has the order, and its
+ * stock figures count it, so the order's reservations are consumed as on a normal send.
+ */
+async function reconcileErpReference(prisma: PrismaClient, inventoryRules: InventoryRules, orderId: string, erpReference: string) {
+    await prisma.$transaction(async (tx) => {
+        await tx.orderHeader.updateMany({
+            where: { id: orderId, erpReference: null },
+            data: { erpReference }
+        });
+        await tx.orderHeader.updateMany({
+            where: { id: orderId, erpExportedAt: null },
+            data: { erpExportedAt: new Date() }
+        });
+        await tx.erpExport.updateMany({
+            where: { orderId, status: { in: [ErpExportStatus.PENDING, ErpExportStatus.FAILED] } },
+            data: { status: ErpExportStatus.SENT, sentAt: new Date(), adapter: 'RECONCILED', lastError: null }
+        });
+        await inventoryRules.consumeOrder(tx, orderId);
+    });
+}
+
+export async function importFulfillment({ prisma, batchId, filePath, progress }: ImportJobContext) {
+    console.log(`Starting fulfillment status import from ${filePath}`);
+
+    const fileContent = fs.readFileSync(filePath, 'utf-8');
+    const orderRules = new OrderRules(prisma);
+    const inventoryRules = new InventoryRules(prisma);
+
+    // 1. Parse CSV
+    const rows = parse(fileContent, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true
+    }) as Record<string, string>[];
+
+    console.log(`Found ${rows.length} rows`);
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { totalRows: rows.length }
+    });
+
+    let validCount = 0;
+    let invalidCount = 0;
+    const touchedOrderIds = new Set<string>();
+    const erpReferences = new Map<string, string>();
+
+    // 2. Stage, validate & apply rows
+    for (let i = 0; i < rows.length; i++) {
+        const raw = rows[i];
+        const rowNumber = i + 2; // +1 for 0-index, +1 for header
+
+        const mapped = {
+            orderNo: (raw['Order No'] || raw['Our No'] || '').trim(),
+            lineNo: parseIntOrNull(raw['Line No'] || raw['Line'] || raw['Item No']),
+            partCode: (raw['Part'] || raw['Part No'] || '').trim().toUpperCase(),
+            lineStatus: (raw['Status'] || raw['Line Status'] || '').trim().toUpperCase().replace(/\s+/g, '_'),
+            shippedQty: parseIntOrNull(raw['Shipped Qty'] || raw['Q Shipped']),
+            backorderedQty: parseIntOrNull(raw['Backordered Qty'] || raw['Q/O']),
+            trackingNo: raw['Tracking No'] || raw['Tracking'] || null,
+            etaDate: parseDate(raw['ETA'] || raw['ETA Date'])
+        };
+
+        const errors: string[] = [];
+        const validation = FulfillmentRowSchema.safeParse(mapped);
+        if (!validation.success) {
+            errors.push(...validation.error.issues.map(i => i.message));
+        }
+
+        // Resolve the order line by order number + its persisted line number (as on the ERP export);
+        // the part code must agree, so a misnumbered row cannot update the wrong line
+        let line: { id: string; orderId: string; qty: number } | null = null;
+        if (errors.length === 0) {
+            const order = await prisma.orderHeader.findUnique({
+                where: { orderNo: mapped.orderNo },
+                select: { id: true }
+            });
+            const match = order && await prisma.orderLine.findUnique({
+                where: { orderId_lineNo: { orderId: order.id, lineNo: mapped.lineNo! } }
+            });
+
+            if (!order) {
+                errors.push(`Order ${mapped.orderNo} not found`);
+            } else if (!match) {
+                errors.push(`Order ${mapped.orderNo} has no line ${mapped.lineNo}`);
+            } else if (match.productCodeSnapshot.toUpperCase() !== mapped.partCode) {
+                errors.push(`Line ${mapped.lineNo} of order ${mapped.orderNo} is ${match.productCodeSnapshot}, not ${mapped.partCode}`);
+            } else if ((mapped.shippedQty ?? 0) + (mapped.backorderedQty ?? 0) > match.qty) {
+                errors.push(`Shipped and backordered qty exceed ordered qty (${match.qty})`);
+            } else {
+                line = match;
+            }
+        }
+
+        const isValid = errors.length === 0;
+
+        await prisma.stgFulfillmentRow.create({
+            data: {
+                batchId,
+                rowNumber,
+                orderNo: mapped.orderNo || null,
+                lineNo: Number.isNaN(mapped.lineNo) ? null : mapped.lineNo,
+                partCode: mapped.partCode || null,
+                lineStatus: mapped.lineStatus || null,
+                shippedQty: Number.isNaN(mapped.shippedQty) ? null : mapped.shippedQty,
+                backorderedQty: Number.isNaN(mapped.backorderedQty) ? null : mapped.backorderedQty,
+                trackingNo: mapped.trackingNo,
+                etaDate: mapped.etaDate && !isNaN(mapped.etaDate.getTime()) ? mapped.etaDate : null,
+                isValid,
+                validationErrors: isValid ? null : errors.join(', '),
+                rawRowJson: raw
+            }
+        });
+
+        if (!isValid || !line) {
+            invalidCount++;
+            await prisma.importError.create({
+                data: {
+                    batchId,
+                    rowNumber,
+                    errorCode: 'INVALID_ROW',
+                    errorMessage: errors.join(', ') || 'Unknown error',
+                    rawRowJson: raw
+                }
+            });
+            continue;
+        }
+
+        validCount++;
+
+        // Blank quantity / tracking / ETA columns leave the existing value untouched
+        await prisma.orderLine.update({
+            where: { id: line.id },
+            data: {
+                lineStatus: mapped.lineStatus,
+                ...(mapped.shippedQty !== null && { shippedQty: mapped.shippedQty }),
+                ...(mapped.backorderedQty !== null && { backorderedQty: mapped.backorderedQty }),
+                ...(mapped.trackingNo && { trackingNo: mapped.trackingNo }),
+                ...(mapped.etaDate && { etaDate: mapped.etaDate }),
+                lastStatusUpdateAt: new Date()
+            }
+        });
+        touchedOrderIds.add(line.orderId);
+
+        const erpReference = (raw['ERP Ref'] || raw['ERP Order No'] || '').trim();
+        if (erpReference) {
+            erpReferences.set(line.orderId, erpReference);
+        }
+
+        if ((i + 1) % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: i + 1, validRows: validCount, invalidRows: invalidCount });
+        }
+    }
+
+    await progress({ processedRows: rows.length, validRows: validCount, invalidRows: invalidCount });
+
+    // 3. Roll order headers forward
+    for (const orderId of touchedOrderIds) {
+        await rollOrderStatusForward(prisma, orderRules, inventoryRules, orderId);
+    }
+
+    // 4. Reconcile ERP references
+    for (const [orderId, erpReference] of erpReferences) {
+        await reconcileErpReference(prisma, inventoryRules, orderId, erpReference);
+    }
+
+    // 5. Final status
+    const finalStatus = resolveFinalStatus(validCount, invalidCount);
+
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+            status: finalStatus,
+            validRows: validCount,
+            invalidRows: invalidCount,
+            completedAt: new Date()
+        }
+    });
+
+    console.log(`Fulfillment import completed with status ${finalStatus} (${validCount} valid, ${invalidCount} invalid, ${touchedOrderIds.size} orders updated).`);
+}
+
+if (require.main === module) {
+    const fileArg = process.argv.slice(2).find(a => a.startsWith('--file='));
+
+    if (!fileArg) {
+        console.error('Usage: ts-node src/importFulfillment.ts --file=<path>');
+        process.exit(1);
+    }
+
+    runFromCli(ImportType.FULFILLMENT_STATUS, fileArg.split('=')[1] as string, importFulfillment);
+}
@@ -0,0 +1,223 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+dotenv.config({ path: path.resolve(__dirname, '../../../packages/db/.env') });
+import { Pool } from 'pg';
+import { PrismaPg } from '@prisma/adapter-pg';
+import { PrismaClient, Prisma, ImportType, ImportStatus } from 'db';
+import { ColumnMappingRules, ResolvedColumn } from 'rules';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as XLSX from 'xlsx';
+import { parse } from 'csv-parse/sync';
+
+// Importers report progress every N rows
+export const PROGRESS_INTERVAL = 50;
+
+export interface ImportCounts {
+    totalRows?: number;
+    processedRows: number;
+    validRows: number;
+    invalidRows: number;
+}
+
+/**
+ * FULL stages and applies in one pass; DRY_RUN stops after staging;
+ * APPLY applies the staging rows of an approved dry run.
+ */
+export type ImportMode = 'FULL' | 'DRY_RUN' | 'APPLY';
+
+/**
+ * Everything an importer needs to process one ImportBatch,
+ * whether it is run by the job runner or from the command line.
+ */
+export interface ImportJobContext {
+    prisma: PrismaClient;
+    batchId: string;
+    filePath: string;
+    mode: ImportMode;
+    /**
+     * Persist running counts on the batch.
+     * Throws ImportCancelledError if the job was cancelled in the meantime.
+     */
+    progress(counts: ImportCounts): Promise<void>;
+}
+
+export type Importer = (ctx: ImportJobContext) => Promise<void>;
+
+export class ImportCancelledError extends Error {
+    constructor(batchId: string) {
+        super(`Import ${batchId} was cancelled`);
+        this.name = 'ImportCancelledError';
+    }
+}
+
+export function createPrismaClient(): { prisma: PrismaClient; pool: Pool } {
+    const connectionString = process.env.DATABASE_URL!;
+    const pool = new Pool({ connectionString });
+    const adapter = new PrismaPg(pool);
+    const prisma = new PrismaClient({ adapter } as any);
+    return { prisma, pool };
+}
+
+export function resolveFinalStatus(validCount: number, invalidCount: number): ImportStatus {
+    if (invalidCount === 0) return ImportStatus.SUCCEEDED;
+    if (validCount === 0) return ImportStatus.FAILED;
+    return ImportStatus.SUCCEEDED_WITH_ERRORS;
+}
+
+export function calculateFileHash(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Read a CSV or spreadsheet as raw rows of cells.
+ * The format comes from the template when there is one, otherwise from the file extension.
+ */
+export function readTabularFile(filePath: string, options: { fileType?: string | null; delimiter?: string | null } = {}): unknown[][] {
+    const fileType = options.fileType || (path.extname(filePath).toLowerCase() === '.csv' ? 'CSV' : 'XLSX');
+
+    if (fileType === 'CSV') {
+        return parse(fs.readFileSync(filePath, 'utf-8'), {
+            delimiter: options.delimiter || ',',
+            bom: true,
+            skip_empty_lines: true,
+            relax_column_count: true,
+            trim: true
+        }) as string[][];
+    }
+
+    const workbook = XLSX.readFile(filePath);
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    return XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: null, blankrows: false });
+}
+
+export interface MappedFile {
+    rules: ColumnMappingRules;
+    columns: ResolvedColumn[];
+    headers: unknown[] | null;
+    rows: unknown[][];
+    // Spreadsheet row number of rows[0]
+    firstRowNumber: number;
+}
+
+/**
+ * Read the batch file through its UploadTemplate column mapping (or the built-in headers).
+ * Fails the whole batch when a required column cannot be found, rather than rejecting every row.
+ */
+export async function readMappedFile(
+    { prisma, batchId, filePath }: ImportJobContext,
+    templateImportType: 'PRODUCTS' | 'BACKORDERS' | 'DEALER_PRICES'
+): Promise<MappedFile> {
+    const batch = await prisma.importBatch.findUniqueOrThrow({
+        where: { id: batchId },
+        include: { template: true }
+    });
+    const template = batch.template;
+
+    if (template && template.importType !== templateImportType) {
+        throw new Error(`Template ${template.templateName} is for ${template.importType} files, not ${templateImportType}`);
+    }
+
+    const rules = ColumnMappingRules.forTemplate(templateImportType, template);
+    const allRows = readTabularFile(filePath, { fileType: template?.fileType, delimiter: template?.delimiter });
+    const hasHeader = template?.hasHeader ?? true;
+
+    const headers = hasHeader ? (allRows[0] ?? []) : null;
+    const columns = rules.resolveColumns(headers);
+
+    const missing = rules.missingRequired(columns);
+    if (missing.length > 0) {
+        throw new Error(`Required columns not found: ${missing.join(', ')}`);
+    }
+
+    if (template) {
+        console.log(`   Template: ${template.templateName}`);
+    }
+
+    return {
+        rules,
+        columns,
+        headers,
+        rows: hasHeader ? allRows.slice(1) : allRows,
+        firstRowNumber: hasHeader ? 2 : 1
+    };
+}
+
+/**
+ * Raw cells keyed by their header (or column number) for rawRowJson
+ */
+export function toRawRowJson(headers: unknown[] | null, row: unknown[]): Prisma.InputJsonObject {
+    const raw: Record<string, Prisma.InputJsonValue> = {};
+    row.forEach((cell, index) => {
+        const header = headers?.[index];
+        raw[header === null || header === undefined || header === '' ? `Column ${index + 1}` : String(header)] = cell as Prisma.InputJsonValue;
+    });
+    return raw;
+}
+
+/**
+ * Run an importer directly from the command line against a new ImportBatch
+ */
+export async function runFromCli(
+    importType: ImportType,
+    filePath: string,
+    importer: Importer,
+    options: { dryRun?: boolean; templateName?: string } = {}
+) {
+    const absoluteFilePath = path.resolve(process.cwd(), filePath);
+
+    if (!fs.existsSync(absoluteFilePath)) {
+        console.error(`File not found: ${absoluteFilePath}`);
+        process.exit(1);
+    }
+
+    const { prisma, pool } = createPrismaClient();
+
+    try {
+        const template = options.templateName
+            ? await prisma.uploadTemplate.findUnique({ where: { templateName: options.templateName } })
+            : null;
+        if (options.templateName && !template) {
+            console.error(`Template not found: ${options.templateName}`);
+            process.exitCode = 1;
+            return;
+        }
+
+        const batch = await prisma.importBatch.create({
+            data: {
+                importType,
+                fileName: path.basename(absoluteFilePath),
+                filePath: absoluteFilePath,
+                fileHash: calculateFileHash(absoluteFilePath),
+                status: ImportStatus.PROCESSING,
+                dryRun: !!options.dryRun,
+                templateId: template?.id ?? null
+            }
+        });
+
+        try {
+            await importer({
+                prisma,
+                batchId: batch.id,
+                filePath: absoluteFilePath,
+                mode: options.dryRun ? 'DRY_RUN' : 'FULL',
+                progress: async (counts) => {
+                    await prisma.importBatch.update({ where: { id: batch.id }, data: counts });
+                }
+            });
+        } catch (e) {
+            console.error('Import failed', e);
+            await prisma.importBatch.update({
+                where: { id: batch.id },
+                data: {
+                    status: ImportStatus.FAILED,
+                    completedAt: new Date()
+                }
+            });
+            process.exitCode = 1;
+        }
+    } finally {
+        await prisma.$disconnect();
+        await pool.end();
+    }
+}
@@ -1,52 +1,23 @@
-import * as dotenv from 'dotenv';
-import * as path from 'path';
-dotenv.config({ path: path.resolve(__dirname, '../../../packages/db/.env') });
-import { Pool } from 'pg';
-import { PrismaPg } from '@prisma/adapter-pg';
-import { PrismaClient, PartType, ImportType, ImportStatus } from '@prisma/client';
-import * as XLSX from 'xlsx';
-import * as crypto from 'crypto';
-import * as fs from 'fs';
-
-const connectionString = process.env.DATABASE_URL!;
-const pool = new Pool({ connectionString });
-const adapter = new PrismaPg(pool);
-const prisma = new PrismaClient({ adapter } as any);
+import { PrismaClient, PartType, ImportType, ImportStatus } from 'db';
+import { InventoryRules, MappedRow } from 'rules';
+import { ImportJobContext, PROGRESS_INTERVAL, readMappedFile, resolveFinalStatus, runFromCli, toRawRowJson } from './importJob';
+
+export type ProductImportType = 'GENUINE' | 'AFTERMARKET' | 'BRANDED';
 
 interface ImportArgs {
-    type: 'GENUINE' | 'AFTERMARKET' | 'BRANDED';
+    type: ProductImportType;
     file: string;
-}
-
-interface ExcelRow {
-    Supplier?: string;
-    'Product Code'?: string;
-    Description?: string;
-    'Full Description'?: string;  // Synonym for Description
-    'Discount Code'?: string;
-    'Cost Price'?: number;
-    'Retail Price'?: number;
-    'Trade Price'?: number;
-    'List Price'?: number;
-    'Band 1'?: number;
-    'Band 2'?: number;
-    'Band 3'?: number;
-    'Band 4'?: number;
-    'Free Stock'?: number;
-}
-
-interface ValidationResult {
-    isValid: boolean;
-    errors: string[];
+    template?: string;
 }
 
 function parseArgs(): ImportArgs {
     const args = process.argv.slice(2);
     const typeIndex = args.indexOf('--type');
     const fileIndex = args.indexOf('--file');
+    const templateIndex = args.indexOf('--template');
 
     if (typeIndex === -1 || fileIndex === -1) {
-        console.error('❌ Usage: ts-node importProducts.ts --type GENUINE|AFTERMARKET|BRANDED --file <path-to-xlsx>');
+        console.error('❌ Usage: ts-node importProducts.ts --type GENUINE|AFTERMARKET|BRANDED --file <path-to-xlsx> [--template <name>] [--dry-run]');
         process.exit(1);
     }
 
@@ -63,341 +34,341 @@ function parseArgs(): ImportArgs {
         process.exit(1);
     }
 
-    return { type, file };
+    return { type, file, template: templateIndex === -1 ? undefined : args[templateIndex + 1] };
 }
 
-function calculateFileHash(filePath: string): string {
-    const fileBuffer = fs.readFileSync(filePath);
-    const hashSum = crypto.createHash('sha256');
-    hashSum.update(fileBuffer);
-    return hashSum.digest('hex');
+/**
+ * Staged values for one product row, shared by full imports and approved dry runs
+ */
+interface ProductRowData {
+    productCode: string;
+    supplier: string | null;
+    description: string;
+    discountCode: string | null;
+    costPrice: number | null;
+    retailPrice: number | null;
+    tradePrice: number | null;
+    listPrice: number | null;
+    band1Price: number | null;
+    band2Price: number | null;
+    band3Price: number | null;
+    band4Price: number | null;
+    freeStock: number | null;
 }
 
-function validateRow(row: ExcelRow, rowNumber: number): ValidationResult {
-    const errors: string[] = [];
+function toRowData(values: MappedRow['values']): ProductRowData {
+    const text = (field: string) => values[field] as string | null;
+    const num = (field: string) => values[field] as number | null;
 
-    // Required fields
-    if (!row['Product Code'] || row['Product Code'].trim() === '') {
-        errors.push('Product Code is required');
-    }
+    return {
+        productCode: text('productCode')!,
+        supplier: text('supplier'),
+        description: text('description')!,
+        discountCode: text('discountCode'),
+        costPrice: num('costPrice'),
+        retailPrice: num('retailPrice'),
+        tradePrice: num('tradePrice'),
+        listPrice: num('listPrice'),
+        band1Price: num('band1Price'),
+        band2Price: num('band2Price'),
+        band3Price: num('band3Price'),
+        band4Price: num('band4Price'),
+        freeStock: num('freeStock')
+    };
+}
 
-    // Accept either Description or Full Description
-    const description = row.Description || row['Full Description'];
-    if (!description || description.trim() === '') {
-        errors.push('Description is required');
-    }
+/**
+ * Upsert one validated row into Product, ProductStock, ProductPriceReference and ProductPriceBand
+ */
+async function applyRow(prisma: PrismaClient, batchId: string, partType: PartType, row: ProductRowData) {
+    const inventoryRules = new InventoryRules(prisma);
+
+    await prisma.$transaction(async (tx) => {
+        // 1. Upsert Product
+        const product = await tx.product.upsert({
+            where: { productCode: row.productCode },
+            update: {
+                supplier: row.supplier,
+                description: row.description,
+                discountCode: row.discountCode,
+                partType,
+                isActive: true
+            },
+            create: {
+                productCode: row.productCode,
+                supplier: row.supplier,
+                description: row.description,
+                discountCode: row.discountCode,
+                partType,
+                isActive: true
+            }
+        });
+
+        // 2. Upsert ProductStock, keeping stock reserved by open portal orders out of freeStock
+        if (row.freeStock !== null) {
+            await inventoryRules.reconcileImportedStock(tx, product.id, row.freeStock, batchId);
+        }
 
-    // Price validations
-    const priceFields = [
-        'Cost Price', 'Retail Price', 'Trade Price', 'List Price',
-        'Band 1', 'Band 2', 'Band 3', 'Band 4'
-    ] as const;
+        // 3. Upsert ProductPriceReference
+        await tx.productPriceReference.upsert({
+            where: { productId: product.id },
+            update: {
+                costPrice: row.costPrice,
+                retailPrice: row.retailPrice,
+                tradePrice: row.tradePrice,
+                listPrice: row.listPrice,
+                minimumPrice: row.tradePrice ? row.tradePrice * 0.9 : null,
+                lastImportBatchId: batchId
+            },
+            create: {
+                productId: product.id,
+                costPrice: row.costPrice,
+                retailPrice: row.retailPrice,
+                tradePrice: row.tradePrice,
+                listPrice: row.listPrice,
+                minimumPrice: row.tradePrice ? row.tradePrice * 0.9 : null,
+                lastImportBatchId: batchId
+            }
+        });
 
-    for (const field of priceFields) {
-        const value = row[field];
-        if (value !== undefined && value !== null && value < 0) {
-            errors.push(`${field} cannot be negative`);
+        // 4. Upsert ProductPriceBand (4 bands)
+        const bands = [
+            { code: '1', price: row.band1Price },
+            { code: '2', price: row.band2Price },
+            { code: '3', price: row.band3Price },
+            { code: '4', price: row.band4Price }
+        ];
+
+        for (const band of bands) {
+            if (band.price !== null) {
+                await tx.productPriceBand.upsert({
+                    where: {
+                        productId_bandCode: {
+                            productId: product.id,
+                            bandCode: band.code
+                        }
+                    },
+                    update: {
+                        price: band.price
+                    },
+                    create: {
+                        productId: product.id,
+                        bandCode: band.code,
+                        price: band.price
+                    }
+                });
+            }
         }
-    }
+    });
+}
+
+/**
+ * Apply a reviewed dry run from its staging rows.
+ * BUSINESS RULES:
+ * 1. Only rows that passed validation at staging time are applied
+ * 2. Rows are applied exactly as a FULL import would apply them
+ */
+async function applyApprovedBatch({ prisma, batchId, progress }: ImportJobContext, partType: PartType) {
+    const batch = await prisma.importBatch.findUniqueOrThrow({ where: { id: batchId } });
+    const stagedRows = await prisma.stgProductPriceRow.findMany({
+        where: { batchId },
+        orderBy: { rowNumber: 'asc' }
+    });
+
+    console.log(`\n✅ Applying ${batch.validRows} approved rows from batch ${batchId}`);
+
+    let appliedCount = 0;
+    for (const staged of stagedRows) {
+        if (!staged.isValid) continue;
+
+        await applyRow(prisma, batchId, partType, {
+            productCode: staged.productCode!,
+            supplier: staged.supplier,
+            description: staged.description!,
+            discountCode: staged.discountCode,
+            costPrice: staged.costPrice === null ? null : Number(staged.costPrice),
+            retailPrice: staged.retailPrice === null ? null : Number(staged.retailPrice),
+            tradePrice: staged.tradePrice === null ? null : Number(staged.tradePrice),
+            listPrice: staged.listPrice === null ? null : Number(staged.listPrice),
+            band1Price: staged.band1Price === null ? null : Number(staged.band1Price),
+            band2Price: staged.band2Price === null ? null : Number(staged.band2Price),
+            band3Price: staged.band3Price === null ? null : Number(staged.band3Price),
+            band4Price: staged.band4Price === null ? null : Number(staged.band4Price),
+            freeStock: staged.freeStock
+        });
 
-    // Stock validation
-    if (row['Free Stock'] !== undefined && row['Free Stock'] !== null && row['Free Stock'] < 0) {
-        errors.push('Free Stock cannot be negative');
+        appliedCount++;
+        if (appliedCount % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: appliedCount, validRows: batch.validRows, invalidRows: batch.invalidRows });
+        }
     }
 
-    return {
-        isValid: errors.length === 0,
-        errors
-    };
-}
+    await progress({ processedRows: appliedCount, validRows: batch.validRows, invalidRows: batch.invalidRows });
 
-function parseDecimal(value: any): number | null {
-    if (value === undefined || value === null || value === '') return null;
-    const num = typeof value === 'number' ? value : parseFloat(value);
-    return isNaN(num) ? null : num;
-}
+    const finalStatus = resolveFinalStatus(batch.validRows, batch.invalidRows);
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { status: finalStatus, completedAt: new Date() }
+    });
 
-function parseInt(value: any): number | null {
-    if (value === undefined || value === null || value === '') return null;
-    const num = typeof value === 'number' ? value : Number(value);
-    return isNaN(num) ? null : Math.floor(num);
+    console.log(`📊 Import batch ${batchId} applied with status: ${finalStatus}`);
 }
 
-async function main() {
-    const { type, file } = parseArgs();
+export async function importProducts(ctx: ImportJobContext, type: ProductImportType) {
+    const { prisma, batchId, filePath, progress, mode } = ctx;
 
     console.log('📦 Product Import Worker');
     console.log(`   Type: ${type}`);
-    console.log(`   File: ${file}\n`);
+    console.log(`   Mode: ${mode}`);
+    console.log(`   File: ${filePath}\n`);
 
-    // Resolve file path
-    const filePath = path.isAbsolute(file) ? file : path.resolve(process.cwd(), file);
+    const partType = type === 'GENUINE' ? PartType.GENUINE : (type === 'BRANDED' ? PartType.BRANDED : PartType.AFTERMARKET);
 
-    if (!fs.existsSync(filePath)) {
-        console.error(`❌ File not found: ${filePath}`);
-        process.exit(1);
+    if (mode === 'APPLY') {
+        await applyApprovedBatch(ctx, partType);
+        return;
     }
 
-    console.log(`📂 Reading file: ${filePath}`);
+    // Read the file through the batch's column mapping
+    console.log('\n📊 Parsing file...');
+    const { rules, columns, headers, rows, firstRowNumber } = await readMappedFile(ctx, 'PRODUCTS');
 
-    // Calculate file hash
-    const fileHash = calculateFileHash(filePath);
-    console.log(`🔐 File hash: ${fileHash.substring(0, 16)}...`);
-
-    // Create import batch
-    console.log('\n📝 Creating import batch...');
-    const importType = type === 'GENUINE' ? ImportType.PRODUCTS_GENUINE : ImportType.PRODUCTS_AFTERMARKET;
-    const partType = type === 'GENUINE' ? PartType.GENUINE : (type === 'BRANDED' ? PartType.BRANDED : PartType.AFTERMARKET);
+    console.log(`   Found ${rows.length} rows\n`);
 
-    const batch = await prisma.importBatch.create({
-        data: {
-            importType,
-            fileName: path.basename(filePath),
-            fileHash,
-            filePath,
-            status: ImportStatus.PROCESSING,
-            totalRows: 0,
-            validRows: 0,
-            invalidRows: 0
-        }
+    // Update total rows
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { totalRows: rows.length }
     });
 
-    console.log(`✅ Import batch created: ${batch.id}`);
+    let validCount = 0;
+    let invalidCount = 0;
+    let processedCount = 0;
 
-    try {
-        // Read Excel file
-        console.log('\n📊 Parsing Excel file...');
-        const workbook = XLSX.readFile(filePath);
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rows: ExcelRow[] = XLSX.utils.sheet_to_json(worksheet);
+    // Process each row
+    for (let i = 0; i < rows.length; i++) {
+        const rowNumber = i + firstRowNumber;
+        const rawRow = toRawRowJson(headers, rows[i]);
 
-        console.log(`   Found ${rows.length} rows\n`);
+        // Map and validate row
+        const { values, errors } = rules.mapRow(rows[i], columns);
+        const isValid = errors.length === 0;
+        const row = toRowData(values);
 
-        // Update total rows
-        await prisma.importBatch.update({
-            where: { id: batch.id },
-            data: { totalRows: rows.length }
+        // Insert into staging table
+        await prisma.stgProductPriceRow.create({
+            data: {
+                batchId,
+                rowNumber,
+                partType,
+                supplier: row.supplier,
+                productCode: row.productCode,
+                description: row.description,
+                discountCode: row.discountCode,
+                costPrice: row.costPrice,
+                retailPrice: row.retailPrice,
+                tradePrice: row.tradePrice,
+                listPrice: row.listPrice,
+                band1Price: row.band1Price,
+                band2Price: row.band2Price,
+                band3Price: row.band3Price,
+                band4Price: row.band4Price,
+                freeStock: row.freeStock,
+                isValid,
+                validationErrors: errors.length > 0 ? errors.join('; ') : null,
+                rawRowJson: rawRow
+            }
         });
 
-        let validCount = 0;
-        let invalidCount = 0;
-        let processedCount = 0;
-
-        // Process each row
-        for (let i = 0; i < rows.length; i++) {
-            const row = rows[i];
-            const rowNumber = i + 2; // Excel rows start at 1, header is row 1
+        if (isValid) {
+            validCount++;
 
-            // Validate row
-            const validation = validateRow(row, rowNumber);
+            // Dry runs stop after staging; rows are applied once the diff is approved
+            if (mode === 'FULL') {
+                await applyRow(prisma, batchId, partType, row);
+            }
+        } else {
+            invalidCount++;
 
-            // Insert into staging table
-            await prisma.stgProductPriceRow.create({
+            // Log validation errors
+            await prisma.importError.create({
                 data: {
-                    batchId: batch.id,
+                    batchId,
                     rowNumber,
-                    partType,
-                    supplier: row.Supplier || null,
-                    productCode: row['Product Code'] || null,
-                    description: row.Description || row['Full Description'] || null,
-                    discountCode: row['Discount Code'] || null,
-                    costPrice: parseDecimal(row['Cost Price']),
-                    retailPrice: parseDecimal(row['Retail Price']),
-                    tradePrice: parseDecimal(row['Trade Price']),
-                    listPrice: parseDecimal(row['List Price']),
-                    band1Price: parseDecimal(row['Band 1']),
-                    band2Price: parseDecimal(row['Band 2']),
-                    band3Price: parseDecimal(row['Band 3']),
-                    band4Price: parseDecimal(row['Band 4']),
-                    freeStock: parseInt(row['Free Stock']),
-                    isValid: validation.isValid,
-                    validationErrors: validation.errors.length > 0 ? validation.errors.join('; ') : null,
-                    rawRowJson: row as any
+                    errorMessage: errors.join('; '),
+                    rawRowJson: rawRow
                 }
             });
+        }
 
-            if (validation.isValid) {
-                validCount++;
-
-                // Upsert product data
-                await prisma.$transaction(async (tx) => {
-                    // 1. Upsert Product
-                    const product = await tx.product.upsert({
-                        where: { productCode: row['Product Code']! },
-                        update: {
-                            supplier: row.Supplier || null,
-                            description: (row.Description || row['Full Description'])!,
-                            discountCode: row['Discount Code'] || null,
-                            partType,
-                            isActive: true
-                        },
-                        create: {
-                            productCode: row['Product Code']!,
-                            supplier: row.Supplier || null,
-                            description: (row.Description || row['Full Description'])!,
-                            discountCode: row['Discount Code'] || null,
-                            partType,
-                            isActive: true
-                        }
-                    });
-
-                    // 2. Upsert ProductStock
-                    if (row['Free Stock'] !== undefined && row['Free Stock'] !== null) {
-                        await tx.productStock.upsert({
-                            where: { productId: product.id },
-                            update: {
-                                freeStock: row['Free Stock'],
-                                lastImportBatchId: batch.id
-                            },
-                            create: {
-                                productId: product.id,
-                                freeStock: row['Free Stock'],
-                                lastImportBatchId: batch.id
-                            }
-                        });
-                    }
-
-                    // 3. Upsert ProductPriceReference
-                    await tx.productPriceReference.upsert({
-                        where: { productId: product.id },
-                        update: {
-                            costPrice: parseDecimal(row['Cost Price']),
-                            retailPrice: parseDecimal(row['Retail Price']),
-                            tradePrice: parseDecimal(row['Trade Price']),
-                            listPrice: parseDecimal(row['List Price']),
-                            minimumPrice: parseDecimal(row['Trade Price']) ? parseDecimal(row['Trade Price'])! * 0.9 : null,
-                            lastImportBatchId: batch.id
-                        },
-                        create: {
-                            productId: product.id,
-                            costPrice: parseDecimal(row['Cost Price']),
-                            retailPrice: parseDecimal(row['Retail Price']),
-                            tradePrice: parseDecimal(row['Trade Price']),
-                            listPrice: parseDecimal(row['List Price']),
-                            minimumPrice: parseDecimal(row['Trade Price']) ? parseDecimal(row['Trade Price'])! * 0.9 : null,
-                            lastImportBatchId: batch.id
-                        }
-                    });
-
-                    // 4. Upsert ProductPriceBand (4 bands)
-                    const bands = [
-                        { code: '1', price: row['Band 1'] },
-                        { code: '2', price: row['Band 2'] },
-                        { code: '3', price: row['Band 3'] },
-                        { code: '4', price: row['Band 4'] }
-                    ];
-
-                    for (const band of bands) {
-                        if (band.price !== undefined && band.price !== null) {
-                            await tx.productPriceBand.upsert({
-                                where: {
-                                    productId_bandCode: {
-                                        productId: product.id,
-                                        bandCode: band.code
-                                    }
-                                },
-                                update: {
-                                    price: band.price
-                                },
-                                create: {
-                                    productId: product.id,
-                                    bandCode: band.code,
-                                    price: band.price
-                                }
-                            });
-                        }
-                    }
-                });
-            } else {
-                invalidCount++;
-
-                // Log validation errors
-                await prisma.importError.create({
-                    data: {
-                        batchId: batch.id,
-                        rowNumber,
-                        errorMessage: validation.errors.join('; '),
-                        rawRowJson: row as any
-                    }
-                });
-            }
-
-            processedCount++;
+        processedCount++;
 
-            // Log progress every 100 rows
-            if (processedCount % 100 === 0) {
-                console.log(`   Processed ${processedCount}/${rows.length} rows (${validCount} valid, ${invalidCount} invalid)`);
-            }
+        if (processedCount % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: processedCount, validRows: validCount, invalidRows: invalidCount });
         }
 
-        console.log(`\n✅ Processing complete!`);
-        console.log(`   Total: ${rows.length}`);
-        console.log(`   Valid: ${validCount}`);
-        console.log(`   Invalid: ${invalidCount}`);
-
-        // Determine final status
-        let finalStatus: ImportStatus;
-        if (invalidCount === 0) {
-            finalStatus = ImportStatus.SUCCEEDED;
-        } else if (validCount === 0) {
-            finalStatus = ImportStatus.FAILED;
-        } else {
-            finalStatus = ImportStatus.SUCCEEDED_WITH_ERRORS;
+        // Log progress every 100 rows
+        if (processedCount % 100 === 0) {
+            console.log(`   Processed ${processedCount}/${rows.length} rows (${validCount} valid, ${invalidCount} invalid)`);
         }
+    }
 
-        // Update batch with final counts and status
-        await prisma.importBatch.update({
-            where: { id: batch.id },
-            data: {
-                validRows: validCount,
-                invalidRows: invalidCount,
-                status: finalStatus,
-                completedAt: new Date()
-            }
-        });
+    await progress({ processedRows: processedCount, validRows: validCount, invalidRows: invalidCount });
+
+    console.log(`\n✅ Processing complete!`);
+    console.log(`   Total: ${rows.length}`);
+    console.log(`   Valid: ${validCount}`);
+    console.log(`   Invalid: ${invalidCount}`);
 
-        console.log(`\n📊 Import batch ${batch.id} completed with status: ${finalStatus}`);
-
-        // Generate Validation Report
-        const report = {
-            total: validCount,
-            genuine: partType === PartType.GENUINE ? validCount : 0,
-            aftermarket: partType === PartType.AFTERMARKET ? validCount : 0,
-            branded: partType === PartType.BRANDED ? validCount : 0
-        };
-
-        console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        console.log('📊 FINAL IMPORT REPORT');
-        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        console.log(`Total Products: ${report.total}`);
-        console.log(`- GENUINE:     ${report.genuine}`);
-        console.log(`- AFTERMARKET: ${report.aftermarket}`);
-        console.log(`- BRANDED:     ${report.branded}`);
-        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-
-    } catch (error) {
-        console.error('\n❌ Import failed:', error);
-
-        // Update batch status to FAILED
+    // Dry run: leave the batch for review in admin/imports
+    if (mode === 'DRY_RUN') {
         await prisma.importBatch.update({
-            where: { id: batch.id },
-            data: {
-                status: ImportStatus.FAILED,
-                completedAt: new Date()
-            }
+            where: { id: batchId },
+            data: { status: ImportStatus.AWAITING_APPROVAL }
         });
-
-        throw error;
+        console.log(`\n🔎 Dry run staged. Review and approve batch ${batchId} in the admin imports screen.`);
+        return;
     }
-}
 
-main()
-    .catch((e) => {
-        console.error(e);
-        process.exit(1);
-    })
-    .finally(async () => {
-        await prisma.$disconnect();
-        await pool.end();
+    // Determine final status
+    const finalStatus = resolveFinalStatus(validCount, invalidCount);
+
+    // Update batch with final counts and status
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+            validRows: validCount,
+            invalidRows: invalidCount,
+            status: finalStatus,
+            completedAt: new Date()
+        }
     });
+
+    console.log(`\n📊 Import batch ${batchId} completed with status: ${finalStatus}`);
+
+    // Generate Validation Report
+    const report = {
+        total: validCount,
+        genuine: partType === PartType.GENUINE ? validCount : 0,
+        aftermarket: partType === PartType.AFTERMARKET ? validCount : 0,
+        branded: partType === PartType.BRANDED ? validCount : 0
+    };
+
+    console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log('📊 FINAL IMPORT REPORT');
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`Total Products: ${report.total}`);
+    console.log(`- GENUINE:     ${report.genuine}`);
+    console.log(`- AFTERMARKET: ${report.aftermarket}`);
+    console.log(`- BRANDED:     ${report.branded}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+}
+
+if (require.main === module) {
+    const { type, file, template } = parseArgs();
+    const importType = type === 'GENUINE' ? ImportType.PRODUCTS_GENUINE : ImportType.PRODUCTS_AFTERMARKET;
+
+    const dryRun = process.argv.includes('--dry-run');
+
+    runFromCli(importType, file, (ctx) => importProducts(ctx, type), { dryRun, templateName: template });
+}
@@ -0,0 +1,144 @@
+import { ImportType } from 'db';
+import { z } from 'zod';
+import * as fs from 'fs';
+import { parse } from 'csv-parse/sync';
+import { ImportJobContext, PROGRESS_INTERVAL, resolveFinalStatus, runFromCli } from './importJob';
+
+// Zod Schema
+const SupersessionRowSchema = z.object({
+    originalPartCode: z.string().min(1, 'Original part code is required'),
+    replacementPartCode: z.string().min(1, 'Replacement part code is required'),
+    note: z.string().nullable().optional()
+}).refine(row => row.originalPartCode !== row.replacementPartCode, {
+    message: 'A part cannot supersede itself',
+    path: ['replacementPartCode']
+});
+
+function normalizeCode(value: any): string | null {
+    if (value === undefined || value === null) return null;
+    const code = String(value).trim().toUpperCase();
+    return code === '' ? null : code;
+}
+
+export async function importSupersessions({ prisma, batchId, filePath, progress }: ImportJobContext) {
+    console.log(`Starting supersession import from ${filePath}`);
+
+    const fileContent = fs.readFileSync(filePath, 'utf-8');
+
+    // 1. Parse CSV
+    const rows = parse(fileContent, {
+        columns: true,
+        skip_empty_lines: true,
+        trim: true
+    }) as Record<string, string>[];
+
+    console.log(`Found ${rows.length} rows`);
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: { totalRows: rows.length }
+    });
+
+    let validCount = 0;
+    let invalidCount = 0;
+
+    // 2. Stage, validate & upsert rows
+    for (let i = 0; i < rows.length; i++) {
+        const raw = rows[i];
+        const rowNumber = i + 2; // +1 for 0-index, +1 for header
+
+        // Support both the ERP export headers and the short template headers
+        const mapped = {
+            originalPartCode: normalizeCode(raw['Original Part'] || raw['Superseded Part'] || raw['Part']),
+            replacementPartCode: normalizeCode(raw['Replacement Part'] || raw['New Part'] || raw['Superseded By']),
+            note: raw['Note'] || raw['Notes'] || null
+        };
+
+        const validation = SupersessionRowSchema.safeParse(mapped);
+        let validationErrors: string | null = null;
+        if (!validation.success) {
+            validationErrors = validation.error.issues.map(i => i.message).join(', ');
+        }
+
+        await prisma.stgSupersessionRow.create({
+            data: {
+                batchId,
+                rowNumber,
+                ...mapped,
+                isValid: validation.success,
+                validationErrors,
+                rawRowJson: raw
+            }
+        });
+
+        if (!validation.success) {
+            invalidCount++;
+            await prisma.importError.create({
+                data: {
+                    batchId,
+                    rowNumber,
+                    errorCode: 'INVALID_ROW',
+                    errorMessage: validationErrors || 'Unknown error',
+                    rawRowJson: raw
+                }
+            });
+            continue;
+        }
+
+        validCount++;
+
+        // Upsert: Supersession has no unique key on the pair, so match case-insensitively
+        const existing = await prisma.supersession.findFirst({
+            where: {
+                originalPartCode: { equals: mapped.originalPartCode!, mode: 'insensitive' },
+                replacementPartCode: { equals: mapped.replacementPartCode!, mode: 'insensitive' }
+            }
+        });
+
+        if (existing) {
+            await prisma.supersession.update({
+                where: { id: existing.id },
+                data: { note: mapped.note }
+            });
+        } else {
+            await prisma.supersession.create({
+                data: {
+                    originalPartCode: mapped.originalPartCode!,
+                    replacementPartCode: mapped.replacementPartCode!,
+                    note: mapped.note
+                }
+            });
+        }
+
+        if ((i + 1) % PROGRESS_INTERVAL === 0) {
+            await progress({ processedRows: i + 1, validRows: validCount, invalidRows: invalidCount });
+        }
+    }
+
+    await progress({ processedRows: rows.length, validRows: validCount, invalidRows: invalidCount });
+
+    // 3. Final status
+    const finalStatus = resolveFinalStatus(validCount, invalidCount);
+
+    await prisma.importBatch.update({
+        where: { id: batchId },
+        data: {
+            status: finalStatus,
+            validRows: validCount,
+            invalidRows: invalidCount,
+            completedAt: new Date()
+        }
+    });
+
+    console.log(`Supersession import completed with status ${finalStatus} (${validCount} valid, ${invalidCount} invalid).`);
+}
+
+if (require.main === module) {
+    const fileArg = process.argv.slice(2).find(a => a.startsWith('--file='));
+
+    if (!fileArg) {
+        console.error('Usage: ts-node src/importSupersessions.ts --file=<path>');
+        process.exit(1);
+    }
+
+    runFromCli(ImportType.SUPERSESSION, fileArg.split('=')[1] as string, importSupersessions);
+}
@@ -0,0 +1,69 @@
+import { createPrismaClient } from './importJob';
+import { claimNextJob, recoverStaleJobs, runJob } from './jobRunner';
+import { runHousekeeping } from './housekeeping';
+import { ErpExportService } from '@hotbray/domain-orders';
+import { EmailOutbox } from 'shared';
+
+const POLL_INTERVAL_MS = parseInt(process.env.IMPORT_POLL_INTERVAL_MS || '5000', 10);
+
+const { prisma, pool } = createPrismaClient();
+const erpExports = new ErpExportService(prisma, ErpExportService.connectorFromEnv());
+const emailOutbox = new EmailOutbox(prisma);
+let stopping = false;
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main() {
+    console.log('🛠  Import job runner started');
+
+    while (!stopping) {
+        try {
+            const recovered = await recoverStaleJobs(prisma);
+            if (recovered > 0) {
+                console.log(`↺ Requeued ${recovered} stale job(s)`);
+            }
+
+            await runHousekeeping(prisma);
+
+            const exported = await erpExports.runDue();
+            if (exported.sent + exported.retrying + exported.failed + exported.cancelled > 0) {
+                console.log(`📤 ERP export: ${exported.sent} sent, ${exported.retrying} retrying, ${exported.failed} failed, ${exported.cancelled} cancelled`);
+            }
+
+            const emailed = await emailOutbox.runDue();
+            if (emailed.sent + emailed.retrying + emailed.failed > 0) {
+                console.log(`📧 Email: ${emailed.sent} sent, ${emailed.retrying} retrying, ${emailed.failed} failed`);
+            }
+
+            const job = await claimNextJob(prisma);
+            if (job) {
+                await runJob(prisma, job);
+                continue; // Drain the queue before sleeping
+            }
+        } catch (e: any) {
+            console.error('Job runner error', e);
+        }
+
+        await sleep(POLL_INTERVAL_MS);
+    }
+}
+
+// Finish the current job before exiting; anything interrupted is requeued as stale on next start
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+        console.log(`Received ${signal}, stopping after the current job...`);
+        stopping = true;
+    });
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+        await pool.end();
+    });
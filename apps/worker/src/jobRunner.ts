@@ -0,0 +1,241 @@
+import { PrismaClient, ImportType, ImportStatus, ImportJobStatus } from 'db';
+import * as os from 'os';
+import { EmailService } from 'shared';
+import { ImportCancelledError, ImportJobContext, ImportMode, Importer } from './importJob';
+import { importProducts } from './importProducts';
+import { importBackorders } from './importBackorders';
+import { importSupersessions } from './importSupersessions';
+import { importFulfillment } from './importFulfillment';
+import { importDealerPrices } from './importDealerPrices';
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+// A RUNNING job whose heartbeat is older than this is assumed to belong to a dead worker
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Automatic retry delay doubles per attempt: 30s, 60s, 120s...
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+const IMPORTERS: Record<ImportType, Importer> = {
+    [ImportType.PRODUCTS_GENUINE]: (ctx) => importProducts(ctx, 'GENUINE'),
+    [ImportType.PRODUCTS_AFTERMARKET]: (ctx) => importProducts(ctx, 'AFTERMARKET'),
+    [ImportType.BACKORDERS]: importBackorders,
+    [ImportType.SUPERSESSION]: importSupersessions,
+    [ImportType.FULFILLMENT_STATUS]: importFulfillment,
+    [ImportType.DEALER_PRICES]: importDealerPrices
+};
+
+interface ClaimedJob {
+    id: string;
+    batchId: string;
+    attempts: number;
+    maxAttempts: number;
+}
+
+/**
+ * Atomically claim the oldest runnable job.
+ * FOR UPDATE SKIP LOCKED lets several workers poll the same table safely.
+ */
+export async function claimNextJob(prisma: PrismaClient): Promise<ClaimedJob | null> {
+    const rows = await prisma.$queryRaw<ClaimedJob[]>`
+        UPDATE "ImportJob"
+        SET "status" = 'RUNNING',
+            "attempts" = "attempts" + 1,
+            "lockedBy" = ${WORKER_ID},
+            "lockedAt" = NOW(),
+            "heartbeatAt" = NOW(),
+            "updatedAt" = NOW()
+        WHERE "id" = (
+            SELECT "id" FROM "ImportJob"
+            WHERE "status" = 'QUEUED' AND "runAfter" <= NOW()
+            ORDER BY "createdAt" ASC
+            FOR UPDATE SKIP LOCKED
+            LIMIT 1
+        )
+        RETURNING "id", "batchId", "attempts", "maxAttempts"
+    `;
+    return rows[0] ?? null;
+}
+
+/**
+ * Tell the uploader an import gave up for good. Mail problems are logged, never rethrown.
+ */
+async function notifyImportFailed(prisma: PrismaClient, batchId: string, message: string) {
+    try {
+        await new EmailService(prisma).sendImportFailed(batchId, message);
+    } catch (error: any) {
+        console.error(`Import failure email for batch ${batchId} failed:`, error?.message || error);
+    }
+}
+
+/**
+ * Requeue jobs left RUNNING by a worker that crashed or was restarted
+ */
+export async function recoverStaleJobs(prisma: PrismaClient): Promise<number> {
+    const staleJobs = await prisma.importJob.findMany({
+        where: {
+            status: ImportJobStatus.RUNNING,
+            heartbeatAt: { lt: new Date(Date.now() - STALE_JOB_MS) }
+        }
+    });
+
+    for (const job of staleJobs) {
+        const exhausted = job.attempts >= job.maxAttempts;
+        const message = `Worker ${job.lockedBy} stopped responding`;
+        await prisma.$transaction([
+            prisma.importJob.update({
+                where: { id: job.id },
+                data: {
+                    status: exhausted ? ImportJobStatus.FAILED : ImportJobStatus.QUEUED,
+                    lockedBy: null,
+                    lockedAt: null,
+                    lastError: message,
+                    completedAt: exhausted ? new Date() : null
+                }
+            }),
+            prisma.importBatch.update({
+                where: { id: job.batchId },
+                data: {
+                    status: exhausted ? ImportStatus.FAILED : ImportStatus.QUEUED,
+                    completedAt: exhausted ? new Date() : null
+                }
+            })
+        ]);
+
+        if (exhausted) {
+            await notifyImportFailed(prisma, job.batchId, message);
+        }
+    }
+
+    return staleJobs.length;
+}
+
+/**
+ * Clear anything a previous attempt left behind so the batch can be processed from scratch
+ */
+async function resetBatch(prisma: PrismaClient, batchId: string) {
+    await prisma.$transaction([
+        prisma.importError.deleteMany({ where: { batchId } }),
+        prisma.stgProductPriceRow.deleteMany({ where: { batchId } }),
+        prisma.stgBackorderRow.deleteMany({ where: { batchId } }),
+        prisma.stgSupersessionRow.deleteMany({ where: { batchId } }),
+        prisma.stgFulfillmentRow.deleteMany({ where: { batchId } }),
+        prisma.stgDealerPriceRow.deleteMany({ where: { batchId } }),
+        prisma.importBatch.update({
+            where: { id: batchId },
+            data: {
+                status: ImportStatus.PROCESSING,
+                totalRows: 0,
+                processedRows: 0,
+                validRows: 0,
+                invalidRows: 0,
+                completedAt: null
+            }
+        })
+    ]);
+}
+
+async function assertNotCancelled(prisma: PrismaClient, job: ClaimedJob) {
+    const current = await prisma.importJob.findUnique({
+        where: { id: job.id },
+        select: { status: true }
+    });
+    if (current?.status === ImportJobStatus.CANCELLED) {
+        throw new ImportCancelledError(job.batchId);
+    }
+}
+
+/**
+ * Run a claimed job through the importer for its batch type
+ */
+export async function runJob(prisma: PrismaClient, job: ClaimedJob) {
+    const batch = await prisma.importBatch.findUnique({ where: { id: job.batchId } });
+
+    try {
+        if (!batch || !batch.filePath) {
+            throw new Error('Import batch has no file to process');
+        }
+
+        const importer = IMPORTERS[batch.importType];
+        if (!importer) {
+            throw new Error(`No importer registered for ${batch.importType}`);
+        }
+
+        const mode: ImportMode = !batch.dryRun ? 'FULL' : batch.approvedAt ? 'APPLY' : 'DRY_RUN';
+
+        await assertNotCancelled(prisma, job);
+
+        // Approved dry runs keep the staging rows that were reviewed
+        if (mode === 'APPLY') {
+            await prisma.importBatch.update({
+                where: { id: batch.id },
+                data: { status: ImportStatus.PROCESSING, processedRows: 0, completedAt: null }
+            });
+        } else {
+            await resetBatch(prisma, batch.id);
+        }
+
+        const ctx: ImportJobContext = {
+            prisma,
+            batchId: batch.id,
+            filePath: batch.filePath,
+            mode,
+            progress: async (counts) => {
+                await assertNotCancelled(prisma, job);
+                await prisma.$transaction([
+                    prisma.importBatch.update({ where: { id: batch.id }, data: counts }),
+                    prisma.importJob.update({ where: { id: job.id }, data: { heartbeatAt: new Date() } })
+                ]);
+            }
+        };
+
+        console.log(`▶ Job ${job.id}: ${batch.importType} ${batch.fileName} [${mode}] (attempt ${job.attempts}/${job.maxAttempts})`);
+        await importer(ctx);
+
+        // Conditional update so a late cancel is not overwritten
+        await prisma.importJob.updateMany({
+            where: { id: job.id, status: ImportJobStatus.RUNNING },
+            data: { status: ImportJobStatus.SUCCEEDED, lockedBy: null, completedAt: new Date() }
+        });
+        console.log(`✅ Job ${job.id} completed`);
+
+    } catch (error: any) {
+        if (error instanceof ImportCancelledError) {
+            await prisma.importBatch.update({
+                where: { id: job.batchId },
+                data: { status: ImportStatus.CANCELLED, completedAt: new Date() }
+            });
+            console.log(`⏹ Job ${job.id} cancelled`);
+            return;
+        }
+
+        const exhausted = job.attempts >= job.maxAttempts;
+        const message = error?.message || String(error);
+
+        await prisma.$transaction([
+            prisma.importJob.update({
+                where: { id: job.id },
+                data: {
+                    status: exhausted ? ImportJobStatus.FAILED : ImportJobStatus.QUEUED,
+                    runAfter: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)),
+                    lockedBy: null,
+                    lockedAt: null,
+                    lastError: message,
+                    completedAt: exhausted ? new Date() : null
+                }
+            }),
+            prisma.importBatch.update({
+                where: { id: job.batchId },
+                data: {
+                    status: exhausted ? ImportStatus.FAILED : ImportStatus.QUEUED,
+                    completedAt: exhausted ? new Date() : null
+                }
+            })
+        ]);
+
+        console.error(`❌ Job ${job.id} failed${exhausted ? '' : ', will retry'}: ${message}`);
+        if (exhausted) {
+            await notifyImportFailed(prisma, job.batchId, message);
+        }
+    }
+}
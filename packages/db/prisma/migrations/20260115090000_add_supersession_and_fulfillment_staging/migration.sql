@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "StgSupersessionRow" (
+    "batchId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "originalPartCode" TEXT,
+    "replacementPartCode" TEXT,
+    "note" TEXT,
+    "isValid" BOOLEAN NOT NULL DEFAULT false,
+    "validationErrors" TEXT,
+    "rawRowJson" JSONB,
+
+    CONSTRAINT "StgSupersessionRow_pkey" PRIMARY KEY ("batchId","rowNumber")
+);
+
+-- CreateTable
+CREATE TABLE "StgFulfillmentRow" (
+    "batchId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "orderNo" TEXT,
+    "partCode" TEXT,
+    "lineStatus" TEXT,
+    "shippedQty" INTEGER,
+    "backorderedQty" INTEGER,
+    "trackingNo" TEXT,
+    "etaDate" TIMESTAMP(3),
+    "isValid" BOOLEAN NOT NULL DEFAULT false,
+    "validationErrors" TEXT,
+    "rawRowJson" JSONB,
+
+    CONSTRAINT "StgFulfillmentRow_pkey" PRIMARY KEY ("batchId","rowNumber")
+);
+
+-- CreateIndex
+CREATE INDEX "StgSupersessionRow_batchId_isValid_idx" ON "StgSupersessionRow"("batchId", "isValid");
+
+-- CreateIndex
+CREATE INDEX "StgFulfillmentRow_batchId_isValid_idx" ON "StgFulfillmentRow"("batchId", "isValid");
+
+-- AddForeignKey
+ALTER TABLE "StgSupersessionRow" ADD CONSTRAINT "StgSupersessionRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StgFulfillmentRow" ADD CONSTRAINT "StgFulfillmentRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
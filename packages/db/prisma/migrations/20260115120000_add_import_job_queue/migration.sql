@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "ImportStatus" ADD VALUE 'QUEUED' BEFORE 'PROCESSING';
+ALTER TYPE "ImportStatus" ADD VALUE 'CANCELLED';
+
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN "processedRows" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "heartbeatAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_status_runAfter_idx" ON "ImportJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ImportJob_batchId_idx" ON "ImportJob"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "ImportJob" ADD CONSTRAINT "ImportJob_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "ImportStatus" ADD VALUE 'AWAITING_APPROVAL';
+
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN "dryRun" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "approvedAt" TIMESTAMP(3),
+ADD COLUMN "approvedById" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN "templateId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "ImportBatch" ADD CONSTRAINT "ImportBatch_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "UploadTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
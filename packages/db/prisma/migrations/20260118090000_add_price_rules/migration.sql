@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "PriceRuleType" AS ENUM ('QUANTITY_BREAK', 'PROMOTION', 'CONTRACT');
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN "basePriceSnapshot" DECIMAL(65,30),
+ADD COLUMN "priceRuleId" TEXT,
+ADD COLUMN "priceRuleType" "PriceRuleType",
+ADD COLUMN "priceRuleName" TEXT;
+
+-- CreateTable
+CREATE TABLE "PriceRule" (
+    "id" TEXT NOT NULL,
+    "ruleType" "PriceRuleType" NOT NULL,
+    "name" TEXT NOT NULL,
+    "productId" TEXT,
+    "discountCode" TEXT,
+    "supplier" TEXT,
+    "partType" "PartType",
+    "dealerAccountId" TEXT,
+    "minQty" INTEGER NOT NULL DEFAULT 1,
+    "fixedPrice" DECIMAL(10,2),
+    "discountPercent" DECIMAL(5,2),
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PriceRule_ruleType_isActive_idx" ON "PriceRule"("ruleType", "isActive");
+
+-- CreateIndex
+CREATE INDEX "PriceRule_productId_idx" ON "PriceRule"("productId");
+
+-- CreateIndex
+CREATE INDEX "PriceRule_dealerAccountId_idx" ON "PriceRule"("dealerAccountId");
+
+-- AddForeignKey
+ALTER TABLE "PriceRule" ADD CONSTRAINT "PriceRule_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceRule" ADD CONSTRAINT "PriceRule_dealerAccountId_fkey" FOREIGN KEY ("dealerAccountId") REFERENCES "DealerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- AlterEnum
+ALTER TYPE "ImportType" ADD VALUE 'DEALER_PRICES';
+
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN "priceOverrideId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DealerPriceOverride" (
+    "id" TEXT NOT NULL,
+    "dealerAccountId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "netPrice" DECIMAL(10,2) NOT NULL,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "waiveMinimumPrice" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "lastImportBatchId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DealerPriceOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StgDealerPriceRow" (
+    "batchId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "accountNo" TEXT,
+    "productCode" TEXT,
+    "netPrice" DECIMAL(65,30),
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "waiveMinimumPrice" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "isValid" BOOLEAN NOT NULL DEFAULT false,
+    "validationErrors" TEXT,
+    "rawRowJson" JSONB,
+
+    CONSTRAINT "StgDealerPriceRow_pkey" PRIMARY KEY ("batchId","rowNumber")
+);
+
+-- CreateIndex
+CREATE INDEX "DealerPriceOverride_dealerAccountId_productId_idx" ON "DealerPriceOverride"("dealerAccountId", "productId");
+
+-- CreateIndex
+CREATE INDEX "DealerPriceOverride_productId_idx" ON "DealerPriceOverride"("productId");
+
+-- CreateIndex
+CREATE INDEX "StgDealerPriceRow_batchId_isValid_idx" ON "StgDealerPriceRow"("batchId", "isValid");
+
+-- AddForeignKey
+ALTER TABLE "DealerPriceOverride" ADD CONSTRAINT "DealerPriceOverride_dealerAccountId_fkey" FOREIGN KEY ("dealerAccountId") REFERENCES "DealerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DealerPriceOverride" ADD CONSTRAINT "DealerPriceOverride_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StgDealerPriceRow" ADD CONSTRAINT "StgDealerPriceRow_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateSequence
+-- Shared by every order source (see OrderNumberService); formats live in SystemSetting "ORDER_NUMBER_FORMATS"
+CREATE SEQUENCE "order_number_seq" START WITH 1 INCREMENT BY 1;
+
+-- Continue after numbers issued by the old count-based generator (ORD-000123)
+SELECT setval(
+    '"order_number_seq"',
+    GREATEST(
+        COALESCE((SELECT MAX(CAST(substring("orderNo" from '^ORD-([0-9]{1,9})$') AS BIGINT)) FROM "OrderHeader"), 0),
+        (SELECT COUNT(*) FROM "OrderHeader"),
+        1
+    ),
+    EXISTS (SELECT 1 FROM "OrderHeader")
+);
@@ -0,0 +1,3 @@
+-- CreateSequence
+-- Interchange control references for outbound EDI documents (CONTRL / ORDRSP, 997 / 855); X12 allows 9 digits
+CREATE SEQUENCE "edi_control_seq" START WITH 1 INCREMENT BY 1 MAXVALUE 999999999 CYCLE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "DealerApiKey" (
+    "id" TEXT NOT NULL,
+    "dealerAccountId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyId" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "lastUsedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "replacedById" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DealerApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApiRequestNonce" (
+    "apiKeyId" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApiRequestNonce_pkey" PRIMARY KEY ("apiKeyId","nonce")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DealerApiKey_keyId_key" ON "DealerApiKey"("keyId");
+
+-- CreateIndex
+CREATE INDEX "DealerApiKey_dealerAccountId_idx" ON "DealerApiKey"("dealerAccountId");
+
+-- CreateIndex
+CREATE INDEX "ApiRequestNonce_createdAt_idx" ON "ApiRequestNonce"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DealerApiKey" ADD CONSTRAINT "DealerApiKey_dealerAccountId_fkey" FOREIGN KEY ("dealerAccountId") REFERENCES "DealerAccount"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApiRequestNonce" ADD CONSTRAINT "ApiRequestNonce_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "DealerApiKey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "ErpExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "OrderHeader" ADD COLUMN "erpReference" TEXT,
+ADD COLUMN "erpExportedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ErpExport" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" "ErpExportStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 8,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "adapter" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ErpExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ErpExport_orderId_key" ON "ErpExport"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ErpExport_status_nextAttemptAt_idx" ON "ErpExport"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "ErpExport" ADD CONSTRAINT "ErpExport_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "OrderHeader"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Orders placed before the outbox existed are left alone; they were pushed (or not) by the old connector
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "DealerUser" ADD COLUMN "notifyBackorderStock" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "BackorderNotification" (
+    "id" TEXT NOT NULL,
+    "accountNo" TEXT NOT NULL,
+    "lineKey" TEXT NOT NULL,
+    "notifiedInWh" INTEGER NOT NULL,
+    "datasetId" TEXT NOT NULL,
+    "notifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BackorderNotification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BackorderNotification_accountNo_lineKey_key" ON "BackorderNotification"("accountNo", "lineKey");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN "bodyHtml" TEXT,
+ADD COLUMN "templateKey" TEXT,
+ADD COLUMN "templateVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT NOT NULL,
+    "bodyHtml" TEXT NOT NULL,
+    "bodyText" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EmailTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailTemplate_key_isActive_idx" ON "EmailTemplate"("key", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_key_version_key" ON "EmailTemplate"("key", "version");
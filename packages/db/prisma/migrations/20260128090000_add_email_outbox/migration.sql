@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "EmailStatus" AS ENUM ('QUEUED', 'SENDING', 'SENT', 'FAILED', 'SUPPRESSED');
+
+-- DropIndex
+DROP INDEX "EmailLog_sentAt_idx";
+
+-- AlterTable
+ALTER TABLE "EmailLog" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "maxAttempts" INTEGER NOT NULL DEFAULT 6,
+ADD COLUMN "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "lockedBy" TEXT,
+ADD COLUMN "lockedAt" TIMESTAMP(3),
+ADD COLUMN "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "resentFromId" TEXT,
+ALTER COLUMN "sentAt" DROP NOT NULL,
+ALTER COLUMN "sentAt" DROP DEFAULT,
+ALTER COLUMN "status" TYPE "EmailStatus" USING ("status"::"EmailStatus"),
+ALTER COLUMN "status" SET DEFAULT 'QUEUED';
+
+-- Emails logged before the outbox were sent (or failed) once, at sentAt
+UPDATE "EmailLog" SET "createdAt" = "sentAt", "updatedAt" = "sentAt", "nextAttemptAt" = "sentAt", "attempts" = 1;
+UPDATE "EmailLog" SET "sentAt" = NULL WHERE "status" = 'FAILED';
+
+ALTER TABLE "EmailLog" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE "EmailRecipient" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "bounceCount" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "lastFailureAt" TIMESTAMP(3),
+    "suppressedAt" TIMESTAMP(3),
+    "suppressedReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EmailRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EmailLog_createdAt_idx" ON "EmailLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "EmailLog_status_nextAttemptAt_idx" ON "EmailLog"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailRecipient_email_key" ON "EmailRecipient"("email");
+
+-- CreateIndex
+CREATE INDEX "EmailRecipient_suppressedAt_idx" ON "EmailRecipient"("suppressedAt");
@@ -0,0 +1,2 @@
+-- Admin permissions come from the admin role, so admins created without one keep the access they had
+UPDATE "AppUser" SET "adminRole" = 'ADMIN' WHERE "role" = 'ADMIN' AND "adminRole" IS NULL;
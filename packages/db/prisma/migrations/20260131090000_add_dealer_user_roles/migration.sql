@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "DealerUserRole" AS ENUM ('BUYER', 'VIEWER', 'APPROVER');
+
+-- AlterTable
+ALTER TABLE "DealerUser" ADD COLUMN     "role" "DealerUserRole" NOT NULL DEFAULT 'BUYER',
+ADD COLUMN     "isActive" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateIndex
+CREATE INDEX "DealerUser_dealerAccountId_idx" ON "DealerUser"("dealerAccountId");
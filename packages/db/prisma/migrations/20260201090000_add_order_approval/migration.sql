@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'PENDING_APPROVAL';
+ALTER TYPE "OrderStatus" ADD VALUE 'REJECTED';
+
+-- AlterTable
+ALTER TABLE "DealerUser" ADD COLUMN     "orderLimit" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "OrderHeader" ADD COLUMN     "decidedById" TEXT,
+ADD COLUMN     "decidedAt" TIMESTAMP(3),
+ADD COLUMN     "rejectionReason" TEXT;
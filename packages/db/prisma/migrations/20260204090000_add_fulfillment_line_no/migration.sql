@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "StgFulfillmentRow" ADD COLUMN     "lineNo" INTEGER;
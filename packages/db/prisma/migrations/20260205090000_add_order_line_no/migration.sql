@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "OrderLine" ADD COLUMN     "lineNo" INTEGER;
+
+-- Number existing lines in id order, the order ERP exports have used so far
+UPDATE "OrderLine" SET "lineNo" = numbered."lineNo"
+FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "orderId" ORDER BY "id") AS "lineNo" FROM "OrderLine") AS numbered
+WHERE "OrderLine"."id" = numbered."id";
+
+ALTER TABLE "OrderLine" ALTER COLUMN "lineNo" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderLine_orderId_lineNo_key" ON "OrderLine"("orderId", "lineNo");
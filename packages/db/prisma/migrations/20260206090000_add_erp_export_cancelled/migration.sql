@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ErpExportStatus" ADD VALUE 'CANCELLED';
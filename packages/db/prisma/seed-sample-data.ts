@@ -3,6 +3,7 @@ import { Pool } from 'pg';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { PrismaClient, UserRole, AdminRole, DealerStatus, PartType, Entitlement, OrderStatus } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { OrderNumberService } from '../src/orderNumbers';
 
 const connectionString = process.env.DATABASE_URL!;
 const pool = new Pool({ connectionString });
@@ -204,13 +205,14 @@ async function main() {
         // 8. Create Orders (30)
         console.log('\n📋 Creating orders...');
         const orders = [];
+        const orderNumbers = new OrderNumberService(prisma);
         const orderStatuses = [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.SHIPPED, OrderStatus.DELIVERED];
 
         for (let i = 0; i < 30; i++) {
             const dealerUser = dealerUsers[i % dealerUsers.length];
             const order = await prisma.orderHeader.create({
                 data: {
-                    orderNo: `ORD${String(i + 1).padStart(6, '0')}`,
+                    orderNo: await orderNumbers.next('ADMIN'),
                     dealerAccountId: dealerUser.dealerAccountId,
                     dealerUserId: dealerUser.userId,
                     status: orderStatuses[i % orderStatuses.length],
@@ -237,6 +239,7 @@ async function main() {
                 await prisma.orderLine.create({
                     data: {
                         orderHeaderId: order.id,
+                        lineNo: j + 1,
                         productId: product.id,
                         productCodeSnapshot: product.productCode,
                         descriptionSnapshot: product.description,
@@ -270,7 +273,6 @@ async function main() {
             { key: 'SESSION_TIMEOUT_MINUTES', value: '30', description: 'Session timeout in minutes' },
             { key: 'PRICE_DECIMAL_PLACES', value: '2', description: 'Decimal places for prices' },
             { key: 'STOCK_WARNING_THRESHOLD', value: '10', description: 'Low stock warning threshold' },
-            { key: 'ORDER_PREFIX', value: 'ORD', description: 'Order number prefix' },
             { key: 'ENABLE_BACKORDERS', value: 'true', description: 'Allow backorders' },
             { key: 'MAX_BACKORDER_QTY', value: '50', description: 'Maximum backorder quantity' },
             { key: 'PRICE_UPDATE_FREQUENCY', value: 'DAILY', description: 'Price update frequency' },
@@ -1,4 +1,4 @@
-import { prisma } from '../src/index';
+import { prisma, OrderNumberService } from '../src/index';
 import { UserRole, AdminRole, DealerStatus, PartType, Entitlement, OrderStatus } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
 
@@ -117,18 +117,20 @@ async function main() {
         }
 
         console.log('📋 Creating 20 orders...');
+        const orderNumbers = new OrderNumberService(prisma);
         for (let i = 0; i < 20; i++) {
             const dealer = dealers[i % dealers.length];
             const dealerUser = await (prisma as any).dealerUser.findFirst({ where: { dealerAccountId: dealer.id } });
             await (prisma as any).orderHeader.create({
                 data: {
-                    orderNo: `O-SEED-${Date.now()}-${i}`,
+                    orderNo: await orderNumbers.next('ADMIN'),
                     dealerAccountId: dealer.id,
                     dealerUserId: dealerUser!.id,
                     status: OrderStatus.PROCESSING,
                     total: 100,
                     lines: {
                         create: {
+                            lineNo: 1,
                             productId: products[i % products.length].id,
                             productCodeSnapshot: products[i % products.length].productCode,
                             descriptionSnapshot: products[i % products.length].description,
@@ -0,0 +1,70 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// SystemSetting key holding { snapshots: number }
+export const BACKORDER_RETENTION_KEY = 'BACKORDER_RETENTION';
+
+export const DEFAULT_BACKORDER_SNAPSHOTS = 10;
+
+// The active dataset plus at least one previous one, so there is always something to diff against
+export const MIN_BACKORDER_SNAPSHOTS = 2;
+export const MAX_BACKORDER_SNAPSHOTS = 100;
+
+export interface BackorderRetention {
+    snapshots: number; // Datasets kept, counting the active one
+}
+
+/**
+ * Every backorder import creates a new BackorderDataset and deactivates the last one.
+ * Old datasets are kept as history for diffs and pruned beyond the configured number of snapshots.
+ */
+export class BackorderRetentionService {
+    constructor(private prisma: PrismaClient) { }
+
+    async get(): Promise<BackorderRetention> {
+        const setting = await this.prisma.systemSetting.findUnique({ where: { key: BACKORDER_RETENTION_KEY } });
+        const stored = (setting?.valueJson ?? {}) as Partial<BackorderRetention>;
+
+        return {
+            snapshots: BackorderRetentionService.isValid(stored.snapshots) ? stored.snapshots! : DEFAULT_BACKORDER_SNAPSHOTS
+        };
+    }
+
+    async set(retention: BackorderRetention): Promise<BackorderRetention> {
+        if (!BackorderRetentionService.isValid(retention.snapshots)) {
+            throw new Error(`Snapshots must be a whole number between ${MIN_BACKORDER_SNAPSHOTS} and ${MAX_BACKORDER_SNAPSHOTS}`);
+        }
+
+        await this.prisma.systemSetting.upsert({
+            where: { key: BACKORDER_RETENTION_KEY },
+            update: { valueJson: retention as unknown as Prisma.InputJsonValue },
+            create: { key: BACKORDER_RETENTION_KEY, valueJson: retention as unknown as Prisma.InputJsonValue }
+        });
+        return retention;
+    }
+
+    /**
+     * Delete datasets (and their lines) beyond the newest `snapshots`. The active dataset is never pruned.
+     */
+    async prune(): Promise<number> {
+        const { snapshots } = await this.get();
+
+        const expired = await this.prisma.backorderDataset.findMany({
+            where: { isActive: false },
+            orderBy: { uploadedAt: 'desc' },
+            skip: snapshots - 1,
+            select: { id: true }
+        });
+        if (expired.length === 0) return 0;
+
+        const { count } = await this.prisma.backorderDataset.deleteMany({
+            where: { id: { in: expired.map(d => d.id) }, isActive: false }
+        });
+        return count;
+    }
+
+    static isValid(snapshots: unknown): boolean {
+        return Number.isInteger(snapshots) &&
+            (snapshots as number) >= MIN_BACKORDER_SNAPSHOTS &&
+            (snapshots as number) <= MAX_BACKORDER_SNAPSHOTS;
+    }
+}
@@ -1,6 +1,9 @@
 import { PrismaClient } from '@prisma/client';
 
 export * from '@prisma/client';
+export * from './orderNumbers';
+export * from './backorderRetention';
+export * from './passwordPolicy';
 
 const globalForPrisma = globalThis as unknown as { prisma: PrismaClient };
 
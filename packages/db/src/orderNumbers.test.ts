@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ORDER_NUMBER_FORMATS, OrderNumberService } from './orderNumbers';
+
+const now = new Date('2026-03-07T12:00:00Z');
+
+describe('OrderNumberService.render', () => {
+    it('renders the default formats with a six digit sequence', () => {
+        expect(OrderNumberService.render(DEFAULT_ORDER_NUMBER_FORMATS.WEB, 42, now)).toBe('ORD-000042');
+        expect(OrderNumberService.render(DEFAULT_ORDER_NUMBER_FORMATS.ADMIN, 42, now)).toBe('ADM-000042');
+        expect(OrderNumberService.render(DEFAULT_ORDER_NUMBER_FORMATS.EDI, 42, now)).toBe('EDI-000042');
+    });
+
+    it('fills in date tokens from the UTC date', () => {
+        const format = { prefix: 'HB/', format: '{prefix}{yyyy}{mm}{dd}-{seq:4}' };
+
+        expect(OrderNumberService.render(format, 7, now)).toBe('HB/20260307-0007');
+        expect(OrderNumberService.render({ prefix: '', format: '{yy}-{seq}' }, 7, now)).toBe('26-7');
+    });
+
+    it('never truncates a sequence wider than its padding', () => {
+        expect(OrderNumberService.render({ prefix: 'W', format: '{prefix}{seq:3}' }, 123456, now)).toBe('W123456');
+    });
+});
+
+describe('OrderNumberService.validate', () => {
+    it('accepts the default formats', () => {
+        for (const format of Object.values(DEFAULT_ORDER_NUMBER_FORMATS)) {
+            expect(OrderNumberService.validate(format)).toEqual([]);
+        }
+    });
+
+    it('requires a {seq} token', () => {
+        expect(OrderNumberService.validate({ prefix: 'ORD-', format: '{prefix}{yyyy}' })).toEqual(['Format must include {seq}']);
+    });
+
+    it('rejects unknown tokens', () => {
+        expect(OrderNumberService.validate({ prefix: 'ORD-', format: '{prefix}{seq}{hh}' })).toEqual(['Unknown token {hh}']);
+    });
+
+    it('rejects prefixes with characters outside the allowed set', () => {
+        expect(OrderNumberService.validate({ prefix: 'ORD #', format: '{prefix}{seq}' }))
+            .toEqual(['Prefix may only contain letters, digits, -, _ and /']);
+    });
+
+    it('requires both prefix and format', () => {
+        expect(OrderNumberService.validate({ prefix: 'ORD-' } as any)).toEqual(['Prefix and format are required']);
+    });
+});
@@ -0,0 +1,115 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+export type OrderNumberSource = 'WEB' | 'ADMIN' | 'EDI';
+
+export const ORDER_NUMBER_SOURCES: OrderNumberSource[] = ['WEB', 'ADMIN', 'EDI'];
+
+/**
+ * How one source renders its order numbers.
+ * `format` tokens: {prefix}, {seq} or {seq:N} (zero-padded to N digits), {yyyy}, {yy}, {mm}, {dd}
+ */
+export interface OrderNumberFormat {
+    prefix: string;
+    format: string;
+}
+
+export type OrderNumberFormats = Record<OrderNumberSource, OrderNumberFormat>;
+
+// SystemSetting key holding the per-source formats
+export const ORDER_NUMBER_FORMATS_KEY = 'ORDER_NUMBER_FORMATS';
+
+export const DEFAULT_ORDER_NUMBER_FORMATS: OrderNumberFormats = {
+    WEB: { prefix: 'ORD-', format: '{prefix}{seq:6}' },
+    ADMIN: { prefix: 'ADM-', format: '{prefix}{seq:6}' },
+    EDI: { prefix: 'EDI-', format: '{prefix}{seq:6}' }
+};
+
+const TOKEN_PATTERN = /\{(prefix|seq|yyyy|yy|mm|dd)(?::(\d+))?\}/g;
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Allocates order numbers for every path that creates OrderHeader rows.
+ * All sources draw from one database sequence, so numbers never collide under concurrent checkouts
+ * and stay unique even if two sources are configured with the same prefix. Values taken by a
+ * rolled-back transaction are not reused, so gaps are expected.
+ */
+export class OrderNumberService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Next order number for a source. Pass the order's transaction client when there is one.
+     */
+    async next(source: OrderNumberSource, db: Db = this.prisma, now: Date = new Date()): Promise<string> {
+        const [{ seq }] = await db.$queryRaw<Array<{ seq: bigint }>>`SELECT nextval('order_number_seq') AS seq`;
+        const formats = await this.getFormats(db);
+        return OrderNumberService.render(formats[source], Number(seq), now);
+    }
+
+    /**
+     * Configured formats, falling back to the defaults for any source not configured
+     */
+    async getFormats(db: Db = this.prisma): Promise<OrderNumberFormats> {
+        const setting = await db.systemSetting.findUnique({ where: { key: ORDER_NUMBER_FORMATS_KEY } });
+        const stored = (setting?.valueJson ?? {}) as Partial<OrderNumberFormats>;
+
+        const formats = { ...DEFAULT_ORDER_NUMBER_FORMATS };
+        for (const source of ORDER_NUMBER_SOURCES) {
+            if (stored[source] && OrderNumberService.validate(stored[source]!).length === 0) {
+                formats[source] = stored[source]!;
+            }
+        }
+        return formats;
+    }
+
+    async setFormats(formats: Partial<OrderNumberFormats>): Promise<OrderNumberFormats> {
+        for (const source of Object.keys(formats) as OrderNumberSource[]) {
+            if (!ORDER_NUMBER_SOURCES.includes(source)) {
+                throw new Error(`Unknown order source ${source}`);
+            }
+            const problems = OrderNumberService.validate(formats[source]!);
+            if (problems.length > 0) {
+                throw new Error(`${source}: ${problems.join(', ')}`);
+            }
+        }
+
+        const merged = { ...(await this.getFormats()), ...formats };
+        await this.prisma.systemSetting.upsert({
+            where: { key: ORDER_NUMBER_FORMATS_KEY },
+            update: { valueJson: merged as unknown as Prisma.InputJsonValue },
+            create: { key: ORDER_NUMBER_FORMATS_KEY, valueJson: merged as unknown as Prisma.InputJsonValue }
+        });
+        return merged;
+    }
+
+    static validate(format: OrderNumberFormat): string[] {
+        const problems: string[] = [];
+        if (typeof format?.prefix !== 'string' || typeof format?.format !== 'string') {
+            return ['Prefix and format are required'];
+        }
+        if (!/^[A-Za-z0-9\-_/]*$/.test(format.prefix)) {
+            problems.push('Prefix may only contain letters, digits, -, _ and /');
+        }
+        if (!/\{seq(:\d+)?\}/.test(format.format)) {
+            problems.push('Format must include {seq}');
+        }
+        const unknown = format.format.replace(TOKEN_PATTERN, '').match(/\{[^}]*\}/);
+        if (unknown) {
+            problems.push(`Unknown token ${unknown[0]}`);
+        }
+        return problems;
+    }
+
+    static render(format: OrderNumberFormat, seq: number, now: Date): string {
+        return format.format.replace(TOKEN_PATTERN, (_match, token: string, width?: string) => {
+            switch (token) {
+                case 'prefix': return format.prefix;
+                case 'seq': return String(seq).padStart(Number(width ?? 0), '0');
+                case 'yyyy': return String(now.getUTCFullYear());
+                case 'yy': return String(now.getUTCFullYear()).slice(-2);
+                case 'mm': return String(now.getUTCMonth() + 1).padStart(2, '0');
+                default: return String(now.getUTCDate()).padStart(2, '0');
+            }
+        });
+    }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PASSWORD_POLICY, PasswordPolicy, PasswordPolicyService } from './passwordPolicy';
+
+const policy = (overrides: Partial<PasswordPolicy> = {}): PasswordPolicy => ({ ...DEFAULT_PASSWORD_POLICY, ...overrides });
+
+/**
+ * systemSetting table holding at most the password policy row
+ */
+function fakePrisma(valueJson?: unknown) {
+    return {
+        systemSetting: {
+            findUnique: async () => valueJson === undefined ? null : { key: 'PASSWORD_POLICY', valueJson },
+            upsert: async () => ({})
+        }
+    };
+}
+
+describe('PasswordPolicyService.violations', () => {
+    it('passes a password meeting the default policy', () => {
+        expect(PasswordPolicyService.violations('Harbour2026', policy())).toEqual([]);
+    });
+
+    it('lists every rule a password misses', () => {
+        expect(PasswordPolicyService.violations('short', policy({ requireSymbol: true }))).toEqual([
+            'Password must be at least 10 characters',
+            'Password must contain an uppercase letter',
+            'Password must contain a number',
+            'Password must contain a symbol'
+        ]);
+        expect(PasswordPolicyService.violations('ALLCAPS12345', policy())).toEqual(['Password must contain a lowercase letter']);
+    });
+
+    it('counts anything other than a letter or digit as a symbol', () => {
+        expect(PasswordPolicyService.violations('Harbour 2026', policy({ requireSymbol: true }))).toEqual([]);
+        expect(PasswordPolicyService.violations('Harbour2026£', policy({ requireSymbol: true }))).toEqual([]);
+    });
+
+    it('only checks the rules the policy turns on', () => {
+        const lenient = policy({ minLength: 8, requireUppercase: false, requireLowercase: false, requireNumber: false });
+
+        expect(PasswordPolicyService.violations('abcdefgh', lenient)).toEqual([]);
+        expect(PasswordPolicyService.violations('abcdefg', lenient)).toEqual(['Password must be at least 8 characters']);
+    });
+});
+
+describe('PasswordPolicyService.get', () => {
+    it('falls back to the defaults when nothing is stored', async () => {
+        expect(await new PasswordPolicyService(fakePrisma() as any).get()).toEqual(DEFAULT_PASSWORD_POLICY);
+    });
+
+    it('keeps valid stored settings and replaces invalid ones with their defaults', async () => {
+        const service = new PasswordPolicyService(fakePrisma({ minLength: 12, requireSymbol: true, historyCount: 99, requireNumber: 'yes' }) as any);
+
+        expect(await service.get()).toEqual(policy({ minLength: 12, requireSymbol: true }));
+    });
+});
+
+describe('PasswordPolicyService.set', () => {
+    it('rejects numbers outside their limits', async () => {
+        const service = new PasswordPolicyService(fakePrisma() as any);
+
+        await expect(service.set(policy({ minLength: 6 }))).rejects.toThrow('minLength must be a whole number between 8 and 128');
+        await expect(service.set(policy({ resetTokenTtlMinutes: 2.5 }))).rejects.toThrow('resetTokenTtlMinutes must be a whole number between 5 and 1440');
+    });
+});
@@ -0,0 +1,113 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+// SystemSetting key holding a PasswordPolicy
+export const PASSWORD_POLICY_KEY = 'PASSWORD_POLICY';
+
+export interface PasswordPolicy {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    historyCount: number; // Previous passwords that cannot be reused; 0 allows any
+    resetTokenTtlMinutes: number; // How long a forgot-password link works
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+    minLength: 10,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: false,
+    historyCount: 5,
+    resetTokenTtlMinutes: 60
+};
+
+// Bounds for the numeric settings, inclusive
+export const PASSWORD_POLICY_LIMITS = {
+    minLength: { min: 8, max: 128 },
+    historyCount: { min: 0, max: 24 },
+    resetTokenTtlMinutes: { min: 5, max: 24 * 60 }
+} as const;
+
+/**
+ * Password strength and reuse rules, applied whenever a user chooses a password
+ * (forgot-password reset and change password). Admin-generated passwords are not checked against it.
+ */
+export class PasswordPolicyService {
+    constructor(private prisma: PrismaClient) { }
+
+    async get(): Promise<PasswordPolicy> {
+        const setting = await this.prisma.systemSetting.findUnique({ where: { key: PASSWORD_POLICY_KEY } });
+        const stored = (setting?.valueJson ?? {}) as Partial<PasswordPolicy>;
+
+        // Anything missing or out of range falls back to its default, so a partial setting still works
+        const policy = { ...DEFAULT_PASSWORD_POLICY };
+        for (const key of Object.keys(DEFAULT_PASSWORD_POLICY) as (keyof PasswordPolicy)[]) {
+            if (PasswordPolicyService.problem(key, stored[key]) === null) {
+                (policy as Record<keyof PasswordPolicy, number | boolean>)[key] = stored[key]!;
+            }
+        }
+        return policy;
+    }
+
+    async set(policy: PasswordPolicy): Promise<PasswordPolicy> {
+        for (const key of Object.keys(DEFAULT_PASSWORD_POLICY) as (keyof PasswordPolicy)[]) {
+            const problem = PasswordPolicyService.problem(key, policy[key]);
+            if (problem) {
+                throw new Error(problem);
+            }
+        }
+
+        const value: PasswordPolicy = {
+            minLength: policy.minLength,
+            requireUppercase: policy.requireUppercase,
+            requireLowercase: policy.requireLowercase,
+            requireNumber: policy.requireNumber,
+            requireSymbol: policy.requireSymbol,
+            historyCount: policy.historyCount,
+            resetTokenTtlMinutes: policy.resetTokenTtlMinutes
+        };
+        await this.prisma.systemSetting.upsert({
+            where: { key: PASSWORD_POLICY_KEY },
+            update: { valueJson: value as unknown as Prisma.InputJsonValue },
+            create: { key: PASSWORD_POLICY_KEY, valueJson: value as unknown as Prisma.InputJsonValue }
+        });
+        return value;
+    }
+
+    /**
+     * What a password is missing under the policy, as sentences for the user; empty when it passes
+     */
+    static violations(password: string, policy: PasswordPolicy): string[] {
+        const violations: string[] = [];
+
+        if (password.length < policy.minLength) {
+            violations.push(`Password must be at least ${policy.minLength} characters`);
+        }
+        if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+            violations.push('Password must contain an uppercase letter');
+        }
+        if (policy.requireLowercase && !/[a-z]/.test(password)) {
+            violations.push('Password must contain a lowercase letter');
+        }
+        if (policy.requireNumber && !/[0-9]/.test(password)) {
+            violations.push('Password must contain a number');
+        }
+        if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+            violations.push('Password must contain a symbol');
+        }
+
+        return violations;
+    }
+
+    private static problem(key: keyof PasswordPolicy, value: unknown): string | null {
+        if (key in PASSWORD_POLICY_LIMITS) {
+            const { min, max } = PASSWORD_POLICY_LIMITS[key as keyof typeof PASSWORD_POLICY_LIMITS];
+            return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+                ? null
+                : `${key} must be a whole number between ${min} and ${max}`;
+        }
+        return typeof value === 'boolean' ? null : `${key} must be true or false`;
+    }
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { ApiKeyError, ApiKeyService, SignedRequest } from './ApiKeyService';
+
+const API_KEY = 'hbk_0123456789abcdef.partner-secret';
+const KEY_ID = 'hbk_0123456789abcdef';
+const now = new Date('2026-03-07T12:00:00Z');
+const nowSeconds = String(now.getTime() / 1000);
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+const dealerUser = (id: string, isActive = true, userActive = true) => ({
+    id,
+    userId: `user-${id}`,
+    isActive,
+    user: { email: `${id}@dealer.test`, isActive: userActive }
+});
+
+/**
+ * Just enough of the client for verify: one key, its account's users and the nonce table
+ */
+function fakePrisma(users = [dealerUser('primary')], overrides: Record<string, unknown> = {}) {
+    const key = {
+        id: 'key-1',
+        keyId: KEY_ID,
+        keyHash: sha256(API_KEY),
+        scopes: ['orders:write'],
+        dealerAccountId: 'account-1',
+        revokedAt: null,
+        expiresAt: null,
+        ...overrides
+    };
+    const nonces = new Set<string>();
+
+    return {
+        nonces,
+        dealerApiKey: {
+            findUnique: async ({ where, include }: any) => {
+                if (where.keyId !== key.keyId) return null;
+                const filter = include.dealerAccount.include.users.where;
+                return {
+                    ...key,
+                    dealerAccount: {
+                        status: 'ACTIVE',
+                        users: users.filter(u => u.isActive === filter.isActive && u.user.isActive === filter.user.isActive).slice(0, 1)
+                    }
+                };
+            },
+            update: async () => key
+        },
+        apiRequestNonce: {
+            createMany: async ({ data }: any) => {
+                const id = `${data[0].apiKeyId}:${data[0].nonce}`;
+                if (nonces.has(id)) return { count: 0 };
+                nonces.add(id);
+                return { count: 1 };
+            },
+            deleteMany: async () => ({ count: 0 })
+        }
+    };
+}
+
+function signed(overrides: Partial<SignedRequest> = {}): SignedRequest {
+    const request = { method: 'POST', path: '/api/v1/orders?dryRun=1', body: '{"lines":[]}', timestamp: nowSeconds, nonce: 'nonce-0000000001', ...overrides };
+    const signature = ApiKeyService.sign(
+        ApiKeyService.signingSecret(KEY_ID),
+        ApiKeyService.stringToSign(request.method, request.path, request.timestamp, request.nonce, request.body)
+    );
+    return { apiKey: API_KEY, signature, ...request };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ApiKeyError> {
+    try {
+        await promise;
+    } catch (error) {
+        expect(error).toBeInstanceOf(ApiKeyError);
+        return error as ApiKeyError;
+    }
+    throw new Error('Expected an ApiKeyError');
+}
+
+describe('ApiKeyService.stringToSign', () => {
+    it('joins the upper-cased method, path, timestamp, nonce and body hash with newlines', () => {
+        expect(ApiKeyService.stringToSign('post', '/api/v1/orders?dryRun=1', '1772884800', 'abc', '')).toBe(
+            'POST\n/api/v1/orders?dryRun=1\n1772884800\nabc\ne3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+        );
+    });
+
+    it('hashes string and Buffer bodies the same way', () => {
+        expect(ApiKeyService.stringToSign('GET', '/', '1', 'n', Buffer.from('{"a":1}')))
+            .toBe(ApiKeyService.stringToSign('GET', '/', '1', 'n', '{"a":1}'));
+    });
+});
+
+describe('ApiKeyService.verify', () => {
+    it('returns the primary active user of the key account', async () => {
+        const service = new ApiKeyService(fakePrisma() as any);
+
+        const principal = await service.verify(signed(), 'orders:write', now);
+
+        expect(principal).toEqual({
+            apiKeyId: 'key-1',
+            keyId: KEY_ID,
+            scopes: ['orders:write'],
+            dealerAccountId: 'account-1',
+            dealerUserId: 'primary',
+            userId: 'user-primary',
+            email: 'primary@dealer.test'
+        });
+    });
+
+    it('accepts timestamps up to five minutes either side of the server clock', async () => {
+        const service = new ApiKeyService(fakePrisma() as any);
+        const seconds = now.getTime() / 1000;
+
+        await expect(service.verify(signed({ timestamp: String(seconds - 300), nonce: 'nonce-early-00001' }), 'orders:write', now)).resolves.toBeDefined();
+        await expect(service.verify(signed({ timestamp: String(seconds + 300), nonce: 'nonce-late-000001' }), 'orders:write', now)).resolves.toBeDefined();
+    });
+
+    it('rejects timestamps outside the window', async () => {
+        const service = new ApiKeyService(fakePrisma() as any);
+        const seconds = now.getTime() / 1000;
+
+        for (const timestamp of [String(seconds - 301), String(seconds + 301), String(now.getTime()), 'yesterday']) {
+            const error = await rejection(service.verify(signed({ timestamp }), 'orders:write', now));
+            expect(error.statusCode).toBe(401);
+            expect(error.message).toMatch(/^X-Timestamp must be unix seconds/);
+        }
+    });
+
+    it('rejects a replayed nonce', async () => {
+        const prisma = fakePrisma();
+        const service = new ApiKeyService(prisma as any);
+
+        await service.verify(signed(), 'orders:write', now);
+        const error = await rejection(service.verify(signed(), 'orders:write', now));
+
+        expect(error.statusCode).toBe(401);
+        expect(error.message).toBe('Nonce has already been used');
+        expect(prisma.nonces.size).toBe(1);
+    });
+
+    it('does not record the nonce of a request with a bad signature', async () => {
+        const prisma = fakePrisma();
+        const service = new ApiKeyService(prisma as any);
+
+        const error = await rejection(service.verify({ ...signed(), body: '{"lines":[1]}' }, 'orders:write', now));
+
+        expect(error.message).toBe('Invalid signature');
+        expect(prisma.nonces.size).toBe(0);
+        await expect(service.verify(signed(), 'orders:write', now)).resolves.toBeDefined();
+    });
+
+    it('rejects keys without the scope with 403', async () => {
+        const service = new ApiKeyService(fakePrisma() as any);
+
+        const error = await rejection(service.verify(signed(), 'catalog:read', now));
+
+        expect(error.statusCode).toBe(403);
+        expect(error.message).toBe('API key does not have the catalog:read scope');
+    });
+
+    it('rejects revoked and expired keys', async () => {
+        const revoked = new ApiKeyService(fakePrisma(undefined, { revokedAt: now }) as any);
+        const expired = new ApiKeyService(fakePrisma(undefined, { expiresAt: now }) as any);
+
+        expect((await rejection(revoked.verify(signed(), 'orders:write', now))).message).toBe('API key has been revoked');
+        expect((await rejection(expired.verify(signed(), 'orders:write', now))).message).toBe('API key has expired');
+    });
+
+    it('acts as the next active user when the primary login is disabled', async () => {
+        const service = new ApiKeyService(fakePrisma([dealerUser('primary', false), dealerUser('buyer')]) as any);
+
+        const principal = await service.verify(signed(), 'orders:write', now);
+
+        expect(principal.dealerUserId).toBe('buyer');
+    });
+
+    it('rejects the key with 403 when no user on the account is active', async () => {
+        const service = new ApiKeyService(fakePrisma([dealerUser('primary', false), dealerUser('buyer', true, false)]) as any);
+
+        const error = await rejection(service.verify(signed(), 'orders:write', now));
+
+        expect(error.statusCode).toBe(403);
+        expect(error.message).toBe('Account inactive');
+    });
+});
@@ -0,0 +1,249 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaClient, DealerApiKey, DealerStatus } from 'db';
+
+// Per-key signing secrets are derived from this, so changing it invalidates every partner's signing secret
+const API_SIGNING_SECRET = process.env.API_SIGNING_SECRET || 'dev-signing-secret-change-in-production';
+
+export const API_KEY_SCOPES = ['catalog:read', 'orders:read', 'orders:write', 'backorders:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Signed requests may be this far either side of our clock; nonces are kept for twice as long
+const TIMESTAMP_TOLERANCE_SECONDS = 300;
+const NONCE_RETENTION_MS = 2 * TIMESTAMP_TOLERANCE_SECONDS * 1000;
+const NONCE_PURGE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Headers of a signed partner request:
+ * - X-Api-Key: the full API key (keyId.secret)
+ * - X-Timestamp: unix seconds
+ * - X-Nonce: unique per request, 16 to 128 characters
+ * - X-Signature: hex HMAC-SHA256 of the string to sign, keyed with the signing secret
+ */
+export interface SignedRequest {
+    apiKey?: string;
+    timestamp?: string;
+    nonce?: string;
+    signature?: string;
+    method: string;
+    path: string; // Path and query string as sent
+    body: string | Buffer;
+}
+
+export interface ApiKeyCredentials {
+    key: ApiKeySummary;
+    apiKey: string; // Shown once
+    signingSecret: string; // Shown once
+}
+
+export type ApiKeySummary = Omit<DealerApiKey, 'keyHash'>;
+
+// The dealer account a verified key acts for, through the account's primary user
+export interface ApiKeyPrincipal {
+    apiKeyId: string;
+    keyId: string;
+    scopes: string[];
+    dealerAccountId: string;
+    dealerUserId: string;
+    userId: string;
+    email: string;
+}
+
+export class ApiKeyError extends Error {
+    constructor(message: string, public statusCode: 401 | 403) {
+        super(message);
+        this.name = 'ApiKeyError';
+    }
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+function safeEqual(a: string, b: string): boolean {
+    const [left, right] = [Buffer.from(a), Buffer.from(b)];
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function summarize({ keyHash, ...key }: DealerApiKey): ApiKeySummary {
+    return key;
+}
+
+export class ApiKeyService {
+    private lastNoncePurge = 0;
+
+    constructor(private prisma: PrismaClient) { }
+
+    static signingSecret(keyId: string): string {
+        return createHmac('sha256', API_SIGNING_SECRET).update(keyId).digest('hex');
+    }
+
+    /**
+     * METHOD \n path \n timestamp \n nonce \n hex SHA-256 of the raw body
+     */
+    static stringToSign(method: string, path: string, timestamp: string, nonce: string, body: string | Buffer): string {
+        return [method.toUpperCase(), path, timestamp, nonce, sha256(body)].join('\n');
+    }
+
+    static sign(signingSecret: string, stringToSign: string): string {
+        return createHmac('sha256', signingSecret).update(stringToSign).digest('hex');
+    }
+
+    static validateScopes(scopes: string[]): string[] {
+        return scopes
+            .filter(scope => !(API_KEY_SCOPES as readonly string[]).includes(scope))
+            .map(scope => `Unknown scope ${scope}`);
+    }
+
+    async list(dealerAccountId: string): Promise<ApiKeySummary[]> {
+        const keys = await this.prisma.dealerApiKey.findMany({
+            where: { dealerAccountId },
+            orderBy: { createdAt: 'desc' }
+        });
+        return keys.map(summarize);
+    }
+
+    async create(dealerAccountId: string, name: string, scopes: string[], createdById?: string): Promise<ApiKeyCredentials> {
+        const errors = ApiKeyService.validateScopes(scopes);
+        if (errors.length > 0) throw new Error(errors.join(', '));
+
+        const dealer = await this.prisma.dealerAccount.findUnique({ where: { id: dealerAccountId }, select: { id: true } });
+        if (!dealer) throw new Error('Dealer not found');
+
+        const keyId = `hbk_${randomBytes(8).toString('hex')}`;
+        const apiKey = `${keyId}.${randomBytes(24).toString('base64url')}`;
+
+        const key = await this.prisma.dealerApiKey.create({
+            data: { dealerAccountId, name, keyId, keyHash: sha256(apiKey), scopes: [...new Set(scopes)], createdById }
+        });
+
+        return { key: summarize(key), apiKey, signingSecret: ApiKeyService.signingSecret(keyId) };
+    }
+
+    /**
+     * Issue a replacement with the same name and scopes. The old key keeps working for the grace
+     * period so the partner can switch over without downtime.
+     */
+    async rotate(dealerAccountId: string, id: string, graceHours: number = 24, createdById?: string): Promise<ApiKeyCredentials> {
+        const old = await this.getActive(dealerAccountId, id);
+        const credentials = await this.create(dealerAccountId, old.name, old.scopes, createdById);
+
+        const graceEnd = new Date(Date.now() + graceHours * 60 * 60 * 1000);
+        await this.prisma.dealerApiKey.update({
+            where: { id: old.id },
+            data: {
+                replacedById: credentials.key.id,
+                expiresAt: old.expiresAt && old.expiresAt < graceEnd ? old.expiresAt : graceEnd
+            }
+        });
+
+        return credentials;
+    }
+
+    // Also cuts short the grace period of a rotated key
+    async revoke(dealerAccountId: string, id: string): Promise<ApiKeySummary> {
+        const existing = await this.prisma.dealerApiKey.findFirst({ where: { id, dealerAccountId } });
+        if (!existing) throw new Error('API key not found');
+        if (existing.revokedAt) throw new Error('API key has already been revoked');
+        const key = await this.prisma.dealerApiKey.update({ where: { id }, data: { revokedAt: new Date() } });
+        return summarize(key);
+    }
+
+    /**
+     * Authenticate a signed request and check the key carries `scope`.
+     * Throws ApiKeyError with 401 for bad credentials or signatures and 403 for missing scope, an inactive account or no active user to act as.
+     */
+    async verify(request: SignedRequest, scope: ApiKeyScope, now: Date = new Date()): Promise<ApiKeyPrincipal> {
+        const { apiKey, timestamp, nonce, signature } = request;
+        if (!apiKey || !timestamp || !nonce || !signature) {
+            throw new ApiKeyError('Missing X-Api-Key, X-Timestamp, X-Nonce or X-Signature header', 401);
+        }
+
+        const key = await this.prisma.dealerApiKey.findUnique({
+            where: { keyId: apiKey.split('.')[0] },
+            include: {
+                dealerAccount: {
+                    include: {
+                        users: {
+                            where: { isActive: true, user: { isActive: true } },
+                            orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+                            take: 1,
+                            include: { user: true }
+                        }
+                    }
+                }
+            }
+        });
+        if (!key || !safeEqual(key.keyHash, sha256(apiKey))) {
+            throw new ApiKeyError('Invalid API key', 401);
+        }
+        if (key.revokedAt) {
+            throw new ApiKeyError('API key has been revoked', 401);
+        }
+        if (key.expiresAt && key.expiresAt <= now) {
+            throw new ApiKeyError('API key has expired', 401);
+        }
+
+        const sentAt = /^\d{1,12}$/.test(timestamp) ? Number(timestamp) : NaN;
+        if (!(Math.abs(now.getTime() / 1000 - sentAt) <= TIMESTAMP_TOLERANCE_SECONDS)) {
+            throw new ApiKeyError(`X-Timestamp must be unix seconds within ${TIMESTAMP_TOLERANCE_SECONDS}s of server time`, 401);
+        }
+        if (nonce.length < 16 || nonce.length > 128) {
+            throw new ApiKeyError('X-Nonce must be 16 to 128 characters', 401);
+        }
+
+        const expected = ApiKeyService.sign(
+            ApiKeyService.signingSecret(key.keyId),
+            ApiKeyService.stringToSign(request.method, request.path, timestamp, nonce, request.body)
+        );
+        if (!safeEqual(expected, signature.toLowerCase())) {
+            throw new ApiKeyError('Invalid signature', 401);
+        }
+
+        if (!key.scopes.includes(scope)) {
+            throw new ApiKeyError(`API key does not have the ${scope} scope`, 403);
+        }
+
+        // Requests act as the primary active user, so a key stops working once every login on the account is disabled
+        const dealerUser = key.dealerAccount.users[0];
+        if (key.dealerAccount.status !== DealerStatus.ACTIVE || !dealerUser) {
+            throw new ApiKeyError('Account inactive', 403);
+        }
+
+        // Only checked once the signature is good, so nobody else can burn a partner's nonces
+        const recorded = await this.prisma.apiRequestNonce.createMany({
+            data: [{ apiKeyId: key.id, nonce }],
+            skipDuplicates: true
+        });
+        if (recorded.count === 0) {
+            throw new ApiKeyError('Nonce has already been used', 401);
+        }
+
+        await this.prisma.dealerApiKey.update({ where: { id: key.id }, data: { lastUsedAt: now } });
+        await this.purgeNonces(now);
+
+        return {
+            apiKeyId: key.id,
+            keyId: key.keyId,
+            scopes: key.scopes,
+            dealerAccountId: key.dealerAccountId,
+            dealerUserId: dealerUser.id,
+            userId: dealerUser.userId,
+            email: dealerUser.user.email
+        };
+    }
+
+    private async getActive(dealerAccountId: string, id: string): Promise<DealerApiKey> {
+        const key = await this.prisma.dealerApiKey.findFirst({ where: { id, dealerAccountId } });
+        if (!key) throw new Error('API key not found');
+        if (key.revokedAt) throw new Error('API key has already been revoked');
+        if (key.replacedById) throw new Error('API key has already been rotated');
+        return key;
+    }
+
+    // Nonces older than the timestamp window can no longer be replayed
+    private async purgeNonces(now: Date): Promise<void> {
+        if (now.getTime() - this.lastNoncePurge < NONCE_PURGE_INTERVAL_MS) return;
+        this.lastNoncePurge = now.getTime();
+        await this.prisma.apiRequestNonce.deleteMany({
+            where: { createdAt: { lt: new Date(now.getTime() - NONCE_RETENTION_MS) } }
+        });
+    }
+}
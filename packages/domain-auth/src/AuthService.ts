@@ -1,22 +1,29 @@
-import { PrismaClient, UserRole } from '@prisma/client';
+import { PrismaClient, UserRole, AdminRole } from 'db';
 import bcrypt from 'bcrypt';
 import { generateToken, JWTPayload } from './jwt';
+import { SessionClient, SessionService } from './SessionService';
 
 export interface LoginResult {
     token: string;
+    refreshToken: string;
+    mustChangePassword: boolean;
     user: {
         id: string;
         email: string;
         role: UserRole;
+        adminRole?: AdminRole;
         dealerAccountId?: string;
         companyName?: string;
     };
 }
 
 export class AuthService {
-    constructor(private prisma: PrismaClient) { }
+    constructor(
+        private prisma: PrismaClient,
+        private sessions: SessionService = new SessionService(prisma)
+    ) { }
 
-    async login(email: string, password: string): Promise<LoginResult> {
+    async login(email: string, password: string, client?: SessionClient): Promise<LoginResult> {
         const user = await this.prisma.appUser.findUnique({
             where: { email },
             include: {
@@ -28,7 +35,7 @@ export class AuthService {
             }
         });
 
-        if (!user || !user.isActive) {
+        if (!user || !user.isActive || user.dealerUser?.isActive === false) {
             throw new Error('Invalid email or password');
         }
 
@@ -43,18 +50,31 @@ export class AuthService {
             role: user.role
         };
 
+        if (user.mustChangePassword) {
+            payload.mustChangePassword = true;
+        }
+
+        if (user.role === UserRole.ADMIN && user.adminRole) {
+            payload.adminRole = user.adminRole;
+        }
+
         if (user.role === UserRole.DEALER && user.dealerUser) {
             payload.dealerAccountId = user.dealerUser.dealerAccountId;
         }
 
+        const { session, refreshToken } = await this.sessions.start(user.id, client);
+        payload.sessionId = session.id;
         const token = generateToken(payload);
 
         return {
             token,
+            refreshToken,
+            mustChangePassword: user.mustChangePassword,
             user: {
                 id: user.id,
                 email: user.email,
                 role: user.role as UserRole,
+                adminRole: user.adminRole ?? undefined,
                 dealerAccountId: payload.dealerAccountId,
                 companyName: user.dealerUser?.dealerAccount?.companyName
             }
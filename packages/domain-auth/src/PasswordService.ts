@@ -0,0 +1,234 @@
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcrypt';
+import { AppUser, Prisma, PrismaClient, UserRole, PasswordPolicyService, PASSWORD_POLICY_LIMITS } from 'db';
+import { SessionService } from './SessionService';
+
+const PASSWORD_RESET_SECRET = process.env.PASSWORD_RESET_SECRET || 'dev-reset-secret-change-in-production';
+const SALT_ROUNDS = 10;
+
+// A user asking again within this time gets no new link, so the form cannot be used to flood an inbox
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000;
+
+export class PasswordError extends Error {
+    constructor(message: string, public violations: string[] = []) {
+        super(message);
+        this.name = 'PasswordError';
+    }
+}
+
+export interface IssuedResetToken {
+    token: string; // Only ever sent in the reset link, never stored
+    expiresAt: Date;
+    user: { id: string; email: string; role: UserRole; firstName: string | null };
+}
+
+export interface PasswordChangeResult {
+    userId: string;
+    email: string;
+    role: UserRole;
+    revokedSessions: number;
+}
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+const sign = (payload: string) => createHmac('sha256', PASSWORD_RESET_SECRET).update(payload).digest('base64url');
+
+function safeEqual(a: string, b: string): boolean {
+    const [left, right] = [Buffer.from(a), Buffer.from(b)];
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Passwords users choose themselves: forgot-password links, changing a password, and the forced change
+ * after an admin-generated one. New passwords are checked against the PasswordPolicy setting.
+ */
+export class PasswordService {
+    constructor(
+        private prisma: PrismaClient,
+        private sessions: SessionService = new SessionService(prisma),
+        private policies: PasswordPolicyService = new PasswordPolicyService(prisma)
+    ) { }
+
+    /**
+     * Issue a reset link token for an active user. Returns null for unknown or inactive emails, and when
+     * a link was sent moments ago; callers answer the same either way so emails cannot be probed.
+     * A new token replaces any unused earlier one.
+     */
+    async requestReset(email: string, requestedIp?: string): Promise<IssuedResetToken | null> {
+        const user = await this.prisma.appUser.findUnique({
+            where: { email },
+            include: { dealerUser: { select: { firstName: true, isActive: true } } }
+        });
+        if (!user || !user.isActive || user.dealerUser?.isActive === false) {
+            return null;
+        }
+
+        const recent = await this.prisma.passwordResetToken.findFirst({
+            where: { userId: user.id, usedAt: null, createdAt: { gt: new Date(Date.now() - RESET_REQUEST_INTERVAL_MS) } }
+        });
+        if (recent) {
+            return null;
+        }
+
+        const { resetTokenTtlMinutes } = await this.policies.get();
+        const id = randomUUID();
+        const expiresAt = new Date(Date.now() + resetTokenTtlMinutes * 60 * 1000);
+        const payload = [id, expiresAt.getTime().toString(36), randomBytes(24).toString('base64url')].join('.');
+        const token = `${payload}.${sign(payload)}`;
+
+        await this.prisma.$transaction([
+            this.prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+            this.prisma.passwordResetToken.create({
+                data: { id, userId: user.id, tokenHash: sha256(token), expiresAt, requestedIp }
+            })
+        ]);
+
+        return { token, expiresAt, user: { id: user.id, email: user.email, role: user.role, firstName: user.dealerUser?.firstName ?? null } };
+    }
+
+    /**
+     * Whether a reset link can still be used, for the reset page to check before asking for a password
+     */
+    async checkResetToken(token: string): Promise<boolean> {
+        try {
+            await this.verifyResetToken(token);
+            return true;
+        } catch (error) {
+            if (error instanceof PasswordError) return false;
+            throw error;
+        }
+    }
+
+    /**
+     * Set a new password from a reset link, using up the link and signing the user out everywhere
+     */
+    async resetWithToken(token: string, password: string): Promise<PasswordChangeResult> {
+        const record = await this.verifyResetToken(token);
+        const user = await this.prisma.appUser.findUniqueOrThrow({ where: { id: record.userId } });
+        await this.checkNewPassword(user, password);
+
+        const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+        await this.prisma.$transaction(async (tx) => {
+            // Conditional on the link being unused, so two submissions cannot both set a password
+            const used = await tx.passwordResetToken.updateMany({
+                where: { id: record.id, usedAt: null },
+                data: { usedAt: new Date() }
+            });
+            if (used.count === 0) {
+                throw new PasswordError('This reset link is invalid or has expired');
+            }
+            await this.store(tx, user, passwordHash, false);
+        });
+
+        const revokedSessions = await this.sessions.revokeAll(user.id, 'PASSWORD_RESET');
+        return { userId: user.id, email: user.email, role: user.role, revokedSessions };
+    }
+
+    /**
+     * A signed-in user changing their password. Their other sessions are signed out; `keepSessionId` stays.
+     */
+    async change(userId: string, currentPassword: string, newPassword: string, keepSessionId?: string): Promise<PasswordChangeResult> {
+        const user = await this.prisma.appUser.findUniqueOrThrow({ where: { id: userId } });
+        if (!(await bcrypt.compare(currentPassword, user.passwordHash))) {
+            throw new PasswordError('Current password is incorrect');
+        }
+        await this.checkNewPassword(user, newPassword);
+
+        const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
+        await this.prisma.$transaction(tx => this.store(tx, user, passwordHash, false));
+
+        const revokedSessions = await this.sessions.revokeAll(user.id, 'PASSWORD_CHANGED', keepSessionId);
+        return { userId: user.id, email: user.email, role: user.role, revokedSessions };
+    }
+
+    /**
+     * A password generated for the user (admin reset); not checked against the policy,
+     * and the user has to replace it when they next sign in
+     */
+    async setTemporary(userId: string, password: string): Promise<void> {
+        const user = await this.prisma.appUser.findUniqueOrThrow({ where: { id: userId } });
+        const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+        await this.prisma.$transaction(tx => this.store(tx, user, passwordHash, true));
+    }
+
+    /**
+     * Throws PasswordError with every rule the password breaks, including reuse of the current
+     * password or one of the last `historyCount` before it
+     */
+    private async checkNewPassword(user: AppUser, password: string): Promise<void> {
+        const policy = await this.policies.get();
+        const violations = PasswordPolicyService.violations(password, policy);
+
+        if (await bcrypt.compare(password, user.passwordHash)) {
+            violations.push('Password must be different from your current password');
+        } else if (policy.historyCount > 0) {
+            const previous = await this.prisma.passwordHistory.findMany({
+                where: { userId: user.id },
+                orderBy: { createdAt: 'desc' },
+                take: policy.historyCount,
+                select: { passwordHash: true }
+            });
+            for (const { passwordHash } of previous) {
+                if (await bcrypt.compare(password, passwordHash)) {
+                    violations.push(`Password must not be one of your last ${policy.historyCount} passwords`);
+                    break;
+                }
+            }
+        }
+
+        if (violations.length > 0) {
+            throw new PasswordError(violations[0], violations);
+        }
+    }
+
+    /**
+     * Replace the password, keeping the old hash as history. History beyond the largest allowed
+     * historyCount can never be checked, so it is pruned.
+     */
+    private async store(tx: Prisma.TransactionClient, user: AppUser, passwordHash: string, mustChangePassword: boolean): Promise<void> {
+        await tx.passwordHistory.create({ data: { userId: user.id, passwordHash: user.passwordHash } });
+        await tx.appUser.update({
+            where: { id: user.id },
+            data: { passwordHash, mustChangePassword, passwordChangedAt: new Date() }
+        });
+
+        const expired = await tx.passwordHistory.findMany({
+            where: { userId: user.id },
+            orderBy: { createdAt: 'desc' },
+            skip: PASSWORD_POLICY_LIMITS.historyCount.max,
+            select: { id: true }
+        });
+        if (expired.length > 0) {
+            await tx.passwordHistory.deleteMany({ where: { id: { in: expired.map(h => h.id) } } });
+        }
+    }
+
+    /**
+     * The signature and expiry in the token are checked before the database, so forged or stale links
+     * cost nothing; the stored hash then makes each link work once
+     */
+    private async verifyResetToken(token: string) {
+        const invalid = new PasswordError('This reset link is invalid or has expired');
+
+        const parts = token.split('.');
+        if (parts.length !== 4) throw invalid;
+        const [id, expiry, , signature] = parts;
+        if (!safeEqual(signature, sign(parts.slice(0, 3).join('.'))) || parseInt(expiry, 36) <= Date.now()) {
+            throw invalid;
+        }
+
+        const record = await this.prisma.passwordResetToken.findUnique({ where: { id } });
+        if (!record || record.usedAt || record.expiresAt <= new Date() || !safeEqual(record.tokenHash, sha256(token))) {
+            throw invalid;
+        }
+
+        const user = await this.prisma.appUser.findUnique({
+            where: { id: record.userId },
+            select: { isActive: true, dealerUser: { select: { isActive: true } } }
+        });
+        if (!user?.isActive || user.dealerUser?.isActive === false) {
+            throw invalid;
+        }
+
+        return record;
+    }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { SessionError, SessionService } from './SessionService';
+
+interface StoredSession {
+    id: string;
+    userId: string;
+    refreshTokenHash: string;
+    previousTokenHash: string | null;
+    userAgent?: string;
+    ipAddress?: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt: Date | null;
+    revokedReason: string | null;
+}
+
+/**
+ * In-memory authSession table supporting the filters SessionService uses
+ */
+function fakePrisma() {
+    const sessions: StoredSession[] = [];
+    const matches = (session: StoredSession, where: any): boolean => Object.entries(where).every(([field, condition]: [string, any]) => {
+        if (field === 'OR') return condition.some((branch: any) => matches(session, branch));
+        if (condition && typeof condition === 'object' && 'not' in condition) return (session as any)[field] !== condition.not;
+        return (session as any)[field] === condition;
+    });
+    // Rows come back as copies, as from the database, so later updates do not show through
+    const copy = (session?: StoredSession) => session ? { ...session } : null;
+
+    return {
+        sessions,
+        authSession: {
+            create: async ({ data }: any) => {
+                const session = { id: `session-${sessions.length + 1}`, previousTokenHash: null, lastUsedAt: new Date(), revokedAt: null, revokedReason: null, ...data };
+                sessions.push(session);
+                return { ...session };
+            },
+            findFirst: async ({ where }: any) => copy(sessions.find(session => matches(session, where))),
+            findUnique: async ({ where }: any) => copy(sessions.find(session => session.id === where.id)),
+            findUniqueOrThrow: async ({ where }: any) => copy(sessions.find(session => session.id === where.id))!,
+            updateMany: async ({ where, data }: any) => {
+                const updated = sessions.filter(session => matches(session, where));
+                updated.forEach(session => Object.assign(session, data));
+                return { count: updated.length };
+            }
+        }
+    };
+}
+
+const expired = (error: unknown) => error instanceof SessionError && error.message === 'Session expired, please sign in again';
+
+describe('SessionService.rotate', () => {
+    it('swaps the refresh token for a new one on the same session', async () => {
+        const prisma = fakePrisma();
+        const service = new SessionService(prisma as any);
+        const started = await service.start('user-1', { userAgent: 'Firefox' });
+
+        const rotated = await service.rotate(started.refreshToken, { ipAddress: '10.0.0.2' });
+
+        expect(rotated.session.id).toBe(started.session.id);
+        expect(rotated.refreshToken).not.toBe(started.refreshToken);
+        expect(rotated.session).not.toHaveProperty('refreshTokenHash');
+        expect(prisma.sessions[0]).toMatchObject({ userAgent: 'Firefox', ipAddress: '10.0.0.2' });
+        expect(prisma.sessions[0].refreshTokenHash).not.toBe(rotated.refreshToken);
+    });
+
+    it('revokes the session when a replaced refresh token is presented again', async () => {
+        const prisma = fakePrisma();
+        const service = new SessionService(prisma as any);
+        const started = await service.start('user-1');
+        const rotated = await service.rotate(started.refreshToken);
+
+        await expect(service.rotate(started.refreshToken)).rejects.toSatisfy(expired);
+
+        expect(prisma.sessions[0].revokedReason).toBe('TOKEN_REUSED');
+        expect(await service.isActive(started.session.id)).toBe(false);
+        await expect(service.rotate(rotated.refreshToken)).rejects.toSatisfy(expired);
+    });
+
+    it('lets only one of two concurrent refreshes with the same token win', async () => {
+        const prisma = fakePrisma();
+        const service = new SessionService(prisma as any);
+        const started = await service.start('user-1');
+
+        const results = await Promise.allSettled([service.rotate(started.refreshToken), service.rotate(started.refreshToken)]);
+
+        expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+        expect(await service.isActive(started.session.id)).toBe(true);
+    });
+
+    it('rejects unknown, revoked and expired sessions', async () => {
+        const prisma = fakePrisma();
+        const service = new SessionService(prisma as any);
+        const revoked = await service.start('user-1');
+        const lapsed = await service.start('user-1');
+        await service.revoke(revoked.session.id, 'LOGOUT');
+        prisma.sessions[1].expiresAt = new Date(Date.now() - 1000);
+
+        await expect(service.rotate('not-a-token')).rejects.toSatisfy(expired);
+        await expect(service.rotate(revoked.refreshToken)).rejects.toSatisfy(expired);
+        await expect(service.rotate(lapsed.refreshToken)).rejects.toSatisfy(expired);
+    });
+});
+
+describe('SessionService.revokeAll', () => {
+    it('signs the user out everywhere but the current session', async () => {
+        const prisma = fakePrisma();
+        const service = new SessionService(prisma as any);
+        const current = await service.start('user-1');
+        const other = await service.start('user-1');
+        const someoneElse = await service.start('user-2');
+
+        expect(await service.revokeAll('user-1', 'PASSWORD_CHANGED', current.session.id)).toBe(1);
+
+        expect(await service.isActive(current.session.id)).toBe(true);
+        expect(await service.isActive(other.session.id)).toBe(false);
+        expect(await service.isActive(someoneElse.session.id)).toBe(true);
+        expect(prisma.sessions[1].revokedReason).toBe('PASSWORD_CHANGED');
+    });
+});
@@ -0,0 +1,171 @@
+import { createHash, randomBytes } from 'crypto';
+import { PrismaClient, AuthSession } from 'db';
+
+// How long a session survives without being refreshed
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const SESSION_REVOKE_REASONS = [
+    'LOGOUT',
+    'PASSWORD_RESET',
+    'PASSWORD_CHANGED', // Other sessions of a user who changed their own password
+    'DEACTIVATED',
+    'DEALER_SUSPENDED',
+    'FORCED', // An admin signed the user out
+    'TOKEN_REUSED' // A replaced refresh token was presented again
+] as const;
+export type SessionRevokeReason = typeof SESSION_REVOKE_REASONS[number];
+
+// Where a session was started or last refreshed from, shown in the admin sessions list
+export interface SessionClient {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+export type SessionSummary = Omit<AuthSession, 'refreshTokenHash' | 'previousTokenHash'>;
+
+export interface IssuedSession {
+    session: SessionSummary;
+    refreshToken: string; // Only ever returned to the client, never stored
+}
+
+export class SessionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionError';
+    }
+}
+
+const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+
+function summarize({ refreshTokenHash, previousTokenHash, ...session }: AuthSession): SessionSummary {
+    return session;
+}
+
+/**
+ * Refresh-token sessions behind the short-lived access tokens. Each refresh rotates the token;
+ * revoking a session stops it refreshing and fails its access token on the next request.
+ */
+export class SessionService {
+    constructor(private prisma: PrismaClient) { }
+
+    async start(userId: string, client: SessionClient = {}): Promise<IssuedSession> {
+        const refreshToken = SessionService.newToken();
+        const session = await this.prisma.authSession.create({
+            data: {
+                userId,
+                refreshTokenHash: sha256(refreshToken),
+                userAgent: client.userAgent?.slice(0, 500),
+                ipAddress: client.ipAddress,
+                expiresAt: SessionService.expiry()
+            }
+        });
+        return { session: summarize(session), refreshToken };
+    }
+
+    /**
+     * Swap a refresh token for a new one. Throws SessionError for unknown, expired and revoked sessions.
+     */
+    async rotate(refreshToken: string, client: SessionClient = {}): Promise<IssuedSession> {
+        const hash = sha256(refreshToken);
+        const session = await this.prisma.authSession.findFirst({
+            where: { OR: [{ refreshTokenHash: hash }, { previousTokenHash: hash }] }
+        });
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            throw new SessionError('Session expired, please sign in again');
+        }
+
+        // The client already swapped this token, so someone else has a copy of it
+        if (session.previousTokenHash === hash) {
+            await this.revoke(session.id, 'TOKEN_REUSED');
+            throw new SessionError('Session expired, please sign in again');
+        }
+
+        const next = SessionService.newToken();
+        const updated = await this.prisma.authSession.updateMany({
+            // Conditional on the token we matched, so two concurrent refreshes cannot both win
+            where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+            data: {
+                refreshTokenHash: sha256(next),
+                previousTokenHash: hash,
+                lastUsedAt: new Date(),
+                expiresAt: SessionService.expiry(),
+                ...(client.userAgent ? { userAgent: client.userAgent.slice(0, 500) } : {}),
+                ...(client.ipAddress ? { ipAddress: client.ipAddress } : {})
+            }
+        });
+        if (updated.count === 0) {
+            throw new SessionError('Session expired, please sign in again');
+        }
+
+        const rotated = await this.prisma.authSession.findUniqueOrThrow({ where: { id: session.id } });
+        return { session: summarize(rotated), refreshToken: next };
+    }
+
+    async isActive(sessionId: string): Promise<boolean> {
+        const session = await this.prisma.authSession.findUnique({
+            where: { id: sessionId },
+            select: { revokedAt: true, expiresAt: true }
+        });
+        return !!session && !session.revokedAt && session.expiresAt > new Date();
+    }
+
+    /**
+     * Newest first
+     */
+    async listActive(userId: string): Promise<SessionSummary[]> {
+        const sessions = await this.prisma.authSession.findMany({
+            where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { lastUsedAt: 'desc' }
+        });
+        return sessions.map(summarize);
+    }
+
+    /**
+     * Returns false when the session was not found or already revoked
+     */
+    async revoke(sessionId: string, reason: SessionRevokeReason, userId?: string): Promise<boolean> {
+        const revoked = await this.prisma.authSession.updateMany({
+            where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+            data: { revokedAt: new Date(), revokedReason: reason }
+        });
+        return revoked.count > 0;
+    }
+
+    async revokeByToken(refreshToken: string, reason: SessionRevokeReason): Promise<boolean> {
+        const revoked = await this.prisma.authSession.updateMany({
+            where: { refreshTokenHash: sha256(refreshToken), revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason }
+        });
+        return revoked.count > 0;
+    }
+
+    /**
+     * Sign a user out everywhere, or everywhere but `exceptSessionId`. Returns the number of sessions revoked.
+     */
+    async revokeAll(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+        const revoked = await this.prisma.authSession.updateMany({
+            where: { userId, revokedAt: null, ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}) },
+            data: { revokedAt: new Date(), revokedReason: reason }
+        });
+        return revoked.count;
+    }
+
+    /**
+     * Sign out every login on a dealer account
+     */
+    async revokeDealer(dealerAccountId: string, reason: SessionRevokeReason): Promise<number> {
+        const revoked = await this.prisma.authSession.updateMany({
+            where: { user: { dealerUser: { dealerAccountId } }, revokedAt: null },
+            data: { revokedAt: new Date(), revokedReason: reason }
+        });
+        return revoked.count;
+    }
+
+    private static newToken(): string {
+        return randomBytes(32).toString('base64url');
+    }
+
+    private static expiry(): Date {
+        return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    }
+}
@@ -1,2 +1,6 @@
 export * from './AuthService';
 export * from './jwt';
+export * from './ApiKeyService';
+export * from './SessionService';
+export * from './PasswordService';
+export * from './permissions';
@@ -2,16 +2,22 @@ import jwt from 'jsonwebtoken';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
 
+// Access tokens are short-lived; clients renew them with their session's refresh token
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
 export interface JWTPayload {
     userId: string;
     email: string;
     role: string;
+    adminRole?: string;
     dealerAccountId?: string;
+    sessionId?: string; // AuthSession the token was issued for
+    mustChangePassword?: boolean; // Only the change-password route accepts the token until the password is changed
 }
 
 export function generateToken(payload: JWTPayload): string {
     return jwt.sign(payload, JWT_SECRET, {
-        expiresIn: '24h'
+        expiresIn: ACCESS_TOKEN_TTL as jwt.SignOptions['expiresIn']
     });
 }
 
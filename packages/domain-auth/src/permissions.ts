@@ -0,0 +1,47 @@
+import { AdminRole } from 'db';
+
+export const ADMIN_PERMISSIONS = [
+    'dashboard.read',
+    'dealers.read',
+    'dealers.write', // Create, edit and suspend dealers, reset their logins, manage API keys
+    'pricing.read', // Price rules, dealer prices, imports and upload templates
+    'pricing.write',
+    'pricing.import', // Upload, approve, retry and cancel imports; edit upload templates
+    'orders.read',
+    'orders.write', // Place orders for a dealer through admin order entry
+    'orders.cancel',
+    'orders.export', // Resend ERP exports
+    'emails.read',
+    'emails.manage', // Template versions, test sends, resends and suppressions
+    'users.manage', // Dealer logins
+    'admins.manage', // Admin accounts and their roles
+    'settings.manage'
+] as const;
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+    SUPER_ADMIN: ADMIN_PERMISSIONS,
+    ADMIN: ADMIN_PERMISSIONS.filter(permission => permission !== 'admins.manage'),
+    OPS: [
+        'dashboard.read',
+        'dealers.read',
+        'pricing.read',
+        'pricing.import',
+        'orders.read',
+        'orders.cancel',
+        'orders.export',
+        'emails.read'
+    ]
+};
+
+/**
+ * Admin users without an admin role get no permissions
+ */
+export function permissionsFor(adminRole?: string | null): AdminPermission[] {
+    if (!adminRole || !(adminRole in ADMIN_ROLE_PERMISSIONS)) return [];
+    return [...ADMIN_ROLE_PERMISSIONS[adminRole as AdminRole]];
+}
+
+export function hasPermission(adminRole: string | null | undefined, permission: AdminPermission): boolean {
+    return permissionsFor(adminRole).includes(permission);
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { IdempotencyConflictError, IdempotencyService, IdempotentRequest, IdempotentResponse } from './IdempotencyService';
+
+const now = new Date('2026-03-07T12:00:00Z');
+const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+interface StoredKey {
+    id: string;
+    ownerId: string;
+    key: string;
+    route: string;
+    requestHash: string;
+    status: 'IN_PROGRESS' | 'COMPLETED';
+    lockedAt: Date;
+    expiresAt: Date;
+    responseStatus: number | null;
+    responseJson: unknown;
+    orderNo: string | null;
+}
+
+/**
+ * In-memory idempotencyKey table with the unique (ownerId, key) constraint
+ */
+function fakePrisma() {
+    const rows = new Map<string, StoredKey>();
+    const id = (ownerId: string, key: string) => `${ownerId}:${key}`;
+    const matches = (row: StoredKey, where: any) =>
+        (where.ownerId === undefined || row.ownerId === where.ownerId) &&
+        (where.key === undefined || row.key === where.key) &&
+        (where.status === undefined || row.status === where.status) &&
+        (where.expiresAt === undefined || row.expiresAt <= where.expiresAt.lte);
+
+    return {
+        rows,
+        idempotencyKey: {
+            deleteMany: async ({ where }: any) => {
+                const doomed = [...rows.values()].filter(row => matches(row, where));
+                doomed.forEach(row => rows.delete(row.id));
+                return { count: doomed.length };
+            },
+            createMany: async ({ data }: any) => {
+                const [row] = data;
+                if (rows.has(id(row.ownerId, row.key))) return { count: 0 };
+                rows.set(id(row.ownerId, row.key), {
+                    id: id(row.ownerId, row.key),
+                    status: 'IN_PROGRESS',
+                    responseStatus: null,
+                    responseJson: null,
+                    orderNo: null,
+                    ...row
+                });
+                return { count: 1 };
+            },
+            findUnique: async ({ where }: any) => rows.get(id(where.ownerId_key.ownerId, where.ownerId_key.key)) ?? null,
+            updateMany: async ({ where, data }: any) => {
+                const row = rows.get(where.id);
+                if (!row || row.status !== where.status || !(row.lockedAt < where.lockedAt.lt)) return { count: 0 };
+                Object.assign(row, data);
+                return { count: 1 };
+            },
+            update: async ({ where, data }: any) => Object.assign(rows.get(id(where.ownerId_key.ownerId, where.ownerId_key.key))!, data)
+        }
+    };
+}
+
+const request = (overrides: Partial<IdempotentRequest> = {}): IdempotentRequest => ({
+    ownerId: 'user-1',
+    key: 'order-attempt-1',
+    route: 'POST /dealer/checkout',
+    body: '{"poRef":"PO-1"}',
+    ...overrides
+});
+
+function placeOrder() {
+    let calls = 0;
+    const handler = async () => {
+        calls++;
+        return { status: 201, body: { orderNo: `ORD-00000${calls}`, placedAt: now }, orderNo: `ORD-00000${calls}` };
+    };
+    return { handler, calls: () => calls };
+}
+
+describe('IdempotencyService.run', () => {
+    it('replays the stored response instead of running the handler again', async () => {
+        const service = new IdempotencyService(fakePrisma() as any);
+        const order = placeOrder();
+
+        const first = await service.run(request(), order.handler, now);
+        const second = await service.run(request(), order.handler, minutesLater(1));
+
+        expect(order.calls()).toBe(1);
+        expect(first.replayed).toBe(false);
+        expect(second).toEqual({
+            status: 201,
+            body: { orderNo: 'ORD-000001', placedAt: now.toISOString() },
+            orderNo: 'ORD-000001',
+            replayed: true
+        });
+    });
+
+    it('rejects a key reused with a different body or route', async () => {
+        const service = new IdempotencyService(fakePrisma() as any);
+        await service.run(request(), placeOrder().handler, now);
+
+        await expect(service.run(request({ body: '{"poRef":"PO-2"}' }), placeOrder().handler, now))
+            .rejects.toThrow(new IdempotencyConflictError('Idempotency-Key has already been used for a different request'));
+        await expect(service.run(request({ route: 'POST /api/v1/orders' }), placeOrder().handler, now))
+            .rejects.toThrow('Idempotency-Key has already been used for a different request');
+    });
+
+    it('keeps keys separate per owner', async () => {
+        const service = new IdempotencyService(fakePrisma() as any);
+        const order = placeOrder();
+
+        await service.run(request(), order.handler, now);
+        const other = await service.run(request({ ownerId: 'user-2' }), order.handler, now);
+
+        expect(order.calls()).toBe(2);
+        expect(other.replayed).toBe(false);
+    });
+
+    it('rejects a repeat while the first request is still running', async () => {
+        const service = new IdempotencyService(fakePrisma() as any);
+        let finish!: () => void;
+        const slow = service.run(request(), () => new Promise<IdempotentResponse<{ orderNo: string }>>(resolve => {
+            finish = () => resolve({ status: 201, body: { orderNo: 'ORD-000001' } });
+        }), now);
+
+        await expect(service.run(request(), placeOrder().handler, minutesLater(1)))
+            .rejects.toThrow('A request with this Idempotency-Key is still being processed');
+
+        finish();
+        await expect(slow).resolves.toMatchObject({ status: 201, replayed: false });
+    });
+
+    it('takes over a key whose request has held it for more than five minutes', async () => {
+        const prisma = fakePrisma();
+        const service = new IdempotencyService(prisma as any);
+        await prisma.idempotencyKey.createMany({
+            data: [{ ...request(), requestHash: IdempotencyService.hashRequest(request().route, request().body), lockedAt: now, expiresAt: minutesLater(24 * 60) }]
+        });
+        const order = placeOrder();
+
+        const result = await service.run(request(), order.handler, minutesLater(6));
+
+        expect(order.calls()).toBe(1);
+        expect(result.replayed).toBe(false);
+    });
+
+    it('releases the key when the handler fails or answers with an error', async () => {
+        const prisma = fakePrisma();
+        const service = new IdempotencyService(prisma as any);
+
+        await expect(service.run(request(), async () => { throw new Error('Out of stock'); }, now)).rejects.toThrow('Out of stock');
+        expect(prisma.rows.size).toBe(0);
+
+        const rejected = await service.run(request(), async () => ({ status: 400, body: { message: 'Invalid PO' } }), now);
+        expect(rejected.status).toBe(400);
+        expect(prisma.rows.size).toBe(0);
+
+        const order = placeOrder();
+        await service.run(request(), order.handler, now);
+        expect(order.calls()).toBe(1);
+    });
+
+    it('runs the handler again once the key has expired', async () => {
+        const service = new IdempotencyService(fakePrisma() as any);
+        const order = placeOrder();
+
+        await service.run(request(), order.handler, now);
+        const again = await service.run(request(), order.handler, minutesLater(24 * 60));
+
+        expect(order.calls()).toBe(2);
+        expect(again.replayed).toBe(false);
+    });
+});
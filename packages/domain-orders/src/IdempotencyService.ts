@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import { PrismaClient, IdempotencyStatus } from 'db';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+
+// How long a key is remembered, and how long a request may hold it before another attempt can take over
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface IdempotentRequest {
+    ownerId: string;
+    key: string;
+    route: string; // e.g. "POST /dealer/checkout"; reusing a key on another route is a conflict
+    body: string | Buffer; // Raw request body, hashed to detect reuse with a different request
+}
+
+export interface IdempotentResponse<T> {
+    status: number;
+    body: T;
+    orderNo?: string;
+}
+
+/**
+ * The key is being processed by another request, or was used with a different request
+ */
+export class IdempotencyConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IdempotencyConflictError';
+    }
+}
+
+/**
+ * Runs order-creating requests at most once per Idempotency-Key. A repeat of a completed request gets
+ * the stored response back instead of placing another order.
+ */
+export class IdempotencyService {
+    constructor(private prisma: PrismaClient) { }
+
+    static validateKey(key: string): string | null {
+        return /^[\x21-\x7E]{1,255}$/.test(key) ? null : 'Idempotency-Key must be 1 to 255 visible ASCII characters';
+    }
+
+    static hashRequest(route: string, body: string | Buffer): string {
+        return createHash('sha256').update(`${route}\n`).update(body).digest('hex');
+    }
+
+    async run<T>(
+        request: IdempotentRequest,
+        handler: () => Promise<IdempotentResponse<T>>,
+        now: Date = new Date()
+    ): Promise<IdempotentResponse<T> & { replayed: boolean }> {
+        const { ownerId, key, route } = request;
+        const requestHash = IdempotencyService.hashRequest(route, request.body);
+
+        // An expired key is free to be used again
+        await this.prisma.idempotencyKey.deleteMany({ where: { ownerId, key, expiresAt: { lte: now } } });
+
+        const claimed = await this.prisma.idempotencyKey.createMany({
+            data: [{ ownerId, key, route, requestHash, lockedAt: now, expiresAt: new Date(now.getTime() + KEY_TTL_MS) }],
+            skipDuplicates: true
+        });
+
+        if (claimed.count === 0) {
+            const existing = await this.prisma.idempotencyKey.findUnique({ where: { ownerId_key: { ownerId, key } } });
+            if (!existing) {
+                throw new IdempotencyConflictError('Idempotency-Key was released while this request arrived, please retry');
+            }
+            if (existing.requestHash !== requestHash) {
+                throw new IdempotencyConflictError('Idempotency-Key has already been used for a different request');
+            }
+            if (existing.status === IdempotencyStatus.COMPLETED) {
+                return {
+                    status: existing.responseStatus!,
+                    body: existing.responseJson as T,
+                    orderNo: existing.orderNo ?? undefined,
+                    replayed: true
+                };
+            }
+
+            // Still in progress: only take over from a request that has been holding the key too long to be alive
+            const takenOver = await this.prisma.idempotencyKey.updateMany({
+                where: {
+                    id: existing.id,
+                    status: IdempotencyStatus.IN_PROGRESS,
+                    lockedAt: { lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) }
+                },
+                data: { lockedAt: now }
+            });
+            if (takenOver.count === 0) {
+                throw new IdempotencyConflictError('A request with this Idempotency-Key is still being processed');
+            }
+        }
+
+        let response: IdempotentResponse<T>;
+        try {
+            response = await handler();
+        } catch (error) {
+            await this.release(ownerId, key);
+            throw error;
+        }
+
+        // Nothing was created, so the client may correct the request and send it again under the same key
+        if (response.status >= 400) {
+            await this.release(ownerId, key);
+            return { ...response, replayed: false };
+        }
+
+        await this.prisma.idempotencyKey.update({
+            where: { ownerId_key: { ownerId, key } },
+            data: {
+                status: IdempotencyStatus.COMPLETED,
+                responseStatus: response.status,
+                // Stored as the client received it, so a replay returns the same JSON
+                responseJson: JSON.parse(JSON.stringify(response.body)),
+                orderNo: response.orderNo
+            }
+        });
+
+        return { ...response, replayed: false };
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        const { count } = await this.prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } });
+        return count;
+    }
+
+    private async release(ownerId: string, key: string): Promise<void> {
+        await this.prisma.idempotencyKey.deleteMany({
+            where: { ownerId, key, status: IdempotencyStatus.IN_PROGRESS }
+        });
+    }
+}
@@ -0,0 +1,333 @@
+import { PrismaClient, Prisma, OrderStatus, OrderHeader, OrderLine, Product, OrderNumberService, OrderNumberSource } from 'db';
+import {
+    PricingRules,
+    OrderRules,
+    InventoryRules,
+    EntitlementRules,
+    BusinessRuleError,
+    EntitlementError,
+    OrderValidationError,
+    PricingRuleError,
+    createRuleEngine,
+    PricingResult,
+    StockAllocation
+} from 'rules';
+
+export type OrderSource = OrderNumberSource;
+
+export interface OrderLineRequest {
+    productId?: string;
+    productCode?: string; // Matched against Product.productCode, then ProductAlias.aliasValue
+    qty: number;
+}
+
+export interface OrderRequest {
+    source: OrderSource;
+    dealerAccountId: string;
+    dealerUserId?: string; // Defaults to the account's primary user for ADMIN and EDI orders
+    lines: OrderLineRequest[];
+    dispatchMethod?: string;
+    poRef?: string;
+    notes?: string;
+    cartId?: string; // Emptied in the same transaction when the order comes from a cart
+    partial?: boolean; // Drop lines that cannot be ordered instead of failing the whole order (EDI)
+}
+
+export interface RejectedOrderLine {
+    requestIndex: number;
+    productCode: string | null;
+    reason: string;
+}
+
+export type PlacedOrderLine = OrderLine & StockAllocation & {
+    product: Product;
+    requestIndex: number; // Position of the line in OrderRequest.lines
+};
+
+export type PlacedOrder = OrderHeader & {
+    lines: PlacedOrderLine[];
+    rejectedLines: RejectedOrderLine[];
+};
+
+type ResolvedLine = { requestIndex: number; product: Product; qty: number };
+
+/**
+ * The one way OrderHeader rows are created, whatever the source (dealer checkout, admin order entry, EDI).
+ * Each order is validated with OrderRules, checked against the dealer's entitlement, priced with PricingRules
+ * (bands, price rules and net price overrides), numbered from the shared order number sequence and has its
+ * stock reserved, all in one transaction. Dealer checkouts over the placing user's order limit are held as
+ * PENDING_APPROVAL, without stock or an ERP export, until an approver releases them.
+ */
+export class OrderPipeline {
+    constructor(
+        private prisma: PrismaClient,
+        private pricingRules: PricingRules,
+        private orderRules: OrderRules,
+        private inventoryRules: InventoryRules,
+        private orderNumbers: OrderNumberService
+    ) { }
+
+    static create(prisma: PrismaClient): OrderPipeline {
+        const rules = createRuleEngine(prisma);
+        return new OrderPipeline(prisma, rules.pricing, rules.orders, rules.inventory, new OrderNumberService(prisma));
+    }
+
+    /**
+     * The OrderLine price columns for a priced line: the unit price and the rule or override that set it
+     */
+    static priceSnapshot(pricing: PricingResult) {
+        return {
+            unitPriceSnapshot: pricing.price,
+            bandCodeSnapshot: pricing.bandCode,
+            minPriceApplied: pricing.minimumPriceApplied,
+            basePriceSnapshot: (pricing.appliedOverride ?? pricing.appliedRule)?.basePrice ?? null,
+            priceRuleId: pricing.appliedRule?.id ?? null,
+            priceRuleType: pricing.appliedRule?.ruleType ?? null,
+            priceRuleName: pricing.appliedRule?.name ?? null,
+            priceOverrideId: pricing.appliedOverride?.id ?? null
+        };
+    }
+
+    async placeOrder(request: OrderRequest): Promise<PlacedOrder> {
+        // 1. Dealer and ordering user
+        const dealer = await this.prisma.dealerAccount.findUnique({
+            where: { id: request.dealerAccountId },
+            include: { users: { orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }] } }
+        });
+        if (!dealer) {
+            throw new OrderValidationError('Dealer account not found', 'dealerAccountId');
+        }
+
+        const dealerUser = request.dealerUserId
+            ? dealer.users.find(u => u.id === request.dealerUserId)
+            : request.source !== 'WEB' ? dealer.users[0] : undefined;
+        if (!dealerUser) {
+            throw new OrderValidationError(
+                request.dealerUserId ? 'Dealer user does not belong to this account' : 'Dealer account has no users',
+                'dealerUserId'
+            );
+        }
+
+        const rejected: RejectedOrderLine[] = [];
+
+        // 2. Resolve products
+        let lines = this.keepOrderable(
+            request,
+            rejected,
+            await this.resolveLines(request.lines),
+            reasons => new OrderValidationError(reasons.join(', '))
+        );
+
+        // 3. Order rules
+        const validation = await this.orderRules.validateOrderCreation({
+            dealerAccountId: dealer.id,
+            dealerStatus: dealer.status,
+            cartItems: lines.map(line => ({
+                productId: line.product.id,
+                productCode: line.product.productCode,
+                quantity: line.qty
+            })),
+            dispatchMethod: request.dispatchMethod,
+            poRef: request.poRef,
+            notes: request.notes
+        });
+        if (!validation.success) {
+            throw new OrderValidationError(validation.errors?.map(e => e.message).join(', ') || 'Validation failed');
+        }
+
+        // 4. Entitlement
+        lines = this.keepOrderable(
+            request,
+            rejected,
+            lines.map(line => {
+                const check = EntitlementRules.canAccessProduct(dealer.entitlement, line.product.partType);
+                return check.allowed ? line : this.rejectLine(line, check.reason ?? 'Not available to this account');
+            }),
+            reasons => new EntitlementError(reasons.join(', '), 'productCode')
+        );
+
+        // 5. Pricing snapshot; quantity breaks see the total ordered across lines for the same product
+        const quantities = new Map<string, number>();
+        lines.forEach(line => quantities.set(line.product.id, (quantities.get(line.product.id) ?? 0) + line.qty));
+        const priceMap = await this.pricingRules.calculatePrices(dealer.id, [...quantities.keys()], quantities);
+
+        lines = this.keepOrderable(
+            request,
+            rejected,
+            lines.map(line => priceMap.get(line.product.id)?.available
+                ? line
+                : this.rejectLine(line, 'Not available or has no price')),
+            reasons => new PricingRuleError(reasons.join(', '), 'productCode')
+        );
+
+        let subtotal = 0;
+        const orderLines = lines.map(({ product, qty }) => {
+            const pricing = priceMap.get(product.id)!;
+            subtotal += Number(pricing.price) * qty;
+
+            return {
+                productId: product.id,
+                productCodeSnapshot: product.productCode,
+                descriptionSnapshot: product.description,
+                partTypeSnapshot: product.partType,
+                qty,
+                ...OrderPipeline.priceSnapshot(pricing)
+            };
+        });
+
+        // 6. Dealer checkouts over the user's order limit wait for an approver instead of going to the ERP
+        const held = request.source === 'WEB' && OrderRules.requiresApproval(
+            subtotal,
+            dealerUser.orderLimit === null ? null : Number(dealerUser.orderLimit)
+        );
+
+        // 7. Number, persist, reserve stock and queue the ERP export in one transaction
+        return this.prisma.$transaction(async (tx) => {
+            const orderNo = await this.orderNumbers.next(request.source, tx);
+
+            const order = await tx.orderHeader.create({
+                data: {
+                    orderNo,
+                    dealerAccountId: dealer.id,
+                    dealerUserId: dealerUser.id,
+                    status: held ? OrderStatus.PENDING_APPROVAL : OrderStatus.SUSPENDED,
+                    dispatchMethod: request.dispatchMethod,
+                    poRef: request.poRef,
+                    notes: request.notes,
+                    subtotal,
+                    total: subtotal,
+                    currency: 'GBP'
+                }
+            });
+
+            // One at a time so each OrderLine stays paired with the request line it came from;
+            // lineNo is the number ERP exports and fulfillment files quote back
+            const created = [];
+            for (const [index, line] of orderLines.entries()) {
+                created.push(await tx.orderLine.create({
+                    data: { ...line, orderId: order.id, lineNo: index + 1 },
+                    include: { product: true }
+                }));
+            }
+
+            // Held orders reserve nothing until approved (see releaseHeldOrder)
+            const allocations = held
+                ? new Map<string, StockAllocation>()
+                : await this.release(tx, order.id, created);
+
+            if (request.cartId) {
+                await tx.cartItem.deleteMany({ where: { cartId: request.cartId } });
+            }
+
+            return {
+                ...order,
+                lines: created.map((line, i) => ({
+                    ...line,
+                    ...(allocations.get(line.id) ?? { allocatedQty: 0, backorderedQty: 0 }),
+                    requestIndex: lines[i].requestIndex
+                })),
+                rejectedLines: rejected.sort((a, b) => a.requestIndex - b.requestIndex)
+            };
+        });
+    }
+
+    /**
+     * Reserve stock and queue the ERP export for a PENDING_APPROVAL order once an approver has released it.
+     * Runs in the caller's transaction, alongside the status change.
+     */
+    async releaseHeldOrder(tx: Prisma.TransactionClient, orderId: string): Promise<Map<string, StockAllocation>> {
+        const lines = await tx.orderLine.findMany({ where: { orderId }, select: { id: true, productId: true, qty: true } });
+        return this.release(tx, orderId, lines);
+    }
+
+    private async release(
+        tx: Prisma.TransactionClient,
+        orderId: string,
+        lines: Array<{ id: string; productId: string; qty: number }>
+    ): Promise<Map<string, StockAllocation>> {
+        // Whatever free stock cannot cover is backordered
+        const allocations = await this.inventoryRules.allocateOrderLines(tx, lines);
+
+        // Queued in the same transaction, so the ERP only ever hears about committed orders
+        await tx.erpExport.create({ data: { orderId } });
+
+        return allocations;
+    }
+
+    /**
+     * Splits out rejected lines: a partial order records them and carries on (unless nothing is left),
+     * any other order fails with the error built from their reasons
+     */
+    private keepOrderable(
+        request: OrderRequest,
+        rejected: RejectedOrderLine[],
+        lines: Array<ResolvedLine | RejectedOrderLine>,
+        toError: (reasons: string[]) => BusinessRuleError
+    ): ResolvedLine[] {
+        const kept = lines.filter((line): line is ResolvedLine => 'product' in line);
+        const dropped = lines.filter((line): line is RejectedOrderLine => 'reason' in line);
+        if (dropped.length === 0) {
+            return kept;
+        }
+
+        const reasons = dropped.map(line => line.productCode ? `${line.productCode}: ${line.reason}` : line.reason);
+        if (!request.partial) {
+            throw toError(reasons);
+        }
+        rejected.push(...dropped);
+        if (kept.length === 0) {
+            throw new OrderValidationError(`No lines could be ordered (${reasons.join(', ')})`);
+        }
+        return kept;
+    }
+
+    private rejectLine(line: ResolvedLine, reason: string): RejectedOrderLine {
+        return { requestIndex: line.requestIndex, productCode: line.product.productCode, reason };
+    }
+
+    private async resolveLines(requested: OrderLineRequest[]): Promise<Array<ResolvedLine | RejectedOrderLine>> {
+        if (requested.length === 0) {
+            throw new OrderValidationError('Order has no lines');
+        }
+
+        const ids = requested.filter(l => l.productId).map(l => l.productId!);
+        const codes = requested.filter(l => !l.productId && l.productCode).map(l => l.productCode!.trim());
+
+        const products = await this.prisma.product.findMany({
+            where: {
+                OR: [
+                    { id: { in: ids } },
+                    ...codes.map(code => ({ productCode: { equals: code, mode: 'insensitive' as const } })),
+                    ...codes.map(code => ({ aliases: { some: { aliasValue: { equals: code, mode: 'insensitive' as const } } } }))
+                ]
+            },
+            include: { aliases: true }
+        });
+
+        const byCode = (code: string) => {
+            const key = code.trim().toUpperCase();
+            return products.find(p => p.productCode.toUpperCase() === key)
+                ?? products.find(p => p.aliases.some(a => a.aliasValue.toUpperCase() === key));
+        };
+
+        return requested.map((line, requestIndex) => {
+            const found = line.productId
+                ? products.find(p => p.id === line.productId)
+                : line.productCode ? byCode(line.productCode) : undefined;
+            const productCode = found?.productCode ?? line.productCode ?? null;
+
+            if (!found) {
+                return { requestIndex, productCode, reason: 'Product not found' };
+            }
+            if (!found.isActive) {
+                return { requestIndex, productCode, reason: 'No longer available' };
+            }
+            if (!Number.isInteger(line.qty) || line.qty <= 0) {
+                return { requestIndex, productCode, reason: 'Invalid quantity' };
+            }
+
+            const { aliases, ...product } = found;
+            return { requestIndex, product, qty: line.qty };
+        });
+    }
+}
@@ -1,4 +1,5 @@
-import { PrismaClient, OrderStatus } from '@prisma/client';
+import { PrismaClient, OrderHeader, OrderLine } from 'db';
+import { OrderPipeline, PlacedOrder } from './OrderPipeline';
 
 export interface CartItemInput {
     productId: string;
@@ -8,7 +9,7 @@ export interface CartItemInput {
 export class OrderService {
     constructor(
         private prisma: PrismaClient,
-        private pricingService: any
+        private pipeline: OrderPipeline = OrderPipeline.create(prisma)
     ) { }
 
     async getOrCreateCart(dealerUserId: string, dealerAccountId: string) {
@@ -54,60 +55,28 @@ export class OrderService {
         });
     }
 
-    async placeOrder(dealerUserId: string, dealerAccountId: string, poRef?: string, notes?: string) {
+    async placeOrder(dealerUserId: string, dealerAccountId: string, poRef?: string, notes?: string): Promise<PlacedOrder> {
         const cart = await this.prisma.cart.findUnique({
             where: { dealerUserId },
-            include: { items: { include: { product: true } } }
+            include: { items: true }
         });
 
         if (!cart || cart.items.length === 0) {
             throw new Error('Cart is empty');
         }
 
-        const orderLinesData = await Promise.all(cart.items.map(async (item: any) => {
-            const pricing = await this.pricingService.calculatePrice(dealerAccountId, item.product.productCode, item.qty);
-            return {
-                productId: item.productId,
-                productCodeSnapshot: item.product.productCode,
-                descriptionSnapshot: item.product.description,
-                partTypeSnapshot: item.product.partType,
-                qty: item.qty,
-                unitPriceSnapshot: pricing.unitPrice,
-                bandCodeSnapshot: pricing.bandCode,
-                minPriceApplied: pricing.minimumPriceApplied
-            };
-        }));
-
-        const subtotal = orderLinesData.reduce((acc: number, line: any) => acc + (line.unitPriceSnapshot * line.qty), 0);
-
-        const order = await this.prisma.$transaction(async (tx: any) => {
-            const newOrder = await tx.orderHeader.create({
-                data: {
-                    orderNo: `ORD-${Date.now()}`,
-                    dealerAccountId,
-                    dealerUserId,
-                    status: OrderStatus.SUSPENDED,
-                    poRef,
-                    notes,
-                    subtotal,
-                    total: subtotal,
-                    lines: {
-                        create: orderLinesData
-                    }
-                }
-            });
-
-            await tx.cartItem.deleteMany({
-                where: { cartId: cart.id }
-            });
-
-            return newOrder;
+        return this.pipeline.placeOrder({
+            source: 'WEB',
+            dealerAccountId,
+            dealerUserId,
+            lines: cart.items.map(item => ({ productId: item.productId, qty: item.qty })),
+            poRef,
+            notes,
+            cartId: cart.id
         });
-
-        return order;
     }
 
-    async getOrders(dealerAccountId: string) {
+    async getOrders(dealerAccountId: string): Promise<Array<OrderHeader & { lines: OrderLine[] }>> {
         return this.prisma.orderHeader.findMany({
             where: { dealerAccountId },
             include: { lines: true },
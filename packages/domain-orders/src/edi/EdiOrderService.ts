@@ -0,0 +1,160 @@
+import { PrismaClient } from 'db';
+import { BusinessRuleError } from 'rules';
+import { OrderPipeline, PlacedOrder } from '../OrderPipeline';
+import { buildContrl, buildOrdrsp, parseEdifactOrders } from './edifact';
+import { build855, build997, parseX12PurchaseOrder } from './x12';
+import { EdiFormat, EdiLineResponse, EdiMessageError, EdiOrderResponse, EdiPurchaseOrder, EdiSyntaxError } from './types';
+
+export interface EdiIngestResult {
+    format: EdiFormat;
+    poNumber: string | null;
+    order: PlacedOrder | null;
+    acknowledgement: string; // CONTRL or 997
+    orderResponse: string | null; // ORDRSP or 855; absent when the message itself was rejected
+    response: EdiOrderResponse | null;
+}
+
+/**
+ * Turns an EDIFACT ORDERS D96A or X12 850 purchase order into an order through the normal pipeline.
+ * The buyer party id is matched to DealerAccount.erpAccountNo and item numbers to Product.productCode,
+ * then ProductAlias. Lines that cannot be ordered are rejected individually rather than failing the order.
+ */
+export class EdiOrderService {
+    constructor(
+        private prisma: PrismaClient,
+        private pipeline: OrderPipeline
+    ) { }
+
+    static detectFormat(document: string): EdiFormat {
+        const start = document.replace(/^\uFEFF/, '').trimStart();
+        if (start.startsWith('UNA') || start.startsWith('UNB')) return 'EDIFACT';
+        if (start.startsWith('ISA')) return 'X12';
+        throw new EdiSyntaxError('Not an EDIFACT or X12 interchange');
+    }
+
+    /**
+     * @param options.dealerAccountId - the authenticated partner's account; purchase orders for any other buyer are rejected
+     */
+    async ingest(document: string, options: { dealerAccountId?: string; now?: Date } = {}): Promise<EdiIngestResult> {
+        const now = options.now ?? new Date();
+        const format = EdiOrderService.detectFormat(document);
+
+        // 1. Parse; a readable envelope with a bad message still gets a negative acknowledgement
+        let purchaseOrder: EdiPurchaseOrder;
+        try {
+            purchaseOrder = format === 'EDIFACT' ? parseEdifactOrders(document) : parseX12PurchaseOrder(document);
+        } catch (error) {
+            if (!(error instanceof EdiMessageError)) throw error;
+            const controlRef = await this.nextControlRef();
+            return {
+                format,
+                poNumber: null,
+                order: null,
+                acknowledgement: format === 'EDIFACT'
+                    ? buildContrl(error.interchange, false, controlRef, now)
+                    : build997(error.interchange, false, controlRef, now),
+                orderResponse: null,
+                response: null
+            };
+        }
+
+        // 2. Place the order
+        let order: PlacedOrder | null = null;
+        let rejection: string | null = null;
+
+        const dealer = await this.prisma.dealerAccount.findUnique({
+            where: { erpAccountNo: purchaseOrder.buyerId },
+            select: { id: true }
+        });
+        if (!dealer) {
+            rejection = `Unknown buyer ${purchaseOrder.buyerId}`;
+        } else if (options.dealerAccountId && dealer.id !== options.dealerAccountId) {
+            rejection = `Buyer ${purchaseOrder.buyerId} is not the account these credentials belong to`;
+        } else {
+            try {
+                order = await this.pipeline.placeOrder({
+                    source: 'EDI',
+                    dealerAccountId: dealer.id,
+                    poRef: purchaseOrder.poNumber,
+                    notes: purchaseOrder.notes ?? undefined,
+                    partial: true,
+                    lines: purchaseOrder.lines.map(line => ({
+                        productCode: (line.productCode ?? line.buyerProductCode)!,
+                        qty: line.qty
+                    }))
+                });
+            } catch (error) {
+                if (!(error instanceof BusinessRuleError)) throw error;
+                rejection = error.message;
+            }
+        }
+
+        // 3. Acknowledge the message and respond line by line
+        const response = EdiOrderService.buildResponse(purchaseOrder, order, rejection);
+        const [ackRef, responseRef] = [await this.nextControlRef(), await this.nextControlRef()];
+
+        return {
+            format,
+            poNumber: purchaseOrder.poNumber,
+            order,
+            acknowledgement: format === 'EDIFACT'
+                ? buildContrl(purchaseOrder.interchange, true, ackRef, now)
+                : build997(purchaseOrder.interchange, true, ackRef, now),
+            orderResponse: format === 'EDIFACT'
+                ? buildOrdrsp(purchaseOrder, response, responseRef, now)
+                : build855(purchaseOrder, response, responseRef, now),
+            response
+        };
+    }
+
+    /**
+     * Line outcomes: rejected if it was not ordered, changed if it is part backordered or our price
+     * differs from the one the buyer sent, otherwise accepted
+     */
+    static buildResponse(purchaseOrder: EdiPurchaseOrder, order: PlacedOrder | null, rejection: string | null): EdiOrderResponse {
+        const lines = purchaseOrder.lines.map((line, index): EdiLineResponse => {
+            const placed = order?.lines.find(l => l.requestIndex === index);
+            if (!placed) {
+                const rejected = order?.rejectedLines.find(l => l.requestIndex === index);
+                return {
+                    line,
+                    status: 'REJECTED',
+                    confirmedQty: 0,
+                    backorderedQty: 0,
+                    unitPrice: null,
+                    priceChanged: false,
+                    reason: rejected?.reason ?? rejection ?? 'Not ordered'
+                };
+            }
+
+            const unitPrice = Number(placed.unitPriceSnapshot);
+            const priceChanged = line.unitPrice !== null && Math.abs(line.unitPrice - unitPrice) >= 0.005;
+            const reasons = [
+                ...(placed.backorderedQty > 0 ? [`${placed.backorderedQty} backordered`] : []),
+                ...(priceChanged ? [`Price ${unitPrice.toFixed(2)}`] : [])
+            ];
+
+            return {
+                line,
+                status: reasons.length > 0 ? 'CHANGED' : 'ACCEPTED',
+                confirmedQty: placed.allocatedQty,
+                backorderedQty: placed.backorderedQty,
+                unitPrice,
+                priceChanged,
+                reason: reasons.length > 0 ? reasons.join(', ') : null
+            };
+        });
+
+        const status = lines.every(l => l.status === 'REJECTED')
+            ? 'REJECTED'
+            : lines.every(l => l.status === 'ACCEPTED') ? 'ACCEPTED' : 'CHANGED';
+
+        return { orderNo: order?.orderNo ?? null, status, lines };
+    }
+
+    // Interchange control references for our outbound documents
+    private async nextControlRef(): Promise<string> {
+        const [{ seq }] = await this.prisma.$queryRaw<Array<{ seq: bigint }>>`SELECT nextval('edi_control_seq') AS seq`;
+        return String(seq).padStart(9, '0');
+    }
+}
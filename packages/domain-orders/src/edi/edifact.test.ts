@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { buildContrl, buildOrdrsp, parseEdifactOrders } from './edifact';
+import { EdiMessageError, EdiOrderResponse, EdiSyntaxError } from './types';
+
+const ORDERS = [
+    'UNA:+.? \'',
+    'UNB+UNOC:3+5012345000004:14+5098765000001:14+260307:1200+CTRL42\'',
+    'UNH+1+ORDERS:D:96A:UN\'',
+    'BGM+220+PO-1001+9\'',
+    'DTM+137:20260307:102\'',
+    'NAD+BY+D001::91\'',
+    'FTX+AAI+++Deliver to the rear gate?: ring ahead\'',
+    'LIN+1++LR000001:SA\'',
+    'PIA+1+BUY-77:BP\'',
+    'QTY+21:4:EA\'',
+    'PRI+AAA:12.50\'',
+    'LIN+2++BUY-99:BP\'',
+    'QTY+21:2\'',
+    'UNS+S\'',
+    'UNT+13+1\'',
+    'UNZ+1+CTRL42\''
+].join('\n');
+
+const now = new Date('2026-03-07T12:30:00Z');
+
+const segments = (document: string) => document.split('\'\n').filter(Boolean);
+
+describe('parseEdifactOrders', () => {
+    it('reads the envelope, header and lines of an ORDERS message', () => {
+        const order = parseEdifactOrders(ORDERS);
+
+        expect(order.interchange).toEqual({
+            senderId: '5012345000004',
+            senderQualifier: '14',
+            receiverId: '5098765000001',
+            receiverQualifier: '14',
+            controlRef: 'CTRL42',
+            messageRef: '1'
+        });
+        expect(order.poNumber).toBe('PO-1001');
+        expect(order.orderDate).toBe('20260307');
+        expect(order.buyerId).toBe('D001');
+        expect(order.lines).toEqual([
+            { lineNo: '1', productCode: 'LR000001', buyerProductCode: 'BUY-77', qty: 4, unit: 'EA', unitPrice: 12.5 },
+            { lineNo: '2', productCode: null, buyerProductCode: 'BUY-99', qty: 2, unit: null, unitPrice: null }
+        ]);
+    });
+
+    it('treats a character after the release character as data', () => {
+        const order = parseEdifactOrders(ORDERS.replace('BGM+220+PO-1001+9', 'BGM+220+PO?+1?\'A+9'));
+
+        expect(order.poNumber).toBe('PO+1\'A');
+        expect(order.notes).toBe('Deliver to the rear gate: ring ahead');
+    });
+
+    it('uses the delimiters declared in UNA', () => {
+        const custom = ORDERS
+            .replace('UNA:+.? \'', 'UNA|*.# ~')
+            .replace(/\?:/g, '#|')
+            .replace(/:/g, '|')
+            .replace(/\+/g, '*')
+            .replace(/'/g, '~');
+
+        const order = parseEdifactOrders(custom.replace('Deliver to the rear gate#|', 'Deliver to bay 3#*4 + the rear gate#|'));
+
+        expect(order.poNumber).toBe('PO-1001');
+        expect(order.notes).toBe('Deliver to bay 3*4 + the rear gate| ring ahead');
+        expect(order.lines.map(line => [line.productCode, line.qty])).toEqual([['LR000001', 4], [null, 2]]);
+    });
+
+    it('falls back to the standard delimiters without UNA', () => {
+        const order = parseEdifactOrders(ORDERS.replace('UNA:+.? \'\n', ''));
+
+        expect(order.poNumber).toBe('PO-1001');
+        expect(order.lines).toHaveLength(2);
+    });
+
+    it('rejects a document that is not terminated', () => {
+        expect(() => parseEdifactOrders(ORDERS.slice(0, -1))).toThrow(EdiSyntaxError);
+    });
+
+    it('rejects other message types with the envelope attached', () => {
+        try {
+            parseEdifactOrders(ORDERS.replace('ORDERS:D:96A', 'ORDRSP:D:96A'));
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(EdiMessageError);
+            expect((error as EdiMessageError).message).toBe('Expected ORDERS D96A, got ORDRSP:D:96A');
+            expect((error as EdiMessageError).interchange.controlRef).toBe('CTRL42');
+        }
+    });
+
+    it('requires a buyer party and an ordered quantity on every line', () => {
+        expect(() => parseEdifactOrders(ORDERS.replace('NAD+BY+D001::91\'\n', ''))).toThrow('NAD+BY with the buyer party id is required');
+        expect(() => parseEdifactOrders(ORDERS.replace('QTY+21:2\'\n', ''))).toThrow('Line 2 has no ordered quantity (QTY+21)');
+    });
+});
+
+describe('buildContrl', () => {
+    it('acknowledges the interchange back to its sender', () => {
+        const { interchange } = parseEdifactOrders(ORDERS);
+
+        expect(segments(buildContrl(interchange, true, 'ACK1', now))).toEqual([
+            'UNA:+.? ',
+            'UNB+UNOC:3+5098765000001:14+5012345000004:14+260307:1230+ACK1',
+            'UNH+1+CONTRL:D:3:UN',
+            'UCI+CTRL42+5012345000004:14+5098765000001:14+7',
+            'UCM+1+ORDERS:D:96A:UN+7',
+            'UNT+4+1',
+            'UNZ+1+ACK1'
+        ]);
+    });
+
+    it('marks a rejected interchange with action 4', () => {
+        const { interchange } = parseEdifactOrders(ORDERS);
+        const document = segments(buildContrl(interchange, false, 'ACK2', now));
+
+        expect(document).toContain('UCI+CTRL42+5012345000004:14+5098765000001:14+4');
+        expect(document).toContain('UCM+1+ORDERS:D:96A:UN+4');
+    });
+});
+
+describe('buildOrdrsp', () => {
+    it('echoes each line with its action, quantities and price', () => {
+        const order = parseEdifactOrders(ORDERS);
+        const response: EdiOrderResponse = {
+            orderNo: 'EDI-000042',
+            status: 'CHANGED',
+            lines: [
+                { line: order.lines[0], status: 'ACCEPTED', confirmedQty: 4, backorderedQty: 0, unitPrice: 12.5, priceChanged: false, reason: null },
+                { line: order.lines[1], status: 'CHANGED', confirmedQty: 1, backorderedQty: 1, unitPrice: null, priceChanged: false, reason: 'Short: rest+1 on backorder' }
+            ]
+        };
+
+        expect(segments(buildOrdrsp(order, response, 'RSP1', now)).slice(2)).toEqual([
+            'UNH+1+ORDRSP:D:96A:UN',
+            'BGM+231+EDI-000042+4',
+            'DTM+137:20260307:102',
+            'RFF+ON:PO-1001',
+            'NAD+BY+D001::91',
+            'LIN+1+5+LR000001:SA',
+            'PIA+1+BUY-77:BP',
+            'QTY+21:4:EA',
+            'QTY+113:4:EA',
+            'PRI+AAA:12.50',
+            'LIN+2+3+BUY-99:BP',
+            'QTY+21:2',
+            'QTY+113:1',
+            'QTY+83:1',
+            'FTX+AAO+++Short?: rest?+1 on backorder',
+            'UNS+S',
+            'UNT+17+1',
+            'UNZ+1+RSP1'
+        ]);
+    });
+
+    it('falls back to the purchase order number when no order was placed', () => {
+        const order = parseEdifactOrders(ORDERS);
+        const response: EdiOrderResponse = {
+            orderNo: null,
+            status: 'REJECTED',
+            lines: order.lines.map(line => ({ line, status: 'REJECTED', confirmedQty: 0, backorderedQty: 0, unitPrice: null, priceChanged: false, reason: 'Account on hold' }))
+        };
+
+        const document = segments(buildOrdrsp(order, response, 'RSP2', now));
+
+        expect(document).toContain('BGM+231+PO-1001+27');
+        expect(document.filter(segment => segment.startsWith('LIN+'))).toEqual(['LIN+1+7+LR000001:SA', 'LIN+2+7+BUY-99:BP']);
+    });
+});
@@ -0,0 +1,260 @@
+import { EdiInterchange, EdiMessageError, EdiOrderLine, EdiOrderResponse, EdiPurchaseOrder, EdiSyntaxError } from './types';
+
+interface Delimiters {
+    component: string;
+    element: string;
+    release: string;
+    segment: string;
+}
+
+// Segment = elements, element = components
+type Segment = string[][];
+
+const DEFAULT_DELIMITERS: Delimiters = { component: ':', element: '+', release: '?', segment: '\'' };
+
+// C212 item number types that carry our code; anything else is the buyer's and goes through ProductAlias
+const SUPPLIER_CODE_TYPES = ['SA', 'VN', 'VP', 'MF'];
+
+// 1229 action request codes used on ORDRSP lines
+const LINE_ACTION = { ACCEPTED: '5', CHANGED: '3', REJECTED: '7' } as const;
+
+// 1225 message function codes used on the ORDRSP BGM
+const RESPONSE_FUNCTION = { ACCEPTED: '29', CHANGED: '4', REJECTED: '27' } as const;
+
+function tokenize(document: string): Segment[] {
+    let text = document.replace(/^\uFEFF/, '');
+    let delimiters = DEFAULT_DELIMITERS;
+
+    // UNA service string advice: component, element, decimal, release, reserved, segment
+    if (text.startsWith('UNA')) {
+        delimiters = { component: text[3], element: text[4], release: text[6], segment: text[8] };
+        text = text.slice(9);
+    }
+
+    const segments: Segment[] = [];
+    let elements: string[][] = [];
+    let components: string[] = [];
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === delimiters.release && i + 1 < text.length) {
+            current += text[++i];
+        } else if (char === delimiters.component) {
+            components.push(current);
+            current = '';
+        } else if (char === delimiters.element) {
+            elements.push([...components, current]);
+            components = [];
+            current = '';
+        } else if (char === delimiters.segment) {
+            elements.push([...components, current]);
+            segments.push(elements);
+            elements = [];
+            components = [];
+            current = '';
+        } else if ((char === '\r' || char === '\n') && elements.length === 0 && components.length === 0 && current.trim() === '') {
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    if (current.trim() !== '' || elements.length > 0) {
+        throw new EdiSyntaxError('EDIFACT document is not terminated');
+    }
+    return segments.map(segment => [[segment[0][0].trim()], ...segment.slice(1)]);
+}
+
+const tag = (segment: Segment) => segment[0][0];
+const value = (segment: Segment, element: number, component = 0) => segment[element]?.[component] ?? '';
+
+/**
+ * Parse an EDIFACT interchange holding one ORDERS D96A message
+ */
+export function parseEdifactOrders(document: string): EdiPurchaseOrder {
+    const segments = tokenize(document);
+
+    const unb = segments.find(s => tag(s) === 'UNB');
+    const unh = segments.find(s => tag(s) === 'UNH');
+    if (!unb || !unh) {
+        throw new EdiSyntaxError('EDIFACT interchange needs UNB and UNH segments');
+    }
+
+    const interchange: EdiInterchange = {
+        senderId: value(unb, 2),
+        senderQualifier: value(unb, 2, 1) || undefined,
+        receiverId: value(unb, 3),
+        receiverQualifier: value(unb, 3, 1) || undefined,
+        controlRef: value(unb, 5),
+        messageRef: value(unh, 1)
+    };
+
+    const messageType = unh[2] ?? [];
+    if (messageType[0] !== 'ORDERS' || messageType[1] !== 'D' || messageType[2] !== '96A') {
+        throw new EdiMessageError(`Expected ORDERS D96A, got ${messageType.slice(0, 3).join(':')}`, interchange);
+    }
+    if (segments.filter(s => tag(s) === 'UNH').length > 1) {
+        throw new EdiMessageError('Send one ORDERS message per interchange', interchange);
+    }
+
+    const bgm = segments.find(s => tag(s) === 'BGM');
+    if (!bgm || !value(bgm, 2)) {
+        throw new EdiMessageError('BGM with a purchase order number is required', interchange);
+    }
+
+    const buyer = segments.find(s => tag(s) === 'NAD' && value(s, 1) === 'BY');
+    if (!buyer || !value(buyer, 2)) {
+        throw new EdiMessageError('NAD+BY with the buyer party id is required', interchange);
+    }
+
+    const orderDate = segments.find(s => tag(s) === 'DTM' && value(s, 1) === '137');
+    const notes = segments.filter(s => tag(s) === 'FTX').map(s => (s[4] ?? []).join(' ').trim()).filter(Boolean);
+
+    // Lines run from one LIN to the next (or to UNS)
+    const lines: EdiOrderLine[] = [];
+    let line: EdiOrderLine | null = null;
+    for (const segment of segments) {
+        switch (tag(segment)) {
+            case 'LIN':
+                line = {
+                    lineNo: value(segment, 1) || String(lines.length + 1),
+                    productCode: null,
+                    buyerProductCode: null,
+                    qty: NaN,
+                    unit: null,
+                    unitPrice: null
+                };
+                lines.push(line);
+                assignCode(line, value(segment, 3), value(segment, 3, 1));
+                break;
+            case 'PIA':
+                for (const item of segment.slice(2)) {
+                    if (line) assignCode(line, item[0] ?? '', item[1] ?? '');
+                }
+                break;
+            case 'QTY':
+                if (line && value(segment, 1) === '21') {
+                    line.qty = Number(value(segment, 1, 1));
+                    line.unit = value(segment, 1, 2) || null;
+                }
+                break;
+            case 'PRI':
+                if (line && value(segment, 1, 1)) {
+                    line.unitPrice = Number(value(segment, 1, 1));
+                }
+                break;
+            case 'UNS':
+                line = null;
+                break;
+        }
+    }
+
+    if (lines.length === 0) {
+        throw new EdiMessageError('ORDERS message has no LIN segments', interchange);
+    }
+    const missingQty = lines.find(l => !Number.isFinite(l.qty));
+    if (missingQty) {
+        throw new EdiMessageError(`Line ${missingQty.lineNo} has no ordered quantity (QTY+21)`, interchange);
+    }
+    const missingCode = lines.find(l => !l.productCode && !l.buyerProductCode);
+    if (missingCode) {
+        throw new EdiMessageError(`Line ${missingCode.lineNo} has no item number`, interchange);
+    }
+
+    return {
+        format: 'EDIFACT',
+        interchange,
+        poNumber: value(bgm, 2),
+        orderDate: orderDate ? value(orderDate, 1, 1) || null : null,
+        buyerId: value(buyer, 2),
+        notes: notes.length > 0 ? notes.join('\n') : null,
+        lines
+    };
+}
+
+function assignCode(line: EdiOrderLine, code: string, type: string) {
+    if (!code) return;
+    if (SUPPLIER_CODE_TYPES.includes(type)) {
+        line.productCode = line.productCode ?? code;
+    } else {
+        line.buyerProductCode = line.buyerProductCode ?? code;
+    }
+}
+
+function escape(text: string): string {
+    return text.replace(/([?:+'])/g, '?$1');
+}
+
+type OutSegment = Array<string | string[]>;
+
+function formatSegments(segments: OutSegment[]): string {
+    return segments
+        .map(elements => {
+            const trimmed = [...elements];
+            while (trimmed.length > 1 && trimmed[trimmed.length - 1] === '') trimmed.pop();
+            return trimmed
+                .map(element => Array.isArray(element) ? element.map(escape).join(':') : escape(element))
+                .join('+');
+        })
+        .join('\'\n') + '\'\n';
+}
+
+const party = (id: string, qualifier?: string) => qualifier ? [id, qualifier] : id;
+
+/**
+ * Wrap one message (UNH onwards) in a UNB/UNZ interchange addressed back to the sender of `inbound`
+ */
+function wrapInterchange(inbound: EdiInterchange, controlRef: string, now: Date, message: OutSegment[]): string {
+    const date = now.toISOString().slice(2, 10).replace(/-/g, '');
+    const time = now.toISOString().slice(11, 16).replace(':', '');
+
+    return 'UNA:+.? \'\n' + formatSegments([
+        ['UNB', ['UNOC', '3'], party(inbound.receiverId, inbound.receiverQualifier), party(inbound.senderId, inbound.senderQualifier), [date, time], controlRef],
+        ...message,
+        ['UNT', String(message.length + 1), '1'],
+        ['UNZ', '1', controlRef]
+    ]);
+}
+
+/**
+ * CONTRL syntax acknowledgement: accepts or rejects the inbound interchange and its ORDERS message
+ */
+export function buildContrl(inbound: EdiInterchange, accepted: boolean, controlRef: string, now: Date = new Date()): string {
+    const action = accepted ? '7' : '4';
+
+    return wrapInterchange(inbound, controlRef, now, [
+        ['UNH', '1', ['CONTRL', 'D', '3', 'UN']],
+        ['UCI', inbound.controlRef, party(inbound.senderId, inbound.senderQualifier), party(inbound.receiverId, inbound.receiverQualifier), action],
+        ['UCM', inbound.messageRef, ['ORDERS', 'D', '96A', 'UN'], action]
+    ]);
+}
+
+/**
+ * ORDRSP D96A order response with each line accepted, changed or rejected
+ */
+export function buildOrdrsp(order: EdiPurchaseOrder, response: EdiOrderResponse, controlRef: string, now: Date = new Date()): string {
+    const day = now.toISOString().slice(0, 10).replace(/-/g, '');
+    const lineSegments: OutSegment[] = response.lines.flatMap(({ line, status, confirmedQty, backorderedQty, unitPrice, reason }) => {
+        const unit = line.unit ? [line.unit] : [];
+        return [
+            ['LIN', line.lineNo, LINE_ACTION[status], [line.productCode ?? line.buyerProductCode ?? '', line.productCode ? 'SA' : 'BP']],
+            ...(line.productCode && line.buyerProductCode ? [['PIA', '1', [line.buyerProductCode, 'BP']]] : []),
+            ['QTY', ['21', String(line.qty), ...unit]],
+            ['QTY', ['113', String(confirmedQty), ...unit]],
+            ...(backorderedQty > 0 ? [['QTY', ['83', String(backorderedQty), ...unit]]] : []),
+            ...(unitPrice !== null ? [['PRI', ['AAA', unitPrice.toFixed(2)]]] : []),
+            ...(reason ? [['FTX', 'AAO', '', '', reason]] : [])
+        ];
+    });
+
+    return wrapInterchange(order.interchange, controlRef, now, [
+        ['UNH', '1', ['ORDRSP', 'D', '96A', 'UN']],
+        ['BGM', '231', response.orderNo ?? order.poNumber, RESPONSE_FUNCTION[response.status]],
+        ['DTM', ['137', day, '102']],
+        ['RFF', ['ON', order.poNumber]],
+        ['NAD', 'BY', [order.buyerId, '', '91']],
+        ...lineSegments,
+        ['UNS', 'S']
+    ]);
+}
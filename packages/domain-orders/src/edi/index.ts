@@ -0,0 +1,4 @@
+export * from './types';
+export * from './edifact';
+export * from './x12';
+export * from './EdiOrderService';
@@ -0,0 +1,71 @@
+export type EdiFormat = 'EDIFACT' | 'X12';
+
+export interface EdiInterchange {
+    senderId: string;
+    senderQualifier?: string;
+    receiverId: string;
+    receiverQualifier?: string;
+    controlRef: string; // UNB interchange reference / ISA13
+    groupControlRef?: string; // X12 GS06
+    messageRef: string; // UNH message reference / ST02
+    usage?: string; // X12 ISA15 (P or T), echoed on responses
+}
+
+export interface EdiOrderLine {
+    lineNo: string; // Buyer's line number, echoed in the order response
+    productCode: string | null; // Our code where the buyer sent it, otherwise theirs
+    buyerProductCode: string | null;
+    qty: number;
+    unit: string | null;
+    unitPrice: number | null; // Price the buyer expects, if sent
+}
+
+export interface EdiPurchaseOrder {
+    format: EdiFormat;
+    interchange: EdiInterchange;
+    poNumber: string;
+    orderDate: string | null; // CCYYMMDD
+    buyerId: string; // Matched against DealerAccount.erpAccountNo
+    notes: string | null;
+    lines: EdiOrderLine[];
+}
+
+export type EdiLineStatus = 'ACCEPTED' | 'CHANGED' | 'REJECTED';
+
+export interface EdiLineResponse {
+    line: EdiOrderLine;
+    status: EdiLineStatus;
+    confirmedQty: number; // Available to ship now
+    backorderedQty: number;
+    unitPrice: number | null; // Our price
+    priceChanged: boolean; // Our price differs from the one the buyer sent
+    reason: string | null;
+}
+
+export interface EdiOrderResponse {
+    orderNo: string | null;
+    status: EdiLineStatus; // Order level: all accepted, some changed or rejected, or nothing ordered
+    lines: EdiLineResponse[];
+}
+
+/**
+ * Thrown when a document cannot be read at all. Syntax problems inside a readable
+ * interchange are reported back in the functional acknowledgement instead.
+ */
+export class EdiSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EdiSyntaxError';
+    }
+}
+
+/**
+ * A readable interchange whose purchase order does not meet the message rules.
+ * Carries the envelope so a negative CONTRL / 997 can still be returned.
+ */
+export class EdiMessageError extends Error {
+    constructor(message: string, public interchange: EdiInterchange) {
+        super(message);
+        this.name = 'EdiMessageError';
+    }
+}
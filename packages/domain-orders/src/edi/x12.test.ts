@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { build855, build997, parseX12PurchaseOrder } from './x12';
+import { EdiMessageError, EdiOrderResponse, EdiSyntaxError } from './types';
+
+const PO_850 = [
+    'ISA*00*          *00*          *ZZ*BUYERID        *ZZ*HOTBRAY        *260307*1200*U*00401*000000905*0*T*>~',
+    'GS*PO*BUYERID*HOTBRAY*20260307*1200*905*X*004010~',
+    'ST*850*0001~',
+    'BEG*00*SA*PO-2001**20260307~',
+    'N1*BY*Buyer Ltd*92*D001~',
+    'NTE*GEN*Call before delivery~',
+    'PO1*1*4*EA*12.50**VP*LR000001*BP*BUY-77~',
+    'PO1*2*2*EA***BP*BUY-99~',
+    'CTT*2~',
+    'SE*8*0001~',
+    'GE*1*905~',
+    'IEA*1*000000905~'
+].join('\n');
+
+const now = new Date('2026-03-07T12:30:00Z');
+
+const segments = (document: string) => document.split('~\n').filter(Boolean);
+
+describe('parseX12PurchaseOrder', () => {
+    it('reads the envelope, header and lines of an 850', () => {
+        const order = parseX12PurchaseOrder(PO_850);
+
+        expect(order.interchange).toEqual({
+            senderQualifier: 'ZZ',
+            senderId: 'BUYERID',
+            receiverQualifier: 'ZZ',
+            receiverId: 'HOTBRAY',
+            controlRef: '000000905',
+            groupControlRef: '905',
+            messageRef: '0001',
+            usage: 'T'
+        });
+        expect(order.poNumber).toBe('PO-2001');
+        expect(order.orderDate).toBe('20260307');
+        expect(order.buyerId).toBe('D001');
+        expect(order.notes).toBe('Call before delivery');
+        expect(order.lines).toEqual([
+            { lineNo: '1', productCode: 'LR000001', buyerProductCode: 'BUY-77', qty: 4, unit: 'EA', unitPrice: 12.5 },
+            { lineNo: '2', productCode: null, buyerProductCode: 'BUY-99', qty: 2, unit: 'EA', unitPrice: null }
+        ]);
+    });
+
+    it('takes the separators from the ISA segment', () => {
+        const order = parseX12PurchaseOrder(PO_850.replace(/\*/g, '|').replace(/~\n?/g, '\n'));
+
+        expect(order.poNumber).toBe('PO-2001');
+        expect(order.lines.map(line => [line.productCode ?? line.buyerProductCode, line.qty])).toEqual([['LR000001', 4], ['BUY-99', 2]]);
+    });
+
+    it('rejects a document without an ISA segment', () => {
+        expect(() => parseX12PurchaseOrder(PO_850.slice(PO_850.indexOf('GS*')))).toThrow(EdiSyntaxError);
+    });
+
+    it('rejects other transaction sets with the envelope attached', () => {
+        try {
+            parseX12PurchaseOrder(PO_850.replace('ST*850', 'ST*810'));
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(EdiMessageError);
+            expect((error as EdiMessageError).message).toBe('Expected an 850 transaction set, got 810');
+            expect((error as EdiMessageError).interchange.groupControlRef).toBe('905');
+        }
+    });
+
+    it('requires a buyer and a quantity on every line', () => {
+        expect(() => parseX12PurchaseOrder(PO_850.replace('N1*BY*Buyer Ltd*92*D001~\n', '')))
+            .toThrow('N1*BY with the buyer identification code is required');
+        expect(() => parseX12PurchaseOrder(PO_850.replace('PO1*2*2*EA', 'PO1*2**EA'))).toThrow('Line 2 has no quantity ordered');
+    });
+});
+
+describe('build997', () => {
+    it('accepts the 850 in an envelope addressed back to the sender', () => {
+        const { interchange } = parseX12PurchaseOrder(PO_850);
+        const document = segments(build997(interchange, true, '17', now));
+
+        expect(document[0]).toHaveLength(105);
+        expect(document).toEqual([
+            'ISA*00*          *00*          *ZZ*HOTBRAY        *ZZ*BUYERID        *260307*1230*U*00401*000000017*0*T*>',
+            'GS*FA*HOTBRAY*BUYERID*20260307*1230*17*X*004010',
+            'ST*997*0001',
+            'AK1*PO*905',
+            'AK2*850*0001',
+            'AK5*A',
+            'AK9*A*1*1*1',
+            'SE*6*0001',
+            'GE*1*17',
+            'IEA*1*000000017'
+        ]);
+    });
+
+    it('reports a rejected transaction set', () => {
+        const { interchange } = parseX12PurchaseOrder(PO_850);
+        const document = segments(build997(interchange, false, '18', now));
+
+        expect(document).toContain('AK5*R*5');
+        expect(document).toContain('AK9*R*1*1*0');
+    });
+});
+
+describe('build855', () => {
+    it('acknowledges each line with accepted, price changed and backordered quantities', () => {
+        const order = parseX12PurchaseOrder(PO_850);
+        const response: EdiOrderResponse = {
+            orderNo: 'EDI-000042',
+            status: 'CHANGED',
+            lines: [
+                { line: order.lines[0], status: 'ACCEPTED', confirmedQty: 4, backorderedQty: 0, unitPrice: 12.5, priceChanged: false, reason: null },
+                { line: order.lines[1], status: 'CHANGED', confirmedQty: 1, backorderedQty: 1, unitPrice: 9, priceChanged: true, reason: null }
+            ]
+        };
+
+        expect(segments(build855(order, response, '19', now)).slice(2)).toEqual([
+            'ST*855*0001',
+            'BAK*00*AC*PO-2001*20260307',
+            'REF*VN*EDI-000042',
+            'PO1*1*4*EA*12.50**VP*LR000001*BP*BUY-77',
+            'ACK*IA*4*EA',
+            'PO1*2*2*EA*9.00**BP*BUY-99',
+            'ACK*IP*1*EA',
+            'ACK*IB*1*EA',
+            'CTT*2',
+            'SE*10*0001',
+            'GE*1*19',
+            'IEA*1*000000019'
+        ]);
+    });
+
+    it('rejects lines at their ordered quantity', () => {
+        const order = parseX12PurchaseOrder(PO_850);
+        const response: EdiOrderResponse = {
+            orderNo: null,
+            status: 'REJECTED',
+            lines: order.lines.map(line => ({ line, status: 'REJECTED', confirmedQty: 0, backorderedQty: 0, unitPrice: null, priceChanged: false, reason: 'Unknown item' }))
+        };
+
+        const document = segments(build855(order, response, '20', now));
+
+        expect(document).toContain('BAK*00*RD*PO-2001*20260307');
+        expect(document.some(segment => segment.startsWith('REF*'))).toBe(false);
+        expect(document.filter(segment => segment.startsWith('ACK*'))).toEqual(['ACK*IR*4*EA', 'ACK*IR*2*EA']);
+    });
+});
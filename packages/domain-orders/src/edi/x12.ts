@@ -0,0 +1,203 @@
+import { EdiInterchange, EdiMessageError, EdiOrderLine, EdiOrderResponse, EdiPurchaseOrder, EdiSyntaxError } from './types';
+
+// Segment = elements, with the tag as element 0
+type Segment = string[];
+
+// PO1 product id qualifiers that carry our code; anything else is the buyer's and goes through ProductAlias
+const SUPPLIER_CODE_QUALIFIERS = ['VP', 'VN', 'MG', 'MF'];
+
+// ACK01 line item status codes used on the 855
+const LINE_STATUS = { ACCEPTED: 'IA', BACKORDERED: 'IB', PRICE_CHANGED: 'IP', REJECTED: 'IR' } as const;
+
+// BAK02 acknowledgment types
+const ACKNOWLEDGMENT_TYPE = { ACCEPTED: 'AD', CHANGED: 'AC', REJECTED: 'RD' } as const;
+
+function tokenize(document: string): Segment[] {
+    const text = document.replace(/^\uFEFF/, '').trimStart();
+    if (!text.startsWith('ISA') || text.length < 106) {
+        throw new EdiSyntaxError('X12 interchange must start with an ISA segment');
+    }
+
+    // ISA is fixed width: the element separator follows "ISA", the segment terminator follows ISA16
+    const element = text[3];
+    let separators = 0;
+    let i = 0;
+    while (separators < 16 && i < text.length) {
+        if (text[i++] === element) separators++;
+    }
+    const terminator = text[i + 1];
+    if (separators < 16 || !terminator) {
+        throw new EdiSyntaxError('ISA segment is incomplete');
+    }
+
+    return text
+        .split(terminator)
+        .map(segment => segment.replace(/^[\r\n]+/, ''))
+        .filter(segment => segment.trim() !== '')
+        .map(segment => segment.split(element));
+}
+
+const tag = (segment: Segment) => segment[0];
+
+/**
+ * Parse an X12 interchange holding one 850 purchase order
+ */
+export function parseX12PurchaseOrder(document: string): EdiPurchaseOrder {
+    const segments = tokenize(document);
+
+    const isa = segments[0];
+    const gs = segments.find(s => tag(s) === 'GS');
+    const st = segments.find(s => tag(s) === 'ST');
+    if (!gs || !st) {
+        throw new EdiSyntaxError('X12 interchange needs GS and ST segments');
+    }
+
+    const interchange: EdiInterchange = {
+        senderQualifier: isa[5]?.trim(),
+        senderId: isa[6]?.trim() ?? '',
+        receiverQualifier: isa[7]?.trim(),
+        receiverId: isa[8]?.trim() ?? '',
+        controlRef: isa[13]?.trim() ?? '',
+        groupControlRef: gs[6],
+        messageRef: st[2] ?? '',
+        usage: isa[15]?.trim() || 'P'
+    };
+
+    if (st[1] !== '850') {
+        throw new EdiMessageError(`Expected an 850 transaction set, got ${st[1]}`, interchange);
+    }
+    if (segments.filter(s => tag(s) === 'ST').length > 1) {
+        throw new EdiMessageError('Send one 850 transaction set per interchange', interchange);
+    }
+
+    const beg = segments.find(s => tag(s) === 'BEG');
+    if (!beg || !beg[3]) {
+        throw new EdiMessageError('BEG with a purchase order number is required', interchange);
+    }
+
+    const buyer = segments.find(s => tag(s) === 'N1' && s[1] === 'BY');
+    if (!buyer || !buyer[4]) {
+        throw new EdiMessageError('N1*BY with the buyer identification code is required', interchange);
+    }
+
+    const notes = segments.filter(s => tag(s) === 'NTE').map(s => (s[2] ?? '').trim()).filter(Boolean);
+
+    const lines: EdiOrderLine[] = segments
+        .filter(s => tag(s) === 'PO1')
+        .map((po1, index) => {
+            const line: EdiOrderLine = {
+                lineNo: po1[1] || String(index + 1),
+                productCode: null,
+                buyerProductCode: null,
+                qty: po1[2] ? Number(po1[2]) : NaN,
+                unit: po1[3] || null,
+                unitPrice: po1[4] ? Number(po1[4]) : null
+            };
+            // PO106 onwards are qualifier / product id pairs
+            for (let i = 6; i + 1 < po1.length; i += 2) {
+                const [qualifier, code] = [po1[i], po1[i + 1]];
+                if (!code) continue;
+                if (SUPPLIER_CODE_QUALIFIERS.includes(qualifier)) {
+                    line.productCode = line.productCode ?? code;
+                } else {
+                    line.buyerProductCode = line.buyerProductCode ?? code;
+                }
+            }
+            return line;
+        });
+
+    if (lines.length === 0) {
+        throw new EdiMessageError('850 has no PO1 segments', interchange);
+    }
+    const missingQty = lines.find(l => !Number.isFinite(l.qty));
+    if (missingQty) {
+        throw new EdiMessageError(`Line ${missingQty.lineNo} has no quantity ordered`, interchange);
+    }
+    const missingCode = lines.find(l => !l.productCode && !l.buyerProductCode);
+    if (missingCode) {
+        throw new EdiMessageError(`Line ${missingCode.lineNo} has no product id`, interchange);
+    }
+
+    return {
+        format: 'X12',
+        interchange,
+        poNumber: beg[3],
+        orderDate: beg[5] || null,
+        buyerId: buyer[4],
+        notes: notes.length > 0 ? notes.join('\n') : null,
+        lines
+    };
+}
+
+/**
+ * Wrap one transaction set (ST onwards) in ISA/GS envelopes addressed back to the sender of `inbound`
+ */
+function wrapInterchange(inbound: EdiInterchange, functionalId: string, controlRef: string, now: Date, transaction: Segment[]): string {
+    const iso = now.toISOString();
+    const control = controlRef.padStart(9, '0').slice(-9);
+    const pad = (text: string | undefined, width: number) => (text ?? '').padEnd(width).slice(0, width);
+
+    const segments: Segment[] = [
+        ['ISA', '00', pad('', 10), '00', pad('', 10),
+            pad(inbound.receiverQualifier || 'ZZ', 2), pad(inbound.receiverId, 15),
+            pad(inbound.senderQualifier || 'ZZ', 2), pad(inbound.senderId, 15),
+            iso.slice(2, 10).replace(/-/g, ''), iso.slice(11, 16).replace(':', ''),
+            'U', '00401', control, '0', inbound.usage ?? 'P', '>'],
+        ['GS', functionalId, inbound.receiverId, inbound.senderId, iso.slice(0, 10).replace(/-/g, ''), iso.slice(11, 16).replace(':', ''), String(Number(control)), 'X', '004010'],
+        ...transaction,
+        ['SE', String(transaction.length + 1), transaction[0][2]],
+        ['GE', '1', String(Number(control))],
+        ['IEA', '1', control]
+    ];
+
+    return segments.map(segment => segment.join('*')).join('~\n') + '~\n';
+}
+
+/**
+ * 997 functional acknowledgment: accepts or rejects the inbound 850
+ */
+export function build997(inbound: EdiInterchange, accepted: boolean, controlRef: string, now: Date = new Date()): string {
+    return wrapInterchange(inbound, 'FA', controlRef, now, [
+        ['ST', '997', '0001'],
+        ['AK1', 'PO', inbound.groupControlRef ?? ''],
+        ['AK2', '850', inbound.messageRef],
+        accepted ? ['AK5', 'A'] : ['AK5', 'R', '5'],
+        ['AK9', accepted ? 'A' : 'R', '1', '1', accepted ? '1' : '0']
+    ]);
+}
+
+/**
+ * 855 purchase order acknowledgment with each line accepted, changed or rejected
+ */
+export function build855(order: EdiPurchaseOrder, response: EdiOrderResponse, controlRef: string, now: Date = new Date()): string {
+    const lineSegments = response.lines.flatMap(({ line, status, confirmedQty, backorderedQty, unitPrice, priceChanged }) => {
+        const unit = line.unit ?? 'EA';
+        const ids = [
+            ...(line.productCode ? ['VP', line.productCode] : []),
+            ...(line.buyerProductCode ? ['BP', line.buyerProductCode] : [])
+        ];
+        const acks: Segment[] = [];
+        if (status === 'REJECTED') {
+            acks.push(['ACK', LINE_STATUS.REJECTED, String(line.qty), unit]);
+        } else {
+            if (confirmedQty > 0) {
+                acks.push(['ACK', priceChanged ? LINE_STATUS.PRICE_CHANGED : LINE_STATUS.ACCEPTED, String(confirmedQty), unit]);
+            }
+            if (backorderedQty > 0) {
+                acks.push(['ACK', LINE_STATUS.BACKORDERED, String(backorderedQty), unit]);
+            }
+        }
+        return [
+            ['PO1', line.lineNo, String(line.qty), unit, unitPrice !== null ? unitPrice.toFixed(2) : '', '', ...ids],
+            ...acks
+        ];
+    });
+
+    return wrapInterchange(order.interchange, 'PR', controlRef, now, [
+        ['ST', '855', '0001'],
+        ['BAK', '00', ACKNOWLEDGMENT_TYPE[response.status], order.poNumber, order.orderDate ?? now.toISOString().slice(0, 10).replace(/-/g, '')],
+        ...(response.orderNo ? [['REF', 'VN', response.orderNo]] : []),
+        ...lineSegments,
+        ['CTT', String(response.lines.length)]
+    ]);
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { ErpExportService } from './ErpExportService';
+import { ErpConnector, ErpOrder } from './types';
+
+interface StoredExport {
+    id: string;
+    orderId: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+}
+
+/**
+ * One order with a single line and its ERP export; claiming hands out the export while it is PENDING
+ */
+function fakePrisma(orderStatus: string, exportStatus = 'PENDING') {
+    const order = {
+        id: 'order-1',
+        orderNo: 'ORD-000001',
+        status: orderStatus,
+        createdAt: new Date('2026-03-07T12:00:00Z'),
+        poRef: 'PO-1',
+        dispatchMethod: null,
+        notes: null,
+        currency: 'GBP',
+        subtotal: 25,
+        total: 25,
+        dealerAccount: { accountNo: 'D001', erpAccountNo: null, companyName: 'Harbour Motors' },
+        lines: [{ lineNo: 1, productCodeSnapshot: 'LR000001', descriptionSnapshot: 'Filter', qty: 2, unitPriceSnapshot: 12.5, allocatedQty: 2, backorderedQty: 0 }]
+    };
+    const erpExport: StoredExport = { id: 'export-1', orderId: order.id, status: exportStatus, attempts: 0, maxAttempts: 8, lastError: null };
+
+    const prisma = {
+        stored: erpExport,
+        $queryRaw: async () => {
+            if (erpExport.status !== 'PENDING') return [];
+            Object.assign(erpExport, { status: 'PROCESSING', attempts: erpExport.attempts + 1 });
+            return [{ id: erpExport.id, orderId: erpExport.orderId, attempts: erpExport.attempts, maxAttempts: erpExport.maxAttempts }];
+        },
+        $transaction: async (fn: (tx: any) => Promise<unknown>): Promise<unknown> => fn(prisma),
+        erpExport: {
+            findUnique: async ({ where }: any) => where.id === erpExport.id ? { ...erpExport } : null,
+            update: async ({ data }: any) => ({ ...Object.assign(erpExport, data) }),
+            updateMany: async () => ({ count: 0 })
+        },
+        orderHeader: {
+            findUniqueOrThrow: async () => ({ ...order }),
+            update: async ({ data }: any) => Object.assign(order, data)
+        }
+    };
+    return prisma;
+}
+
+function connector() {
+    const sent: ErpOrder[] = [];
+    const erp: ErpConnector = {
+        name: 'test',
+        exportOrder: async (order) => {
+            sent.push(order);
+            return { erpReference: 'ERP-1' };
+        }
+    };
+    return { erp, sent };
+}
+
+// Reservations are consumed on send; nothing to consume in these orders
+const inventoryRules = { consumeOrder: async () => 0 } as any;
+
+describe('ErpExportService.runDue', () => {
+    it('sends a suspended order with its persisted line numbers', async () => {
+        const prisma = fakePrisma('SUSPENDED');
+        const { erp, sent } = connector();
+
+        const result = await new ErpExportService(prisma as any, erp, inventoryRules, 'worker-1').runDue();
+
+        expect(result).toEqual({ sent: 1, retrying: 0, failed: 0, cancelled: 0 });
+        expect(sent[0].lines.map(line => [line.lineNo, line.productCode])).toEqual([[1, 'LR000001']]);
+        expect(prisma.stored.status).toBe('SENT');
+    });
+
+    it('cancels the export of an order that is no longer suspended without sending it', async () => {
+        const prisma = fakePrisma('CANCELLED');
+        const { erp, sent } = connector();
+
+        const result = await new ErpExportService(prisma as any, erp, inventoryRules, 'worker-1').runDue();
+
+        expect(result).toEqual({ sent: 0, retrying: 0, failed: 0, cancelled: 1 });
+        expect(sent).toHaveLength(0);
+        expect(prisma.stored).toMatchObject({ status: 'CANCELLED', lastError: 'Order is CANCELLED' });
+    });
+});
+
+describe('ErpExportService.resend', () => {
+    it('requeues a failed export of a suspended order', async () => {
+        const prisma = fakePrisma('SUSPENDED', 'FAILED');
+
+        const requeued = await new ErpExportService(prisma as any, connector().erp, inventoryRules).resend('export-1');
+
+        expect(requeued).toMatchObject({ status: 'PENDING', attempts: 0 });
+    });
+
+    it('refuses to resend the export of an order that is no longer suspended', async () => {
+        const prisma = fakePrisma('CANCELLED', 'FAILED');
+
+        await expect(new ErpExportService(prisma as any, connector().erp, inventoryRules).resend('export-1'))
+            .rejects.toThrow('Order ORD-000001 is CANCELLED; only suspended orders can be sent to the ERP');
+        expect(prisma.stored.status).toBe('FAILED');
+    });
+});
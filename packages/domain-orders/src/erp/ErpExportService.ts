@@ -0,0 +1,287 @@
+import * as os from 'os';
+import { PrismaClient, ErpExport, ErpExportStatus, OrderStatus, Prisma } from 'db';
+import { InventoryRules } from 'rules';
+import { FileDropConnector } from './FileDropConnector';
+import { HttpConnector } from './HttpConnector';
+import { ErpConnector, ErpExportError, ErpOrder } from './types';
+
+// Retry delay doubles per attempt: 30s, 60s, 120s... up to an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A PROCESSING export older than this belongs to a worker that died mid-send
+const STALE_EXPORT_MS = 5 * 60 * 1000;
+
+interface ClaimedExport {
+    id: string;
+    orderId: string;
+    attempts: number;
+    maxAttempts: number;
+}
+
+export interface ErpExportRunResult {
+    sent: number;
+    retrying: number;
+    failed: number;
+    cancelled: number;
+}
+
+export interface ErpExportListFilters {
+    status?: ErpExportStatus;
+    page?: number;
+    limit?: number;
+}
+
+export type ErpExportWithOrder = ErpExport & {
+    order: {
+        orderNo: string;
+        poRef: string | null;
+        total: Prisma.Decimal;
+        createdAt: Date;
+        erpReference: string | null;
+        dealerAccount: { accountNo: string; companyName: string };
+    };
+};
+
+/**
+ * Sends queued orders to the ERP through the configured connector. Orders are queued by OrderPipeline in
+ * the order transaction; the worker drains the outbox, retrying with backoff until maxAttempts.
+ * Once the ERP has an order its free-stock figure counts it, so the order's reservations are consumed on send.
+ */
+export class ErpExportService {
+    constructor(
+        private prisma: PrismaClient,
+        private connector: ErpConnector,
+        private inventoryRules: InventoryRules = new InventoryRules(prisma),
+        private workerId: string = `${os.hostname()}:${process.pid}`
+    ) { }
+
+    /**
+     * ERP_EXPORT_ADAPTER=file (default): ERP_EXPORT_DIR, ERP_EXPORT_FORMAT=csv|xml
+     * ERP_EXPORT_ADAPTER=http: ERP_EXPORT_URL, ERP_EXPORT_TOKEN, ERP_EXPORT_TIMEOUT_MS
+     */
+    static connectorFromEnv(env: NodeJS.ProcessEnv = process.env): ErpConnector {
+        const adapter = (env.ERP_EXPORT_ADAPTER || 'file').toLowerCase();
+
+        if (adapter === 'http') {
+            if (!env.ERP_EXPORT_URL) {
+                throw new Error('ERP_EXPORT_URL is required for the http ERP export adapter');
+            }
+            return new HttpConnector({
+                url: env.ERP_EXPORT_URL,
+                token: env.ERP_EXPORT_TOKEN,
+                timeoutMs: parseInt(env.ERP_EXPORT_TIMEOUT_MS || '15000', 10)
+            });
+        }
+        if (adapter === 'file') {
+            return new FileDropConnector({
+                directory: env.ERP_EXPORT_DIR || './erp-outbox',
+                format: env.ERP_EXPORT_FORMAT?.toLowerCase() === 'xml' ? 'xml' : 'csv'
+            });
+        }
+        throw new Error(`Unknown ERP_EXPORT_ADAPTER ${env.ERP_EXPORT_ADAPTER}`);
+    }
+
+    static retryDelayMs(attempt: number): number {
+        return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+    }
+
+    /**
+     * Send everything that is due, up to `limit` exports
+     */
+    async runDue(limit: number = 50): Promise<ErpExportRunResult> {
+        const result: ErpExportRunResult = { sent: 0, retrying: 0, failed: 0, cancelled: 0 };
+        await this.recoverStale();
+
+        for (let i = 0; i < limit; i++) {
+            const claimed = await this.claimNext();
+            if (!claimed) break;
+            result[await this.send(claimed)]++;
+        }
+
+        return result;
+    }
+
+    async list(filters: ErpExportListFilters = {}): Promise<{ exports: ErpExportWithOrder[]; total: number }> {
+        const { status, page = 1, limit = 50 } = filters;
+        const where = status ? { status } : {};
+
+        const [exports, total] = await Promise.all([
+            this.prisma.erpExport.findMany({
+                where,
+                include: {
+                    order: {
+                        select: {
+                            orderNo: true,
+                            poRef: true,
+                            total: true,
+                            createdAt: true,
+                            erpReference: true,
+                            dealerAccount: { select: { accountNo: true, companyName: true } }
+                        }
+                    }
+                },
+                orderBy: { updatedAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit
+            }),
+            this.prisma.erpExport.count({ where })
+        ]);
+
+        return { exports, total };
+    }
+
+    /**
+     * Put a failed export back in the queue with a fresh set of attempts
+     */
+    async resend(id: string): Promise<ErpExport> {
+        const existing = await this.prisma.erpExport.findUnique({ where: { id } });
+        if (!existing) {
+            throw new Error('Export not found');
+        }
+        if (existing.status !== ErpExportStatus.FAILED) {
+            throw new Error(`Only failed exports can be resent (this one is ${existing.status})`);
+        }
+
+        const order = await this.prisma.orderHeader.findUniqueOrThrow({ where: { id: existing.orderId } });
+        if (order.status !== OrderStatus.SUSPENDED) {
+            throw new Error(`Order ${order.orderNo} is ${order.status}; only suspended orders can be sent to the ERP`);
+        }
+
+        return this.prisma.erpExport.update({
+            where: { id },
+            data: { status: ErpExportStatus.PENDING, attempts: 0, nextAttemptAt: new Date() }
+        });
+    }
+
+    /**
+     * FOR UPDATE SKIP LOCKED lets several workers drain the outbox safely
+     */
+    private async claimNext(): Promise<ClaimedExport | null> {
+        const rows = await this.prisma.$queryRaw<ClaimedExport[]>`
+            UPDATE "ErpExport"
+            SET "status" = 'PROCESSING',
+                "attempts" = "attempts" + 1,
+                "lockedBy" = ${this.workerId},
+                "lockedAt" = NOW(),
+                "updatedAt" = NOW()
+            WHERE "id" = (
+                SELECT "id" FROM "ErpExport"
+                WHERE "status" = 'PENDING' AND "nextAttemptAt" <= NOW()
+                ORDER BY "nextAttemptAt" ASC
+                FOR UPDATE SKIP LOCKED
+                LIMIT 1
+            )
+            RETURNING "id", "orderId", "attempts", "maxAttempts"
+        `;
+        return rows[0] ?? null;
+    }
+
+    private async recoverStale(): Promise<void> {
+        await this.prisma.erpExport.updateMany({
+            where: {
+                status: ErpExportStatus.PROCESSING,
+                lockedAt: { lt: new Date(Date.now() - STALE_EXPORT_MS) }
+            },
+            data: { status: ErpExportStatus.PENDING, lockedBy: null, lockedAt: null, nextAttemptAt: new Date() }
+        });
+    }
+
+    private async send(claimed: ClaimedExport): Promise<keyof ErpExportRunResult> {
+        try {
+            // Only orders waiting on the ERP go out; one cancelled or rejected meanwhile is dropped from the outbox
+            const { status } = await this.prisma.orderHeader.findUniqueOrThrow({
+                where: { id: claimed.orderId },
+                select: { status: true }
+            });
+            if (status !== OrderStatus.SUSPENDED) {
+                await this.prisma.erpExport.update({
+                    where: { id: claimed.id },
+                    data: { status: ErpExportStatus.CANCELLED, lastError: `Order is ${status}`, lockedBy: null, lockedAt: null }
+                });
+                console.log(`🚫 [ERP Export] Order ${claimed.orderId} is ${status}, export cancelled`);
+                return 'cancelled';
+            }
+
+            const order = await this.loadOrder(claimed.orderId);
+            const result = await this.connector.exportOrder(order);
+            const now = new Date();
+
+            await this.prisma.$transaction(async (tx) => {
+                await tx.erpExport.update({
+                    where: { id: claimed.id },
+                    data: {
+                        status: ErpExportStatus.SENT,
+                        sentAt: now,
+                        adapter: this.connector.name,
+                        lastError: null,
+                        lockedBy: null,
+                        lockedAt: null
+                    }
+                });
+                await tx.orderHeader.update({
+                    where: { id: claimed.orderId },
+                    data: {
+                        erpExportedAt: now,
+                        ...(result.erpReference && { erpReference: result.erpReference })
+                    }
+                });
+
+                // Product imports would otherwise take the order off the ERP's free stock a second time
+                await this.inventoryRules.consumeOrder(tx, claimed.orderId);
+            });
+
+            console.log(`📤 [ERP Export] ${order.orderNo} sent via ${this.connector.name}${result.erpReference ? ` as ${result.erpReference}` : ''}`);
+            return 'sent';
+        } catch (error: any) {
+            const retryable = !(error instanceof ErpExportError) || error.retryable;
+            const exhausted = !retryable || claimed.attempts >= claimed.maxAttempts;
+
+            await this.prisma.erpExport.update({
+                where: { id: claimed.id },
+                data: {
+                    status: exhausted ? ErpExportStatus.FAILED : ErpExportStatus.PENDING,
+                    nextAttemptAt: new Date(Date.now() + ErpExportService.retryDelayMs(claimed.attempts)),
+                    adapter: this.connector.name,
+                    lastError: error.message,
+                    lockedBy: null,
+                    lockedAt: null
+                }
+            });
+
+            console.error(`❌ [ERP Export] Attempt ${claimed.attempts} for order ${claimed.orderId} failed: ${error.message}`);
+            return exhausted ? 'failed' : 'retrying';
+        }
+    }
+
+    private async loadOrder(orderId: string): Promise<ErpOrder> {
+        const order = await this.prisma.orderHeader.findUniqueOrThrow({
+            where: { id: orderId },
+            include: {
+                dealerAccount: { select: { accountNo: true, erpAccountNo: true, companyName: true } },
+                lines: { orderBy: { lineNo: 'asc' } }
+            }
+        });
+
+        return {
+            orderNo: order.orderNo,
+            orderDate: order.createdAt,
+            account: order.dealerAccount,
+            poRef: order.poRef,
+            dispatchMethod: order.dispatchMethod,
+            notes: order.notes,
+            currency: order.currency,
+            subtotal: Number(order.subtotal),
+            total: Number(order.total),
+            lines: order.lines.map(line => ({
+                lineNo: line.lineNo,
+                productCode: line.productCodeSnapshot,
+                description: line.descriptionSnapshot,
+                qty: line.qty,
+                unitPrice: Number(line.unitPriceSnapshot),
+                allocatedQty: line.allocatedQty,
+                backorderedQty: line.backorderedQty
+            }))
+        };
+    }
+}
@@ -0,0 +1,36 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ErpFileFormat, toCsv, toXml } from './formats';
+import { ErpConnector, ErpExportError, ErpExportResult, ErpOrder } from './types';
+
+export interface FileDropOptions {
+    directory: string;
+    format: ErpFileFormat;
+}
+
+/**
+ * Writes one file per order (ORD-000123.csv) into a directory the ERP polls. The file is written under
+ * a dot-prefixed temporary name and renamed, so the ERP never picks up half a file. A resend overwrites it.
+ */
+export class FileDropConnector implements ErpConnector {
+    readonly name = 'FILE';
+
+    constructor(private options: FileDropOptions) { }
+
+    async exportOrder(order: ErpOrder): Promise<ErpExportResult> {
+        const fileName = `${order.orderNo}.${this.options.format}`;
+        const target = path.join(this.options.directory, fileName);
+        const temporary = path.join(this.options.directory, `.${fileName}.tmp`);
+
+        try {
+            await fs.mkdir(this.options.directory, { recursive: true });
+            await fs.writeFile(temporary, this.options.format === 'xml' ? toXml(order) : toCsv(order), 'utf-8');
+            await fs.rename(temporary, target);
+        } catch (error: any) {
+            // Usually a full disk or an unmounted share, both worth retrying
+            throw new ErpExportError(`Could not write ${target}: ${error.message}`);
+        }
+
+        return { erpReference: null, detail: target };
+    }
+}
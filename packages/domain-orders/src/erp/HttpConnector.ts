@@ -0,0 +1,54 @@
+import { ErpConnector, ErpExportError, ErpExportResult, ErpOrder } from './types';
+
+export interface HttpConnectorOptions {
+    url: string;
+    token?: string;
+    timeoutMs: number;
+}
+
+// Client errors still worth another attempt (timeout, rate limited); every 5xx is retried too
+const RETRYABLE_STATUSES = [408, 429];
+
+/**
+ * POSTs the order as JSON and expects { erpReference } (or { reference }) back.
+ * The order number is sent as the Idempotency-Key so a retried export cannot create a second ERP order.
+ */
+export class HttpConnector implements ErpConnector {
+    readonly name = 'HTTP';
+
+    constructor(private options: HttpConnectorOptions) { }
+
+    async exportOrder(order: ErpOrder): Promise<ErpExportResult> {
+        let response: Response;
+        try {
+            response = await fetch(this.options.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Idempotency-Key': order.orderNo,
+                    ...(this.options.token && { Authorization: `Bearer ${this.options.token}` })
+                },
+                body: JSON.stringify(order),
+                signal: AbortSignal.timeout(this.options.timeoutMs)
+            });
+        } catch (error: any) {
+            throw new ErpExportError(`ERP unreachable: ${error.message}`);
+        }
+
+        const text = await response.text();
+        if (!response.ok) {
+            const retryable = response.status >= 500 || RETRYABLE_STATUSES.includes(response.status);
+            throw new ErpExportError(`ERP responded ${response.status}: ${text.slice(0, 500)}`, retryable);
+        }
+
+        let body: any = {};
+        try {
+            body = text ? JSON.parse(text) : {};
+        } catch {
+            // Accepted but not JSON: no reference to record
+        }
+
+        const erpReference = body.erpReference ?? body.reference ?? null;
+        return { erpReference: erpReference === null ? null : String(erpReference) };
+    }
+}
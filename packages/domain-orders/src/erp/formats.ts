@@ -0,0 +1,77 @@
+import { ErpOrder } from './types';
+
+export type ErpFileFormat = 'csv' | 'xml';
+
+const CSV_COLUMNS = [
+    'Order No', 'Order Date', 'Account No', 'ERP Account No', 'PO Ref', 'Dispatch Method',
+    'Line No', 'Part', 'Description', 'Qty', 'Unit Price', 'Allocated Qty', 'Backordered Qty', 'Currency', 'Notes'
+];
+
+function csvField(value: string | number | null): string {
+    const text = value === null ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per order line with the header repeated, in the layout of our other CSV feeds
+ */
+export function toCsv(order: ErpOrder): string {
+    const rows = order.lines.map(line => [
+        order.orderNo,
+        order.orderDate.toISOString().slice(0, 10),
+        order.account.accountNo,
+        order.account.erpAccountNo,
+        order.poRef,
+        order.dispatchMethod,
+        line.lineNo,
+        line.productCode,
+        line.description,
+        line.qty,
+        line.unitPrice.toFixed(2),
+        line.allocatedQty,
+        line.backorderedQty,
+        order.currency,
+        order.notes
+    ]);
+
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function xmlText(value: string | number | null): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+export function toXml(order: ErpOrder): string {
+    const element = (name: string, value: string | number | null, indent: string) =>
+        value === null || value === '' ? '' : `${indent}<${name}>${xmlText(value)}</${name}>\n`;
+
+    const lines = order.lines.map(line =>
+        `    <Line number="${line.lineNo}">\n` +
+        element('Part', line.productCode, '      ') +
+        element('Description', line.description, '      ') +
+        element('Qty', line.qty, '      ') +
+        element('UnitPrice', line.unitPrice.toFixed(2), '      ') +
+        element('AllocatedQty', line.allocatedQty, '      ') +
+        element('BackorderedQty', line.backorderedQty, '      ') +
+        '    </Line>\n'
+    ).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<Order>\n' +
+        element('OrderNo', order.orderNo, '  ') +
+        element('OrderDate', order.orderDate.toISOString().slice(0, 10), '  ') +
+        element('AccountNo', order.account.accountNo, '  ') +
+        element('ErpAccountNo', order.account.erpAccountNo, '  ') +
+        element('CompanyName', order.account.companyName, '  ') +
+        element('PoRef', order.poRef, '  ') +
+        element('DispatchMethod', order.dispatchMethod, '  ') +
+        element('Notes', order.notes, '  ') +
+        element('Currency', order.currency, '  ') +
+        element('Total', order.total.toFixed(2), '  ') +
+        '  <Lines>\n' + lines + '  </Lines>\n' +
+        '</Order>\n';
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './formats';
+export * from './FileDropConnector';
+export * from './HttpConnector';
+export * from './ErpExportService';
@@ -0,0 +1,50 @@
+/**
+ * An order as handed to the ERP, independent of the adapter's wire format
+ */
+export interface ErpOrder {
+    orderNo: string;
+    orderDate: Date;
+    account: {
+        accountNo: string;
+        erpAccountNo: string | null;
+        companyName: string;
+    };
+    poRef: string | null;
+    dispatchMethod: string | null;
+    notes: string | null;
+    currency: string;
+    subtotal: number;
+    total: number;
+    lines: ErpOrderLine[];
+}
+
+export interface ErpOrderLine {
+    lineNo: number;
+    productCode: string;
+    description: string;
+    qty: number;
+    unitPrice: number;
+    allocatedQty: number;
+    backorderedQty: number;
+}
+
+export interface ErpExportResult {
+    erpReference: string | null; // Null when the ERP only reports its reference later (file drop)
+    detail?: string; // e.g. the file written
+}
+
+export interface ErpConnector {
+    readonly name: string; // Recorded on ErpExport.adapter
+    exportOrder(order: ErpOrder): Promise<ErpExportResult>;
+}
+
+/**
+ * An export attempt failed. Retryable failures are tried again with backoff; anything else
+ * (the ERP rejected the order) fails the export straight away.
+ */
+export class ErpExportError extends Error {
+    constructor(message: string, public retryable: boolean = true) {
+        super(message);
+        this.name = 'ErpExportError';
+    }
+}
@@ -1 +1,6 @@
+export * from './OrderPipeline';
 export * from './OrderService';
+export * from './IdempotencyService';
+export * from './edi';
+export * from './erp';
+export { BusinessRuleError, OrderValidationError, EntitlementError, PricingRuleError } from 'rules';
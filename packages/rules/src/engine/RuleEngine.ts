@@ -1,18 +1,24 @@
 // packages/rules/src/engine/RuleEngine.ts
 import { PrismaClient } from '@prisma/client'
 import { PricingRules } from '../rules/PricingRules'
+import { InventoryRules } from '../rules/InventoryRules'
 import { OrderRules } from '../rules/OrderRules'
 import { EntitlementRules } from '../rules/EntitlementRules'
+import { SupersessionRules } from '../rules/SupersessionRules'
 
 export class RuleEngine {
     public pricing: PricingRules
+    public inventory: InventoryRules
     public orders: OrderRules
     public entitlements: typeof EntitlementRules
+    public supersessions: SupersessionRules
 
     constructor(private prisma: PrismaClient) {
         this.pricing = new PricingRules(prisma)
+        this.inventory = new InventoryRules(prisma)
         this.orders = new OrderRules(prisma)
         this.entitlements = EntitlementRules
+        this.supersessions = new SupersessionRules(prisma)
     }
 
     /**
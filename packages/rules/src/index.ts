@@ -2,6 +2,10 @@
 export * from './types'
 export * from './errors'
 export * from './rules/PricingRules'
+export * from './rules/InventoryRules'
 export * from './rules/OrderRules'
 export * from './rules/EntitlementRules'
+export * from './rules/SupersessionRules'
+export * from './rules/ColumnMappingRules'
+export * from './rules/BackorderRules'
 export * from './engine/RuleEngine'
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { BackorderRules } from './BackorderRules';
+import { BackorderLineSnapshot } from '../types';
+
+const line = (ourNo: string, part: string, qtyOutstanding: number, inWh = 0, itemNo = '1'): BackorderLineSnapshot => ({
+    accountNo: 'D001',
+    ourNo,
+    itemNo,
+    part,
+    qtyOrdered: 10,
+    qtyOutstanding,
+    inWh
+});
+
+describe('BackorderRules.lineKey', () => {
+    it('ignores case and surrounding whitespace', () => {
+        expect(BackorderRules.lineKey({ ...line('so123', ' lr000001 ', 5), accountNo: 'd001' }))
+            .toBe(BackorderRules.lineKey(line('SO123', 'LR000001', 5)));
+    });
+});
+
+describe('BackorderRules.diff', () => {
+    it('marks a line missing from the previous dataset as new', () => {
+        const [result] = BackorderRules.diff([], [line('SO1', 'A', 4)]);
+
+        expect(result.previous).toBeNull();
+        expect(result.changed).toBe(true);
+        expect(result.outstandingDelta).toBe(4);
+    });
+
+    it('reports a line missing from the current dataset as cleared', () => {
+        const [result] = BackorderRules.diff([line('SO1', 'A', 4)], []);
+
+        expect(result.current).toBeNull();
+        expect(result.changed).toBe(true);
+        expect(result.outstandingDelta).toBe(-4);
+    });
+
+    it('leaves identical lines unchanged', () => {
+        const [result] = BackorderRules.diff([line('SO1', 'A', 4, 1)], [line('SO1', 'A', 4, 1)]);
+
+        expect(result.changed).toBe(false);
+        expect(result.outstandingDelta).toBe(0);
+        expect(result.inWhDelta).toBe(0);
+    });
+
+    it('reports outstanding and in-warehouse movements', () => {
+        const [result] = BackorderRules.diff([line('SO1', 'A', 4, 0)], [line('SO1', 'A', 3, 2)]);
+
+        expect(result.changed).toBe(true);
+        expect(result.outstandingDelta).toBe(-1);
+        expect(result.inWhDelta).toBe(2);
+    });
+
+    it('pairs repeated lines by occurrence', () => {
+        const results = BackorderRules.diff(
+            [line('SO1', 'A', 4), line('SO1', 'A', 2)],
+            [line('SO1', 'A', 4), line('SO1', 'A', 1)]
+        );
+
+        expect(results).toHaveLength(2);
+        expect(results.map(r => r.changed)).toEqual([false, true]);
+    });
+
+    it('lists current lines first, then cleared lines', () => {
+        const results = BackorderRules.diff(
+            [line('SO1', 'A', 4), line('SO2', 'B', 1)],
+            [line('SO3', 'C', 2), line('SO1', 'A', 4)]
+        );
+
+        expect(results.map(r => (r.current ?? r.previous)!.ourNo)).toEqual(['SO3', 'SO1', 'SO2']);
+    });
+});
@@ -0,0 +1,71 @@
+// packages/rules/src/rules/BackorderRules.ts
+import { BackorderLineDiff, BackorderLineSnapshot } from '../types'
+
+export class BackorderRules {
+    /**
+     * Identity of a backorder line across imports: account, our order number, item and part.
+     * The report has no line id, so a line repeated within one dataset gets an occurrence suffix.
+     */
+    static lineKey(line: BackorderLineSnapshot): string {
+        return [line.accountNo, line.ourNo, line.itemNo, line.part]
+            .map(value => (value ?? '').trim().toUpperCase())
+            .join('|')
+    }
+
+    /**
+     * Compare two datasets line by line
+     * BUSINESS RULES:
+     * 1. A line only in the current dataset is newly backordered
+     * 2. A line only in the previous dataset has cleared (shipped or cancelled)
+     * 3. A line in both is changed when any quantity differs
+     *
+     * Results follow the current dataset's order, then cleared lines in the previous dataset's order.
+     */
+    static diff<T extends BackorderLineSnapshot>(previous: T[], current: T[]): BackorderLineDiff<T>[] {
+        const previousByKey = BackorderRules.keyed(previous)
+        const currentByKey = BackorderRules.keyed(current)
+        const results: BackorderLineDiff<T>[] = []
+
+        for (const [key, line] of currentByKey) {
+            results.push(BackorderRules.compare(key, previousByKey.get(key) ?? null, line))
+        }
+        for (const [key, line] of previousByKey) {
+            if (!currentByKey.has(key)) {
+                results.push(BackorderRules.compare(key, line, null))
+            }
+        }
+
+        return results
+    }
+
+    static compare<T extends BackorderLineSnapshot>(key: string, previous: T | null, current: T | null): BackorderLineDiff<T> {
+        const outstandingDelta = (current?.qtyOutstanding ?? 0) - (previous?.qtyOutstanding ?? 0)
+        const inWhDelta = (current?.inWh ?? 0) - (previous?.inWh ?? 0)
+
+        return {
+            key,
+            current,
+            previous,
+            outstandingDelta,
+            inWhDelta,
+            changed: !previous || !current ||
+                outstandingDelta !== 0 ||
+                inWhDelta !== 0 ||
+                previous.qtyOrdered !== current.qtyOrdered,
+        }
+    }
+
+    private static keyed<T extends BackorderLineSnapshot>(lines: T[]): Map<string, T> {
+        const byKey = new Map<string, T>()
+        const occurrences = new Map<string, number>()
+
+        for (const line of lines) {
+            const base = BackorderRules.lineKey(line)
+            const occurrence = (occurrences.get(base) ?? 0) + 1
+            occurrences.set(base, occurrence)
+            byKey.set(occurrence === 1 ? base : `${base}#${occurrence}`, line)
+        }
+
+        return byKey
+    }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnMappingRules, ColumnMappingError } from './ColumnMappingRules';
+
+const productHeaders = ['Supplier', 'Product Code', 'Full Description', 'Free Stock', 'Trade Price', 'Band 1'];
+
+describe('ColumnMappingRules', () => {
+    it('resolves the built-in headers when no template is configured', () => {
+        const rules = ColumnMappingRules.forTemplate('PRODUCTS');
+        const columns = rules.resolveColumns(productHeaders);
+
+        const description = columns.find(c => c.field === 'description')!;
+        expect(description.index).toBe(2);
+        expect(description.header).toBe('Full Description');
+        expect(description.source).toBe('HEADER');
+        expect(columns.find(c => c.field === 'band2Price')!.source).toBe('UNMAPPED');
+        expect(rules.missingRequired(columns)).toEqual([]);
+    });
+
+    it('matches template aliases ignoring case and whitespace', () => {
+        const rules = ColumnMappingRules.forTemplate('PRODUCTS', {
+            mappingJson: { fields: { productCode: { aliases: ['part  number'] }, description: { header: 'Item Desc' } } }
+        });
+        const columns = rules.resolveColumns([' Part Number ', 'ITEM DESC', 'Band 1']);
+
+        expect(columns.find(c => c.field === 'productCode')!.index).toBe(0);
+        expect(columns.find(c => c.field === 'description')!.index).toBe(1);
+    });
+
+    it('falls back to the column index when no header matches', () => {
+        const rules = ColumnMappingRules.forTemplate('BACKORDERS', {
+            mappingJson: { fields: { accountNo: { column: 1 }, ourNo: { column: 3 }, part: { column: 4 } } }
+        });
+
+        const withHeaders = rules.resolveColumns(['Cust', 'Name', 'Ref', 'Item']);
+        expect(withHeaders.find(c => c.field === 'ourNo')).toMatchObject({ index: 2, header: 'Ref', source: 'INDEX' });
+
+        const noHeaders = rules.resolveColumns(null);
+        expect(noHeaders.find(c => c.field === 'part')).toMatchObject({ index: 3, header: null, source: 'INDEX' });
+    });
+
+    it('reports required fields that cannot be resolved', () => {
+        const rules = ColumnMappingRules.forTemplate('PRODUCTS');
+        const columns = rules.resolveColumns(['Band 1', 'Band 2']);
+
+        expect(rules.missingRequired(columns)).toEqual(['Product Code', 'Description']);
+    });
+
+    it('applies transforms before converting numbers', () => {
+        const rules = ColumnMappingRules.forTemplate('PRODUCTS', {
+            mappingJson: {
+                fields: {
+                    productCode: { transforms: ['removeSpaces', 'uppercase'] },
+                    tradePrice: { transforms: ['currency'] }
+                }
+            }
+        });
+        const columns = rules.resolveColumns(['Product Code', 'Description', 'Trade Price', 'Free Stock']);
+        const result = rules.mapRow(['lr 001 381', ' Wheel nut ', '£1,234.50', 12.7], columns);
+
+        expect(result.errors).toEqual([]);
+        expect(result.values).toMatchObject({
+            productCode: 'LR001381',
+            description: 'Wheel nut',
+            tradePrice: 1234.5,
+            freeStock: 12,
+            band1Price: null
+        });
+    });
+
+    it('uses default values for blank cells', () => {
+        const rules = ColumnMappingRules.forTemplate('BACKORDERS', {
+            mappingJson: { fields: { customerName: { defaultValue: 'Unknown' } } }
+        });
+        const columns = rules.resolveColumns(['Account No', 'Our No', 'Part', 'Customer Name']);
+        const result = rules.mapRow(['1000006', '9982', 'FRC3988E', ''], columns);
+
+        expect(result.errors).toEqual([]);
+        expect(result.values.customerName).toBe('Unknown');
+        expect(result.values.qtyOrdered).toBe(0);
+    });
+
+    it('combines built-in and template validation rules', () => {
+        const rules = ColumnMappingRules.forTemplate('PRODUCTS', {
+            validationJson: {
+                fields: {
+                    supplier: { required: true },
+                    band1Price: { min: 1, max: 500 },
+                    productCode: { pattern: '^[A-Z0-9]+$' }
+                }
+            }
+        });
+        const columns = rules.resolveColumns(['Supplier', 'Product Code', 'Description', 'Band 1', 'Free Stock']);
+
+        expect(rules.mapRow(['', 'lr-1', 'Nut', 0.5, -1], columns).errors).toEqual([
+            'Supplier is required',
+            'Product Code does not match the expected format',
+            'Band 1 must be at least 1',
+            'Free Stock cannot be negative'
+        ]);
+        expect(rules.mapRow(['JAM', 'LR1', 'Nut', 900, 'lots'], columns).errors).toEqual([
+            'Band 1 must be at most 500',
+            'Free Stock must be a number'
+        ]);
+    });
+
+    it('rejects malformed templates', () => {
+        expect(() => ColumnMappingRules.forTemplate('PRODUCTS', { mappingJson: { fields: { productCode: { column: 0 } } } }))
+            .toThrow(ColumnMappingError);
+        expect(() => ColumnMappingRules.forTemplate('PRODUCTS', { mappingJson: { fields: { colour: { header: 'Colour' } } } }))
+            .toThrow('Unknown field "colour"');
+        expect(() => ColumnMappingRules.forTemplate('PRODUCTS', { validationJson: { fields: { band1Price: { min: 5, max: 1 } } } }))
+            .toThrow('greater than its maximum');
+        expect(() => ColumnMappingRules.forTemplate('STOCK')).toThrow('not supported');
+    });
+});
@@ -0,0 +1,316 @@
+// packages/rules/src/rules/ColumnMappingRules.ts
+import { z } from 'zod'
+import { BusinessRuleError } from '../errors'
+import {
+    ColumnFieldMapping,
+    ColumnFieldValidation,
+    ColumnMapping,
+    ColumnValidation,
+    ImportFieldDefinition,
+    MappedRow,
+    ResolvedColumn,
+} from '../types'
+
+export const COLUMN_TRANSFORMS = ['uppercase', 'lowercase', 'removeSpaces', 'currency'] as const
+
+// Built-in headers are the ones the importers accepted before templates were configurable
+export const PRODUCT_IMPORT_FIELDS: ImportFieldDefinition[] = [
+    { field: 'supplier', label: 'Supplier', type: 'string', aliases: ['Supplier'] },
+    { field: 'productCode', label: 'Product Code', type: 'string', aliases: ['Product Code'], required: true },
+    { field: 'description', label: 'Description', type: 'string', aliases: ['Description', 'Full Description'], required: true },
+    { field: 'discountCode', label: 'Discount Code', type: 'string', aliases: ['Discount Code'] },
+    { field: 'costPrice', label: 'Cost Price', type: 'number', aliases: ['Cost Price'], min: 0 },
+    { field: 'retailPrice', label: 'Retail Price', type: 'number', aliases: ['Retail Price'], min: 0 },
+    { field: 'tradePrice', label: 'Trade Price', type: 'number', aliases: ['Trade Price'], min: 0 },
+    { field: 'listPrice', label: 'List Price', type: 'number', aliases: ['List Price'], min: 0 },
+    { field: 'band1Price', label: 'Band 1', type: 'number', aliases: ['Band 1'], min: 0 },
+    { field: 'band2Price', label: 'Band 2', type: 'number', aliases: ['Band 2'], min: 0 },
+    { field: 'band3Price', label: 'Band 3', type: 'number', aliases: ['Band 3'], min: 0 },
+    { field: 'band4Price', label: 'Band 4', type: 'number', aliases: ['Band 4'], min: 0 },
+    { field: 'freeStock', label: 'Free Stock', type: 'integer', aliases: ['Free Stock'], min: 0 },
+]
+
+export const BACKORDER_IMPORT_FIELDS: ImportFieldDefinition[] = [
+    { field: 'accountNo', label: 'Account No', type: 'string', aliases: ['Account No', 'Account'], required: true },
+    { field: 'customerName', label: 'Customer Name', type: 'string', aliases: ['Customer Name'] },
+    { field: 'yourOrderNo', label: 'Your Order No', type: 'string', aliases: ['Your Order No'] },
+    { field: 'ourNo', label: 'Our No', type: 'string', aliases: ['Our No', 'Order No'], required: true },
+    { field: 'itemNo', label: 'Item No', type: 'string', aliases: ['Itm', 'Item No'] },
+    { field: 'part', label: 'Part', type: 'string', aliases: ['Part', 'Part No'], required: true },
+    { field: 'description', label: 'Description', type: 'string', aliases: ['Descriptio', 'Description'] },
+    { field: 'qtyOrdered', label: 'Qty Ordered', type: 'integer', aliases: ['Q Ord', 'Qty Ordered'], min: 0, defaultValue: 0 },
+    { field: 'qtyOutstanding', label: 'Qty Outstanding', type: 'integer', aliases: ['Q/O', 'Qty Outstanding'], min: 0, defaultValue: 0 },
+    { field: 'inWh', label: 'In WH', type: 'integer', aliases: ['In WH', 'In Wh'], defaultValue: 0 },
+]
+
+// Dates and the waive flag are read as text and parsed by the importer
+export const DEALER_PRICE_IMPORT_FIELDS: ImportFieldDefinition[] = [
+    { field: 'accountNo', label: 'Account No', type: 'string', aliases: ['Account No', 'Account'], required: true },
+    { field: 'productCode', label: 'Product Code', type: 'string', aliases: ['Product Code', 'Part', 'Part No'], required: true },
+    { field: 'netPrice', label: 'Net Price', type: 'number', aliases: ['Net Price', 'Price'], required: true, min: 0 },
+    { field: 'validFrom', label: 'Valid From', type: 'string', aliases: ['Valid From', 'Start Date'] },
+    { field: 'validTo', label: 'Valid To', type: 'string', aliases: ['Valid To', 'End Date'] },
+    { field: 'waiveMinimumPrice', label: 'Waive Minimum', type: 'string', aliases: ['Waive Minimum', 'Waive Min Price'] },
+    { field: 'note', label: 'Note', type: 'string', aliases: ['Note', 'Notes'] },
+]
+
+// Keyed by UploadTemplate.importType
+export const IMPORT_FIELD_SETS: Record<string, ImportFieldDefinition[]> = {
+    PRODUCTS: PRODUCT_IMPORT_FIELDS,
+    BACKORDERS: BACKORDER_IMPORT_FIELDS,
+    DEALER_PRICES: DEALER_PRICE_IMPORT_FIELDS,
+}
+
+const ColumnMappingSchema = z.object({
+    fields: z.record(z.string(), z.object({
+        header: z.string().min(1).optional(),
+        aliases: z.array(z.string().min(1)).optional(),
+        column: z.number().int().min(1).optional(),
+        transforms: z.array(z.enum(COLUMN_TRANSFORMS)).optional(),
+        defaultValue: z.union([z.string(), z.number()]).optional(),
+    })),
+})
+
+const ColumnValidationSchema = z.object({
+    fields: z.record(z.string(), z.object({
+        required: z.boolean().optional(),
+        min: z.number().optional(),
+        max: z.number().optional(),
+        pattern: z.string().min(1).optional(),
+    })),
+})
+
+export class ColumnMappingError extends BusinessRuleError {
+    constructor(message: string, field?: string) {
+        super(message, 'COLUMN_MAPPING_ERROR', field)
+        this.name = 'ColumnMappingError'
+    }
+}
+
+export class ColumnMappingRules {
+    private mapping: ColumnMapping
+    private validation: ColumnValidation
+
+    constructor(
+        public readonly fields: ImportFieldDefinition[],
+        mapping?: ColumnMapping | null,
+        validation?: ColumnValidation | null
+    ) {
+        this.mapping = mapping ?? { fields: {} }
+        this.validation = validation ?? { fields: {} }
+
+        const known = new Set(fields.map(f => f.field))
+        for (const field of [...Object.keys(this.mapping.fields), ...Object.keys(this.validation.fields)]) {
+            if (!known.has(field)) {
+                throw new ColumnMappingError(`Unknown field "${field}"`, field)
+            }
+        }
+        for (const [field, rule] of Object.entries(this.validation.fields)) {
+            if (rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) {
+                throw new ColumnMappingError(`Minimum for "${field}" is greater than its maximum`, field)
+            }
+            if (rule.pattern !== undefined) {
+                try {
+                    new RegExp(rule.pattern)
+                } catch {
+                    throw new ColumnMappingError(`Pattern for "${field}" is not a valid regular expression`, field)
+                }
+            }
+        }
+    }
+
+    /**
+     * Build the rules for an UploadTemplate, or the built-in defaults when no template is used
+     */
+    static forTemplate(
+        importType: string,
+        template?: { mappingJson?: unknown; validationJson?: unknown } | null
+    ): ColumnMappingRules {
+        const fields = IMPORT_FIELD_SETS[importType]
+        if (!fields) {
+            throw new ColumnMappingError(`Column mapping is not supported for ${importType} templates`)
+        }
+
+        return new ColumnMappingRules(
+            fields,
+            ColumnMappingRules.parseMapping(template?.mappingJson),
+            ColumnMappingRules.parseValidation(template?.validationJson)
+        )
+    }
+
+    static parseMapping(json: unknown): ColumnMapping {
+        if (json === null || json === undefined) return { fields: {} }
+
+        const parsed = ColumnMappingSchema.safeParse(json)
+        if (!parsed.success) {
+            throw new ColumnMappingError(`Invalid column mapping: ${ColumnMappingRules.describeIssues(parsed.error)}`)
+        }
+        return parsed.data
+    }
+
+    static parseValidation(json: unknown): ColumnValidation {
+        if (json === null || json === undefined) return { fields: {} }
+
+        const parsed = ColumnValidationSchema.safeParse(json)
+        if (!parsed.success) {
+            throw new ColumnMappingError(`Invalid validation rules: ${ColumnMappingRules.describeIssues(parsed.error)}`)
+        }
+        return parsed.data
+    }
+
+    /**
+     * Work out which column each field is read from
+     * BUSINESS RULES:
+     * 1. Headers are matched ignoring case and surrounding/repeated whitespace
+     * 2. The template header and aliases are tried before the built-in aliases
+     * 3. When no header matches (or the file has no header row), the template's 1-based column index is used
+     * 4. Fields that resolve to neither stay UNMAPPED and fall back to their default value
+     */
+    resolveColumns(headers: unknown[] | null): ResolvedColumn[] {
+        const positions = new Map<string, number>()
+        headers?.forEach((header, index) => {
+            const key = ColumnMappingRules.normalizeHeader(header)
+            if (key && !positions.has(key)) positions.set(key, index)
+        })
+
+        return this.fields.map(definition => {
+            const mapping = this.mappingFor(definition.field)
+            const candidates = [
+                ...(mapping.header ? [mapping.header] : []),
+                ...(mapping.aliases ?? []),
+                ...definition.aliases,
+            ]
+
+            for (const candidate of candidates) {
+                const index = positions.get(ColumnMappingRules.normalizeHeader(candidate))
+                if (index !== undefined) {
+                    return { field: definition.field, label: definition.label, index, header: String(headers![index]).trim(), source: 'HEADER' as const }
+                }
+            }
+
+            if (mapping.column !== undefined) {
+                const index = mapping.column - 1
+                const header = headers && headers[index] !== undefined && headers[index] !== null ? String(headers[index]).trim() : null
+                return { field: definition.field, label: definition.label, index, header, source: 'INDEX' as const }
+            }
+
+            return { field: definition.field, label: definition.label, index: null, header: null, source: 'UNMAPPED' as const }
+        })
+    }
+
+    /**
+     * Labels of required fields that no column resolves to and that have no default
+     */
+    missingRequired(columns: ResolvedColumn[]): string[] {
+        return columns
+            .filter(column => column.source === 'UNMAPPED')
+            .map(column => this.fields.find(f => f.field === column.field)!)
+            .filter(definition => this.isRequired(definition) && this.defaultFor(definition) === undefined)
+            .map(definition => definition.label)
+    }
+
+    /**
+     * Read, transform, convert and validate one data row
+     * BUSINESS RULES:
+     * 1. Cells are trimmed; blank cells take the field's default value, or null
+     * 2. Transforms run in the order listed before numeric conversion
+     * 3. Integers are truncated towards zero; unparseable numbers are errors
+     * 4. Required flags and numeric ranges in validationJson add to the built-in rules
+     */
+    mapRow(row: unknown[], columns: ResolvedColumn[]): MappedRow {
+        const values: Record<string, string | number | null> = {}
+        const errors: string[] = []
+
+        for (const column of columns) {
+            const definition = this.fields.find(f => f.field === column.field)!
+            const mapping = this.mappingFor(definition.field)
+            const rule: ColumnFieldValidation = this.validation.fields[definition.field] ?? {}
+
+            let text = column.index === null ? '' : ColumnMappingRules.cellText(row[column.index])
+            for (const transform of mapping.transforms ?? []) {
+                text = ColumnMappingRules.applyTransform(text, transform)
+            }
+
+            let value: string | number | null = text === '' ? null : text
+            if (value === null) {
+                const fallback = this.defaultFor(definition)
+                value = fallback === undefined ? null : fallback
+            }
+
+            if (value !== null && definition.type !== 'string') {
+                const num = typeof value === 'number' ? value : Number(value)
+                if (isNaN(num)) {
+                    errors.push(`${definition.label} must be a number`)
+                    values[definition.field] = null
+                    continue
+                }
+                value = definition.type === 'integer' ? Math.trunc(num) : num
+            } else if (value !== null) {
+                value = String(value)
+            }
+
+            values[definition.field] = value
+
+            if (value === null) {
+                if (this.isRequired(definition)) errors.push(`${definition.label} is required`)
+                continue
+            }
+
+            const min = rule.min ?? definition.min
+            if (typeof value === 'number' && min !== undefined && value < min) {
+                errors.push(min === 0 ? `${definition.label} cannot be negative` : `${definition.label} must be at least ${min}`)
+            }
+            if (typeof value === 'number' && rule.max !== undefined && value > rule.max) {
+                errors.push(`${definition.label} must be at most ${rule.max}`)
+            }
+            if (rule.pattern !== undefined && !new RegExp(rule.pattern).test(String(value))) {
+                errors.push(`${definition.label} does not match the expected format`)
+            }
+        }
+
+        return { values, errors }
+    }
+
+    static normalizeHeader(header: unknown): string {
+        if (header === null || header === undefined) return ''
+        return String(header).trim().replace(/\s+/g, ' ').toLowerCase()
+    }
+
+    private mappingFor(field: string): ColumnFieldMapping {
+        return this.mapping.fields[field] ?? {}
+    }
+
+    private isRequired(definition: ImportFieldDefinition): boolean {
+        return this.validation.fields[definition.field]?.required ?? definition.required ?? false
+    }
+
+    private defaultFor(definition: ImportFieldDefinition): string | number | undefined {
+        return this.mappingFor(definition.field).defaultValue ?? definition.defaultValue
+    }
+
+    private static cellText(cell: unknown): string {
+        if (cell === null || cell === undefined) return ''
+        if (cell instanceof Date) return cell.toISOString()
+        return String(cell).trim()
+    }
+
+    private static applyTransform(text: string, transform: (typeof COLUMN_TRANSFORMS)[number]): string {
+        switch (transform) {
+            case 'uppercase':
+                return text.toUpperCase()
+            case 'lowercase':
+                return text.toLowerCase()
+            case 'removeSpaces':
+                return text.replace(/\s+/g, '')
+            case 'currency':
+                // "£1,234.50" -> "1234.50"; accounting-style "(12.00)" -> "-12.00"
+                return text.replace(/^\((.*)\)$/, '-$1').replace(/[£$€,\s]/g, '')
+        }
+    }
+
+    private static describeIssues(error: z.ZodError): string {
+        return error.issues
+            .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+            .join('; ')
+    }
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { InventoryRules } from './InventoryRules';
+
+describe('InventoryRules.splitAllocation', () => {
+    it('allocates the whole line when stock covers it', () => {
+        expect(InventoryRules.splitAllocation(10, 4)).toEqual({ allocatedQty: 4, backorderedQty: 0 });
+    });
+
+    it('backorders what free stock cannot cover', () => {
+        expect(InventoryRules.splitAllocation(1, 3)).toEqual({ allocatedQty: 1, backorderedQty: 2 });
+    });
+
+    it('treats negative free stock as none', () => {
+        expect(InventoryRules.splitAllocation(-2, 3)).toEqual({ allocatedQty: 0, backorderedQty: 3 });
+    });
+});
+
+describe('InventoryRules.availableAfterReservations', () => {
+    it('keeps active reservations out of imported stock', () => {
+        expect(InventoryRules.availableAfterReservations(12, 5)).toBe(7);
+    });
+
+    it('never goes below zero', () => {
+        expect(InventoryRules.availableAfterReservations(2, 5)).toBe(0);
+    });
+});
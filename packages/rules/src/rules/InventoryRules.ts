@@ -3,8 +3,8 @@
  * Stock availability and status rules
  */
 
-import { PrismaClient } from '@prisma/client';
-import { RuleResult, StockInfo, StockStatus } from '../types';
+import { PrismaClient, Prisma, ReservationStatus } from '@prisma/client';
+import { RuleResult, StockInfo, StockStatus, StockAllocation } from '../types';
 import { InventoryRuleError, BusinessRuleError } from '../errors';
 
 const LOW_STOCK_THRESHOLD = 10;
@@ -130,4 +130,140 @@ export class InventoryRules {
             };
         }
     }
+
+    /**
+     * Reserve free stock for newly created order lines, inside the order transaction.
+     * BUSINESS RULES:
+     * 1. ProductStock rows are locked (in product id order, to avoid deadlocks) so two
+     *    checkouts cannot both take the last unit
+     * 2. Each line is allocated what free stock allows; the remainder is backordered
+     * 3. Allocated quantity leaves freeStock and is recorded as an ACTIVE StockReservation
+     */
+    async allocateOrderLines(
+        tx: Prisma.TransactionClient,
+        lines: Array<{ id: string; productId: string; qty: number }>
+    ): Promise<Map<string, StockAllocation>> {
+        const productIds = [...new Set(lines.map(l => l.productId))].sort();
+        const freeStock = await this.lockStock(tx, productIds);
+
+        const allocations = new Map<string, StockAllocation>();
+        for (const line of lines) {
+            const allocation = InventoryRules.splitAllocation(freeStock.get(line.productId) ?? 0, line.qty);
+            freeStock.set(line.productId, (freeStock.get(line.productId) ?? 0) - allocation.allocatedQty);
+            allocations.set(line.id, allocation);
+
+            await tx.orderLine.update({
+                where: { id: line.id },
+                data: { allocatedQty: allocation.allocatedQty, backorderedQty: allocation.backorderedQty }
+            });
+
+            if (allocation.allocatedQty > 0) {
+                await tx.productStock.update({
+                    where: { productId: line.productId },
+                    data: { freeStock: { decrement: allocation.allocatedQty } }
+                });
+                await tx.stockReservation.create({
+                    data: { orderLineId: line.id, productId: line.productId, qty: allocation.allocatedQty }
+                });
+            }
+        }
+
+        return allocations;
+    }
+
+    /**
+     * Return an order's ACTIVE reservations to free stock (order cancelled).
+     * Reservations already CONSUMED by the ERP are left alone; the next stock import reflects them.
+     * Returns the number of units released.
+     */
+    async releaseOrder(tx: Prisma.TransactionClient, orderId: string): Promise<number> {
+        const reservations = await tx.stockReservation.findMany({
+            where: { status: ReservationStatus.ACTIVE, orderLine: { orderId } },
+            orderBy: { productId: 'asc' }
+        });
+        await this.lockStock(tx, [...new Set(reservations.map(r => r.productId))]);
+
+        for (const reservation of reservations) {
+            await tx.productStock.update({
+                where: { productId: reservation.productId },
+                data: { freeStock: { increment: reservation.qty } }
+            });
+        }
+        await this.closeReservations(tx, reservations.map(r => r.id), ReservationStatus.RELEASED);
+
+        return reservations.reduce((sum, r) => sum + r.qty, 0);
+    }
+
+    /**
+     * Hand an order's ACTIVE reservations over to the ERP: from now on imported free stock already excludes them.
+     * Called when the order's export is sent (or reconciled from the fulfilment feed), before any product
+     * import can count the order twice. Safe to call again; consumed reservations are not touched.
+     */
+    async consumeOrder(tx: Prisma.TransactionClient, orderId: string): Promise<number> {
+        const reservations = await tx.stockReservation.findMany({
+            where: { status: ReservationStatus.ACTIVE, orderLine: { orderId } },
+            select: { id: true }
+        });
+        await this.closeReservations(tx, reservations.map(r => r.id), ReservationStatus.CONSUMED);
+        return reservations.length;
+    }
+
+    /**
+     * Set free stock from an imported ERP figure, keeping units still reserved by portal orders out of it
+     */
+    async reconcileImportedStock(
+        tx: Prisma.TransactionClient,
+        productId: string,
+        importedStock: number,
+        batchId: string
+    ): Promise<number> {
+        await this.lockStock(tx, [productId]);
+
+        const reserved = await tx.stockReservation.aggregate({
+            where: { productId, status: ReservationStatus.ACTIVE },
+            _sum: { qty: true }
+        });
+        const freeStock = InventoryRules.availableAfterReservations(importedStock, reserved._sum.qty ?? 0);
+
+        await tx.productStock.upsert({
+            where: { productId },
+            update: { freeStock, importedStock, lastImportBatchId: batchId },
+            create: { productId, freeStock, importedStock, lastImportBatchId: batchId }
+        });
+
+        return freeStock;
+    }
+
+    /**
+     * Split an ordered quantity into what free stock covers and what must be backordered
+     */
+    static splitAllocation(freeStock: number, qty: number): StockAllocation {
+        const allocatedQty = Math.min(Math.max(freeStock, 0), qty);
+        return { allocatedQty, backorderedQty: qty - allocatedQty };
+    }
+
+    static availableAfterReservations(importedStock: number, reservedQty: number): number {
+        return Math.max(importedStock - reservedQty, 0);
+    }
+
+    // SELECT ... FOR UPDATE on ProductStock; products without a stock row have none free
+    private async lockStock(tx: Prisma.TransactionClient, productIds: string[]): Promise<Map<string, number>> {
+        if (productIds.length === 0) return new Map();
+
+        const rows = await tx.$queryRaw<Array<{ productId: string; freeStock: number }>>`
+            SELECT "productId", "freeStock" FROM "ProductStock"
+            WHERE "productId" IN (${Prisma.join(productIds)})
+            ORDER BY "productId"
+            FOR UPDATE
+        `;
+        return new Map(rows.map(r => [r.productId, r.freeStock]));
+    }
+
+    private async closeReservations(tx: Prisma.TransactionClient, ids: string[], status: ReservationStatus) {
+        if (ids.length === 0) return;
+        await tx.stockReservation.updateMany({
+            where: { id: { in: ids } },
+            data: { status, closedAt: new Date() }
+        });
+    }
 }
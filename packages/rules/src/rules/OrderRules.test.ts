@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { OrderRules } from './OrderRules';
+
+describe('OrderRules.requiresApproval', () => {
+    it('never holds orders for users without a limit', () => {
+        expect(OrderRules.requiresApproval(50000, null)).toBe(false);
+    });
+
+    it('holds orders above the limit', () => {
+        expect(OrderRules.requiresApproval(500.01, 500)).toBe(true);
+    });
+
+    it('lets an order exactly at the limit through', () => {
+        expect(OrderRules.requiresApproval(500, 500)).toBe(false);
+    });
+});
+
+describe('OrderRules.validateStatusTransition', () => {
+    const rules = new OrderRules({} as any);
+
+    it('releases approved orders as SUSPENDED', () => {
+        expect(rules.validateStatusTransition('PENDING_APPROVAL', 'SUSPENDED').allowed).toBe(true);
+    });
+
+    it('lets pending orders be rejected or cancelled', () => {
+        expect(rules.validateStatusTransition('PENDING_APPROVAL', 'REJECTED').allowed).toBe(true);
+        expect(rules.validateStatusTransition('PENDING_APPROVAL', 'CANCELLED').allowed).toBe(true);
+    });
+
+    it('does not let pending orders skip approval', () => {
+        expect(rules.validateStatusTransition('PENDING_APPROVAL', 'PROCESSING').allowed).toBe(false);
+    });
+
+    it('treats rejected orders as final', () => {
+        const result = rules.validateStatusTransition('REJECTED', 'SUSPENDED');
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toBe('Cannot transition from REJECTED to SUSPENDED');
+    });
+});
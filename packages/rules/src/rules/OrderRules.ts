@@ -89,6 +89,15 @@ export class OrderRules {
         }
     }
 
+    /**
+     * Whether an order needs an approver before it goes to the ERP.
+     * No limit (null) never needs approval; an order exactly at the limit does not either.
+     */
+    static requiresApproval(subtotal: number, orderLimit: number | null): boolean {
+        if (orderLimit === null) return false
+        return subtotal > orderLimit
+    }
+
     /**
      * Validate order status transition
      */
@@ -97,6 +106,8 @@ export class OrderRules {
         newStatus: string
     ): { allowed: boolean; reason?: string } {
         const allowedTransitions: Record<string, string[]> = {
+            PENDING_APPROVAL: ['SUSPENDED', 'REJECTED', 'CANCELLED'], // Approved orders continue as SUSPENDED
+            REJECTED: [], // Cannot transition from rejected
             SUSPENDED: ['PROCESSING', 'CANCELLED'],
             PROCESSING: ['SHIPPED', 'CANCELLED'],
             SHIPPED: [], // Cannot transition from shipped
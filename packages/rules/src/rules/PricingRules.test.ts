@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { Prisma, PriceRule, PriceRuleType, PartType, DealerPriceOverride } from '@prisma/client';
+import { PricingRules } from './PricingRules';
+
+const target = {
+    dealerAccountId: 'dealer-1',
+    productId: 'product-1',
+    partType: PartType.GENUINE,
+    quantity: 1,
+    discountCode: 'D10',
+    supplier: 'JAM0101'
+};
+
+const band = new Prisma.Decimal('100.00');
+
+let nextId = 1;
+function rule(overrides: Partial<PriceRule>): PriceRule {
+    return {
+        id: `rule-${nextId++}`,
+        ruleType: PriceRuleType.PROMOTION,
+        name: 'Rule',
+        productId: null,
+        discountCode: null,
+        supplier: null,
+        partType: null,
+        dealerAccountId: null,
+        minQty: 1,
+        fixedPrice: null,
+        discountPercent: null,
+        startsAt: null,
+        endsAt: null,
+        priority: 0,
+        isActive: true,
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-01-01'),
+        ...overrides
+    };
+}
+
+const percent = (value: string) => new Prisma.Decimal(value);
+
+describe('PricingRules.resolvePriceRule', () => {
+    it('keeps the band price when no rule applies', () => {
+        const result = PricingRules.resolvePriceRule(band, [
+            rule({ partType: PartType.AFTERMARKET, discountPercent: percent('10') })
+        ], target);
+
+        expect(result.rule).toBeNull();
+        expect(result.price.toString()).toBe('100');
+    });
+
+    it('applies the deepest quantity break the quantity reaches', () => {
+        const breaks = [
+            rule({ ruleType: PriceRuleType.QUANTITY_BREAK, name: '10+', discountCode: 'd10', minQty: 10, discountPercent: percent('5') }),
+            rule({ ruleType: PriceRuleType.QUANTITY_BREAK, name: '50+', discountCode: 'D10', minQty: 50, discountPercent: percent('12.5') })
+        ];
+
+        expect(PricingRules.resolvePriceRule(band, breaks, { ...target, quantity: 9 }).rule).toBeNull();
+        expect(PricingRules.resolvePriceRule(band, breaks, { ...target, quantity: 10 }).rule?.name).toBe('10+');
+
+        const fifty = PricingRules.resolvePriceRule(band, breaks, { ...target, quantity: 60 });
+        expect(fifty.rule?.name).toBe('50+');
+        expect(fifty.price.toString()).toBe('87.5');
+    });
+
+    it('only applies promotions inside their validity window', () => {
+        const promo = rule({
+            supplier: 'jam0101',
+            discountPercent: percent('20'),
+            startsAt: new Date('2026-03-01'),
+            endsAt: new Date('2026-04-01')
+        });
+
+        expect(PricingRules.resolvePriceRule(band, [promo], target, new Date('2026-02-28')).rule).toBeNull();
+        expect(PricingRules.resolvePriceRule(band, [promo], target, new Date('2026-03-15')).price.toString()).toBe('80');
+        expect(PricingRules.resolvePriceRule(band, [promo], target, new Date('2026-04-01')).rule).toBeNull();
+    });
+
+    it('picks the lowest of band, promotion and quantity break prices', () => {
+        const result = PricingRules.resolvePriceRule(band, [
+            rule({ name: 'Genuine promo', partType: PartType.GENUINE, discountPercent: percent('10') }),
+            rule({ ruleType: PriceRuleType.QUANTITY_BREAK, name: 'Bulk', productId: 'product-1', minQty: 20, fixedPrice: new Prisma.Decimal('85') })
+        ], { ...target, quantity: 25 });
+
+        expect(result.rule?.name).toBe('Bulk');
+        expect(result.price.toString()).toBe('85');
+    });
+
+    it('lets a dealer contract win even when a promotion is cheaper', () => {
+        const result = PricingRules.resolvePriceRule(band, [
+            rule({ name: 'Clearance', partType: PartType.GENUINE, discountPercent: percent('50') }),
+            rule({ ruleType: PriceRuleType.CONTRACT, name: 'Contract', dealerAccountId: 'dealer-1', partType: PartType.GENUINE, fixedPrice: new Prisma.Decimal('70') })
+        ], target);
+
+        expect(result.rule?.ruleType).toBe(PriceRuleType.CONTRACT);
+        expect(result.price.toString()).toBe('70');
+    });
+
+    it('ignores contracts for other dealers and prefers the most specific contract', () => {
+        const result = PricingRules.resolvePriceRule(band, [
+            rule({ ruleType: PriceRuleType.CONTRACT, name: 'Other dealer', dealerAccountId: 'dealer-2', productId: 'product-1', fixedPrice: new Prisma.Decimal('10') }),
+            rule({ ruleType: PriceRuleType.CONTRACT, name: 'Part type', dealerAccountId: 'dealer-1', partType: PartType.GENUINE, discountPercent: percent('30'), priority: 5 }),
+            rule({ ruleType: PriceRuleType.CONTRACT, name: 'Product', dealerAccountId: 'dealer-1', productId: 'product-1', fixedPrice: new Prisma.Decimal('95') })
+        ], target);
+
+        expect(result.rule?.name).toBe('Product');
+        expect(result.price.toString()).toBe('95');
+    });
+
+    it('breaks price ties by priority, then layer, then id', () => {
+        const promo = rule({ name: 'Promo', partType: PartType.GENUINE, discountPercent: percent('10') });
+        const qtyBreak = rule({ ruleType: PriceRuleType.QUANTITY_BREAK, name: 'Break', productId: 'product-1', fixedPrice: new Prisma.Decimal('90') });
+
+        expect(PricingRules.resolvePriceRule(band, [qtyBreak, promo], target).rule?.name).toBe('Promo');
+        expect(PricingRules.resolvePriceRule(band, [{ ...qtyBreak, priority: 1 }, promo], target).rule?.name).toBe('Break');
+    });
+
+    it('skips inactive rules', () => {
+        const result = PricingRules.resolvePriceRule(band, [
+            rule({ partType: PartType.GENUINE, discountPercent: percent('10'), isActive: false })
+        ], target);
+
+        expect(result.rule).toBeNull();
+    });
+});
+
+function override(fields: Partial<DealerPriceOverride>): DealerPriceOverride {
+    return {
+        id: `override-${nextId++}`,
+        dealerAccountId: 'dealer-1',
+        productId: 'product-1',
+        netPrice: new Prisma.Decimal('80'),
+        validFrom: null,
+        validTo: null,
+        waiveMinimumPrice: false,
+        note: null,
+        lastImportBatchId: null,
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-01-01'),
+        ...fields
+    };
+}
+
+describe('PricingRules.resolveOverride', () => {
+    const now = new Date('2026-06-15T12:00:00Z');
+
+    it('only applies to the same dealer and product inside the validity window', () => {
+        const overrides = [
+            override({ dealerAccountId: 'dealer-2' }),
+            override({ productId: 'product-2' }),
+            override({ validFrom: new Date('2026-07-01') }),
+            override({ validTo: new Date('2026-06-15T12:00:00Z') })
+        ];
+
+        expect(PricingRules.resolveOverride(overrides, target, now)).toBeNull();
+        expect(PricingRules.resolveOverride([...overrides, override({ note: 'Current' })], target, now)?.note).toBe('Current');
+    });
+
+    it('prefers the most recently started override', () => {
+        const overrides = [
+            override({ note: 'Open', validFrom: null }),
+            override({ note: 'June', validFrom: new Date('2026-06-01') }),
+            override({ note: 'May', validFrom: new Date('2026-05-01'), updatedAt: new Date('2026-06-10') })
+        ];
+
+        expect(PricingRules.resolveOverride(overrides, target, now)?.note).toBe('June');
+    });
+});
+
+describe('PricingRules.windowsOverlap', () => {
+    const d = (value: string) => new Date(value);
+
+    it('treats validity windows as half-open and null dates as unbounded', () => {
+        expect(PricingRules.windowsOverlap(d('2026-01-01'), d('2026-02-01'), d('2026-02-01'), null)).toBe(false);
+        expect(PricingRules.windowsOverlap(d('2026-01-01'), d('2026-02-02'), d('2026-02-01'), null)).toBe(true);
+        expect(PricingRules.windowsOverlap(null, null, d('2030-01-01'), d('2030-02-01'))).toBe(true);
+        expect(PricingRules.windowsOverlap(null, d('2026-01-01'), d('2026-01-01'), null)).toBe(false);
+    });
+});
@@ -1,8 +1,28 @@
 // packages/rules/src/rules/PricingRules.ts
-import { PrismaClient, Prisma } from '@prisma/client'
+import { PrismaClient, Prisma, PriceRule, PriceRuleType, DealerPriceOverride } from '@prisma/client'
 import { PricingContext, PricingResult } from '../types'
 import { PricingRuleError, EntitlementError } from '../errors'
 
+// Most specific scope first; used to choose between overlapping contracts
+const SCOPE_FIELDS = ['productId', 'discountCode', 'supplier', 'partType'] as const
+
+// Layer order used to break ties between rules that give the same price
+const LAYER_ORDER: Record<PriceRuleType, number> = {
+    CONTRACT: 0,
+    PROMOTION: 1,
+    QUANTITY_BREAK: 2,
+}
+
+type PriceRuleTarget = Pick<PricingContext, 'dealerAccountId' | 'productId' | 'partType' | 'quantity' | 'discountCode' | 'supplier'>
+
+/**
+ * Price rules and dealer overrides loaded once for a batch of products
+ */
+export interface PriceAdjustments {
+    priceRules: PriceRule[]
+    overrides: DealerPriceOverride[]
+}
+
 export class PricingRules {
     constructor(private prisma: PrismaClient) { }
 
@@ -13,9 +33,14 @@ export class PricingRules {
      * 2. Product must match dealer's entitlement
      * 3. Dealer must have band assignment for product's part type
      * 4. Product must have price for dealer's band
-     * 5. If minimum price set, use max(band price, minimum price)
+     * 5. A dealer price override valid now replaces the band price and all price rules;
+     *    otherwise price rules (contract, promotion, quantity break) are layered over the band price
+     * 6. If minimum price set, use max(override, rule or band price, minimum price),
+     *    unless the override waives the minimum price
+     *
+     * `adjustments` lets batch callers pass rules and overrides loaded once for many products.
      */
-    async calculatePrice(context: PricingContext): Promise<PricingResult> {
+    async calculatePrice(context: PricingContext, adjustments?: PriceAdjustments): Promise<PricingResult> {
         // Rule 1: Check dealer status
         if (context.dealerStatus === 'INACTIVE') {
             throw new EntitlementError('Inactive dealers cannot view prices')
@@ -68,15 +93,40 @@ export class PricingRules {
             )
         }
 
-        // Rule 5: Apply minimum price if set
+        // Rule 5: Dealer override, or price rules layered over the band price
+        const { priceRules, overrides } = adjustments
+            ?? await this.loadPriceAdjustments(context.dealerAccountId, [context.productId])
+
+        const override = PricingRules.resolveOverride(overrides, context)
+        let rule: PriceRule | null = null
+        let adjustedPrice = bandPrice.price
+
+        if (override) {
+            adjustedPrice = new Prisma.Decimal(override.netPrice)
+        } else {
+            let target: PriceRuleTarget = context
+            if (context.discountCode === undefined || context.supplier === undefined) {
+                const product = await this.prisma.product.findUnique({
+                    where: { id: context.productId },
+                    select: { discountCode: true, supplier: true },
+                })
+                target = { ...context, discountCode: product?.discountCode ?? null, supplier: product?.supplier ?? null }
+            }
+
+            const resolved = PricingRules.resolvePriceRule(bandPrice.price, priceRules, target)
+            rule = resolved.rule
+            adjustedPrice = resolved.price
+        }
+
+        // Rule 6: Apply minimum price if set
         const refPrice = await this.prisma.productPriceReference.findUnique({
             where: { productId: context.productId },
         })
 
-        let finalPrice = bandPrice.price
+        let finalPrice = adjustedPrice
         let minPriceApplied = false
 
-        if (refPrice?.minimumPrice && bandPrice.price.lessThan(refPrice.minimumPrice)) {
+        if (!override?.waiveMinimumPrice && refPrice?.minimumPrice && adjustedPrice.lessThan(refPrice.minimumPrice)) {
             finalPrice = refPrice.minimumPrice
             minPriceApplied = true
         }
@@ -86,7 +136,165 @@ export class PricingRules {
             bandCode: bandAssignment.bandCode,
             minimumPriceApplied: minPriceApplied,
             available: true,
+            appliedRule: rule
+                ? { id: rule.id, ruleType: rule.ruleType, name: rule.name, basePrice: bandPrice.price }
+                : undefined,
+            appliedOverride: override
+                ? { id: override.id, basePrice: bandPrice.price, minimumPriceWaived: override.waiveMinimumPrice }
+                : undefined,
+        }
+    }
+
+    /**
+     * Price rules and dealer overrides that could apply to a dealer buying any of these products
+     */
+    async loadPriceAdjustments(dealerAccountId: string, productIds: string[], now: Date = new Date()): Promise<PriceAdjustments> {
+        const [priceRules, overrides] = await Promise.all([
+            this.loadPriceRules(dealerAccountId, productIds, now),
+            this.prisma.dealerPriceOverride.findMany({
+                where: {
+                    dealerAccountId,
+                    productId: { in: productIds },
+                    AND: [
+                        { OR: [{ validFrom: null }, { validFrom: { lte: now } }] },
+                        { OR: [{ validTo: null }, { validTo: { gt: now } }] },
+                    ],
+                },
+            }),
+        ])
+        return { priceRules, overrides }
+    }
+
+    /**
+     * Active price rules that could apply to a dealer buying any of these products
+     */
+    async loadPriceRules(dealerAccountId: string, productIds: string[], now: Date = new Date()): Promise<PriceRule[]> {
+        return this.prisma.priceRule.findMany({
+            where: {
+                isActive: true,
+                OR: [{ productId: null }, { productId: { in: productIds } }],
+                AND: [
+                    { OR: [{ dealerAccountId: null }, { dealerAccountId }] },
+                    { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+                    { OR: [{ endsAt: null }, { endsAt: { gt: now } }] },
+                ],
+            },
+        })
+    }
+
+    /**
+     * Pick the price rule that sets the price for one product
+     * BUSINESS RULES:
+     * 1. A rule applies when it is active, inside its validity window, the quantity reaches minQty,
+     *    and every scope field it sets (product, discount code, supplier, part type, dealer) matches
+     * 2. CONTRACT rules only apply to their own dealer and win outright; between several contracts
+     *    the most specific scope wins (product > discount code > supplier > part type)
+     * 3. Otherwise PROMOTION and QUANTITY_BREAK rules compete with the band price and the lowest price wins;
+     *    a rule must beat the band price to be reported
+     * 4. Ties go to the higher priority, then CONTRACT > PROMOTION > QUANTITY_BREAK, then rule id
+     * 5. A rule's price is its fixed price, or the band price less its discount percentage (rounded to 2dp)
+     */
+    static resolvePriceRule(
+        basePrice: Prisma.Decimal,
+        rules: PriceRule[],
+        target: PriceRuleTarget,
+        now: Date = new Date()
+    ): { price: Prisma.Decimal; rule: PriceRule | null } {
+        const applicable = rules
+            .filter(rule => PricingRules.ruleApplies(rule, target, now))
+            .sort(PricingRules.compareRules)
+
+        const contracts = applicable.filter(rule => rule.ruleType === PriceRuleType.CONTRACT)
+        if (contracts.length > 0) {
+            const contract = contracts.sort((a, b) =>
+                PricingRules.specificity(a) - PricingRules.specificity(b) || PricingRules.compareRules(a, b)
+            )[0]
+            return { price: PricingRules.rulePrice(contract, basePrice), rule: contract }
+        }
+
+        let best: { price: Prisma.Decimal; rule: PriceRule | null } = { price: basePrice, rule: null }
+        for (const rule of applicable) {
+            const price = PricingRules.rulePrice(rule, basePrice)
+            if (price.lessThan(best.price)) {
+                best = { price, rule }
+            }
         }
+        return best
+    }
+
+    /**
+     * Pick the dealer price override for one product
+     * BUSINESS RULES:
+     * 1. An override applies to its own dealer and product while now is in [validFrom, validTo);
+     *    open-ended dates are unbounded
+     * 2. If several overlap, the one that started most recently wins, then the most recently updated
+     */
+    static resolveOverride(
+        overrides: DealerPriceOverride[],
+        target: Pick<PricingContext, 'dealerAccountId' | 'productId'>,
+        now: Date = new Date()
+    ): DealerPriceOverride | null {
+        const applicable = overrides
+            .filter(o => o.dealerAccountId === target.dealerAccountId && o.productId === target.productId)
+            .filter(o => PricingRules.validAt(o.validFrom, o.validTo, now))
+            .sort((a, b) =>
+                (b.validFrom?.getTime() ?? 0) - (a.validFrom?.getTime() ?? 0)
+                || b.updatedAt.getTime() - a.updatedAt.getTime()
+                || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+            )
+        return applicable[0] ?? null
+    }
+
+    /**
+     * Whether two [from, to) validity windows share any instant; null means unbounded
+     */
+    static windowsOverlap(aFrom: Date | null, aTo: Date | null, bFrom: Date | null, bTo: Date | null): boolean {
+        return (!aFrom || !bTo || aFrom < bTo) && (!bFrom || !aTo || bFrom < aTo)
+    }
+
+    private static validAt(from: Date | null, to: Date | null, now: Date): boolean {
+        return (!from || from <= now) && (!to || to > now)
+    }
+
+    private static ruleApplies(rule: PriceRule, target: PriceRuleTarget, now: Date): boolean {
+        if (!rule.isActive) return false
+        if (rule.startsAt && rule.startsAt > now) return false
+        if (rule.endsAt && rule.endsAt <= now) return false
+        if (target.quantity < rule.minQty) return false
+
+        if (rule.ruleType === PriceRuleType.CONTRACT && !rule.dealerAccountId) return false
+        if (rule.dealerAccountId && rule.dealerAccountId !== target.dealerAccountId) return false
+
+        if (rule.productId && rule.productId !== target.productId) return false
+        if (rule.partType && rule.partType !== target.partType) return false
+        if (rule.discountCode && !PricingRules.sameCode(rule.discountCode, target.discountCode)) return false
+        if (rule.supplier && !PricingRules.sameCode(rule.supplier, target.supplier)) return false
+
+        return true
+    }
+
+    private static rulePrice(rule: PriceRule, basePrice: Prisma.Decimal): Prisma.Decimal {
+        if (rule.fixedPrice !== null) {
+            return new Prisma.Decimal(rule.fixedPrice)
+        }
+        const percent = new Prisma.Decimal(rule.discountPercent ?? 0)
+        return basePrice.mul(new Prisma.Decimal(100).minus(percent)).div(100).toDecimalPlaces(2)
+    }
+
+    // Index of the most specific scope field the rule sets; unscoped rules sort last
+    private static specificity(rule: PriceRule): number {
+        const index = SCOPE_FIELDS.findIndex(field => rule[field] !== null)
+        return index === -1 ? SCOPE_FIELDS.length : index
+    }
+
+    private static compareRules(a: PriceRule, b: PriceRule): number {
+        return b.priority - a.priority
+            || LAYER_ORDER[a.ruleType] - LAYER_ORDER[b.ruleType]
+            || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    }
+
+    private static sameCode(a: string, b: string | null | undefined): boolean {
+        return !!b && a.trim().toUpperCase() === b.trim().toUpperCase()
     }
 
     /**
@@ -129,10 +337,12 @@ export class PricingRules {
     /**
      * Batch price calculation for multiple products
      * More efficient than calling calculatePrice multiple times
+     * Quantities drive quantity breaks; products without one are priced for a quantity of 1
      */
     async calculatePrices(
         dealerAccountId: string,
-        productIds: string[]
+        productIds: string[],
+        quantities?: Map<string, number>
     ): Promise<Map<string, PricingResult>> {
         // Get dealer info once
         const dealer = await this.prisma.dealerAccount.findUniqueOrThrow({
@@ -151,6 +361,9 @@ export class PricingRules {
             },
         })
 
+        // Load rules and overrides once for the whole batch
+        const adjustments = await this.loadPriceAdjustments(dealer.id, productIds)
+
         const results = new Map<string, PricingResult>()
 
         for (const product of products) {
@@ -162,10 +375,12 @@ export class PricingRules {
                     productId: product.id,
                     productCode: product.productCode,
                     partType: product.partType,
-                    quantity: 1,
+                    quantity: quantities?.get(product.id) ?? 1,
+                    discountCode: product.discountCode,
+                    supplier: product.supplier,
                 }
 
-                const result = await this.calculatePrice(context)
+                const result = await this.calculatePrice(context, adjustments)
                 results.set(product.id, result)
             } catch (error) {
                 results.set(product.id, {
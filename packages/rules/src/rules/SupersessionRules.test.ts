@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PrismaClient } from '@prisma/client';
+import { SupersessionRules, MAX_SUPERSESSION_DEPTH } from './SupersessionRules';
+
+type Row = { originalPartCode: string; replacementPartCode: string; note: string | null; updatedAt: Date };
+
+// Minimal in-memory stand-in for prisma.supersession.findMany
+function createPrisma(rows: Row[]) {
+    return {
+        supersession: {
+            findMany: async ({ where }: any) => {
+                const wanted = new Set((where.originalPartCode.in as string[]).map(c => c.toUpperCase()));
+                return rows
+                    .filter(r => wanted.has(r.originalPartCode.toUpperCase()))
+                    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+            }
+        }
+    } as unknown as PrismaClient;
+}
+
+const row = (from: string, to: string, updatedAt = new Date('2026-01-01'), note: string | null = null): Row => ({
+    originalPartCode: from,
+    replacementPartCode: to,
+    note,
+    updatedAt
+});
+
+describe('SupersessionRules', () => {
+    it('returns the part itself when it has no supersession', async () => {
+        const rules = new SupersessionRules(createPrisma([]));
+        const result = await rules.resolve('LR000001');
+
+        expect(result.isSuperseded).toBe(false);
+        expect(result.currentPartCode).toBe('LR000001');
+        expect(result.chain).toEqual(['LR000001']);
+    });
+
+    it('follows multi-hop supersessions to the current replacement', async () => {
+        const rules = new SupersessionRules(createPrisma([
+            row('LR000001', 'LR000002'),
+            row('LR000002', 'LR000003', undefined, 'Revised bracket'),
+        ]));
+        const result = await rules.resolve(' lr000001 ');
+
+        expect(result.isSuperseded).toBe(true);
+        expect(result.chain).toEqual(['LR000001', 'LR000002', 'LR000003']);
+        expect(result.currentPartCode).toBe('LR000003');
+        expect(result.note).toBe('Revised bracket');
+        expect(result.cycleDetected).toBe(false);
+    });
+
+    it('prefers the most recently updated replacement', async () => {
+        const rules = new SupersessionRules(createPrisma([
+            row('LR000001', 'LR000002', new Date('2025-06-01')),
+            row('LR000001', 'LR000009', new Date('2026-02-01')),
+        ]));
+        const result = await rules.resolve('LR000001');
+
+        expect(result.currentPartCode).toBe('LR000009');
+    });
+
+    it('stops at the last unique code when the chain loops', async () => {
+        const rules = new SupersessionRules(createPrisma([
+            row('LR000001', 'LR000002'),
+            row('LR000002', 'LR000003'),
+            row('LR000003', 'LR000001'),
+        ]));
+        const result = await rules.resolve('LR000001');
+
+        expect(result.cycleDetected).toBe(true);
+        expect(result.chain).toEqual(['LR000001', 'LR000002', 'LR000003']);
+        expect(result.currentPartCode).toBe('LR000003');
+    });
+
+    it('truncates chains longer than the maximum depth', async () => {
+        const rows = Array.from({ length: MAX_SUPERSESSION_DEPTH + 5 }, (_, i) => row(`P${i}`, `P${i + 1}`));
+        const rules = new SupersessionRules(createPrisma(rows));
+        const result = await rules.resolve('P0');
+
+        expect(result.chain.length).toBe(MAX_SUPERSESSION_DEPTH + 1);
+        expect(result.cycleDetected).toBe(false);
+    });
+
+    it('resolves several codes in one call', async () => {
+        const rules = new SupersessionRules(createPrisma([
+            row('A1', 'A2'),
+            row('B1', 'B2'),
+        ]));
+        const results = await rules.resolveMany(['A1', 'B1', 'C1']);
+
+        expect(results.get('A1')?.currentPartCode).toBe('A2');
+        expect(results.get('B1')?.currentPartCode).toBe('B2');
+        expect(results.get('C1')?.isSuperseded).toBe(false);
+    });
+});
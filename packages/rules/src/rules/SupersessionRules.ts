@@ -0,0 +1,111 @@
+// packages/rules/src/rules/SupersessionRules.ts
+import { PrismaClient } from '@prisma/client'
+import { SupersessionResult } from '../types'
+
+// Guard against runaway chains caused by bad supersession data
+export const MAX_SUPERSESSION_DEPTH = 20
+
+interface SupersessionLink {
+    replacementPartCode: string
+    note: string | null
+}
+
+export class SupersessionRules {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Resolve the replacement chain for a single part code
+     */
+    async resolve(partCode: string): Promise<SupersessionResult> {
+        const results = await this.resolveMany([partCode])
+        return results.get(SupersessionRules.normalize(partCode))!
+    }
+
+    /**
+     * Resolve replacement chains for multiple part codes
+     * BUSINESS RULES:
+     * 1. Supersessions are followed hop by hop until a part with no replacement is reached
+     * 2. When a part has several replacements, the most recently updated one wins
+     * 3. A chain that revisits a part code is a cycle; resolution stops at the last unique code
+     * 4. Chains longer than MAX_SUPERSESSION_DEPTH are truncated
+     *
+     * Results are keyed by the normalized (trimmed, upper-cased) input code.
+     */
+    async resolveMany(partCodes: string[]): Promise<Map<string, SupersessionResult>> {
+        const links = new Map<string, SupersessionLink>()
+        let frontier = Array.from(new Set(partCodes.map(SupersessionRules.normalize).filter(Boolean)))
+
+        // Load one hop per query so every chain is fetched in at most MAX_SUPERSESSION_DEPTH round trips
+        for (let depth = 0; depth < MAX_SUPERSESSION_DEPTH && frontier.length > 0; depth++) {
+            const rows = await this.prisma.supersession.findMany({
+                where: { originalPartCode: { in: frontier, mode: 'insensitive' } },
+                orderBy: { updatedAt: 'desc' },
+            })
+
+            const next: string[] = []
+            for (const row of rows) {
+                const original = SupersessionRules.normalize(row.originalPartCode)
+                if (links.has(original)) continue // Older duplicate
+
+                const replacement = SupersessionRules.normalize(row.replacementPartCode)
+                links.set(original, { replacementPartCode: replacement, note: row.note })
+
+                if (!links.has(replacement)) {
+                    next.push(replacement)
+                }
+            }
+            frontier = next
+        }
+
+        const results = new Map<string, SupersessionResult>()
+        for (const code of partCodes) {
+            const normalized = SupersessionRules.normalize(code)
+            if (!normalized) continue
+            results.set(normalized, SupersessionRules.followChain(normalized, links))
+        }
+
+        return results
+    }
+
+    /**
+     * Walk a pre-loaded set of links from a starting code
+     */
+    static followChain(
+        partCode: string,
+        links: Map<string, SupersessionLink>
+    ): SupersessionResult {
+        const chain = [partCode]
+        const visited = new Set(chain)
+        let cycleDetected = false
+        let note: string | undefined
+
+        let current = partCode
+        while (chain.length <= MAX_SUPERSESSION_DEPTH) {
+            const link = links.get(current)
+            if (!link) break
+
+            if (visited.has(link.replacementPartCode)) {
+                cycleDetected = true
+                break
+            }
+
+            note = link.note ?? note
+            current = link.replacementPartCode
+            chain.push(current)
+            visited.add(current)
+        }
+
+        return {
+            originalPartCode: partCode,
+            currentPartCode: current,
+            chain,
+            isSuperseded: chain.length > 1,
+            cycleDetected,
+            note,
+        }
+    }
+
+    static normalize(partCode: string): string {
+        return (partCode || '').trim().toUpperCase()
+    }
+}
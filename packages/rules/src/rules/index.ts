@@ -6,3 +6,6 @@ export * from './PricingRules';
 export * from './InventoryRules';
 export * from './OrderRules';
 export * from './EntitlementRules';
+export * from './SupersessionRules';
+export * from './ColumnMappingRules';
+export * from './BackorderRules';
@@ -3,10 +3,10 @@
  * Defined by user requirements
  */
 
-import { Prisma, PartType, DealerStatus, Entitlement } from '@prisma/client'
+import { Prisma, PartType, DealerStatus, Entitlement, PriceRuleType, ReservationStatus } from '@prisma/client'
 
 // Re-export for convenience
-export { PartType, DealerStatus, Entitlement, Prisma }
+export { PartType, DealerStatus, Entitlement, PriceRuleType, ReservationStatus, Prisma }
 
 // Rule result types
 export interface RuleResult<T = any> {
@@ -38,6 +38,22 @@ export interface PricingContext {
     productCode: string
     partType: PartType
     quantity: number
+    // Scope fields matched by price rules
+    discountCode?: string | null
+    supplier?: string | null
+}
+
+export interface AppliedPriceRule {
+    id: string
+    ruleType: PriceRuleType
+    name: string
+    basePrice: Prisma.Decimal // Band price the rule replaced
+}
+
+export interface AppliedPriceOverride {
+    id: string
+    basePrice: Prisma.Decimal // Band price the override replaced
+    minimumPriceWaived: boolean
 }
 
 export interface PricingResult {
@@ -46,6 +62,8 @@ export interface PricingResult {
     minimumPriceApplied: boolean
     available: boolean
     reason?: string
+    appliedRule?: AppliedPriceRule // Absent when the band price applied
+    appliedOverride?: AppliedPriceOverride // Dealer net price; takes precedence over appliedRule
     // Additional fields useful for UI
     unitPrice?: number
     totalPrice?: number
@@ -85,6 +103,85 @@ export interface EntitlementResult {
     reason?: string
 }
 
+// Supersession types
+export interface SupersessionResult {
+    originalPartCode: string
+    currentPartCode: string
+    chain: string[] // original -> ... -> current replacement
+    isSuperseded: boolean
+    cycleDetected: boolean
+    note?: string
+}
+
+// Column mapping types (UploadTemplate.mappingJson / validationJson)
+export type ColumnTransform = 'uppercase' | 'lowercase' | 'removeSpaces' | 'currency'
+
+export interface ImportFieldDefinition {
+    field: string
+    label: string
+    type: 'string' | 'number' | 'integer'
+    aliases: string[] // Built-in headers, matched when no template overrides them
+    required?: boolean
+    min?: number
+    defaultValue?: string | number
+}
+
+export interface ColumnFieldMapping {
+    header?: string
+    aliases?: string[]
+    column?: number // 1-based column index used when no header matches
+    transforms?: ColumnTransform[]
+    defaultValue?: string | number
+}
+
+export interface ColumnMapping {
+    fields: Record<string, ColumnFieldMapping>
+}
+
+export interface ColumnFieldValidation {
+    required?: boolean
+    min?: number
+    max?: number
+    pattern?: string
+}
+
+export interface ColumnValidation {
+    fields: Record<string, ColumnFieldValidation>
+}
+
+export interface ResolvedColumn {
+    field: string
+    label: string
+    index: number | null // 0-based position in the row
+    header: string | null
+    source: 'HEADER' | 'INDEX' | 'UNMAPPED'
+}
+
+export interface MappedRow {
+    values: Record<string, string | number | null>
+    errors: string[]
+}
+
+// Backorder types (BackorderLine as imported from the ERP report)
+export interface BackorderLineSnapshot {
+    accountNo: string
+    ourNo: string
+    itemNo: string
+    part: string
+    qtyOrdered: number
+    qtyOutstanding: number
+    inWh: number
+}
+
+export interface BackorderLineDiff<T extends BackorderLineSnapshot = BackorderLineSnapshot> {
+    key: string
+    current: T | null // Null when the line cleared
+    previous: T | null // Null when the line is newly backordered
+    outstandingDelta: number
+    inWhDelta: number
+    changed: boolean
+}
+
 // Inventory types
 export type StockStatus = 'IN_STOCK' | 'LOW_STOCK' | 'OUT_OF_STOCK';
 
@@ -95,6 +192,11 @@ export interface StockInfo {
     available: boolean;
 }
 
+export interface StockAllocation {
+    allocatedQty: number;
+    backorderedQty: number;
+}
+
 // ============================================================================
 // Legacy / Helper Types (maintained for compatibility during refactor)
 // ============================================================================
@@ -77,7 +77,7 @@ export class OrderValidator {
             return { valid: false, errors };
         }
 
-        const immutableStatuses = ['SHIPPED', 'CANCELLED'];
+        const immutableStatuses = ['SHIPPED', 'CANCELLED', 'REJECTED'];
         if (immutableStatuses.includes(order.status)) {
             errors.push({
                 field: 'status',
@@ -94,6 +94,8 @@ export class OrderValidator {
         const errors: RuleError[] = [];
 
         const validTransitions: Record<string, string[]> = {
+            'PENDING_APPROVAL': ['SUSPENDED', 'REJECTED', 'CANCELLED'],
+            'REJECTED': [],
             'SUSPENDED': ['PROCESSING', 'CANCELLED'],
             'PROCESSING': ['SHIPPED', 'CANCELLED'],
             'SHIPPED': [],
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { EmailOutbox, OutgoingEmail, SUPPRESS_AFTER_FAILURES } from './emailOutbox';
+
+interface StoredEmail {
+    id: string;
+    recipientEmail: string;
+    subject: string;
+    bodyText: string;
+    bodyHtml: string | null;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    nextAttemptAt: Date;
+    errorMessage: string | null;
+    attachments: unknown;
+}
+
+interface StoredRecipient {
+    id: string;
+    email: string;
+    consecutiveFailures: number;
+    bounceCount: number;
+    suppressedAt: Date | null;
+    suppressedReason: string | null;
+}
+
+/**
+ * In-memory emailLog and emailRecipient tables; claiming takes the next QUEUED email that is due.
+ * No orders exist, so ORDER_PDF attachments cannot be rendered.
+ */
+function fakePrisma() {
+    const emails: StoredEmail[] = [];
+    const recipients: StoredRecipient[] = [];
+    const matches = (email: StoredEmail, where: any) =>
+        (where.status === undefined || email.status === where.status) &&
+        (where.recipientEmail === undefined || email.recipientEmail.toLowerCase() === where.recipientEmail.equals);
+
+    const prisma = {
+        emails,
+        recipients,
+        $queryRaw: async () => {
+            const due = emails
+                .filter(email => email.status === 'QUEUED' && email.nextAttemptAt <= new Date())
+                .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())[0];
+            if (!due) return [];
+            Object.assign(due, { status: 'SENDING', attempts: due.attempts + 1 });
+            return [{ id: due.id, recipientEmail: due.recipientEmail, attempts: due.attempts, maxAttempts: due.maxAttempts }];
+        },
+        $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+        emailLog: {
+            create: async ({ data }: any) => {
+                const email = {
+                    id: `email-${emails.length + 1}`,
+                    attempts: 0,
+                    maxAttempts: 3,
+                    nextAttemptAt: new Date(Date.now() - 1000 + emails.length),
+                    bodyHtml: null,
+                    errorMessage: null,
+                    attachments: null,
+                    ...data
+                };
+                emails.push(email);
+                return { ...email };
+            },
+            findUniqueOrThrow: async ({ where }: any) => ({ ...emails.find(email => email.id === where.id)! }),
+            update: async ({ where, data }: any) => ({ ...Object.assign(emails.find(email => email.id === where.id)!, data) }),
+            updateMany: async ({ where, data }: any) => {
+                // recoverStale filters on lockedAt as well; nothing is ever stale here
+                if (where.lockedAt) return { count: 0 };
+                const updated = emails.filter(email => matches(email, where));
+                updated.forEach(email => Object.assign(email, data));
+                return { count: updated.length };
+            }
+        },
+        emailRecipient: {
+            findUnique: async ({ where }: any) => recipients.find(recipient => recipient.email === where.email) ?? null,
+            upsert: async ({ where, update, create }: any) => {
+                let recipient = recipients.find(r => r.email === where.email);
+                if (!recipient) {
+                    recipient = { id: `recipient-${recipients.length + 1}`, suppressedAt: null, suppressedReason: null, ...create };
+                    recipients.push(recipient!);
+                } else {
+                    recipient.consecutiveFailures += update.consecutiveFailures.increment;
+                    recipient.bounceCount += update.bounceCount.increment;
+                }
+                return { ...recipient! };
+            },
+            update: async ({ where, data }: any) => ({ ...Object.assign(recipients.find(r => r.id === where.id)!, data) }),
+            updateMany: async ({ where, data }: any) => {
+                const updated = recipients.filter(r => r.email === where.email && r.consecutiveFailures > where.consecutiveFailures.gt);
+                updated.forEach(r => Object.assign(r, data));
+                return { count: updated.length };
+            }
+        },
+        orderHeader: {
+            findFirst: async () => null
+        }
+    };
+    return prisma;
+}
+
+const bounce = Object.assign(new Error('550 Mailbox unavailable'), { responseCode: 550 });
+const timeout = Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' });
+
+/**
+ * Fails with each queued error in turn, then delivers
+ */
+function transporter(...failures: Error[]) {
+    const sent: string[] = [];
+    return {
+        sent,
+        sendMail: async (mail: { to: string }) => {
+            const failure = failures.shift();
+            if (failure) throw failure;
+            sent.push(mail.to);
+            return {};
+        }
+    };
+}
+
+const email = (overrides: Partial<OutgoingEmail> = {}): OutgoingEmail => ({
+    subject: 'Order ORD-000001 confirmed',
+    html: '<p>Thanks</p>',
+    text: 'Thanks',
+    templateKey: 'ORDER_CONFIRMATION',
+    templateVersion: 1,
+    ...overrides
+});
+
+const outbox = (prisma: ReturnType<typeof fakePrisma>, smtp: ReturnType<typeof transporter>) =>
+    new EmailOutbox(prisma as any, smtp as any, 'orders@hotbray.test', 'worker-1');
+
+describe('EmailOutbox.retryDelayMs', () => {
+    it('doubles from one minute per attempt up to an hour', () => {
+        expect([1, 2, 3, 4].map(EmailOutbox.retryDelayMs)).toEqual([60_000, 120_000, 240_000, 480_000]);
+        expect(EmailOutbox.retryDelayMs(7)).toBe(60 * 60 * 1000);
+        expect(EmailOutbox.retryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+});
+
+describe('EmailOutbox.isBounce', () => {
+    it('treats only SMTP 5xx replies as bounces', () => {
+        expect(EmailOutbox.isBounce(bounce)).toBe(true);
+        expect(EmailOutbox.isBounce({ responseCode: '554' })).toBe(true);
+        expect(EmailOutbox.isBounce({ responseCode: 451 })).toBe(false);
+        expect(EmailOutbox.isBounce(timeout)).toBe(false);
+        expect(EmailOutbox.isBounce(undefined)).toBe(false);
+    });
+});
+
+describe('EmailOutbox.runDue', () => {
+    it('retries a temporary failure without counting it against the address', async () => {
+        const prisma = fakePrisma();
+        const service = outbox(prisma, transporter(timeout));
+        await service.enqueue('buyer@dealer.test', email());
+
+        expect(await service.runDue()).toEqual({ sent: 0, retrying: 1, failed: 0 });
+        expect(prisma.emails[0]).toMatchObject({ status: 'QUEUED', errorMessage: 'Connection timeout' });
+        expect(prisma.recipients).toEqual([]);
+    });
+
+    it(`suppresses an address after ${SUPPRESS_AFTER_FAILURES} failed emails in a row and stops its queued mail`, async () => {
+        const prisma = fakePrisma();
+        const service = outbox(prisma, transporter(bounce, bounce, bounce));
+        for (let i = 0; i < 4; i++) {
+            await service.enqueue('Buyer@Dealer.test', email());
+        }
+
+        expect(await service.runDue()).toEqual({ sent: 0, retrying: 0, failed: 3 });
+        expect(prisma.recipients[0]).toMatchObject({ email: 'buyer@dealer.test', consecutiveFailures: 3, bounceCount: 3 });
+        expect(prisma.recipients[0].suppressedReason).toBe('3 emails in a row failed; last error: 550 Mailbox unavailable');
+        expect(prisma.emails[3]).toMatchObject({ status: 'SUPPRESSED', attempts: 0 });
+
+        const later = await service.enqueue('buyer@dealer.test', email());
+        expect(later.status).toBe('SUPPRESSED');
+    });
+
+    it('starts the count again after a delivered email', async () => {
+        const prisma = fakePrisma();
+        const service = outbox(prisma, transporter(bounce, bounce));
+        for (let i = 0; i < 3; i++) {
+            await service.enqueue('buyer@dealer.test', email());
+        }
+
+        expect(await service.runDue()).toEqual({ sent: 1, retrying: 0, failed: 2 });
+        expect(prisma.recipients[0]).toMatchObject({ consecutiveFailures: 0, suppressedAt: null });
+    });
+
+    it('fails an email whose attachment cannot be rendered without sending it or counting it against the address', async () => {
+        const prisma = fakePrisma();
+        const smtp = transporter();
+        const service = outbox(prisma, smtp);
+        for (let i = 0; i < SUPPRESS_AFTER_FAILURES; i++) {
+            await service.enqueue('buyer@dealer.test', email({ attachments: [{ type: 'ORDER_PDF', orderId: 'order-1' }] }));
+        }
+
+        expect(await service.runDue()).toEqual({ sent: 0, retrying: 0, failed: 3 });
+        expect(prisma.emails[0]).toMatchObject({ status: 'FAILED', errorMessage: 'Attachment could not be rendered: Order not found' });
+        expect(smtp.sent).toEqual([]);
+        expect(prisma.recipients).toEqual([]);
+    });
+});
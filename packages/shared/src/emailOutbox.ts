@@ -0,0 +1,392 @@
+import * as os from 'os';
+import nodemailer from 'nodemailer';
+import { PrismaClient, EmailLog, EmailRecipient, EmailStatus, Prisma } from 'db';
+import { OrderDocumentType, OrderPdfService } from './orderPdf';
+
+// Retry delay doubles per attempt: 1m, 2m, 4m... up to an hour
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A SENDING email older than this belongs to a worker that died mid-send
+const STALE_EMAIL_MS = 5 * 60 * 1000;
+
+// Emails in a row that end FAILED before the address is suppressed
+export const SUPPRESS_AFTER_FAILURES = 3;
+
+// Stored on the EmailLog row and rendered when the email is delivered, so resends get a current copy
+export interface EmailAttachmentRef {
+    type: 'ORDER_PDF';
+    orderId: string;
+    documentType?: OrderDocumentType;
+}
+
+export interface OutgoingEmail {
+    subject: string;
+    html: string;
+    text: string;
+    templateKey: string | null;
+    templateVersion: number | null;
+    attachments?: EmailAttachmentRef[];
+}
+
+interface ClaimedEmail {
+    id: string;
+    recipientEmail: string;
+    attempts: number;
+    maxAttempts: number;
+}
+
+export type EmailDeliveryOutcome = 'sent' | 'retrying' | 'failed';
+
+export interface EmailRunResult {
+    sent: number;
+    retrying: number;
+    failed: number;
+}
+
+export interface EmailLogFilters {
+    search?: string; // Recipient or subject
+    status?: EmailStatus;
+    templateKey?: string;
+    page?: number;
+    limit?: number;
+}
+
+export type EmailLogSummary = Omit<EmailLog, 'bodyText' | 'bodyHtml'>;
+
+export interface EmailLogDetail extends EmailLog {
+    recipient: EmailRecipient | null;
+}
+
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Every email goes through the EmailLog outbox: callers queue, the worker delivers with backoff until
+ * maxAttempts. SMTP 5xx replies are bounces and fail at once. After SUPPRESS_AFTER_FAILURES failed emails
+ * in a row an address is suppressed, and later emails to it are logged as SUPPRESSED without being sent.
+ */
+export class EmailOutbox {
+    private orderPdfs: OrderPdfService;
+
+    constructor(
+        private prisma: PrismaClient,
+        private transporter: nodemailer.Transporter = EmailOutbox.transportFromEnv(),
+        private from: string = process.env.EMAIL_FROM || 'noreply@hotbray.com',
+        private workerId: string = `${os.hostname()}:${process.pid}`
+    ) {
+        this.orderPdfs = new OrderPdfService(prisma);
+    }
+
+    /**
+     * EMAIL_HOST / EMAIL_PORT, defaulting to a local MailHog-style SMTP sink on 127.0.0.1:1025.
+     * EMAIL_USER / EMAIL_PASSWORD and EMAIL_SECURE=true for a real relay.
+     */
+    static transportFromEnv(env: NodeJS.ProcessEnv = process.env): nodemailer.Transporter {
+        const secure = env.EMAIL_SECURE === 'true';
+        return nodemailer.createTransport({
+            host: env.EMAIL_HOST || '127.0.0.1',
+            port: parseInt(env.EMAIL_PORT || '1025', 10),
+            secure,
+            ignoreTLS: !secure, // MailHog usually doesn't use SSL
+            auth: env.EMAIL_USER ? { user: env.EMAIL_USER, pass: env.EMAIL_PASSWORD || '' } : undefined,
+            connectionTimeout: 5000
+        });
+    }
+
+    static retryDelayMs(attempt: number): number {
+        return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+    }
+
+    // The SMTP server rejected the message for good (mailbox unknown, domain refused...)
+    static isBounce(error: any): boolean {
+        const code = Number(error?.responseCode);
+        return code >= 500 && code < 600;
+    }
+
+    /**
+     * Add an email to the outbox; logged as SUPPRESSED instead when the address is suppressed
+     */
+    async enqueue(to: string, email: OutgoingEmail, options: { resentFromId?: string } = {}): Promise<EmailLog> {
+        const recipient = await this.prisma.emailRecipient.findUnique({ where: { email: normalizeEmail(to) } });
+        const suppressed = !!recipient?.suppressedAt;
+
+        return this.prisma.emailLog.create({
+            data: {
+                recipientEmail: to,
+                subject: email.subject,
+                bodyText: email.text,
+                bodyHtml: email.html,
+                templateKey: email.templateKey,
+                templateVersion: email.templateVersion,
+                status: suppressed ? EmailStatus.SUPPRESSED : EmailStatus.QUEUED,
+                errorMessage: suppressed ? `Recipient suppressed: ${recipient!.suppressedReason}` : null,
+                resentFromId: options.resentFromId,
+                attachments: email.attachments?.length ? (email.attachments as unknown as Prisma.InputJsonArray) : undefined
+            }
+        });
+    }
+
+    /**
+     * Deliver everything that is due, up to `limit` emails
+     */
+    async runDue(limit: number = 50): Promise<EmailRunResult> {
+        const result: EmailRunResult = { sent: 0, retrying: 0, failed: 0 };
+        await this.recoverStale();
+
+        for (let i = 0; i < limit; i++) {
+            const claimed = await this.claimNext();
+            if (!claimed) break;
+            result[await this.send(claimed)]++;
+        }
+
+        return result;
+    }
+
+    /**
+     * Try one queued email straight away instead of waiting for the worker, e.g. an admin's test send
+     */
+    async deliverNow(id: string): Promise<EmailDeliveryOutcome | null> {
+        const rows = await this.prisma.$queryRaw<ClaimedEmail[]>`
+            UPDATE "EmailLog"
+            SET "status" = 'SENDING',
+                "attempts" = "attempts" + 1,
+                "lockedBy" = ${this.workerId},
+                "lockedAt" = NOW(),
+                "updatedAt" = NOW()
+            WHERE "id" = ${id} AND "status" = 'QUEUED'
+            RETURNING "id", "recipientEmail", "attempts", "maxAttempts"
+        `;
+        return rows[0] ? this.send(rows[0]) : null;
+    }
+
+    async list(filters: EmailLogFilters = {}): Promise<{ emails: EmailLogSummary[]; total: number }> {
+        const { search, status, templateKey, page = 1, limit = 50 } = filters;
+        const where: Prisma.EmailLogWhereInput = {
+            ...(status && { status }),
+            ...(templateKey && { templateKey }),
+            ...(search && {
+                OR: [
+                    { recipientEmail: { contains: search, mode: 'insensitive' } },
+                    { subject: { contains: search, mode: 'insensitive' } }
+                ]
+            })
+        };
+
+        const [emails, total] = await Promise.all([
+            this.prisma.emailLog.findMany({
+                where,
+                omit: { bodyText: true, bodyHtml: true },
+                orderBy: { createdAt: 'desc' },
+                skip: (page - 1) * limit,
+                take: limit
+            }),
+            this.prisma.emailLog.count({ where })
+        ]);
+
+        return { emails, total };
+    }
+
+    async get(id: string): Promise<EmailLogDetail> {
+        const email = await this.prisma.emailLog.findUnique({ where: { id } });
+        if (!email) {
+            throw new Error('Email not found');
+        }
+
+        const recipient = await this.prisma.emailRecipient.findUnique({ where: { email: normalizeEmail(email.recipientEmail) } });
+        return { ...email, recipient };
+    }
+
+    /**
+     * Queue a fresh copy of a logged email; the original row is kept as it was
+     */
+    async resend(id: string): Promise<EmailLog> {
+        const original = await this.prisma.emailLog.findUnique({ where: { id } });
+        if (!original) {
+            throw new Error('Email not found');
+        }
+        if (original.status === EmailStatus.QUEUED || original.status === EmailStatus.SENDING) {
+            throw new Error(`This email is still ${original.status.toLowerCase()}`);
+        }
+
+        const recipient = await this.prisma.emailRecipient.findUnique({ where: { email: normalizeEmail(original.recipientEmail) } });
+        if (recipient?.suppressedAt) {
+            throw new Error(`${original.recipientEmail} is suppressed; lift the suppression before resending`);
+        }
+
+        return this.enqueue(original.recipientEmail, {
+            subject: original.subject,
+            html: original.bodyHtml ?? '',
+            text: original.bodyText,
+            templateKey: original.templateKey,
+            templateVersion: original.templateVersion,
+            attachments: (original.attachments as unknown as EmailAttachmentRef[] | null) ?? undefined
+        }, { resentFromId: original.id });
+    }
+
+    /**
+     * Addresses with recent failures or a suppression, worst first
+     */
+    async listRecipients(suppressedOnly: boolean = false): Promise<EmailRecipient[]> {
+        return this.prisma.emailRecipient.findMany({
+            where: suppressedOnly ? { suppressedAt: { not: null } } : { OR: [{ suppressedAt: { not: null } }, { consecutiveFailures: { gt: 0 } }] },
+            orderBy: [{ suppressedAt: { sort: 'desc', nulls: 'last' } }, { consecutiveFailures: 'desc' }],
+            take: 200
+        });
+    }
+
+    async liftSuppression(email: string): Promise<EmailRecipient> {
+        const recipient = await this.prisma.emailRecipient.findUnique({ where: { email: normalizeEmail(email) } });
+        if (!recipient) {
+            throw new Error('Recipient not found');
+        }
+        if (!recipient.suppressedAt) {
+            throw new Error(`${recipient.email} is not suppressed`);
+        }
+
+        return this.prisma.emailRecipient.update({
+            where: { id: recipient.id },
+            data: { suppressedAt: null, suppressedReason: null, consecutiveFailures: 0 }
+        });
+    }
+
+    /**
+     * FOR UPDATE SKIP LOCKED lets several workers drain the outbox safely
+     */
+    private async claimNext(): Promise<ClaimedEmail | null> {
+        const rows = await this.prisma.$queryRaw<ClaimedEmail[]>`
+            UPDATE "EmailLog"
+            SET "status" = 'SENDING',
+                "attempts" = "attempts" + 1,
+                "lockedBy" = ${this.workerId},
+                "lockedAt" = NOW(),
+                "updatedAt" = NOW()
+            WHERE "id" = (
+                SELECT "id" FROM "EmailLog"
+                WHERE "status" = 'QUEUED' AND "nextAttemptAt" <= NOW()
+                ORDER BY "nextAttemptAt" ASC
+                FOR UPDATE SKIP LOCKED
+                LIMIT 1
+            )
+            RETURNING "id", "recipientEmail", "attempts", "maxAttempts"
+        `;
+        return rows[0] ?? null;
+    }
+
+    private async recoverStale(): Promise<void> {
+        await this.prisma.emailLog.updateMany({
+            where: {
+                status: EmailStatus.SENDING,
+                lockedAt: { lt: new Date(Date.now() - STALE_EMAIL_MS) }
+            },
+            data: { status: EmailStatus.QUEUED, lockedBy: null, lockedAt: null, nextAttemptAt: new Date() }
+        });
+    }
+
+    private async send(claimed: ClaimedEmail): Promise<EmailDeliveryOutcome> {
+        const email = await this.prisma.emailLog.findUniqueOrThrow({ where: { id: claimed.id } });
+
+        // A document we cannot build is our fault, not the address's, so it fails the email without counting against it
+        let attachments;
+        try {
+            attachments = await this.renderAttachments(email.attachments as unknown as EmailAttachmentRef[] | null);
+        } catch (error: any) {
+            const message = `Attachment could not be rendered: ${error?.message || String(error)}`;
+            await this.prisma.emailLog.update({
+                where: { id: claimed.id },
+                data: { status: EmailStatus.FAILED, errorMessage: message, lockedBy: null, lockedAt: null }
+            });
+
+            console.error(`❌ [Email] ${claimed.id} to ${claimed.recipientEmail} not sent: ${message}`);
+            return 'failed';
+        }
+
+        try {
+            await this.transporter.sendMail({
+                from: this.from,
+                to: email.recipientEmail,
+                subject: email.subject,
+                text: email.bodyText,
+                ...(email.bodyHtml && { html: email.bodyHtml }),
+                attachments
+            });
+
+            await this.prisma.$transaction([
+                this.prisma.emailLog.update({
+                    where: { id: claimed.id },
+                    data: { status: EmailStatus.SENT, sentAt: new Date(), errorMessage: null, lockedBy: null, lockedAt: null }
+                }),
+                this.prisma.emailRecipient.updateMany({
+                    where: { email: normalizeEmail(claimed.recipientEmail), consecutiveFailures: { gt: 0 } },
+                    data: { consecutiveFailures: 0 }
+                })
+            ]);
+            return 'sent';
+        } catch (error: any) {
+            const bounced = EmailOutbox.isBounce(error);
+            const exhausted = bounced || claimed.attempts >= claimed.maxAttempts;
+            const message = error?.message || String(error);
+
+            await this.prisma.emailLog.update({
+                where: { id: claimed.id },
+                data: {
+                    status: exhausted ? EmailStatus.FAILED : EmailStatus.QUEUED,
+                    nextAttemptAt: new Date(Date.now() + EmailOutbox.retryDelayMs(claimed.attempts)),
+                    errorMessage: message,
+                    lockedBy: null,
+                    lockedAt: null
+                }
+            });
+            if (exhausted) {
+                await this.recordFailure(claimed.recipientEmail, message, bounced);
+            }
+
+            console.error(`❌ [Email] Attempt ${claimed.attempts} to ${claimed.recipientEmail} ${bounced ? 'bounced' : 'failed'}: ${message}`);
+            return exhausted ? 'failed' : 'retrying';
+        }
+    }
+
+    private async renderAttachments(refs: EmailAttachmentRef[] | null): Promise<Array<{ filename: string; content: Buffer; contentType: string }>> {
+        const attachments = [];
+        for (const ref of refs ?? []) {
+            if (ref.type === 'ORDER_PDF') {
+                const pdf = await this.orderPdfs.render(ref.orderId, ref.documentType);
+                attachments.push({ filename: pdf.fileName, content: pdf.content, contentType: pdf.contentType });
+            }
+        }
+        return attachments;
+    }
+
+    /**
+     * Count a failed email against its address and suppress the address once it keeps failing
+     */
+    private async recordFailure(recipientEmail: string, message: string, bounced: boolean): Promise<void> {
+        const email = normalizeEmail(recipientEmail);
+        const recipient = await this.prisma.emailRecipient.upsert({
+            where: { email },
+            update: {
+                consecutiveFailures: { increment: 1 },
+                bounceCount: { increment: bounced ? 1 : 0 },
+                lastError: message,
+                lastFailureAt: new Date()
+            },
+            create: { email, consecutiveFailures: 1, bounceCount: bounced ? 1 : 0, lastError: message, lastFailureAt: new Date() }
+        });
+
+        if (recipient.suppressedAt || recipient.consecutiveFailures < SUPPRESS_AFTER_FAILURES) return;
+
+        const reason = `${recipient.consecutiveFailures} emails in a row failed; last error: ${message}`;
+        await this.prisma.$transaction([
+            this.prisma.emailRecipient.update({
+                where: { id: recipient.id },
+                data: { suppressedAt: new Date(), suppressedReason: reason }
+            }),
+            this.prisma.emailLog.updateMany({
+                where: { recipientEmail: { equals: email, mode: 'insensitive' }, status: EmailStatus.QUEUED },
+                data: { status: EmailStatus.SUPPRESSED, errorMessage: `Recipient suppressed: ${reason}` }
+            })
+        ]);
+        console.warn(`⛔ [Email] Suppressed ${email}: ${reason}`);
+    }
+}
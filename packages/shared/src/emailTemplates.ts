@@ -0,0 +1,205 @@
+export const EMAIL_TEMPLATE_KEYS = [
+    'ORDER_CONFIRMATION',
+    'PASSWORD_RESET',
+    'PASSWORD_RESET_LINK',
+    'ACCOUNT_CREATED',
+    'ACCOUNT_SUSPENDED',
+    'IMPORT_FAILED',
+    'BACKORDER_STOCK',
+    'ORDER_APPROVAL_REQUESTED',
+    'ORDER_REJECTED'
+] as const;
+
+export type EmailTemplateKey = typeof EMAIL_TEMPLATE_KEYS[number];
+
+export interface EmailTemplateContent {
+    subject: string;
+    bodyHtml: string;
+    bodyText: string;
+}
+
+export interface EmailTemplateDefinition extends EmailTemplateContent {
+    name: string;
+    // What the preview is rendered against, and the variables it provides
+    previewSource: 'ORDER' | 'DEALER' | 'IMPORT';
+    variables: string[];
+}
+
+// Shared page chrome for the HTML part; {{{content}}} is the template's own body
+export const EMAIL_LAYOUT_HTML = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:0;background:#f1f5f9;font-family:Arial,Helvetica,sans-serif;color:#0f172a;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f1f5f9;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;padding:32px;">
+<tr><td style="font-size:20px;font-weight:bold;color:#1d4ed8;padding-bottom:16px;">HotBray Portal</td></tr>
+<tr><td style="font-size:14px;line-height:1.6;">{{{content}}}</td></tr>
+<tr><td style="font-size:12px;color:#64748b;padding-top:24px;border-top:1px solid #e2e8f0;">This email was sent by the HotBray dealer portal.</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+/**
+ * Built-in versions, used until an admin publishes a template of their own (EmailTemplate table)
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+    ORDER_CONFIRMATION: {
+        name: 'Order confirmation',
+        previewSource: 'ORDER',
+        variables: ['firstName', 'companyName', 'accountNo', 'orderNo', 'poRef', 'orderDate', 'dispatchMethod', 'currency', 'subtotal', 'total', 'lines[].productCode', 'lines[].description', 'lines[].qty', 'lines[].unitPrice', 'lines[].lineTotal', 'lines[].backorderedQty', 'hasBackorders'],
+        subject: 'Order confirmation {{orderNo}}',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>Thank you for your order. We have received order <strong>{{orderNo}}</strong>{{#if poRef}} (your ref {{poRef}}){{/if}} for {{companyName}}.</p>
+<table width="100%" cellpadding="6" cellspacing="0" style="border-collapse:collapse;font-size:13px;">
+<tr style="background:#f8fafc;"><th align="left">Part</th><th align="left">Description</th><th align="right">Qty</th><th align="right">Price</th><th align="right">Total</th></tr>
+{{#each lines}}<tr style="border-top:1px solid #e2e8f0;"><td>{{productCode}}</td><td>{{description}}{{#if backorderedQty}}<br><span style="color:#b45309;">{{backorderedQty}} on backorder</span>{{/if}}</td><td align="right">{{qty}}</td><td align="right">{{unitPrice}}</td><td align="right">{{lineTotal}}</td></tr>
+{{/each}}</table>
+<p style="text-align:right;"><strong>Total: {{currency}} {{total}}</strong></p>
+{{#if hasBackorders}}<p>Backordered items will be shipped as soon as stock arrives.</p>{{/if}}`,
+        bodyText: `Hello {{firstName}},
+
+Thank you for your order. We have received order {{orderNo}}{{#if poRef}} (your ref {{poRef}}){{/if}} for {{companyName}}.
+
+{{#each lines}}- {{productCode}} {{description}}: {{qty}} x {{unitPrice}} = {{lineTotal}}{{#if backorderedQty}} ({{backorderedQty}} on backorder){{/if}}
+{{/each}}
+Total: {{currency}} {{total}}
+{{#if hasBackorders}}
+Backordered items will be shipped as soon as stock arrives.{{/if}}`
+    },
+    PASSWORD_RESET: {
+        name: 'Password reset',
+        previewSource: 'DEALER',
+        variables: ['firstName', 'email', 'password'],
+        subject: 'Password Reset Notification',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>Your password has been reset. Your new temporary password is: <strong>{{password}}</strong></p>
+<p>Please change it as soon as you log in.</p>`,
+        bodyText: `Hello {{firstName}},
+
+Your password has been reset. Your new temporary password is: {{password}}
+
+Please change it as soon as you log in.`
+    },
+    PASSWORD_RESET_LINK: {
+        name: 'Forgot password link',
+        previewSource: 'DEALER',
+        variables: ['firstName', 'email', 'resetUrl', 'expiresInMinutes'],
+        subject: 'Reset your HotBray Portal password',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>We received a request to reset the password for {{email}}. Use the link below to choose a new one:</p>
+<p><a href="{{resetUrl}}">Reset your password</a></p>
+<p>The link works once and expires in {{expiresInMinutes}} minutes. If you did not ask for this, you can ignore this email; your password has not changed.</p>`,
+        bodyText: `Hello {{firstName}},
+
+We received a request to reset the password for {{email}}. Use the link below to choose a new one:
+
+{{resetUrl}}
+
+The link works once and expires in {{expiresInMinutes}} minutes. If you did not ask for this, you can ignore this email; your password has not changed.`
+    },
+    ACCOUNT_CREATED: {
+        name: 'Account created',
+        previewSource: 'DEALER',
+        variables: ['firstName', 'email', 'password'],
+        subject: 'Welcome to HotBray Portal',
+        bodyHtml: `<p>Welcome to HotBray Portal, {{firstName}}. Your account has been created successfully.</p>
+<p>Login: {{email}}<br>Password: {{password}}</p>
+<p>Please change your password after your first login.</p>`,
+        bodyText: `Welcome to HotBray Portal, {{firstName}}. Your account has been created successfully.
+
+Login: {{email}}
+Password: {{password}}
+
+Please change your password after your first login.`
+    },
+    ACCOUNT_SUSPENDED: {
+        name: 'Account suspended',
+        previewSource: 'DEALER',
+        variables: ['firstName', 'companyName'],
+        subject: 'Account Suspended',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>Your HotBray Portal account has been suspended. Please contact customer service for more information or to resolve this issue.</p>`,
+        bodyText: `Hello {{firstName}},
+
+Your HotBray Portal account has been suspended. Please contact customer service for more information or to resolve this issue.`
+    },
+    IMPORT_FAILED: {
+        name: 'Import failed',
+        previewSource: 'IMPORT',
+        variables: ['firstName', 'importType', 'fileName', 'batchId', 'errorMessage', 'totalRows', 'invalidRows'],
+        subject: 'Import failed: {{fileName}}',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>The {{importType}} import of <strong>{{fileName}}</strong> failed.</p>
+{{#if errorMessage}}<p style="color:#b91c1c;">{{errorMessage}}</p>{{/if}}
+{{#if invalidRows}}<p>{{invalidRows}} of {{totalRows}} rows were invalid. The row errors are listed on the Imports screen.</p>{{/if}}
+<p>Batch: {{batchId}}</p>`,
+        bodyText: `Hello {{firstName}},
+
+The {{importType}} import of {{fileName}} failed.
+{{#if errorMessage}}
+{{errorMessage}}
+{{/if}}{{#if invalidRows}}
+{{invalidRows}} of {{totalRows}} rows were invalid. The row errors are listed on the Imports screen.
+{{/if}}
+Batch: {{batchId}}`
+    },
+    BACKORDER_STOCK: {
+        name: 'Backorder stock arrived',
+        previewSource: 'DEALER',
+        variables: ['firstName', 'companyName', 'lineCount', 'lines[].part', 'lines[].description', 'lines[].inWh', 'lines[].qtyOutstanding', 'lines[].ourNo', 'lines[].yourOrderNo'],
+        subject: 'Backordered parts now in warehouse ({{lineCount}})',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>The following backordered parts for {{companyName}} have arrived in our warehouse and are ready to ship:</p>
+<table width="100%" cellpadding="6" cellspacing="0" style="border-collapse:collapse;font-size:13px;">
+<tr style="background:#f8fafc;"><th align="left">Part</th><th align="left">Order</th><th align="right">In warehouse</th><th align="right">Outstanding</th></tr>
+{{#each lines}}<tr style="border-top:1px solid #e2e8f0;"><td>{{part}}{{#if description}}<br><span style="color:#64748b;">{{description}}</span>{{/if}}</td><td>{{ourNo}}{{#if yourOrderNo}}<br>your ref {{yourOrderNo}}{{/if}}</td><td align="right">{{inWh}}</td><td align="right">{{qtyOutstanding}}</td></tr>
+{{/each}}</table>
+<p>You can see all outstanding backorders in the portal. To stop these emails, turn off stock notifications on the Backorders page.</p>`,
+        bodyText: `Hello {{firstName}},
+
+The following backordered parts for {{companyName}} have arrived in our warehouse and are ready to ship:
+
+{{#each lines}}- {{part}}{{#if description}} {{description}}{{/if}}: {{inWh}} in warehouse of {{qtyOutstanding}} outstanding (order {{ourNo}}{{#if yourOrderNo}}, your ref {{yourOrderNo}}{{/if}})
+{{/each}}
+You can see all outstanding backorders in the portal. To stop these emails, turn off stock notifications on the Backorders page.`
+    },
+    ORDER_APPROVAL_REQUESTED: {
+        name: 'Order awaiting approval',
+        previewSource: 'ORDER',
+        variables: ['firstName', 'companyName', 'accountNo', 'orderNo', 'poRef', 'orderDate', 'placedBy', 'currency', 'total', 'lines[].productCode', 'lines[].description', 'lines[].qty', 'lines[].unitPrice', 'lines[].lineTotal'],
+        subject: 'Order {{orderNo}} needs your approval',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>{{placedBy}} has placed order <strong>{{orderNo}}</strong>{{#if poRef}} (ref {{poRef}}){{/if}} for {{companyName}}. It is over their order limit and will not be processed until it is approved.</p>
+<table width="100%" cellpadding="6" cellspacing="0" style="border-collapse:collapse;font-size:13px;">
+<tr style="background:#f8fafc;"><th align="left">Part</th><th align="left">Description</th><th align="right">Qty</th><th align="right">Price</th><th align="right">Total</th></tr>
+{{#each lines}}<tr style="border-top:1px solid #e2e8f0;"><td>{{productCode}}</td><td>{{description}}</td><td align="right">{{qty}}</td><td align="right">{{unitPrice}}</td><td align="right">{{lineTotal}}</td></tr>
+{{/each}}</table>
+<p style="text-align:right;"><strong>Total: {{currency}} {{total}}</strong></p>
+<p>Approve, change or reject it from Approvals in the portal.</p>`,
+        bodyText: `Hello {{firstName}},
+
+{{placedBy}} has placed order {{orderNo}}{{#if poRef}} (ref {{poRef}}){{/if}} for {{companyName}}. It is over their order limit and will not be processed until it is approved.
+
+{{#each lines}}- {{productCode}} {{description}}: {{qty}} x {{unitPrice}} = {{lineTotal}}
+{{/each}}
+Total: {{currency}} {{total}}
+
+Approve, change or reject it from Approvals in the portal.`
+    },
+    ORDER_REJECTED: {
+        name: 'Order rejected',
+        previewSource: 'ORDER',
+        variables: ['firstName', 'companyName', 'orderNo', 'poRef', 'orderDate', 'decidedBy', 'rejectionReason', 'currency', 'total'],
+        subject: 'Order {{orderNo}} was not approved',
+        bodyHtml: `<p>Hello {{firstName}},</p>
+<p>Your order <strong>{{orderNo}}</strong>{{#if poRef}} (ref {{poRef}}){{/if}} of {{orderDate}} for {{currency}} {{total}} was not approved{{#if decidedBy}} by {{decidedBy}}{{/if}} and will not be processed.</p>
+{{#if rejectionReason}}<p>Reason: {{rejectionReason}}</p>{{/if}}`,
+        bodyText: `Hello {{firstName}},
+
+Your order {{orderNo}}{{#if poRef}} (ref {{poRef}}){{/if}} of {{orderDate}} for {{currency}} {{total}} was not approved{{#if decidedBy}} by {{decidedBy}}{{/if}} and will not be processed.
+{{#if rejectionReason}}
+Reason: {{rejectionReason}}{{/if}}`
+    }
+};
@@ -1,2 +1,6 @@
 export * from './email';
+export * from './emailOutbox';
+export * from './emailTemplates';
+export * from './orderPdf';
+export * from './templateRenderer';
 export * from './schemas/dealer';
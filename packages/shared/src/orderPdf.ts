@@ -0,0 +1,299 @@
+import PDFDocument from 'pdfkit';
+import { PrismaClient } from 'db';
+
+export const ORDER_DOCUMENT_TYPES = ['CONFIRMATION', 'PROFORMA'] as const;
+
+export type OrderDocumentType = typeof ORDER_DOCUMENT_TYPES[number];
+
+export interface OrderDocumentLine {
+    productCode: string;
+    description: string;
+    bandCode: string;
+    qty: number;
+    unitPrice: number;
+    lineTotal: number;
+    backorderedQty: number;
+}
+
+export interface OrderDocument {
+    type: OrderDocumentType;
+    orderNo: string;
+    orderDate: Date;
+    status: string;
+    poRef: string | null;
+    dispatchMethod: string | null;
+    notes: string | null;
+    currency: string;
+    subtotal: number;
+    total: number;
+    account: {
+        accountNo: string;
+        companyName: string;
+        contactName: string | null;
+        email: string | null;
+        phone: string | null;
+        billingAddress: string[]; // Non-empty address lines, in print order
+    };
+    placedBy: string;
+    lines: OrderDocumentLine[];
+}
+
+export interface OrderPdf {
+    fileName: string;
+    contentType: string;
+    content: Buffer;
+}
+
+const TITLES: Record<OrderDocumentType, string> = {
+    CONFIRMATION: 'Order Acknowledgement',
+    PROFORMA: 'Proforma Invoice'
+};
+
+const FOOTNOTES: Record<OrderDocumentType, string> = {
+    CONFIRMATION: 'Thank you for your order. Backordered quantities are shipped as soon as stock arrives.',
+    PROFORMA: 'This proforma invoice is not a VAT invoice. Goods are released on receipt of payment. Prices exclude VAT.'
+};
+
+// A4 in points, with 50pt margins
+const PAGE_BOTTOM = 841.89 - 50;
+const LEFT = 50;
+const WIDTH = 595.28 - 100;
+
+// Table columns: x offset from LEFT, width, alignment
+const COLUMNS = [
+    { label: 'Part', x: 0, width: 95, align: 'left' },
+    { label: 'Description', x: 95, width: 170, align: 'left' },
+    { label: 'Band', x: 265, width: 45, align: 'left' },
+    { label: 'Qty', x: 310, width: 40, align: 'right' },
+    { label: 'Unit Price', x: 350, width: 70, align: 'right' },
+    { label: 'Line Total', x: 420, width: 75, align: 'right' }
+] as const;
+
+function money(value: number, currency: string): string {
+    return `${currency} ${value.toFixed(2)}`;
+}
+
+function formatDate(value: Date): string {
+    return value.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+/**
+ * Printable order acknowledgement / proforma for an OrderHeader, rendered in-process with PDFKit
+ */
+export class OrderPdfService {
+    constructor(private prisma: PrismaClient) { }
+
+    /**
+     * Limit to one dealer's orders with dealerAccountId; throws 'Order not found' otherwise
+     */
+    async render(orderId: string, type: OrderDocumentType = 'CONFIRMATION', dealerAccountId?: string): Promise<OrderPdf> {
+        const document = await this.load(orderId, type, dealerAccountId);
+        const prefix = type === 'PROFORMA' ? 'proforma' : 'order';
+
+        return {
+            fileName: `${prefix}-${document.orderNo.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`,
+            contentType: 'application/pdf',
+            content: await OrderPdfService.build(document)
+        };
+    }
+
+    async load(orderId: string, type: OrderDocumentType, dealerAccountId?: string): Promise<OrderDocument> {
+        const order = await this.prisma.orderHeader.findFirst({
+            where: { id: orderId, ...(dealerAccountId && { dealerAccountId }) },
+            include: {
+                lines: { orderBy: { productCodeSnapshot: 'asc' } },
+                dealerAccount: true,
+                dealerUser: { include: { user: { select: { email: true } } } }
+            }
+        });
+        if (!order) {
+            throw new Error('Order not found');
+        }
+
+        const account = order.dealerAccount;
+        const contactName = [account.contactFirstName, account.contactLastName].filter(Boolean).join(' ');
+        const placedByName = [order.dealerUser.firstName, order.dealerUser.lastName].filter(Boolean).join(' ');
+
+        return {
+            type,
+            orderNo: order.orderNo,
+            orderDate: order.createdAt,
+            status: order.status,
+            poRef: order.poRef,
+            dispatchMethod: order.dispatchMethod,
+            notes: order.notes,
+            currency: order.currency,
+            subtotal: Number(order.subtotal),
+            total: Number(order.total),
+            account: {
+                accountNo: account.accountNo,
+                companyName: account.companyName,
+                contactName: contactName || null,
+                email: account.mainEmail,
+                phone: account.phone,
+                billingAddress: [
+                    account.billingLine1,
+                    account.billingLine2,
+                    account.billingCity,
+                    account.billingPostcode,
+                    account.billingCountry
+                ].filter((line): line is string => !!line?.trim())
+            },
+            placedBy: placedByName ? `${placedByName} (${order.dealerUser.user.email})` : order.dealerUser.user.email,
+            lines: order.lines.map(line => ({
+                productCode: line.productCodeSnapshot,
+                description: line.descriptionSnapshot,
+                bandCode: line.bandCodeSnapshot,
+                qty: line.qty,
+                unitPrice: Number(line.unitPriceSnapshot),
+                lineTotal: Number(line.unitPriceSnapshot) * line.qty,
+                backorderedQty: line.backorderedQty
+            }))
+        };
+    }
+
+    static build(document: OrderDocument): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const doc = new PDFDocument({
+                size: 'A4',
+                margin: 50,
+                info: { Title: `${TITLES[document.type]} ${document.orderNo}`, Author: 'HotBray' }
+            });
+            const chunks: Buffer[] = [];
+            doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+            doc.on('end', () => resolve(Buffer.concat(chunks)));
+            doc.on('error', reject);
+
+            OrderPdfService.drawHeader(doc, document);
+            let y = OrderPdfService.drawAddresses(doc, document);
+            y = OrderPdfService.drawLines(doc, document, y + 20);
+            OrderPdfService.drawTotals(doc, document, y + 10);
+
+            doc.end();
+        });
+    }
+
+    private static drawHeader(doc: PDFKit.PDFDocument, document: OrderDocument) {
+        doc.font('Helvetica-Bold').fontSize(20).fillColor('#1d4ed8').text('HotBray', LEFT, 50);
+        doc.font('Helvetica').fontSize(9).fillColor('#64748b').text('Dealer Portal', LEFT, 74);
+
+        doc.font('Helvetica-Bold').fontSize(16).fillColor('#0f172a')
+            .text(TITLES[document.type], LEFT, 50, { width: WIDTH, align: 'right' });
+
+        const details: Array<[string, string]> = [
+            ['Order No', document.orderNo],
+            ['Order Date', formatDate(document.orderDate)],
+            ['Your PO Ref', document.poRef || '-'],
+            ['Dispatch', document.dispatchMethod || '-'],
+            ['Status', document.status]
+        ];
+        let y = 74;
+        for (const [label, value] of details) {
+            doc.font('Helvetica').fontSize(9).fillColor('#64748b').text(label, LEFT + WIDTH - 220, y, { width: 80 });
+            doc.font('Helvetica-Bold').fillColor('#0f172a').text(value, LEFT + WIDTH - 140, y, { width: 140, align: 'right' });
+            y += 13;
+        }
+    }
+
+    private static drawAddresses(doc: PDFKit.PDFDocument, document: OrderDocument): number {
+        const { account } = document;
+        let y = 150;
+
+        doc.font('Helvetica-Bold').fontSize(9).fillColor('#64748b').text('BILL TO', LEFT, y);
+        y += 13;
+        doc.font('Helvetica-Bold').fontSize(10).fillColor('#0f172a').text(account.companyName, LEFT, y, { width: 250 });
+        y = doc.y;
+        doc.font('Helvetica').fontSize(9);
+        for (const line of [...account.billingAddress, `Account ${account.accountNo}`]) {
+            doc.text(line, LEFT, y, { width: 250 });
+            y = doc.y;
+        }
+
+        let right = 163;
+        const contact = [account.contactName, account.email, account.phone].filter((v): v is string => !!v);
+        if (contact.length > 0) {
+            doc.font('Helvetica-Bold').fontSize(9).fillColor('#64748b').text('CONTACT', LEFT + 280, 150);
+            doc.font('Helvetica').fillColor('#0f172a');
+            for (const line of contact) {
+                doc.text(line, LEFT + 280, right, { width: WIDTH - 280 });
+                right = doc.y;
+            }
+        }
+        doc.font('Helvetica').fontSize(9).fillColor('#64748b').text(`Placed by ${document.placedBy}`, LEFT + 280, right + 4, { width: WIDTH - 280 });
+        right = doc.y;
+
+        return Math.max(y, right);
+    }
+
+    private static drawTableHeader(doc: PDFKit.PDFDocument, y: number): number {
+        doc.rect(LEFT, y, WIDTH, 18).fill('#f1f5f9');
+        doc.font('Helvetica-Bold').fontSize(8).fillColor('#334155');
+        for (const column of COLUMNS) {
+            doc.text(column.label.toUpperCase(), LEFT + column.x + 4, y + 5, { width: column.width - 8, align: column.align });
+        }
+        return y + 22;
+    }
+
+    private static drawLines(doc: PDFKit.PDFDocument, document: OrderDocument, y: number): number {
+        y = OrderPdfService.drawTableHeader(doc, y);
+
+        for (const line of document.lines) {
+            const description = line.backorderedQty > 0
+                ? `${line.description}\n${line.backorderedQty} on backorder`
+                : line.description;
+            doc.font('Helvetica').fontSize(9);
+            const rowHeight = Math.max(doc.heightOfString(description, { width: COLUMNS[1].width - 8 }), 11) + 8;
+
+            // Start a new page (repeating the column headings) when the row would run past the margin
+            if (y + rowHeight > PAGE_BOTTOM - 80) {
+                doc.addPage();
+                y = OrderPdfService.drawTableHeader(doc, 50);
+            }
+
+            const cells = [
+                line.productCode,
+                description,
+                line.bandCode,
+                String(line.qty),
+                money(line.unitPrice, document.currency),
+                money(line.lineTotal, document.currency)
+            ];
+            doc.fillColor('#0f172a');
+            COLUMNS.forEach((column, index) => {
+                doc.font(index === 0 ? 'Helvetica-Bold' : 'Helvetica')
+                    .text(cells[index], LEFT + column.x + 4, y, { width: column.width - 8, align: column.align });
+            });
+
+            y += rowHeight;
+            doc.moveTo(LEFT, y - 4).lineTo(LEFT + WIDTH, y - 4).lineWidth(0.5).strokeColor('#e2e8f0').stroke();
+        }
+
+        return y;
+    }
+
+    private static drawTotals(doc: PDFKit.PDFDocument, document: OrderDocument, y: number) {
+        if (y > PAGE_BOTTOM - 100) {
+            doc.addPage();
+            y = 50;
+        }
+
+        const rows: Array<[string, string, boolean]> = [
+            ['Subtotal', money(document.subtotal, document.currency), false],
+            ['Total', money(document.total, document.currency), true]
+        ];
+        for (const [label, value, bold] of rows) {
+            doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 11 : 9).fillColor('#0f172a');
+            doc.text(label, LEFT + WIDTH - 200, y, { width: 100 });
+            doc.text(value, LEFT + WIDTH - 100, y, { width: 100, align: 'right' });
+            y += bold ? 18 : 14;
+        }
+
+        y += 16;
+        if (document.notes) {
+            doc.font('Helvetica-Bold').fontSize(9).fillColor('#64748b').text('NOTES', LEFT, y);
+            doc.font('Helvetica').fillColor('#0f172a').text(document.notes, LEFT, y + 13, { width: WIDTH });
+            y = doc.y + 12;
+        }
+        doc.font('Helvetica').fontSize(8).fillColor('#64748b').text(FOOTNOTES[document.type], LEFT, y, { width: WIDTH });
+    }
+}
@@ -21,6 +21,14 @@ export const CheckoutSchema = z.object({
     notes: z.string().max(500).optional(),
 })
 
+// Cart-less order placement for partner integrations
+export const OrderCreateSchema = CheckoutSchema.extend({
+    lines: z.array(z.object({
+        productCode: z.string().min(1).max(100),
+        qty: z.number().int().positive().max(9999),
+    })).min(1).max(500),
+})
+
 export const CartItemSchema = z.object({
     productId: z.string().uuid(),
     qty: z.number().int().positive().max(9999),
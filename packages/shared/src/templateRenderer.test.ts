@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, TemplateSyntaxError } from './templateRenderer';
+
+const html = (source: string, data: Record<string, any>) => renderTemplate(source, data, { html: true });
+const text = (source: string, data: Record<string, any>) => renderTemplate(source, data, { html: false });
+
+describe('renderTemplate values', () => {
+    it('escapes values in HTML but not in plain text', () => {
+        const data = { name: `<b>Tom & "Jerry's"</b>` };
+
+        expect(html('Hi {{name}}', data)).toBe('Hi &lt;b&gt;Tom &amp; &quot;Jerry&#39;s&quot;&lt;/b&gt;');
+        expect(text('Hi {{name}}', data)).toBe(`Hi <b>Tom & "Jerry's"</b>`);
+    });
+
+    it('never escapes triple-stash values', () => {
+        expect(html('{{{banner}}}', { banner: '<p>Closed Monday</p>' })).toBe('<p>Closed Monday</p>');
+    });
+
+    it('follows dotted paths and renders missing or null values as blanks', () => {
+        const data = { order: { orderNo: 'ORD-000001', dealer: { name: 'Harbour Motors' }, poRef: null } };
+
+        expect(text('{{order.orderNo}} for {{order.dealer.name}}', data)).toBe('ORD-000001 for Harbour Motors');
+        expect(text('[{{order.poRef}}][{{order.missing.name}}][{{nothing}}]', data)).toBe('[][][]');
+    });
+
+    it('ignores inherited properties such as constructor and __proto__', () => {
+        const data = { order: { orderNo: 'ORD-000001' } };
+
+        expect(text('[{{constructor}}][{{__proto__}}][{{order.constructor.name}}][{{toString}}]', data)).toBe('[][][][]');
+        expect(text('{{#if constructor}}yes{{else}}no{{/if}}', data)).toBe('no');
+    });
+});
+
+describe('renderTemplate blocks', () => {
+    const order = {
+        orderNo: 'ORD-000001',
+        currency: 'GBP',
+        lines: [
+            { productCode: 'LR000001', qty: 2, backorderedQty: 0, notes: ['Fragile'] },
+            { productCode: 'LR000002', qty: 1, backorderedQty: 1, notes: [] }
+        ]
+    };
+
+    it('repeats #each with this, @index and the item fields', () => {
+        expect(text('{{#each lines}}{{@index}}:{{productCode}}x{{this.qty}} {{/each}}', order)).toBe('0:LR000001x2 1:LR000002x1 ');
+        expect(text('{{#each tags}}{{this}},{{/each}}', { tags: ['a', 'b'] })).toBe('a,b,');
+    });
+
+    it('renders the else branch of #each for an empty or missing list', () => {
+        expect(text('{{#each lines}}x{{else}}No lines{{/each}}', { lines: [] })).toBe('No lines');
+        expect(text('{{#each lines}}x{{else}}No lines{{/each}}', {})).toBe('No lines');
+    });
+
+    it('nests #each and #if/else, looking names up in enclosing scopes', () => {
+        const source = '{{#each lines}}{{productCode}} {{currency}}'
+            + '{{#if backorderedQty}} ({{backorderedQty}} to follow){{else}} (in stock){{/if}}'
+            + '{{#each notes}} [{{this}} on {{orderNo}}]{{/each}};{{/each}}';
+
+        expect(text(source, order)).toBe('LR000001 GBP (in stock) [Fragile on ORD-000001];LR000002 GBP (1 to follow);');
+    });
+
+    it('treats empty lists as false in #if and #unless', () => {
+        expect(text('{{#if lines}}some{{else}}none{{/if}}', { lines: [] })).toBe('none');
+        expect(text('{{#unless lines}}none{{else}}some{{/unless}}', { lines: [1] })).toBe('some');
+    });
+});
+
+describe('renderTemplate syntax errors', () => {
+    it.each([
+        ['{{#each lines}}open', '{{#each lines}} is never closed'],
+        ['{{#if a}}x{{/each}}', '{{/each}} does not close {{#if a}}'],
+        ['x{{/if}}', '{{/if}} does not close an open block'],
+        ['{{else}}', '{{else}} outside a block'],
+        ['{{#if a}}x{{else}}y{{else}}z{{/if}}', '{{else}} outside a block'],
+        ['{{}}', 'Empty tag {{}}'],
+        ['{{#each}}{{/each}}', '{{#each}} needs a name'],
+        ['Hi {{name!}}', 'Unrecognised tag near "{{name!}}"']
+    ])('rejects %s', (source, message) => {
+        expect(() => text(source, {})).toThrow(new TemplateSyntaxError(message));
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * A small Handlebars-compatible subset for email templates:
+ *   {{name}} / {{order.total}}   value, HTML-escaped when rendering HTML
+ *   {{{name}}}                   value, never escaped
+ *   {{#each lines}}...{{/each}}  repeat for each item; inside, {{this}}, {{@index}} and the item's fields
+ *   {{#if x}}...{{else}}...{{/if}}, {{#unless x}}...{{/unless}}
+ * Names not found in the current item are looked up in the enclosing scopes.
+ */
+
+export class TemplateSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateSyntaxError';
+    }
+}
+
+type BlockType = 'each' | 'if' | 'unless';
+
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'value'; path: string; escape: boolean }
+    | { type: BlockType; path: string; children: TemplateNode[]; inverse: TemplateNode[] };
+
+interface Scope {
+    value: any;
+    index?: number;
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\w.@]+)\s*\}\}\}|\{\{\s*(#each|#if|#unless|\/each|\/if|\/unless|else)?\s*([\w.@]*)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+export function parseTemplate(source: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: Extract<TemplateNode, { children: TemplateNode[] }>; inElse: boolean }> = [];
+    const current = () => {
+        const top = stack[stack.length - 1];
+        return top ? (top.inElse ? top.node.inverse : top.node.children) : root;
+    };
+
+    let lastIndex = 0;
+    for (const match of source.matchAll(TAG_PATTERN)) {
+        const text = source.slice(lastIndex, match.index);
+        if (text.includes('{{')) {
+            throw new TemplateSyntaxError(`Unrecognised tag near "${text.slice(text.indexOf('{{'), text.indexOf('{{') + 30)}"`);
+        }
+        if (text) current().push({ type: 'text', value: text });
+        lastIndex = match.index! + match[0].length;
+
+        const [, rawPath, keyword, path] = match;
+        if (rawPath) {
+            current().push({ type: 'value', path: rawPath, escape: false });
+        } else if (!keyword) {
+            if (!path) throw new TemplateSyntaxError('Empty tag {{}}');
+            current().push({ type: 'value', path, escape: true });
+        } else if (keyword.startsWith('#')) {
+            if (!path) throw new TemplateSyntaxError(`{{${keyword}}} needs a name`);
+            const node = { type: keyword.slice(1) as BlockType, path, children: [], inverse: [] };
+            current().push(node);
+            stack.push({ node, inElse: false });
+        } else if (keyword === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.inElse) throw new TemplateSyntaxError('{{else}} outside a block');
+            top.inElse = true;
+        } else {
+            const top = stack.pop();
+            if (!top || `/${top.node.type}` !== keyword) {
+                throw new TemplateSyntaxError(`{{${keyword}}} does not close ${top ? `{{#${top.node.type} ${top.node.path}}}` : 'an open block'}`);
+            }
+        }
+    }
+
+    const rest = source.slice(lastIndex);
+    if (rest.includes('{{')) {
+        throw new TemplateSyntaxError(`Unrecognised tag near "${rest.slice(rest.indexOf('{{'), rest.indexOf('{{') + 30)}"`);
+    }
+    if (rest) root.push({ type: 'text', value: rest });
+    if (stack.length > 0) {
+        const open = stack[stack.length - 1].node;
+        throw new TemplateSyntaxError(`{{#${open.type} ${open.path}}} is never closed`);
+    }
+
+    return root;
+}
+
+// Own properties only, so templates cannot reach constructor, __proto__ and the like
+function hasOwn(value: any, key: string): boolean {
+    return value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function lookup(path: string, scopes: Scope[]): any {
+    const top = scopes[scopes.length - 1];
+    if (path === 'this') return top.value;
+    if (path === '@index') return top.index;
+
+    const [head, ...rest] = path.replace(/^this\./, '').split('.');
+    for (let i = scopes.length - 1; i >= 0; i--) {
+        const value = scopes[i].value;
+        if (hasOwn(value, head)) {
+            return rest.reduce((obj, key) => (hasOwn(obj, key) ? obj[key] : undefined), value[head]);
+        }
+    }
+    return undefined;
+}
+
+function isTruthy(value: any): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], html: boolean): string {
+    let out = '';
+    for (const node of nodes) {
+        switch (node.type) {
+            case 'text':
+                out += node.value;
+                break;
+            case 'value': {
+                const value = lookup(node.path, scopes);
+                const text = value === null || value === undefined ? '' : String(value);
+                out += html && node.escape ? text.replace(/[&<>"']/g, c => HTML_ESCAPES[c]) : text;
+                break;
+            }
+            case 'each': {
+                const items = lookup(node.path, scopes);
+                if (Array.isArray(items) && items.length > 0) {
+                    items.forEach((item, index) => {
+                        out += renderNodes(node.children, [...scopes, { value: item, index }], html);
+                    });
+                } else {
+                    out += renderNodes(node.inverse, scopes, html);
+                }
+                break;
+            }
+            default: {
+                const truthy = isTruthy(lookup(node.path, scopes));
+                const show = node.type === 'if' ? truthy : !truthy;
+                out += renderNodes(show ? node.children : node.inverse, scopes, html);
+            }
+        }
+    }
+    return out;
+}
+
+/**
+ * Render a template. Throws TemplateSyntaxError for malformed templates.
+ */
+export function renderTemplate(source: string, data: Record<string, any>, options: { html: boolean }): string {
+    return renderNodes(parseTemplate(source), [{ value: data }], options.html);
+}